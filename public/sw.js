@@ -0,0 +1,30 @@
+// Service worker for Web Push (see src/lib/webPush.ts and the send-push edge function).
+// Only handles pushes; nothing is cached.
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return
+  const { title, body, url, tag } = event.data.json()
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      renotify: true,
+      icon: '/favicon.svg',
+      data: { url },
+    })
+  )
+})
+
+// Focus the draft if it's already open, otherwise open it
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url ?? '/', self.location.origin)
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => new URL(w.url).pathname === url.pathname)
+      return open ? open.focus() : self.clients.openWindow(url.href)
+    })
+  )
+})
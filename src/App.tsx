@@ -51,6 +51,10 @@ const SpectatorView = lazyWithRetry(
   () => import('@/pages/league/SpectatorView').then((m) => ({ default: m.SpectatorView })),
   'SpectatorView'
 )
+const OverlayView = lazyWithRetry(
+  () => import('@/pages/league/OverlayView').then((m) => ({ default: m.OverlayView })),
+  'OverlayView'
+)
 const Summary = lazyWithRetry(
   () => import('@/pages/league/Summary').then((m) => ({ default: m.Summary })),
   'Summary'
@@ -196,6 +200,14 @@ function App() {
                         </ErrorBoundary>
                       }
                     />
+                    <Route
+                      path="/league/:id/overlay"
+                      element={
+                        <ErrorBoundary>
+                          <OverlayView />
+                        </ErrorBoundary>
+                      }
+                    />
                     <Route
                       path="/league/:id/summary"
                       element={
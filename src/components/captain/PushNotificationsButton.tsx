@@ -0,0 +1,57 @@
+import { Bell, BellOff } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { usePushNotifications } from '@/hooks/usePushNotifications'
+
+interface PushNotificationsButtonProps {
+  leagueId: string
+  captainId: string
+  captainToken: string
+}
+
+/** Turns "up next" and "on the clock" pushes on or off for this captain in this browser. */
+export function PushNotificationsButton({
+  leagueId,
+  captainId,
+  captainToken,
+}: PushNotificationsButtonProps) {
+  const { supported, subscribed, isPending, subscribe, unsubscribe } = usePushNotifications(
+    leagueId,
+    captainId,
+    captainToken
+  )
+  const { addToast } = useToast()
+
+  if (!supported) return null
+
+  async function handleToggle() {
+    try {
+      if (subscribed) {
+        await unsubscribe()
+        addToast('Push notifications turned off', 'info')
+      } else {
+        await subscribe()
+        addToast("You'll get a push when you're up next and on the clock", 'success')
+      }
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to update push notifications', 'error')
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleToggle}
+      loading={isPending}
+      title={
+        subscribed
+          ? 'Stop push notifications in this browser'
+          : "Get a push when you're up next and on the clock, even with this tab closed"
+      }
+    >
+      {subscribed ? <BellOff className="mr-1.5 h-4 w-4" /> : <Bell className="mr-1.5 h-4 w-4" />}
+      {subscribed ? 'Turn Off Pushes' : 'Turn On Pushes'}
+    </Button>
+  )
+}
@@ -0,0 +1,66 @@
+import { CheckCircle2, Circle } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { useSetCaptainReady } from '@/hooks/useReadyCheck'
+import { getUnreadyCaptains } from '@/lib/draft'
+import type { LeagueFullPublic } from '@/lib/types'
+
+interface ReadyCheckCardProps {
+  league: LeagueFullPublic
+  captainId: string
+  captainToken: string
+}
+
+/** Lets a captain tell the manager they're ready for the draft to start. */
+export function ReadyCheckCard({ league, captainId, captainToken }: ReadyCheckCardProps) {
+  const setReady = useSetCaptainReady()
+  const { addToast } = useToast()
+
+  const isReady = league.captains.find((c) => c.id === captainId)?.is_ready ?? false
+  const readyCount = league.captains.length - getUnreadyCaptains(league, league.captains).length
+
+  async function handleToggle() {
+    try {
+      await setReady.mutateAsync({ leagueId: league.id, captainToken, ready: !isReady })
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to update ready state', 'error')
+    }
+  }
+
+  return (
+    <div
+      className={`mb-4 flex flex-col gap-3 rounded-lg border p-3 sm:flex-row sm:items-center sm:p-4 ${
+        isReady
+          ? 'border-green-300 bg-green-500/5 dark:border-green-800/50'
+          : 'border-primary/50 bg-primary/5'
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        {isReady ? (
+          <CheckCircle2 className="mt-0.5 h-5 w-5 shrink-0 text-green-600 dark:text-green-400" />
+        ) : (
+          <Circle className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+        )}
+        <div>
+          <p className="font-medium">
+            {isReady ? "You're ready" : "Press Ready when you're set to draft"}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {readyCount} of {league.captains.length} captains ready.{' '}
+            {league.auto_start_when_ready
+              ? 'The draft starts as soon as everyone is ready.'
+              : 'The manager starts the draft once everyone is ready.'}
+          </p>
+        </div>
+      </div>
+      <Button
+        onClick={handleToggle}
+        loading={setReady.isPending}
+        variant={isReady ? 'outline' : 'default'}
+        className="sm:ml-auto"
+      >
+        {isReady ? 'Not Ready' : 'Ready'}
+      </Button>
+    </div>
+  )
+}
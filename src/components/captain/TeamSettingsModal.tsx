@@ -2,13 +2,15 @@ import { useState, useEffect } from 'react'
 import { X, Camera, Pencil } from 'lucide-react'
 import { useNavigate } from 'react-router-dom'
 import { useModalFocus } from '@/hooks/useModalFocus'
+import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
 import { useUpdateCaptainColorAsCaptain, useUploadTeamPhotoAsCaptain } from '@/hooks/useCaptains'
 import { useToast } from '@/components/ui/Toast'
 import { ColorPicker } from '@/components/ui/ColorPicker'
 import { ImageCropper } from '@/components/ui/ImageCropper'
 import { Input } from '@/components/ui/Input'
 import { Button } from '@/components/ui/Button'
-import type { CaptainPublic } from '@/lib/types'
+import { AutoPickStrategyPicker } from '@/components/draft/AutoPickStrategyPicker'
+import type { AutoPickStrategy, CaptainPublic } from '@/lib/types'
 
 interface TeamSettingsModalProps {
   captain: CaptainPublic & { linked_player_edit_token?: string | null }
@@ -28,6 +30,7 @@ export function TeamSettingsModal({
   const updateCaptain = useUpdateCaptainColorAsCaptain()
   const uploadTeamPhoto = useUploadTeamPhotoAsCaptain()
   const { addToast } = useToast()
+  const { data: fieldSchemas = [] } = useLeagueFieldSchemas(leagueId)
   const [teamName, setTeamName] = useState(captain.team_name || '')
   const [showCropper, setShowCropper] = useState(false)
 
@@ -46,6 +49,19 @@ export function TeamSettingsModal({
     )
   }
 
+  function handleStrategyChange(autoPickStrategy: AutoPickStrategy | null) {
+    updateCaptain.mutate(
+      { captainId: captain.id, autoPickStrategy, leagueId, captainToken },
+      {
+        onError: (err) =>
+          addToast(
+            err instanceof Error ? err.message : 'Failed to update auto-pick strategy',
+            'error'
+          ),
+      }
+    )
+  }
+
   function handleTeamNameBlur() {
     const trimmed = teamName.trim() || null
     if (trimmed !== (captain.team_name || null)) {
@@ -137,6 +153,23 @@ export function TeamSettingsModal({
                 </div>
               </div>
 
+              <div className="space-y-1">
+                <label className="text-sm text-muted-foreground" htmlFor="team-auto-pick-strategy">
+                  Auto-pick strategy
+                </label>
+                <AutoPickStrategyPicker
+                  id="team-auto-pick-strategy"
+                  value={captain.auto_pick_strategy}
+                  onChange={handleStrategyChange}
+                  fieldSchemas={fieldSchemas}
+                  inheritLabel="League default"
+                  disabled={updateCaptain.isPending}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Used when auto-pick runs and the queue is empty.
+                </p>
+              </div>
+
               {captain.player_id && captain.linked_player_edit_token && (
                 <Button
                   variant="outline"
@@ -0,0 +1,222 @@
+import { useState } from 'react'
+import { Gavel } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { usePlaceBid } from '@/hooks/useAuction'
+import {
+  AUCTION_MIN_BID,
+  getCaptainSpend,
+  getMaxBid,
+  getRosterCounts,
+  validateBid,
+} from '@/lib/auction'
+import type { AuctionNomination, CaptainPublic, LeagueFullPublic } from '@/lib/types'
+
+const QUICK_RAISES = [1, 5, 10]
+
+interface AuctionPanelProps {
+  league: LeagueFullPublic
+  nomination: AuctionNomination | null | undefined
+  nominatingCaptain: CaptainPublic | undefined
+  rosterSize: number
+  isManager: boolean
+  viewingAsCaptain?: CaptainPublic
+  captainToken?: string
+  openingBid: number
+  onOpeningBidChange: (amount: number) => void
+}
+
+export function AuctionPanel({
+  league,
+  nomination,
+  nominatingCaptain,
+  rosterSize,
+  isManager,
+  viewingAsCaptain,
+  captainToken,
+  openingBid,
+  onOpeningBidChange,
+}: AuctionPanelProps) {
+  const placeBid = usePlaceBid()
+  const { addToast } = useToast()
+  const [customBid, setCustomBid] = useState('')
+  const [managerBidderId, setManagerBidderId] = useState('')
+
+  const isActive = league.status === 'in_progress'
+  const rosterCounts = getRosterCounts(league.draft_picks)
+  const sortedCaptains = [...league.captains].sort((a, b) => a.draft_position - b.draft_position)
+
+  function maxBidFor(captainId: string) {
+    return getMaxBid(
+      league.auction_budget,
+      getCaptainSpend(league.draft_picks, captainId),
+      rosterCounts.get(captainId) ?? 0,
+      rosterSize
+    )
+  }
+
+  const findCaptain = (id: string | undefined) => league.captains.find((c) => c.id === id)
+  const teamName = (captain: CaptainPublic | undefined) =>
+    captain ? captain.team_name || captain.name : 'Unknown'
+
+  // Captains bid for themselves; managers bid on behalf of a selected captain
+  const bidder = viewingAsCaptain ?? (isManager ? findCaptain(managerBidderId) : undefined)
+  const bidderMax = bidder ? maxBidFor(bidder.id) : 0
+  const isNominator = !!viewingAsCaptain && viewingAsCaptain.id === nominatingCaptain?.id
+  const canSetOpeningBid = isNominator || (isManager && !viewingAsCaptain)
+
+  function submitBid(amount: number) {
+    if (!nomination || !bidder) return
+    const error = validateBid(amount, nomination.current_bid, bidderMax)
+    if (error) {
+      addToast(error, 'error')
+      return
+    }
+    placeBid.mutate(
+      {
+        leagueId: league.id,
+        captainId: bidder.id,
+        nominationId: nomination.id,
+        amount,
+        captainToken,
+      },
+      {
+        onSuccess: () => setCustomBid(''),
+        onError: (error) => {
+          addToast(error instanceof Error ? error.message : 'Failed to place bid', 'error')
+        },
+      }
+    )
+  }
+
+  const player = nomination ? league.players.find((p) => p.id === nomination.player_id) : undefined
+  const highBidder = findCaptain(nomination?.current_bidder_id)
+  const isHighBidder = !!bidder && bidder.id === nomination?.current_bidder_id
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-4 w-4" />
+          {nomination ? 'On the Block' : 'Nomination'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {nomination ? (
+          <>
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-lg font-semibold truncate">{player?.name ?? 'Unknown player'}</p>
+                <p className="text-sm text-muted-foreground">
+                  Nominated by {teamName(findCaptain(nomination.nominated_by_captain_id))}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-primary">${nomination.current_bid}</p>
+                <p className="text-sm text-muted-foreground">
+                  {isHighBidder ? 'You have the high bid' : `High bid: ${teamName(highBidder)}`}
+                </p>
+              </div>
+            </div>
+
+            {isActive && isManager && !viewingAsCaptain && (
+              <div className="space-y-2">
+                <Label htmlFor="auction-bidder">Bid for</Label>
+                <Select
+                  id="auction-bidder"
+                  value={managerBidderId}
+                  onChange={(e) => setManagerBidderId(e.target.value)}
+                >
+                  <option value="">Select a team</option>
+                  {sortedCaptains.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {teamName(c)} (max ${maxBidFor(c.id)})
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            )}
+
+            {isActive && bidder && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {teamName(bidder)} max bid: ${bidderMax}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {QUICK_RAISES.map((raise) => {
+                    const amount = nomination.current_bid + raise
+                    return (
+                      <Button
+                        key={raise}
+                        variant="outline"
+                        size="sm"
+                        disabled={isHighBidder || amount > bidderMax || placeBid.isPending}
+                        onClick={() => submitBid(amount)}
+                      >
+                        ${amount}
+                      </Button>
+                    )
+                  })}
+                </div>
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    submitBid(Number(customBid))
+                  }}
+                >
+                  <Input
+                    type="number"
+                    min={nomination.current_bid + 1}
+                    max={bidderMax}
+                    step={1}
+                    value={customBid}
+                    onChange={(e) => setCustomBid(e.target.value)}
+                    placeholder={`$${nomination.current_bid + 1}+`}
+                    aria-label="Custom bid amount"
+                    disabled={isHighBidder}
+                  />
+                  <Button
+                    type="submit"
+                    loading={placeBid.isPending}
+                    disabled={isHighBidder || !customBid}
+                  >
+                    Bid
+                  </Button>
+                </form>
+              </div>
+            )}
+          </>
+        ) : canSetOpeningBid && isActive && nominatingCaptain ? (
+          <div className="space-y-2">
+            <p className="font-medium text-primary">
+              {isNominator
+                ? 'Your turn to nominate. Choose a player below.'
+                : `${teamName(nominatingCaptain)} is nominating. Choose a player below.`}
+            </p>
+            <Label htmlFor="opening-bid">Opening bid</Label>
+            <Input
+              id="opening-bid"
+              type="number"
+              min={AUCTION_MIN_BID}
+              max={maxBidFor(nominatingCaptain.id)}
+              step={1}
+              value={openingBid}
+              onChange={(e) => onOpeningBidChange(Number(e.target.value))}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {isActive && nominatingCaptain
+              ? `Waiting for ${teamName(nominatingCaptain)} to nominate a player...`
+              : 'Players are nominated one at a time once the draft starts.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+import { Select } from '@/components/ui/Select'
+import { AUTO_PICK_STRATEGY_LABELS, getNumericFieldSchemas } from '@/lib/autoPickStrategy'
+import type { AutoPickStrategy, LeagueFieldSchema } from '@/lib/types'
+
+interface AutoPickStrategyPickerProps {
+  id: string
+  value: AutoPickStrategy | null
+  onChange: (value: AutoPickStrategy | null) => void
+  fieldSchemas: LeagueFieldSchema[]
+  /** Label for null, e.g. the league's strategy. Without it, null is random. */
+  inheritLabel?: string
+  disabled?: boolean
+}
+
+/**
+ * Choose how auto-pick picks once a queue is empty. Field-based strategies
+ * only offer the league's number fields.
+ */
+export function AutoPickStrategyPicker({
+  id,
+  value,
+  onChange,
+  fieldSchemas,
+  inheritLabel,
+  disabled,
+}: AutoPickStrategyPickerProps) {
+  const numericFields = getNumericFieldSchemas(fieldSchemas)
+  const selectedType = value ? value.type : inheritLabel ? '' : 'random'
+
+  function handleTypeChange(type: string) {
+    if (type === '') return onChange(null)
+    if (type === 'best_field') {
+      return onChange({ type, fieldId: numericFields[0].id, order: 'highest' })
+    }
+    if (type === 'balance') return onChange({ type, fieldIds: [numericFields[0].id] })
+    // Random is the league default, so the league stores it as null
+    onChange(inheritLabel ? { type: 'random' } : null)
+  }
+
+  function toggleBalanceField(fieldId: string, checked: boolean) {
+    if (value?.type !== 'balance') return
+    const fieldIds = checked
+      ? [...value.fieldIds, fieldId]
+      : value.fieldIds.filter((f) => f !== fieldId)
+    if (fieldIds.length > 0) onChange({ type: 'balance', fieldIds })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Select
+        id={id}
+        value={selectedType}
+        onChange={(e) => handleTypeChange(e.target.value)}
+        disabled={disabled}
+      >
+        {inheritLabel && <option value="">{inheritLabel}</option>}
+        {(Object.keys(AUTO_PICK_STRATEGY_LABELS) as AutoPickStrategy['type'][]).map((type) => (
+          <option
+            key={type}
+            value={type}
+            disabled={type !== 'random' && numericFields.length === 0}
+          >
+            {AUTO_PICK_STRATEGY_LABELS[type]}
+          </option>
+        ))}
+      </Select>
+
+      {value?.type === 'best_field' && (
+        <div className="flex gap-2">
+          <Select
+            aria-label="Field to rank by"
+            value={value.fieldId}
+            onChange={(e) => onChange({ ...value, fieldId: e.target.value })}
+            disabled={disabled}
+          >
+            {numericFields.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.field_name}
+              </option>
+            ))}
+          </Select>
+          <Select
+            aria-label="Rank order"
+            value={value.order}
+            onChange={(e) =>
+              onChange({ ...value, order: e.target.value === 'lowest' ? 'lowest' : 'highest' })
+            }
+            disabled={disabled}
+            className="w-32"
+          >
+            <option value="highest">Highest</option>
+            <option value="lowest">Lowest</option>
+          </Select>
+        </div>
+      )}
+
+      {value?.type === 'balance' && (
+        <div className="space-y-1">
+          {numericFields.map((f) => (
+            <label key={f.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={value.fieldIds.includes(f.id)}
+                onChange={(e) => toggleBalanceField(f.id, e.target.checked)}
+                disabled={disabled}
+                className="h-4 w-4 rounded border-input"
+              />
+              {f.field_name}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {numericFields.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add a number field to rank players by a stat.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react'
+import { X, PencilLine } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { useModalFocus } from '@/hooks/useModalFocus'
+import { useCorrectPick } from '@/hooks/usePickCorrections'
+import { getAvailablePlayers } from '@/lib/draft'
+import type { DraftPick, LeagueFullPublic } from '@/lib/types'
+
+interface CorrectPickModalProps {
+  league: LeagueFullPublic
+  pick: DraftPick
+  onClose: () => void
+}
+
+/**
+ * Replace the player on a recorded pick with an available player, e.g. when a
+ * captain picked the wrong one. The pick keeps its number and captain.
+ */
+export function CorrectPickModal({ league, pick, onClose }: CorrectPickModalProps) {
+  const { overlayProps } = useModalFocus({ onClose })
+  const { addToast } = useToast()
+  const correctPick = useCorrectPick()
+  const [search, setSearch] = useState('')
+  const [playerId, setPlayerId] = useState('')
+
+  const currentPlayer = league.players.find((p) => p.id === pick.player_id)
+  const captain = league.captains.find((c) => c.id === pick.captain_id)
+
+  const candidates = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return getAvailablePlayers(league.players, league.captains)
+      .filter((p) => !query || p.name.toLowerCase().includes(query))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [league.players, league.captains, search])
+
+  async function handleCorrect() {
+    if (!playerId) return
+    try {
+      await correctPick.mutateAsync({ leagueId: league.id, pickId: pick.id, playerId })
+      const newName = league.players.find((p) => p.id === playerId)?.name ?? 'the new player'
+      addToast(`Pick ${pick.pick_number} changed to ${newName}`, 'success')
+      onClose()
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to correct pick', 'error')
+    }
+  }
+
+  return (
+    <div
+      {...overlayProps}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+    >
+      <Card className="w-full max-w-md">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Correct Pick {pick.pick_number}</CardTitle>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-2 text-muted-foreground hover:bg-accent hover:text-foreground"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {captain?.team_name || captain?.name || 'Unknown'} picked{' '}
+            <span className="font-medium text-foreground">{currentPlayer?.name ?? 'Unknown'}</span>.
+            Later picks are not affected.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="correct-pick-search">Replace with</Label>
+            <Input
+              id="correct-pick-search"
+              placeholder="Search available players"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value)
+                setPlayerId('')
+              }}
+            />
+            <Select
+              aria-label="Replacement player"
+              value={playerId}
+              onChange={(e) => setPlayerId(e.target.value)}
+            >
+              <option value="">Select a player</option>
+              {candidates.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={correctPick.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleCorrect} disabled={!playerId} loading={correctPick.isPending}>
+              <PencilLine className="mr-2 h-4 w-4" />
+              Correct Pick
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
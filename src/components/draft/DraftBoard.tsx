@@ -10,15 +10,22 @@ import { SORTABLE_FIELD_TYPES } from '@/lib/playerFilters'
 import { TeamRoster } from './TeamRoster'
 import { DraftCommandBar } from './DraftCommandBar'
 import { DraftQueue } from './DraftQueue'
+import { AuctionPanel } from './AuctionPanel'
+import { TradePanel } from './TradePanel'
 import { ScheduledCountdown } from './ScheduledCountdown'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
 import { useToast } from '@/components/ui/Toast'
-import { getCurrentRound } from '@/lib/draft'
+import { getCurrentRound, getPickTimeLimit, getUnreadyCaptains } from '@/lib/draft'
+import { getTimeoutPolicyNotice } from '@/lib/timeoutPolicy'
+import { AUCTION_MIN_BID, getAuctionRosterSize } from '@/lib/auction'
 import { playSound, resumeAudioContext } from '@/lib/sounds'
 import { trackCount } from '@/lib/metrics'
 import { useDraftQueue, useAddToQueue } from '@/hooks/useDraftQueue'
 import { useDraftNotes } from '@/hooks/useDraftNotes'
+import { useOpenNomination, useNominatePlayer } from '@/hooks/useAuction'
+import { useCallTimeout } from '@/hooks/useTimeouts'
 import { useAuth } from '@/context/AuthContext'
+import type { DraftPresence } from '@/lib/presence'
 import type {
   LeagueFullPublic,
   CaptainPublic,
@@ -50,8 +57,16 @@ interface DraftBoardProps {
   onResumeDraft: () => Promise<void>
   onRestartDraft: () => Promise<void>
   onUndoLastPick: () => Promise<void>
+  onRewindToPick: (pickNumber: number, restoreQueues: boolean) => Promise<void>
   fieldSchemas?: LeagueFieldSchema[]
   onMakePick: (playerId: string, captainId: string, captainToken?: string) => Promise<void>
+  /**
+   * Mock drafts run in the browser: nothing here may write to the league, so
+   * trades, timeouts and auto-pick settings are hidden and onTimerExpire picks instead.
+   */
+  isMock?: boolean
+  onTimerExpire?: () => void
+  presence?: DraftPresence
 }
 
 type PanelTab = 'pool' | 'queue'
@@ -73,8 +88,12 @@ export function DraftBoard({
   onResumeDraft,
   onRestartDraft,
   onUndoLastPick,
+  onRewindToPick,
   fieldSchemas = [],
   onMakePick,
+  isMock = false,
+  onTimerExpire,
+  presence,
 }: DraftBoardProps) {
   const [isPicking, setIsPicking] = useState(false)
   const [isExpanded, setIsExpanded] = useState(false)
@@ -225,6 +244,7 @@ export function DraftBoard({
     availablePlayerCount: availablePlayers.length,
     captainToken,
     spectatorToken,
+    enabled: !isMock,
   })
   const { user } = useAuth()
 
@@ -263,15 +283,13 @@ export function DraftBoard({
   // Show refresh hint only when data is actually stale.
   // During active draft, no data changes are expected while the pick timer counts down,
   // so use timer duration + 10s as the threshold to avoid false "connection" warnings.
+  const pickTimeLimit = getPickTimeLimit(league, currentCaptain)
   useEffect(() => {
     if (league.status !== 'in_progress') {
       setShowRefreshHint(false)
       return
     }
-    const staleMs =
-      league.time_limit_seconds > 0
-        ? Math.max((league.time_limit_seconds + 10) * 1000, 15000)
-        : 15000
+    const staleMs = pickTimeLimit > 0 ? Math.max((pickTimeLimit + 10) * 1000, 15000) : 15000
     let wasStale = false
     const checkStaleness = () => {
       const isStale = Date.now() - dataUpdatedAt > staleMs
@@ -284,9 +302,21 @@ export function DraftBoard({
     checkStaleness()
     const interval = setInterval(checkStaleness, 5000)
     return () => clearInterval(interval)
-  }, [league.status, league.time_limit_seconds, dataUpdatedAt])
+  }, [league.status, pickTimeLimit, dataUpdatedAt])
 
   const isActive = league.status === 'in_progress'
+
+  // Auction drafts: the "pick" action nominates a player with an opening bid
+  const isAuction = league.draft_type === 'auction'
+  const { data: openNomination } = useOpenNomination(league.id, isAuction)
+  const nominatePlayer = useNominatePlayer()
+  const [openingBid, setOpeningBid] = useState(AUCTION_MIN_BID)
+  const auctionRosterSize = getAuctionRosterSize(
+    availablePlayers.length + league.draft_picks.length,
+    league.captains.length
+  )
+  const canSelectPlayer = canPick && isActive && !(isAuction && openNomination)
+
   const currentRound = getCurrentRound(league.current_pick_index, league.captains.length)
   const totalRounds = Math.ceil(
     (availablePlayers.length + league.draft_picks.length) / league.captains.length
@@ -309,26 +339,55 @@ export function DraftBoard({
   const canStartDraft =
     league.status === 'not_started' &&
     league.captains.length >= 2 &&
-    availablePlayers.length >= league.captains.length
+    availablePlayers.length >= league.captains.length &&
+    getUnreadyCaptains(league, league.captains).length === 0
 
   const isMyTurn = canPick && currentCaptain?.id === viewingAsCaptain?.id
 
+  // Timeouts left for the captain on the clock, only offered on their own turn
+  const callTimeout = useCallTimeout()
+  const timeoutsLeft =
+    isMyTurn && !isAuction && !isMock && currentCaptain
+      ? league.timeouts_per_captain - currentCaptain.timeouts_used
+      : undefined
+
+  function handleCallTimeout() {
+    if (!currentCaptain) return
+    callTimeout.mutate(
+      { leagueId: league.id, captainId: currentCaptain.id, captainToken },
+      {
+        onSuccess: () => {
+          addToast(`Timeout called: +${league.timeout_seconds}s`, 'success')
+        },
+        onError: (error) => {
+          addToast(error instanceof Error ? error.message : 'Failed to call timeout', 'error')
+        },
+      }
+    )
+  }
+
+  // Upcoming pick indexes, skipping picks already filled by keepers
+  const upcomingPickIndexes = useMemo(() => {
+    const filled = new Set(league.draft_picks.map((p) => p.pick_number - 1))
+    const indexes: number[] = []
+    for (let i = league.current_pick_index + 1; i < pickOrder.length; i++) {
+      if (!filled.has(i)) indexes.push(i)
+    }
+    return indexes
+  }, [league.draft_picks, league.current_pick_index, pickOrder])
+
   // Calculate picks until captain's next turn
   const picksUntilMyTurn = useMemo(() => {
     if (!viewingAsCaptain || !isActive || isMyTurn) return null
-    for (let i = league.current_pick_index + 1; i < pickOrder.length; i++) {
-      if (pickOrder[i] === viewingAsCaptain.id) return i - league.current_pick_index
-    }
-    return null
-  }, [viewingAsCaptain, isActive, isMyTurn, league.current_pick_index, pickOrder])
+    const position = upcomingPickIndexes.findIndex((i) => pickOrder[i] === viewingAsCaptain.id)
+    return position === -1 ? null : position + 1
+  }, [viewingAsCaptain, isActive, isMyTurn, upcomingPickIndexes, pickOrder])
   // Compute the "on deck" captain (next to pick)
   const onDeckCaptain = useMemo(() => {
-    if (!isActive) return undefined
-    const nextIndex = league.current_pick_index + 1
-    if (nextIndex >= pickOrder.length) return undefined
-    const nextId = pickOrder[nextIndex]
+    if (!isActive || upcomingPickIndexes.length === 0) return undefined
+    const nextId = pickOrder[upcomingPickIndexes[0]]
     return league.captains.find((c) => c.id === nextId)
-  }, [isActive, league.current_pick_index, pickOrder, league.captains])
+  }, [isActive, upcomingPickIndexes, pickOrder, league.captains])
 
   const prevPickIndexRef = useRef(league.current_pick_index)
   const prevIsMyTurnRef = useRef(isMyTurn)
@@ -340,8 +399,10 @@ export function DraftBoard({
       resumeAudioContext()
       playSound('pickMade')
 
-      // Announce the pick for screen readers
-      const lastPick = league.draft_picks[league.draft_picks.length - 1]
+      // Announce the pick for screen readers (keeper picks were placed at the start)
+      const lastPick = league.draft_picks
+        .filter((p) => !p.is_keeper && p.pick_number <= league.current_pick_index)
+        .sort((a, b) => b.pick_number - a.pick_number)[0]
       if (lastPick) {
         const captain = league.captains.find((c) => c.id === lastPick.captain_id)
         const player = league.players.find((p) => p.id === lastPick.player_id)
@@ -373,6 +434,22 @@ export function DraftBoard({
     prevIsMyTurnRef.current = isMyTurn
   }, [isMyTurn, league.status, league.name, viewingAsCaptain])
 
+  // Tell the captain when the league's consecutive-timeout policy kicks in for them
+  const myTimeouts =
+    league.captains.find((c) => c.id === viewingAsCaptain?.id)?.consecutive_timeout_picks ?? 0
+  const prevMyTimeoutsRef = useRef(myTimeouts)
+
+  useEffect(() => {
+    const notice = getTimeoutPolicyNotice(league, prevMyTimeoutsRef.current, myTimeouts)
+    prevMyTimeoutsRef.current = myTimeouts
+    if (!notice || isMock || !league.consecutive_timeout_notify) return
+
+    addToast(notice, 'info')
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      new Notification(league.name, { body: notice, icon: '/favicon.ico' })
+    }
+  }, [myTimeouts, league, isMock, addToast])
+
   const showNotificationBanner =
     !!viewingAsCaptain && notificationPermission === 'default' && !notificationDismissed
 
@@ -386,6 +463,17 @@ export function DraftBoard({
 
     setIsPicking(true)
     try {
+      if (isAuction) {
+        await nominatePlayer.mutateAsync({
+          leagueId: league.id,
+          captainId: currentCaptain.id,
+          playerId,
+          amount: openingBid,
+          captainToken,
+        })
+        setOpeningBid(AUCTION_MIN_BID)
+        return
+      }
       await onMakePick(playerId, currentCaptain.id, captainToken)
       // Sound is played by the useEffect watching league.current_pick_index,
       // which fires for all pick types (manual, auto, other captains).
@@ -433,13 +521,15 @@ export function DraftBoard({
           {isActive && currentCaptain && (
             <p className="text-muted-foreground">
               {isMyTurn ? (
-                <span className="font-medium text-primary">Your turn to pick!</span>
+                <span className="font-medium text-primary">
+                  {isAuction ? 'Your turn to nominate!' : 'Your turn to pick!'}
+                </span>
               ) : (
                 <>
                   <span className="font-medium">
                     {currentCaptain.team_name || currentCaptain.name}
                   </span>{' '}
-                  is picking...
+                  {isAuction ? 'is nominating...' : 'is picking...'}
                   {picksUntilMyTurn !== null && (
                     <span className="ml-2 text-sm">
                       (
@@ -486,12 +576,16 @@ export function DraftBoard({
           onResumeDraft={onResumeDraft}
           onRestartDraft={onRestartDraft}
           onUndoLastPick={onUndoLastPick}
-          onTimerExpire={handleTimerExpire}
+          onRewindToPick={onRewindToPick}
+          onTimerExpire={onTimerExpire ?? handleTimerExpire}
+          timeoutsLeft={timeoutsLeft}
+          isCallingTimeout={callTimeout.isPending}
+          onCallTimeout={handleCallTimeout}
         />
       </div>
 
       {/* Stale data banner — only shown when both realtime and polling fail */}
-      {showRefreshHint && isActive && (
+      {showRefreshHint && isActive && !isMock && (
         <div className="flex items-center gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 px-3 py-2 text-sm text-yellow-600 dark:text-yellow-400">
           <WifiOff className="h-4 w-4 flex-shrink-0" />
           <span>Data may be outdated. Check your connection.</span>
@@ -538,6 +632,30 @@ export function DraftBoard({
         </div>
       )}
 
+      {isAuction && league.status !== 'not_started' && league.status !== 'completed' && (
+        <AuctionPanel
+          league={league}
+          nomination={openNomination}
+          nominatingCaptain={currentCaptain}
+          rosterSize={auctionRosterSize}
+          isManager={isManager}
+          viewingAsCaptain={viewingAsCaptain}
+          captainToken={captainToken}
+          openingBid={openingBid}
+          onOpeningBidChange={setOpeningBid}
+        />
+      )}
+
+      {!isAuction && !isMock && league.status !== 'completed' && (
+        <TradePanel
+          league={league}
+          pickOrder={pickOrder}
+          isManager={isManager}
+          viewingAsCaptain={viewingAsCaptain}
+          captainToken={captainToken}
+        />
+      )}
+
       {/* Main content: Teams sidebar (left) + Player pool/queue (right) */}
       <div className="flex flex-col lg:flex-row gap-4 sm:gap-6">
         {/* Teams sidebar — desktop: left, fixed width, scrollable */}
@@ -553,9 +671,19 @@ export function DraftBoard({
                 currentCaptainId={currentCaptain?.id}
                 highlightCaptainId={viewingAsCaptain?.id}
                 customFieldsMap={customFieldsMap}
-                isManager={isManager}
+                isManager={isManager && !isMock}
                 leagueId={league.id}
                 layout="stack"
+                draftPicks={league.draft_picks}
+                auctionBudget={isAuction ? league.auction_budget : undefined}
+                rosterSlots={isAuction ? null : league.roster_slots}
+                rosterSlotSchemaId={league.roster_slot_schema_id}
+                timeBankSeconds={
+                  league.timer_mode === 'time_bank' && !isAuction
+                    ? league.time_bank_seconds
+                    : undefined
+                }
+                presence={isMock ? undefined : presence?.captains}
               />
             </CardContent>
           </Card>
@@ -593,9 +721,10 @@ export function DraftBoard({
                 <PlayerPool
                   players={availablePlayers}
                   customFieldsMap={customFieldsMap}
-                  canPick={canPick && isActive}
+                  canPick={canSelectPlayer}
                   onPick={handlePick}
                   isPicking={isPicking}
+                  pickVerb={isAuction ? 'Nominate' : undefined}
                   onAddToQueue={viewingAsCaptain ? handleAddToQueue : undefined}
                   queuedPlayerIds={queuedPlayerIds}
                   isAddingToQueue={addToQueue.isPending}
@@ -623,6 +752,7 @@ export function DraftBoard({
                   fieldSchemas={fieldSchemas}
                   notes={notesOwnerId ? notes : undefined}
                   onNoteChange={notesOwnerId ? setNote : undefined}
+                  showAutoPickToggle={!isMock}
                 />
               )}
             </CardContent>
@@ -663,12 +793,13 @@ export function DraftBoard({
                 <PlayerPool
                   players={availablePlayers}
                   customFieldsMap={customFieldsMap}
-                  canPick={canPick && isActive}
+                  canPick={canSelectPlayer}
                   onPick={(playerId) => {
                     handlePick(playerId)
                     setIsExpanded(false)
                   }}
                   isPicking={isPicking}
+                  pickVerb={isAuction ? 'Nominate' : undefined}
                   showExpandedDetails={true}
                   onAddToQueue={viewingAsCaptain ? handleAddToQueue : undefined}
                   queuedPlayerIds={queuedPlayerIds}
@@ -697,6 +828,7 @@ export function DraftBoard({
                   notes={notesOwnerId ? notes : undefined}
                   onNoteChange={notesOwnerId ? setNote : undefined}
                   showExpandedDetails={true}
+                  showAutoPickToggle={!isMock}
                 />
               )}
             </CardContent>
@@ -1,6 +1,8 @@
-import { Zap } from 'lucide-react'
+import { Hourglass, Zap } from 'lucide-react'
 import { PickTimer } from './PickTimer'
 import { DraftControls } from './DraftControls'
+import { Button } from '@/components/ui/Button'
+import { getPickTimeLimit, getUnreadyCaptains } from '@/lib/draft'
 import type { LeagueFullPublic, CaptainPublic } from '@/lib/types'
 
 interface DraftCommandBarProps {
@@ -15,7 +17,12 @@ interface DraftCommandBarProps {
   onResumeDraft: () => Promise<void>
   onRestartDraft: () => Promise<void>
   onUndoLastPick: () => Promise<void>
+  onRewindToPick: (pickNumber: number, restoreQueues: boolean) => Promise<void>
   onTimerExpire: () => void
+  /** Timeouts the viewing captain has left; the button only shows when set. */
+  timeoutsLeft?: number
+  isCallingTimeout?: boolean
+  onCallTimeout?: () => void
 }
 
 export function DraftCommandBar({
@@ -30,10 +37,14 @@ export function DraftCommandBar({
   onResumeDraft,
   onRestartDraft,
   onUndoLastPick,
+  onRewindToPick,
   onTimerExpire,
+  timeoutsLeft,
+  isCallingTimeout,
+  onCallTimeout,
 }: DraftCommandBarProps) {
   const isActive = league.status === 'in_progress'
-  const hasPicks = league.draft_picks.length > 0
+  const hasPicks = league.draft_picks.some((p) => !p.is_keeper)
 
   return (
     <div className="flex items-center gap-2 sm:gap-3 rounded-lg border border-border bg-card px-3 py-2 shadow-sm">
@@ -67,13 +78,28 @@ export function DraftCommandBar({
         )}
         <PickTimer
           currentPickStartedAt={league.current_pick_started_at}
-          timeLimitSeconds={league.time_limit_seconds}
+          timeLimitSeconds={getPickTimeLimit(league, currentCaptain)}
           isActive={isActive}
           onExpire={onTimerExpire}
           compact
+          isTimeBank={league.timer_mode === 'time_bank' && league.draft_type !== 'auction'}
         />
       </div>
 
+      {/* Timeout for the captain on the clock */}
+      {isActive && onCallTimeout && timeoutsLeft !== undefined && timeoutsLeft > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onCallTimeout}
+          loading={isCallingTimeout}
+          title={`Add ${league.timeout_seconds}s to your pick`}
+        >
+          <Hourglass className="mr-1.5 h-3.5 w-3.5" />
+          Timeout ({timeoutsLeft})
+        </Button>
+      )}
+
       {/* Manager controls */}
       {isManager && (
         <div className="flex items-center border-l border-border pl-3">
@@ -82,12 +108,15 @@ export function DraftCommandBar({
             canStart={canStartDraft}
             captainCount={league.captains.length}
             playerCount={availablePlayerCount}
+            unreadyCount={getUnreadyCaptains(league, league.captains).length}
             hasPicks={hasPicks}
             onStart={onStartDraft}
             onPause={onPauseDraft}
             onResume={onResumeDraft}
             onRestart={onRestartDraft}
             onUndo={onUndoLastPick}
+            league={league}
+            onRewind={onRewindToPick}
             compact
           />
         </div>
@@ -1,19 +1,25 @@
 import { useState } from 'react'
-import { Play, Pause, RotateCcw, Undo2, Check } from 'lucide-react'
+import { Play, Pause, RotateCcw, Undo2, Check, History } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
-import type { LeagueStatus } from '@/lib/types'
+import { RewindDraftModal } from './RewindDraftModal'
+import type { LeagueFullPublic, LeagueStatus } from '@/lib/types'
 
 interface DraftControlsProps {
   status: LeagueStatus
   canStart: boolean
   captainCount: number
   playerCount: number
+  /** Captains who haven't pressed Ready in ready check leagues */
+  unreadyCount?: number
   hasPicks: boolean
   onStart: () => Promise<void>
   onPause: () => Promise<void>
   onResume: () => Promise<void>
   onRestart: () => Promise<void>
   onUndo: () => Promise<void>
+  /** League for the rewind preview */
+  league: LeagueFullPublic
+  onRewind: (pickNumber: number, restoreQueues: boolean) => Promise<void>
   compact?: boolean
 }
 
@@ -22,17 +28,21 @@ export function DraftControls({
   canStart,
   captainCount,
   playerCount,
+  unreadyCount = 0,
   hasPicks,
   onStart,
   onPause,
   onResume,
   onRestart,
   onUndo,
+  league,
+  onRewind,
   compact = false,
 }: DraftControlsProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [showRestartConfirm, setShowRestartConfirm] = useState(false)
   const [showUndoConfirm, setShowUndoConfirm] = useState(false)
+  const [showRewind, setShowRewind] = useState(false)
 
   async function handleAction(action: () => Promise<void>) {
     setIsLoading(true)
@@ -63,6 +73,19 @@ export function DraftControls({
     }
   }
 
+  const startBlockers: string[] = []
+  if (captainCount < 2) startBlockers.push(`Need at least 2 captains (have ${captainCount})`)
+  if (playerCount < captainCount)
+    startBlockers.push(`Need at least ${captainCount} available players (have ${playerCount})`)
+  if (unreadyCount > 0)
+    startBlockers.push(
+      `Waiting for ${unreadyCount} captain${unreadyCount === 1 ? '' : 's'} to press Ready`
+    )
+
+  const rewindModal = showRewind && (
+    <RewindDraftModal league={league} onRewind={onRewind} onClose={() => setShowRewind(false)} />
+  )
+
   // --- Compact mode ---
   if (compact) {
     if (status === 'completed') {
@@ -81,6 +104,7 @@ export function DraftControls({
           disabled={!canStart}
           loading={isLoading}
           size="sm"
+          title={!canStart ? startBlockers.join('\n') || undefined : undefined}
         >
           <Play className="mr-1.5 h-3.5 w-3.5" />
           Start Draft
@@ -129,6 +153,16 @@ export function DraftControls({
               <Undo2 className="h-3.5 w-3.5" />
             </Button>
           )}
+          <Button
+            variant="outline"
+            onClick={() => setShowRewind(true)}
+            disabled={isLoading || !hasPicks}
+            size="sm"
+            title="Rewind to Pick"
+            aria-label="Rewind to Pick"
+          >
+            <History className="h-3.5 w-3.5" />
+          </Button>
           {showRestartConfirm ? (
             <>
               <Button variant="destructive" onClick={handleRestart} loading={isLoading} size="sm">
@@ -155,6 +189,7 @@ export function DraftControls({
               <RotateCcw className="h-3.5 w-3.5" />
             </Button>
           )}
+          {rewindModal}
         </div>
       )
     }
@@ -198,6 +233,17 @@ export function DraftControls({
             <Undo2 className="h-3.5 w-3.5" />
           </Button>
         )}
+        <Button
+          variant="outline"
+          onClick={() => setShowRewind(true)}
+          disabled={isLoading || !hasPicks}
+          size="sm"
+          title="Rewind to Pick"
+          aria-label="Rewind to Pick"
+        >
+          <History className="h-3.5 w-3.5" />
+        </Button>
+        {rewindModal}
       </div>
     )
   }
@@ -212,11 +258,6 @@ export function DraftControls({
   }
 
   if (status === 'not_started') {
-    const reasons: string[] = []
-    if (captainCount < 2) reasons.push(`Need at least 2 captains (have ${captainCount})`)
-    if (playerCount < captainCount)
-      reasons.push(`Need at least ${captainCount} available players (have ${playerCount})`)
-
     return (
       <div className="space-y-2">
         <Button
@@ -229,9 +270,9 @@ export function DraftControls({
           <Play className="mr-2 h-5 w-5" />
           Start Draft
         </Button>
-        {!canStart && reasons.length > 0 && (
+        {!canStart && startBlockers.length > 0 && (
           <div className="rounded-md bg-yellow-500/10 p-3 text-sm text-yellow-600 dark:text-yellow-400">
-            {reasons.map((r, i) => (
+            {startBlockers.map((r, i) => (
               <div key={i}>{r}</div>
             ))}
           </div>
@@ -318,7 +359,16 @@ export function DraftControls({
               Undo Last Pick
             </Button>
           )}
+          <Button
+            variant="outline"
+            onClick={() => setShowRewind(true)}
+            disabled={isLoading || !hasPicks}
+          >
+            <History className="mr-2 h-4 w-4" />
+            Rewind
+          </Button>
         </div>
+        {rewindModal}
       </div>
     )
   }
@@ -355,6 +405,16 @@ export function DraftControls({
           Undo Pick
         </Button>
       )}
+      <Button
+        onClick={() => setShowRewind(true)}
+        disabled={isLoading || !hasPicks}
+        variant="outline"
+        title="Rewind to an earlier pick"
+      >
+        <History className="mr-2 h-4 w-4" />
+        Rewind
+      </Button>
+      {rewindModal}
     </div>
   )
 }
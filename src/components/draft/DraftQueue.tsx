@@ -23,6 +23,8 @@ interface DraftQueueProps {
   notes?: Record<string, string>
   onNoteChange?: (playerId: string, note: string) => void
   showExpandedDetails?: boolean
+  /** Hide the auto-pick switch (mock drafts, where it would change the real setting) */
+  showAutoPickToggle?: boolean
 }
 
 interface QueueEntry {
@@ -234,6 +236,7 @@ export function DraftQueue({
   notes = {},
   onNoteChange,
   showExpandedDetails = false,
+  showAutoPickToggle = true,
 }: DraftQueueProps) {
   const { data: queue = [], isLoading } = useDraftQueue(captain.id)
   const removeFromQueue = useRemoveFromQueue()
@@ -327,34 +330,36 @@ export function DraftQueue({
   return (
     <div className="flex h-full flex-col">
       {/* Auto-pick toggle */}
-      <div className="mb-4">
-        <button
-          type="button"
-          role="switch"
-          aria-checked={isAutoPickEnabled}
-          onClick={handleToggleAutoPick}
-          disabled={toggleAutoPick.isPending}
-          className="flex cursor-pointer items-center gap-3 disabled:cursor-not-allowed disabled:opacity-50"
-        >
-          <div
-            className={`relative h-6 w-11 rounded-full transition-colors ${
-              isAutoPickEnabled ? 'bg-primary' : 'bg-muted'
-            }`}
+      {showAutoPickToggle && (
+        <div className="mb-4">
+          <button
+            type="button"
+            role="switch"
+            aria-checked={isAutoPickEnabled}
+            onClick={handleToggleAutoPick}
+            disabled={toggleAutoPick.isPending}
+            className="flex cursor-pointer items-center gap-3 disabled:cursor-not-allowed disabled:opacity-50"
           >
             <div
-              className={`absolute top-1 h-4 w-4 rounded-full bg-background transition-transform ${
-                isAutoPickEnabled ? 'left-6' : 'left-1'
+              className={`relative h-6 w-11 rounded-full transition-colors ${
+                isAutoPickEnabled ? 'bg-primary' : 'bg-muted'
               }`}
-            />
-          </div>
-          <span className="text-sm font-medium">Auto-pick</span>
-        </button>
-        <p className="mt-1 text-xs text-muted-foreground">
-          {isAutoPickEnabled
-            ? 'When your turn starts, the top player from your queue will be picked automatically.'
-            : 'When your timer expires, a player will be picked from your queue (or randomly if empty).'}
-        </p>
-      </div>
+            >
+              <div
+                className={`absolute top-1 h-4 w-4 rounded-full bg-background transition-transform ${
+                  isAutoPickEnabled ? 'left-6' : 'left-1'
+                }`}
+              />
+            </div>
+            <span className="text-sm font-medium">Auto-pick</span>
+          </button>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {isAutoPickEnabled
+              ? 'When your turn starts, the top player from your queue will be picked automatically.'
+              : 'When your timer expires, a player will be picked from your queue (or randomly if empty).'}
+          </p>
+        </div>
+      )}
 
       {/* Queue list */}
       <div className="flex-1 overflow-y-auto rounded-lg border border-border">
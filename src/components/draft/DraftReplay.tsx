@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react'
+import { ChevronLeft, ChevronRight, History, SkipBack, SkipForward } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
+import { useDraftEvents } from '@/hooks/useDraftEvents'
+import { describeDraftEvent, replayDraftEvents } from '@/lib/draftReplay'
+import { cn } from '@/lib/utils'
+import type { LeagueFullPublic } from '@/lib/types'
+
+interface DraftReplayProps {
+  league: LeagueFullPublic
+}
+
+/**
+ * Step through the draft's event log and see the board as it was after each
+ * event, including picks that were later undone or wiped by a restart.
+ */
+export function DraftReplay({ league }: DraftReplayProps) {
+  const { data: events = [] } = useDraftEvents(league.id)
+  // null follows the latest event as new ones arrive
+  const [position, setPosition] = useState<number | null>(null)
+  const count = Math.min(position ?? events.length, events.length)
+  const state = useMemo(() => replayDraftEvents(events, count), [events, count])
+
+  if (events.length === 0) return null
+
+  const sortedCaptains = [...league.captains].sort((a, b) => a.draft_position - b.draft_position)
+  const currentEvent = count > 0 ? events[count - 1] : null
+
+  function captainName(captainId: string | null): string {
+    const captain = league.captains.find((c) => c.id === captainId)
+    return captain?.team_name || captain?.name || 'Unknown'
+  }
+
+  function playerName(playerId: string | null): string {
+    return league.players.find((p) => p.id === playerId)?.name ?? 'Unknown'
+  }
+
+  function goTo(next: number) {
+    setPosition(next >= events.length ? null : Math.max(0, next))
+  }
+
+  return (
+    <>
+      <h2 className="mb-4 mt-8 text-xl font-semibold">Draft Replay</h2>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-5 w-5" />
+            {currentEvent
+              ? describeDraftEvent(currentEvent, captainName, playerName)
+              : 'Before the draft'}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Event {count} of {events.length}
+            {currentEvent && ` · ${new Date(currentEvent.created_at).toLocaleString()}`}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => goTo(0)}
+              disabled={count === 0}
+              aria-label="First event"
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => goTo(count - 1)}
+              disabled={count === 0}
+              aria-label="Previous event"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <input
+              type="range"
+              min={0}
+              max={events.length}
+              value={count}
+              onChange={(e) => goTo(Number(e.target.value))}
+              className="mx-2 flex-1 accent-primary"
+              aria-label="Draft timeline"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => goTo(count + 1)}
+              disabled={count === events.length}
+              aria-label="Next event"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => goTo(events.length)}
+              disabled={count === events.length}
+              aria-label="Latest event"
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {sortedCaptains.map((captain) => {
+              const picks = state.picks.filter((p) => p.captainId === captain.id)
+              return (
+                <div key={captain.id} className="rounded-md border border-border">
+                  <div className="flex items-center gap-2 border-b border-border px-3 py-2 text-sm font-medium">
+                    {captain.team_color && (
+                      <span
+                        className="h-3 w-3 flex-shrink-0 rounded-full"
+                        style={{ backgroundColor: captain.team_color }}
+                      />
+                    )}
+                    <span className="truncate">{captain.team_name || captain.name}</span>
+                  </div>
+                  {picks.length === 0 ? (
+                    <p className="px-3 py-2 text-sm text-muted-foreground">No picks</p>
+                  ) : (
+                    <ol className="divide-y divide-border">
+                      {picks.map((pick) => (
+                        <li
+                          key={pick.pickNumber}
+                          className={cn(
+                            'flex items-center gap-2 px-3 py-1.5 text-sm',
+                            currentEvent?.pick_number === pick.pickNumber &&
+                              currentEvent.player_id === pick.playerId &&
+                              'bg-primary/10'
+                          )}
+                        >
+                          <span className="w-8 text-muted-foreground">#{pick.pickNumber}</span>
+                          <span className="min-w-0 flex-1 truncate">
+                            {playerName(pick.playerId)}
+                          </span>
+                          {pick.price !== null ? (
+                            <span className="text-xs font-medium">${pick.price}</span>
+                          ) : pick.isKeeper ? (
+                            <span className="rounded bg-primary/10 px-1.5 py-0.5 text-xs text-primary">
+                              Keeper
+                            </span>
+                          ) : (
+                            pick.isAutoPick && (
+                              <span className="rounded bg-yellow-500/20 px-1.5 py-0.5 text-xs text-yellow-600 dark:text-yellow-400">
+                                Auto
+                              </span>
+                            )
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { FlaskConical, LogOut } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { DraftBoard } from './DraftBoard'
+import { useMockDraft } from '@/hooks/useMockDraft'
+import type {
+  CaptainPublic,
+  LeagueFieldSchema,
+  LeagueFullPublic,
+  PlayerCustomField,
+} from '@/lib/types'
+
+const PICK_SPEED_OPTIONS = [10, 15, 30, 60]
+
+interface MockDraftProps {
+  league: LeagueFullPublic
+  dataUpdatedAt: number
+  customFieldsMap?: Record<string, PlayerCustomField[]>
+  fieldSchemas?: LeagueFieldSchema[]
+  /** The captain practising, from the captain view. Managers choose who to play as. */
+  captain?: CaptainPublic
+  captainToken?: string
+  onExit: () => void
+}
+
+/**
+ * A practice draft against bot captains on the league's real player pool.
+ * Runs entirely in the browser; no picks are saved.
+ */
+export function MockDraft({
+  league: realLeague,
+  dataUpdatedAt,
+  customFieldsMap,
+  fieldSchemas,
+  captain,
+  captainToken,
+  onExit,
+}: MockDraftProps) {
+  const [secondsPerPick, setSecondsPerPick] = useState(15)
+  const [playAsId, setPlayAsId] = useState<string | null>(
+    captain?.id ?? realLeague.captains[0]?.id ?? null
+  )
+  const humanCaptainId = captain?.id ?? playAsId
+
+  const mock = useMockDraft(realLeague, { humanCaptainId, secondsPerPick, customFieldsMap })
+  const { league, currentCaptain } = mock
+  const humanCaptain = league.captains.find((c) => c.id === humanCaptainId)
+  const canPick =
+    league.status === 'in_progress' && !!humanCaptain && currentCaptain?.id === humanCaptain.id
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 rounded-md border border-primary/50 bg-primary/10 px-3 py-2 text-sm">
+        <FlaskConical className="h-4 w-4 flex-shrink-0 text-primary" />
+        <span className="font-medium">Mock draft</span>
+        <span className="text-muted-foreground">
+          Picks aren&apos;t saved. Other teams are bots that pick like auto-pick.
+        </span>
+        <div className="ml-auto flex flex-wrap items-center gap-3">
+          {!captain && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="mock-play-as" className="whitespace-nowrap">
+                Play as
+              </Label>
+              <Select
+                id="mock-play-as"
+                value={playAsId ?? ''}
+                onChange={(e) => setPlayAsId(e.target.value || null)}
+                className="h-8 w-auto"
+              >
+                <option value="">Nobody (watch the bots)</option>
+                {realLeague.captains.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.team_name || c.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Label htmlFor="mock-pick-speed" className="whitespace-nowrap">
+              Pick clock
+            </Label>
+            <Select
+              id="mock-pick-speed"
+              value={secondsPerPick}
+              onChange={(e) => setSecondsPerPick(Number(e.target.value))}
+              className="h-8 w-auto"
+            >
+              {PICK_SPEED_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds}s
+                </option>
+              ))}
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={onExit}>
+            <LogOut className="mr-1.5 h-4 w-4" />
+            Exit Mock Draft
+          </Button>
+        </div>
+      </div>
+
+      <DraftBoard
+        league={league}
+        currentCaptain={currentCaptain}
+        availablePlayers={mock.availablePlayers}
+        pickOrder={mock.pickOrder}
+        dataUpdatedAt={dataUpdatedAt}
+        customFieldsMap={customFieldsMap}
+        fieldSchemas={fieldSchemas}
+        canPick={canPick}
+        isManager={true}
+        viewingAsCaptain={captain ? humanCaptain : undefined}
+        captainToken={captainToken}
+        onStartDraft={mock.startDraft}
+        onPauseDraft={mock.pauseDraft}
+        onResumeDraft={mock.resumeDraft}
+        onRestartDraft={mock.restartDraft}
+        onUndoLastPick={mock.undoLastPick}
+        onRewindToPick={mock.rewindToPick}
+        onMakePick={mock.makePick}
+        isMock={true}
+        onTimerExpire={mock.handleTimerExpire}
+      />
+    </div>
+  )
+}
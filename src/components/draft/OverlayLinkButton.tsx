@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { MonitorPlay, Check } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useToast } from '@/components/ui/Toast'
+import { getOverlayUrl } from '@/lib/overlay'
+
+interface OverlayLinkButtonProps {
+  leagueId: string
+  spectatorToken: string
+}
+
+/** Copies the broadcast overlay link, for an OBS browser source. */
+export function OverlayLinkButton({ leagueId, spectatorToken }: OverlayLinkButtonProps) {
+  const [copied, setCopied] = useState(false)
+  const { addToast } = useToast()
+
+  async function handleCopy() {
+    const url = getOverlayUrl(window.location.origin, leagueId, spectatorToken)
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      addToast('Overlay link copied. Add it to OBS as a 1920×1080 browser source.', 'success')
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      addToast('Failed to copy link', 'error')
+    }
+  }
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={handleCopy}
+      title="Copy stream overlay link"
+      aria-label="Copy stream overlay link"
+    >
+      {copied ? (
+        <Check className="mr-1.5 h-4 w-4 text-green-500 dark:text-green-400" />
+      ) : (
+        <MonitorPlay className="mr-1.5 h-4 w-4" />
+      )}
+      Overlay
+    </Button>
+  )
+}
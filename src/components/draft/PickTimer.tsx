@@ -10,6 +10,8 @@ interface PickTimerProps {
   isActive: boolean
   onExpire?: () => void
   compact?: boolean
+  /** Counting down the captain's time bank rather than a fixed per-pick limit */
+  isTimeBank?: boolean
 }
 
 export function PickTimer({
@@ -18,6 +20,7 @@ export function PickTimer({
   isActive,
   onExpire,
   compact = false,
+  isTimeBank = false,
 }: PickTimerProps) {
   const { remainingTime, isExpired } = useTimer(
     currentPickStartedAt,
@@ -66,7 +69,7 @@ export function PickTimer({
         isExpired
           ? 'Time expired, auto-picking'
           : isActive
-            ? `${formatTime(shakeKey)} remaining`
+            ? `${formatTime(shakeKey)} ${isTimeBank ? 'left in time bank' : 'remaining'}`
             : 'Waiting to start'
       }
     >
@@ -114,7 +117,9 @@ export function PickTimer({
           {isExpired
             ? 'Time expired - auto-picking...'
             : isActive
-              ? 'Time remaining to pick'
+              ? isTimeBank
+                ? 'Time left in bank'
+                : 'Time remaining to pick'
               : 'Waiting to start'}
         </p>
       )}
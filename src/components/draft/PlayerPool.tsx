@@ -12,6 +12,7 @@ import { Button } from '@/components/ui/Button'
 import { PlayerProfileModal } from '@/components/player/PlayerProfileModal'
 import { PlayerPoolItem } from './PlayerPoolItem'
 import { cn } from '@/lib/utils'
+import { compareBoardRank } from '@/lib/bigBoard'
 import {
   matchesNumberFilter,
   matchesDateFilter,
@@ -20,7 +21,7 @@ import {
 } from '@/lib/playerFilters'
 import type { PlayerPublic, PlayerCustomField, LeagueFieldSchema } from '@/lib/types'
 
-export type SortOption = 'default' | 'name-asc' | 'name-desc' | `field:${string}`
+export type SortOption = 'default' | 'name-asc' | 'name-desc' | 'board' | `field:${string}`
 
 const BASE_SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'default', label: 'Default' },
@@ -28,6 +29,11 @@ const BASE_SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'name-desc', label: 'Name Z-A' },
 ]
 
+const BOARD_SORT_OPTION: { value: SortOption; label: string } = {
+  value: 'board',
+  label: 'Big Board',
+}
+
 function compareFieldValues(
   aVal: string | undefined,
   bVal: string | undefined,
@@ -90,6 +96,8 @@ interface PlayerPoolProps {
   onClearFilters?: () => void
   sortDirection?: 'asc' | 'desc'
   onSortDirectionChange?: (dir: 'asc' | 'desc') => void
+  /** Verb shown on the pick button (e.g. "Nominate" in auction drafts) */
+  pickVerb?: string
 }
 
 export function PlayerPool({
@@ -115,6 +123,7 @@ export function PlayerPool({
   onClearFilters,
   sortDirection: controlledSortDirection,
   onSortDirectionChange,
+  pickVerb = 'Draft',
 }: PlayerPoolProps) {
   const [localSearch, setLocalSearch] = useState('')
   const [selectedId, setSelectedId] = useState<string | null>(null)
@@ -141,14 +150,22 @@ export function PlayerPool({
   const sortDirection = controlledSortDirection ?? localSortDirection
   const setSortDirection = onSortDirectionChange ?? setLocalSortDirection
 
+  const hasBoard = useMemo(() => players.some((p) => p.board_rank !== null), [players])
+
   const sortOptions = useMemo(() => {
+    const baseOptions = hasBoard ? [...BASE_SORT_OPTIONS, BOARD_SORT_OPTION] : BASE_SORT_OPTIONS
     const sortableSchemas = fieldSchemas.filter((s) => SORTABLE_FIELD_TYPES.has(s.field_type))
-    if (sortableSchemas.length === 0) return BASE_SORT_OPTIONS
+    if (sortableSchemas.length === 0) return baseOptions
     const fieldOptions = [...sortableSchemas]
       .sort((a, b) => a.field_order - b.field_order)
       .map((s) => ({ value: `field:${s.id}` as SortOption, label: s.field_name }))
-    return { base: BASE_SORT_OPTIONS, fields: fieldOptions }
-  }, [fieldSchemas])
+    return { base: baseOptions, fields: fieldOptions }
+  }, [fieldSchemas, hasBoard])
+
+  // Reset sortBy if the big board was cleared or every ranked player is gone
+  useEffect(() => {
+    if (sortBy === 'board' && !hasBoard) setSortBy('default')
+  }, [sortBy, hasBoard, setSortBy])
 
   // Reset sortBy if current selection references a text-type or deleted schema
   useEffect(() => {
@@ -196,6 +213,8 @@ export function PlayerPool({
               return a.name.localeCompare(b.name)
             case 'name-desc':
               return b.name.localeCompare(a.name)
+            case 'board':
+              return compareBoardRank(a, b)
             case 'default': {
               // Default: profile picture first, then name
               const aHasPic = a.profile_picture_url ? 1 : 0
@@ -524,8 +543,8 @@ export function PlayerPool({
             size="lg"
           >
             {selectedId
-              ? `Draft ${filteredPlayers.find((p) => p.id === selectedId)?.name}`
-              : 'Select a player to draft'}
+              ? `${pickVerb} ${filteredPlayers.find((p) => p.id === selectedId)?.name}`
+              : `Select a player to ${pickVerb.toLowerCase()}`}
           </Button>
         </div>
       )}
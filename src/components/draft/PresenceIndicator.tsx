@@ -0,0 +1,30 @@
+import { cn } from '@/lib/utils'
+import { formatPresenceStatus, type PresenceStatus } from '@/lib/presence'
+
+const statusColor: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  idle: 'bg-yellow-500',
+  hidden: 'bg-orange-400',
+}
+
+interface PresenceIndicatorProps {
+  /** undefined when the captain has no page open */
+  status: PresenceStatus | undefined
+  className?: string
+}
+
+export function PresenceIndicator({ status, className }: PresenceIndicatorProps) {
+  const label = formatPresenceStatus(status)
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={cn(
+        'inline-block h-2.5 w-2.5 flex-shrink-0 rounded-full',
+        status ? statusColor[status] : 'border border-muted-foreground/50',
+        className
+      )}
+    />
+  )
+}
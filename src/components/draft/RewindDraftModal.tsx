@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react'
+import { X, History } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { useModalFocus } from '@/hooks/useModalFocus'
+import { getPicksToRewind } from '@/lib/draft'
+import type { LeagueFullPublic } from '@/lib/types'
+
+interface RewindDraftModalProps {
+  league: LeagueFullPublic
+  onRewind: (pickNumber: number, restoreQueues: boolean) => Promise<void>
+  onClose: () => void
+}
+
+/**
+ * Pick an earlier pick to rewind to, with a preview of every pick that will be
+ * reverted. Keeper picks aren't offered and stay put.
+ */
+export function RewindDraftModal({ league, onRewind, onClose }: RewindDraftModalProps) {
+  const { overlayProps } = useModalFocus({ onClose })
+  const { addToast } = useToast()
+
+  const madePicks = useMemo(
+    () =>
+      getPicksToRewind(league.draft_picks, 0).filter(
+        (p) => p.pick_number <= league.current_pick_index
+      ),
+    [league.draft_picks, league.current_pick_index]
+  )
+  // Rewinding to the last pick would revert nothing, so it isn't a target
+  const targets = madePicks.slice(0, -1)
+
+  const [pickNumber, setPickNumber] = useState(() => targets.at(-1)?.pick_number ?? 0)
+  const [restoreQueues, setRestoreQueues] = useState(true)
+  const [isRewinding, setIsRewinding] = useState(false)
+
+  const playerNames = useMemo(
+    () => new Map(league.players.map((p) => [p.id, p.name])),
+    [league.players]
+  )
+  const captainNames = useMemo(
+    () => new Map(league.captains.map((c) => [c.id, c.team_name || c.name])),
+    [league.captains]
+  )
+
+  const reverted = madePicks.filter((p) => p.pick_number > pickNumber)
+
+  async function handleRewind() {
+    setIsRewinding(true)
+    try {
+      await onRewind(pickNumber, restoreQueues)
+      addToast(`Rewound ${reverted.length} ${reverted.length === 1 ? 'pick' : 'picks'}`, 'success')
+      onClose()
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to rewind draft', 'error')
+    } finally {
+      setIsRewinding(false)
+    }
+  }
+
+  return (
+    <div
+      {...overlayProps}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+    >
+      <Card className="w-full max-w-md">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Rewind Draft</CardTitle>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-2 text-muted-foreground hover:bg-accent hover:text-foreground"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rewind-pick">Rewind to after</Label>
+            <Select
+              id="rewind-pick"
+              value={pickNumber}
+              onChange={(e) => setPickNumber(Number(e.target.value))}
+            >
+              <option value={0}>Start of draft</option>
+              {targets.map((p) => (
+                <option key={p.pick_number} value={p.pick_number}>
+                  Pick {p.pick_number}: {playerNames.get(p.player_id) ?? 'Unknown'}
+                </option>
+              ))}
+            </Select>
+          </div>
+
+          <div>
+            <p className="mb-2 text-sm font-medium">
+              {reverted.length} {reverted.length === 1 ? 'pick' : 'picks'} will be reverted
+            </p>
+            <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md border border-border p-2 text-sm">
+              {reverted.map((p) => (
+                <li key={p.pick_number} className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    <span className="text-muted-foreground">#{p.pick_number}</span>{' '}
+                    {playerNames.get(p.player_id) ?? 'Unknown'}
+                  </span>
+                  <span className="truncate text-muted-foreground">
+                    {captainNames.get(p.captain_id) ?? 'Unknown'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={restoreQueues}
+              onChange={(e) => setRestoreQueues(e.target.checked)}
+              className="h-4 w-4 rounded border-input"
+            />
+            Put reverted players back in captains&apos; queues
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isRewinding}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRewind}
+              loading={isRewinding}
+              disabled={reverted.length === 0}
+            >
+              <History className="mr-2 h-4 w-4" />
+              Rewind
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
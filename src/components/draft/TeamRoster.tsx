@@ -1,10 +1,16 @@
 import { useState, useRef, useEffect } from 'react'
 import { Crown, User } from 'lucide-react'
 import { PlayerProfileModal } from '@/components/player/PlayerProfileModal'
+import { PresenceIndicator } from './PresenceIndicator'
 import { useAnimatedNumber } from '@/hooks/useAnimatedNumber'
 import { useToggleAutoPick } from '@/hooks/useDraftQueue'
 import { cn, getInitials } from '@/lib/utils'
-import type { CaptainPublic, PlayerPublic, PlayerCustomField } from '@/lib/types'
+import { getCaptainSpend } from '@/lib/auction'
+import { formatTime } from '@/lib/draft'
+import { getPlayerPositions, getPositionCounts, getRosterSlotStatus } from '@/lib/rosterSlots'
+import type { RosterSlots } from '@/lib/rosterSlots'
+import type { PresenceStatus } from '@/lib/presence'
+import type { CaptainPublic, DraftPick, PlayerPublic, PlayerCustomField } from '@/lib/types'
 
 function AnimatedCount({ count, label }: { count: number; label: string }) {
   const display = useAnimatedNumber(count)
@@ -24,6 +30,16 @@ interface TeamRosterProps {
   isManager?: boolean
   leagueId?: string
   layout?: 'grid' | 'stack'
+  draftPicks?: DraftPick[]
+  /** Per-team budget; when set, shows auction prices and remaining budget */
+  auctionBudget?: number
+  /** Per-position limits; when set with rosterSlotSchemaId, shows filled and open slots */
+  rosterSlots?: RosterSlots | null
+  rosterSlotSchemaId?: string | null
+  /** Starting time bank; when set, shows each captain's remaining bank */
+  timeBankSeconds?: number
+  /** Each connected captain's presence; when set, shows who has the draft open */
+  presence?: Record<string, PresenceStatus>
 }
 
 export function TeamRoster({
@@ -35,6 +51,12 @@ export function TeamRoster({
   isManager = false,
   leagueId,
   layout = 'grid',
+  draftPicks = [],
+  auctionBudget,
+  rosterSlots,
+  rosterSlotSchemaId,
+  timeBankSeconds,
+  presence,
 }: TeamRosterProps) {
   const [viewingPlayer, setViewingPlayer] = useState<PlayerPublic | null>(null)
   const toggleAutoPick = useToggleAutoPick()
@@ -62,6 +84,12 @@ export function TeamRoster({
     knownPlayerIdsRef.current = new Set(allDraftedIds)
   }, [allDraftedIds.size]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  const priceByPlayerId = new Map(draftPicks.map((p) => [p.player_id, p.price]))
+  const playerPositions =
+    rosterSlots && rosterSlotSchemaId
+      ? getPlayerPositions(customFieldsMap, rosterSlotSchemaId)
+      : undefined
+
   function getPlayersForCaptain(captainId: string) {
     return players
       .filter((p) => p.drafted_by_captain_id === captainId)
@@ -119,7 +147,10 @@ export function TeamRoster({
                   />
                 )}
                 <div className="min-w-0">
-                  <h3 className="font-semibold truncate">{captain.team_name || captain.name}</h3>
+                  <div className="flex items-center gap-1.5">
+                    <h3 className="font-semibold truncate">{captain.team_name || captain.name}</h3>
+                    {presence && <PresenceIndicator status={presence[captain.id]} />}
+                  </div>
                   {captain.team_name && (
                     <span className="text-xs text-muted-foreground truncate block">
                       {captain.name}
@@ -127,12 +158,48 @@ export function TeamRoster({
                   )}
                 </div>
               </div>
-              <AnimatedCount count={teamPlayers.length} label="players" />
+              <div className="flex flex-col items-end">
+                <AnimatedCount count={teamPlayers.length} label="players" />
+                {auctionBudget !== undefined && (
+                  <span className="text-xs font-medium text-muted-foreground">
+                    ${auctionBudget - getCaptainSpend(draftPicks, captain.id)} left
+                  </span>
+                )}
+                {timeBankSeconds !== undefined && (
+                  <span className="text-xs font-medium tabular-nums text-muted-foreground">
+                    {formatTime(captain.time_bank_remaining_seconds ?? timeBankSeconds)} bank
+                  </span>
+                )}
+              </div>
             </div>
 
+            {rosterSlots && playerPositions && (
+              <div className="mb-2 sm:mb-3 flex flex-wrap gap-1">
+                {getRosterSlotStatus(
+                  rosterSlots,
+                  getPositionCounts(
+                    teamPlayers.map((p) => p.id),
+                    playerPositions
+                  )
+                ).map(({ position, filled, limit }) => (
+                  <span
+                    key={position}
+                    className={cn(
+                      'rounded px-1.5 py-0.5 text-xs',
+                      filled >= limit
+                        ? 'bg-muted text-muted-foreground'
+                        : 'bg-primary/10 text-primary'
+                    )}
+                  >
+                    {position} {filled}/{limit}
+                  </span>
+                ))}
+              </div>
+            )}
+
             {isCurrentTurn && (
               <div className="mb-2 sm:mb-3 rounded bg-primary/10 px-2 py-1 text-center text-xs font-medium text-primary">
-                Now Picking
+                {auctionBudget !== undefined ? 'Nominating' : 'Now Picking'}
               </div>
             )}
 
@@ -206,7 +273,12 @@ export function TeamRoster({
                   <span className="flex h-5 w-5 items-center justify-center rounded bg-muted text-xs">
                     {player.draft_pick_number}
                   </span>
-                  <span>{player.name}</span>
+                  <span className="flex-1">{player.name}</span>
+                  {auctionBudget !== undefined && priceByPlayerId.get(player.id) != null && (
+                    <span className="text-xs font-medium text-muted-foreground">
+                      ${priceByPlayerId.get(player.id)}
+                    </span>
+                  )}
                 </li>
               ))}
               {teamPlayers.length === 0 && !captain.is_participant && (
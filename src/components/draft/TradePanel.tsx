@@ -0,0 +1,322 @@
+import { useState } from 'react'
+import { ArrowLeftRight } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import {
+  useTrades,
+  useProposeTrade,
+  useRespondToTrade,
+  type TradeItemInput,
+  type TradeResponseAction,
+} from '@/hooks/useTrades'
+import {
+  formatPickLabel,
+  getFirstTradablePickNumber,
+  getTradablePicks,
+  splitTradeItems,
+} from '@/lib/trades'
+import type { CaptainPublic, LeagueFullPublic, TradeItem, TradeWithItems } from '@/lib/types'
+
+interface TradePanelProps {
+  league: LeagueFullPublic
+  pickOrder: string[]
+  isManager: boolean
+  viewingAsCaptain?: CaptainPublic
+  captainToken?: string
+}
+
+// Selection keys: "pick:<number>" or "player:<id>"
+function toItemInput(key: string, fromCaptainId: string): TradeItemInput {
+  const [kind, value] = key.split(':')
+  return kind === 'pick'
+    ? { fromCaptainId, pickNumber: Number(value) }
+    : { fromCaptainId, playerId: value }
+}
+
+export function TradePanel({
+  league,
+  pickOrder,
+  isManager,
+  viewingAsCaptain,
+  captainToken,
+}: TradePanelProps) {
+  const { data: trades = [] } = useTrades(league.id)
+  const proposeTrade = useProposeTrade()
+  const respondToTrade = useRespondToTrade()
+  const { addToast } = useToast()
+
+  const [isProposing, setIsProposing] = useState(false)
+  const [partnerId, setPartnerId] = useState('')
+  const [giveKeys, setGiveKeys] = useState<Set<string>>(new Set())
+  const [getKeys, setGetKeys] = useState<Set<string>>(new Set())
+
+  const captainCount = league.captains.length
+  const firstTradablePick = getFirstTradablePickNumber(league.status, league.current_pick_index)
+  const pendingTrades = trades.filter((t) => t.status === 'pending')
+  const filledPickNumbers = new Set(league.draft_picks.map((p) => p.pick_number))
+
+  const findCaptain = (id: string) => league.captains.find((c) => c.id === id)
+  const teamName = (id: string) => {
+    const captain = findCaptain(id)
+    return captain ? captain.team_name || captain.name : 'Unknown'
+  }
+
+  function describeItem(item: TradeItem) {
+    if (item.pick_number !== null) return formatPickLabel(item.pick_number, captainCount)
+    return league.players.find((p) => p.id === item.player_id)?.name ?? 'Unknown player'
+  }
+
+  function tradeOptions(captainId: string) {
+    const picks = getTradablePicks(pickOrder, captainId, firstTradablePick, filledPickNumbers).map(
+      (n) => ({
+        key: `pick:${n}`,
+        label: formatPickLabel(n, captainCount),
+      })
+    )
+    const players = league.players
+      .filter((p) => p.drafted_by_captain_id === captainId)
+      .map((p) => ({ key: `player:${p.id}`, label: p.name }))
+    return [...picks, ...players]
+  }
+
+  function toggle(keys: Set<string>, setKeys: (keys: Set<string>) => void, key: string) {
+    const next = new Set(keys)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    setKeys(next)
+  }
+
+  function resetProposal() {
+    setIsProposing(false)
+    setPartnerId('')
+    setGiveKeys(new Set())
+    setGetKeys(new Set())
+  }
+
+  function handlePropose() {
+    if (!viewingAsCaptain || !partnerId) return
+    const items = [
+      ...[...giveKeys].map((key) => toItemInput(key, viewingAsCaptain.id)),
+      ...[...getKeys].map((key) => toItemInput(key, partnerId)),
+    ]
+    proposeTrade.mutate(
+      {
+        leagueId: league.id,
+        captainId: viewingAsCaptain.id,
+        recipientCaptainId: partnerId,
+        items,
+        captainToken,
+      },
+      {
+        onSuccess: () => {
+          addToast(`Trade proposed to ${teamName(partnerId)}`, 'success')
+          resetProposal()
+        },
+        onError: (error) => {
+          addToast(error instanceof Error ? error.message : 'Failed to propose trade', 'error')
+        },
+      }
+    )
+  }
+
+  function handleRespond(trade: TradeWithItems, action: TradeResponseAction) {
+    respondToTrade.mutate(
+      {
+        action,
+        leagueId: league.id,
+        tradeId: trade.id,
+        captainId: action === 'veto' ? undefined : viewingAsCaptain?.id,
+        captainToken,
+      },
+      {
+        onSuccess: () => {
+          if (action === 'accept') addToast('Trade accepted', 'success')
+        },
+        onError: (error) => {
+          addToast(error instanceof Error ? error.message : `Failed to ${action} trade`, 'error')
+        },
+      }
+    )
+  }
+
+  const partnerOptions = league.captains
+    .filter((c) => c.id !== viewingAsCaptain?.id)
+    .sort((a, b) => a.draft_position - b.draft_position)
+
+  // Spectators only see the panel when there's something pending
+  if (!viewingAsCaptain && !isManager && pendingTrades.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 py-3">
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-4 w-4" />
+          Trades
+        </CardTitle>
+        {viewingAsCaptain && !isProposing && (
+          <Button variant="outline" size="sm" onClick={() => setIsProposing(true)}>
+            Propose Trade
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isProposing && viewingAsCaptain && (
+          <div className="space-y-3 rounded-lg border border-border p-3">
+            <div className="space-y-2">
+              <Label htmlFor="trade-partner">Trade with</Label>
+              <Select
+                id="trade-partner"
+                value={partnerId}
+                onChange={(e) => {
+                  setPartnerId(e.target.value)
+                  setGetKeys(new Set())
+                }}
+              >
+                <option value="">Select a team</option>
+                {partnerOptions.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.team_name || c.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            {partnerId && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {[
+                  {
+                    title: 'You give',
+                    captainId: viewingAsCaptain.id,
+                    keys: giveKeys,
+                    setKeys: setGiveKeys,
+                  },
+                  {
+                    title: `${teamName(partnerId)} gives`,
+                    captainId: partnerId,
+                    keys: getKeys,
+                    setKeys: setGetKeys,
+                  },
+                ].map(({ title, captainId, keys, setKeys }) => {
+                  const options = tradeOptions(captainId)
+                  return (
+                    <fieldset key={captainId} className="space-y-1">
+                      <legend className="mb-1 text-sm font-medium">{title}</legend>
+                      {options.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nothing to trade</p>
+                      ) : (
+                        <div className="max-h-48 space-y-1 overflow-y-auto">
+                          {options.map((option) => (
+                            <label key={option.key} className="flex items-center gap-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={keys.has(option.key)}
+                                onChange={() => toggle(keys, setKeys, option.key)}
+                                className="h-4 w-4 rounded border-border"
+                              />
+                              {option.label}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </fieldset>
+                  )
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={handlePropose}
+                disabled={!partnerId || giveKeys.size + getKeys.size === 0}
+                loading={proposeTrade.isPending}
+              >
+                Send Offer
+              </Button>
+              <Button variant="outline" size="sm" onClick={resetProposal}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {pendingTrades.length === 0 ? (
+          !isProposing && <p className="text-sm text-muted-foreground">No pending trades.</p>
+        ) : (
+          <ul className="space-y-3">
+            {pendingTrades.map((trade) => {
+              const { fromProposer, fromRecipient } = splitTradeItems(
+                trade.trade_items,
+                trade.proposer_captain_id
+              )
+              const isRecipient = viewingAsCaptain?.id === trade.recipient_captain_id
+              const isProposer = viewingAsCaptain?.id === trade.proposer_captain_id
+              return (
+                <li key={trade.id} className="rounded-lg border border-border p-3 text-sm">
+                  <p className="font-medium">
+                    {teamName(trade.proposer_captain_id)} &rarr;{' '}
+                    {teamName(trade.recipient_captain_id)}
+                  </p>
+                  <div className="mt-1 grid gap-1 text-muted-foreground sm:grid-cols-2">
+                    <p>
+                      {teamName(trade.proposer_captain_id)} gives:{' '}
+                      {fromProposer.map(describeItem).join(', ') || 'nothing'}
+                    </p>
+                    <p>
+                      {teamName(trade.recipient_captain_id)} gives:{' '}
+                      {fromRecipient.map(describeItem).join(', ') || 'nothing'}
+                    </p>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {isRecipient && (
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={() => handleRespond(trade, 'accept')}
+                          disabled={respondToTrade.isPending}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRespond(trade, 'decline')}
+                          disabled={respondToTrade.isPending}
+                        >
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                    {isProposer && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRespond(trade, 'cancel')}
+                        disabled={respondToTrade.isPending}
+                      >
+                        Withdraw
+                      </Button>
+                    )}
+                    {isManager && !viewingAsCaptain && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleRespond(trade, 'veto')}
+                        disabled={respondToTrade.isPending}
+                      >
+                        Veto
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react'
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import { ErrorAlert } from '@/components/ui/ErrorAlert'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Skeleton } from '@/components/ui/Skeleton'
+import { useToast } from '@/components/ui/Toast'
+import { fetchAllAuditLogs, useAuditLogActions, useAuditLogs } from '@/hooks/useAuditLogs'
+import {
+  AUDIT_ACTOR_TYPES,
+  AUDIT_LOG_PAGE_SIZE,
+  AUDIT_LOG_RANGES,
+  describeAuditActor,
+  exportAuditLogs,
+  formatAuditAction,
+  formatAuditMetadata,
+  type AuditLogFilters,
+} from '@/lib/auditLog'
+import type { AuditActorType, LeagueFullPublic } from '@/lib/types'
+
+interface ActivityTabProps {
+  league: LeagueFullPublic
+}
+
+/**
+ * The league's audit log: every pick, undo, trade and setting change made
+ * through an edge function, with who made it and from which IP.
+ */
+export function ActivityTab({ league }: ActivityTabProps) {
+  const { addToast } = useToast()
+  const [filters, setFilters] = useState<AuditLogFilters>({
+    action: null,
+    actorType: null,
+    range: 'all',
+  })
+  const [page, setPage] = useState(0)
+  const [exporting, setExporting] = useState(false)
+  const { data, isLoading, isPlaceholderData, error } = useAuditLogs(league.id, filters, page)
+  const { data: actions = [] } = useAuditLogActions(league.id)
+
+  const logs = data?.logs ?? []
+  const total = data?.total ?? 0
+  const pageCount = Math.max(1, Math.ceil(total / AUDIT_LOG_PAGE_SIZE))
+
+  function updateFilters(changes: Partial<AuditLogFilters>) {
+    setFilters((current) => ({ ...current, ...changes }))
+    setPage(0)
+  }
+
+  async function handleExport(format: 'csv' | 'xlsx') {
+    setExporting(true)
+    try {
+      const allLogs = await fetchAllAuditLogs(league.id, filters)
+      await exportAuditLogs(league, allLogs, format)
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to export activity', 'error')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <CardDescription>
+          Every action taken through the draft room, including who took it and from which IP
+          address. Only you can see this log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="activity-action">Action</Label>
+            <Select
+              id="activity-action"
+              value={filters.action ?? ''}
+              onChange={(e) => updateFilters({ action: e.target.value || null })}
+            >
+              <option value="">All actions</option>
+              {actions.map((action) => (
+                <option key={action} value={action}>
+                  {formatAuditAction(action)}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-actor">Actor</Label>
+            <Select
+              id="activity-actor"
+              value={filters.actorType ?? ''}
+              onChange={(e) =>
+                updateFilters({ actorType: (e.target.value || null) as AuditActorType | null })
+              }
+            >
+              <option value="">Anyone</option>
+              {AUDIT_ACTOR_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-range">Time range</Label>
+            <Select
+              id="activity-range"
+              value={filters.range}
+              onChange={(e) => updateFilters({ range: e.target.value as AuditLogFilters['range'] })}
+            >
+              {AUDIT_LOG_RANGES.map((range) => (
+                <option key={range.value} value={range.value}>
+                  {range.label}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+
+        {error ? (
+          <ErrorAlert message="Failed to load activity." />
+        ) : isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : logs.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No activity matches these filters.
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className={`w-full text-sm ${isPlaceholderData ? 'opacity-60' : ''}`}>
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Time</th>
+                  <th className="px-3 py-2 text-left font-medium">Action</th>
+                  <th className="px-3 py-2 text-left font-medium">Actor</th>
+                  <th className="px-3 py-2 text-left font-medium">IP Address</th>
+                  <th className="px-3 py-2 text-left font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {logs.map((log) => (
+                  <tr key={log.id}>
+                    <td className="whitespace-nowrap px-3 py-2 text-muted-foreground">
+                      {new Date(log.created_at).toLocaleString()}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 font-medium">
+                      {formatAuditAction(log.action)}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2">
+                      {describeAuditActor(log, league)}
+                      {log.actor_type !== 'manager' && log.actor_type !== 'system' && (
+                        <span className="ml-1 text-xs text-muted-foreground">
+                          ({log.actor_type})
+                        </span>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 font-mono text-xs">
+                      {log.ip_address ?? '—'}
+                    </td>
+                    <td className="max-w-md break-words px-3 py-2 text-xs text-muted-foreground">
+                      {formatAuditMetadata(log.metadata)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page + 1} of {pageCount} · {total} {total === 1 ? 'entry' : 'entries'}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount || isPlaceholderData}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleExport('csv')}
+              disabled={exporting || total === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleExport('xlsx')}
+              disabled={exporting || total === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export XLSX
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
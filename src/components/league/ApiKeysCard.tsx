@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { Copy, KeyRound, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { useCreateApiKey, useLeagueApiKeys, useRevokeApiKey } from '@/hooks/useApiKeys'
+import {
+  MAX_API_KEY_NAME_LENGTH,
+  getPublicApiUrl,
+  sortApiKeys,
+  validateApiKeyName,
+} from '@/lib/publicApi'
+import type { LeagueApiKey } from '@/lib/types'
+
+interface ApiKeysCardProps {
+  leagueId: string
+}
+
+const PUBLIC_API_URL = getPublicApiUrl(import.meta.env.VITE_SUPABASE_URL)
+
+async function copyToClipboard(
+  text: string,
+  label: string,
+  addToast: ReturnType<typeof useToast>['addToast']
+) {
+  try {
+    await navigator.clipboard.writeText(text)
+    addToast(`${label} copied`, 'success')
+  } catch {
+    addToast(`Failed to copy ${label.toLowerCase()}`, 'error')
+  }
+}
+
+function ApiKeyItem({ apiKey }: { apiKey: LeagueApiKey }) {
+  const [confirmRevoke, setConfirmRevoke] = useState(false)
+  const revokeApiKey = useRevokeApiKey()
+  const { addToast } = useToast()
+
+  async function handleRevoke() {
+    try {
+      await revokeApiKey.mutateAsync({ id: apiKey.id, leagueId: apiKey.league_id })
+      addToast('API key revoked', 'success')
+    } catch {
+      addToast('Failed to revoke API key', 'error')
+    }
+  }
+
+  return (
+    <li className="flex flex-wrap items-center gap-2 p-3">
+      <div className="min-w-0 flex-1">
+        <p className={`text-sm font-medium ${apiKey.revoked_at ? 'text-muted-foreground' : ''}`}>
+          {apiKey.name}{' '}
+          <span className="font-mono text-xs text-muted-foreground">{apiKey.key_prefix}…</span>
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Created {new Date(apiKey.created_at).toLocaleString()} ·{' '}
+          {apiKey.last_used_at
+            ? `Last used ${new Date(apiKey.last_used_at).toLocaleString()}`
+            : 'Never used'}
+          {apiKey.revoked_at && ` · Revoked ${new Date(apiKey.revoked_at).toLocaleString()}`}
+        </p>
+      </div>
+      {!apiKey.revoked_at &&
+        (confirmRevoke ? (
+          <>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleRevoke}
+              loading={revokeApiKey.isPending}
+            >
+              Revoke
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setConfirmRevoke(false)}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => setConfirmRevoke(true)}>
+            Revoke
+          </Button>
+        ))}
+    </li>
+  )
+}
+
+/**
+ * Keys for the read-only public API (migration 048, public-api), so league
+ * sites and stats sheets can read results without scraping the Summary page.
+ */
+export function ApiKeysCard({ leagueId }: ApiKeysCardProps) {
+  const [name, setName] = useState('')
+  const [nameError, setNameError] = useState<string | null>(null)
+  // Shown once, right after creating; only the hash is stored
+  const [newKey, setNewKey] = useState<string | null>(null)
+
+  const { data: apiKeys = [] } = useLeagueApiKeys(leagueId)
+  const createApiKey = useCreateApiKey()
+  const { addToast } = useToast()
+
+  async function handleCreate() {
+    const error = validateApiKeyName(name)
+    setNameError(error)
+    if (error) return
+
+    try {
+      const { key } = await createApiKey.mutateAsync({ leagueId, name: name.trim() })
+      setNewKey(key)
+      setName('')
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to create API key', 'error')
+    }
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>API Access</CardTitle>
+        <CardDescription>
+          Let your league website or stats sheets read this league&apos;s teams, rosters and picks
+          as JSON. Send a key as <code>Authorization: Bearer &lt;key&gt;</code> in a GET request to
+          the URL below. Keys are read-only and only work for this league.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input readOnly value={PUBLIC_API_URL} className="flex-1 font-mono text-xs" />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => copyToClipboard(PUBLIC_API_URL, 'URL', addToast)}
+            title="Copy URL"
+            aria-label="Copy URL"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {newKey && (
+          <div className="space-y-2 rounded-md border border-primary/50 bg-primary/5 p-3">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <KeyRound className="h-4 w-4" />
+              Copy your new key now. You won&apos;t be able to see it again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={newKey} className="flex-1 font-mono text-xs" />
+              <Button
+                variant="outline"
+                onClick={() => copyToClipboard(newKey, 'API key', addToast)}
+              >
+                <Copy className="mr-1.5 h-4 w-4" />
+                Copy
+              </Button>
+              <Button variant="ghost" onClick={() => setNewKey(null)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {apiKeys.length > 0 && (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {sortApiKeys(apiKeys).map((apiKey) => (
+              <ApiKeyItem key={apiKey.id} apiKey={apiKey} />
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="api_key_name">Create an API Key</Label>
+          <div className="flex gap-2">
+            <Input
+              id="api_key_name"
+              placeholder="League website"
+              maxLength={MAX_API_KEY_NAME_LENGTH}
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value)
+                setNameError(null)
+              }}
+              className="flex-1"
+            />
+            <Button onClick={handleCreate} loading={createApiKey.isPending} disabled={!name.trim()}>
+              <Plus className="mr-1.5 h-4 w-4" />
+              Create
+            </Button>
+          </div>
+          {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { ChevronUp, ChevronDown, X, Plus, FileSpreadsheet, ListPlus } from 'lucide-react'
+import { SortableList, SortableItem, DragHandle } from '@/components/ui/SortableList'
+import { Button } from '@/components/ui/Button'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import { BigBoardImportModal } from './BigBoardImportModal'
+import { useSetBigBoard } from '@/hooks/usePlayers'
+import { getBigBoard } from '@/lib/bigBoard'
+import type { LeagueFullPublic } from '@/lib/types'
+
+interface BigBoardCardProps {
+  league: LeagueFullPublic
+}
+
+/**
+ * The manager's ranking of the whole player pool. Captains can sort the pool
+ * by it, and auto-pick falls back to it before picking at random.
+ */
+export function BigBoardCard({ league }: BigBoardCardProps) {
+  const [showImport, setShowImport] = useState(false)
+  const setBigBoard = useSetBigBoard()
+
+  const captainPlayerIds = new Set(league.captains.map((c) => c.player_id))
+  const players = league.players.filter((p) => !captainPlayerIds.has(p.id))
+  const board = getBigBoard(players)
+  const unranked = players
+    .filter((p) => p.board_rank === null)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  async function saveBoard(playerIds: string[]) {
+    try {
+      await setBigBoard.mutateAsync({ leagueId: league.id, playerIds })
+    } catch {
+      // Error handled by mutation
+    }
+  }
+
+  function movePlayer(fromIndex: number, toIndex: number) {
+    if (toIndex < 0 || toIndex >= board.length) return
+    const ids = board.map((p) => p.id)
+    const [moved] = ids.splice(fromIndex, 1)
+    ids.splice(toIndex, 0, moved)
+    saveBoard(ids)
+  }
+
+  function handleDragReorder(activeId: string, overId: string) {
+    const oldIndex = board.findIndex((p) => p.id === activeId)
+    const newIndex = board.findIndex((p) => p.id === overId)
+    if (oldIndex === -1 || newIndex === -1) return
+    movePlayer(oldIndex, newIndex)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Big Board ({board.length})</CardTitle>
+        <CardDescription>
+          Rank players best first. Captains can sort the player pool by this ranking, and auto-pick
+          takes the highest-ranked player when a captain&apos;s queue is empty.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setShowImport(true)}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Import Ranking
+          </Button>
+          {unranked.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => saveBoard([...board, ...unranked].map((p) => p.id))}
+              disabled={setBigBoard.isPending}
+            >
+              <ListPlus className="mr-2 h-4 w-4" />
+              Rank All
+            </Button>
+          )}
+          {board.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => saveBoard([])}
+              disabled={setBigBoard.isPending}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Clear Board
+            </Button>
+          )}
+        </div>
+
+        {board.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No players ranked yet. Import a ranking or add players below.
+          </p>
+        ) : (
+          <SortableList items={board.map((p) => p.id)} onReorder={handleDragReorder}>
+            <ol className="max-h-96 divide-y divide-border overflow-y-auto rounded-md border border-border">
+              {board.map((player, index) => (
+                <SortableItem key={player.id} id={player.id}>
+                  <div className="flex items-center gap-2 px-3 py-2">
+                    <DragHandle className="text-muted-foreground/50 hover:text-muted-foreground" />
+                    <span className="w-8 text-center text-sm font-medium text-muted-foreground">
+                      {index + 1}
+                    </span>
+                    <span
+                      className={
+                        player.drafted_by_captain_id
+                          ? 'min-w-0 flex-1 truncate text-sm text-muted-foreground line-through'
+                          : 'min-w-0 flex-1 truncate text-sm'
+                      }
+                    >
+                      {player.name}
+                    </span>
+                    <div className="flex items-center gap-0.5">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => movePlayer(index, index - 1)}
+                        disabled={index === 0}
+                        title="Move up"
+                        aria-label={`Move ${player.name} up`}
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => movePlayer(index, index + 1)}
+                        disabled={index === board.length - 1}
+                        title="Move down"
+                        aria-label={`Move ${player.name} down`}
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() =>
+                          saveBoard(board.filter((p) => p.id !== player.id).map((p) => p.id))
+                        }
+                        title="Remove from board"
+                        aria-label={`Remove ${player.name} from board`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </SortableItem>
+              ))}
+            </ol>
+          </SortableList>
+        )}
+
+        {unranked.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Unranked ({unranked.length})</h3>
+            <ul className="max-h-48 divide-y divide-border overflow-y-auto rounded-md border border-border">
+              {unranked.map((player) => (
+                <li key={player.id} className="flex items-center gap-2 px-3 py-1.5">
+                  <span className="min-w-0 flex-1 truncate text-sm">{player.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => saveBoard([...board.map((p) => p.id), player.id])}
+                    disabled={setBigBoard.isPending}
+                    title="Add to bottom of board"
+                    aria-label={`Add ${player.name} to board`}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      {showImport && <BigBoardImportModal league={league} onClose={() => setShowImport(false)} />}
+    </Card>
+  )
+}
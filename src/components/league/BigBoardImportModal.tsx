@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react'
+import { X, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { FileDropZone } from '@/components/spreadsheet/FileDropZone'
+import { useModalFocus } from '@/hooks/useModalFocus'
+import { useSetBigBoard } from '@/hooks/usePlayers'
+import { parseFile } from '@/hooks/useSpreadsheetImport'
+import { matchBoardRows } from '@/lib/bigBoard'
+import type { SpreadsheetData } from '@/lib/spreadsheetTypes'
+import type { LeagueFullPublic } from '@/lib/types'
+
+interface BigBoardImportModalProps {
+  league: LeagueFullPublic
+  onClose: () => void
+}
+
+/**
+ * Replace the big board with a ranking from a spreadsheet. Rows are matched to
+ * players by name and ordered by a rank column, or by row order without one.
+ */
+export function BigBoardImportModal({ league, onClose }: BigBoardImportModalProps) {
+  const { overlayProps } = useModalFocus({ onClose })
+  const { addToast } = useToast()
+  const setBigBoard = useSetBigBoard()
+  const [isLoading, setIsLoading] = useState(false)
+  const [data, setData] = useState<SpreadsheetData | null>(null)
+  const [nameColumn, setNameColumn] = useState(0)
+  const [rankColumn, setRankColumn] = useState<number | null>(null)
+
+  const result = useMemo(
+    () => (data ? matchBoardRows(league.players, data.rows, nameColumn, rankColumn) : null),
+    [data, league.players, nameColumn, rankColumn]
+  )
+
+  async function handleFileSelect(file: File) {
+    setIsLoading(true)
+    try {
+      const parsed = await parseFile(file)
+      const nameIndex = parsed.headers.findIndex((h) => /name/i.test(h))
+      const rankIndex = parsed.headers.findIndex((h) => /rank/i.test(h))
+      setNameColumn(nameIndex === -1 ? 0 : nameIndex)
+      setRankColumn(rankIndex === -1 ? null : rankIndex)
+      setData(parsed)
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to parse file', 'error')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleImport() {
+    if (!result || result.playerIds.length === 0) return
+    try {
+      await setBigBoard.mutateAsync({ leagueId: league.id, playerIds: result.playerIds })
+      addToast(`Ranked ${result.playerIds.length} players`, 'success')
+      onClose()
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to import ranking', 'error')
+    }
+  }
+
+  return (
+    <div
+      {...overlayProps}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+    >
+      <Card className="flex max-h-[90vh] w-full max-w-lg flex-col">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 flex-shrink-0">
+          <CardTitle>Import Big Board</CardTitle>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-2 text-muted-foreground hover:bg-accent hover:text-foreground"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </CardHeader>
+
+        <CardContent className="flex-1 space-y-4 overflow-auto">
+          {!data ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Upload a spreadsheet with a column of player names, best first or with a rank
+                column. The first row should contain column headers.
+              </p>
+              <FileDropZone onFileSelect={handleFileSelect} isLoading={isLoading} />
+            </>
+          ) : (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="board-name-column">Player name column</Label>
+                  <Select
+                    id="board-name-column"
+                    value={nameColumn}
+                    onChange={(e) => setNameColumn(Number(e.target.value))}
+                  >
+                    {data.headers.map((header, i) => (
+                      <option key={i} value={i}>
+                        {header || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="board-rank-column">Rank column</Label>
+                  <Select
+                    id="board-rank-column"
+                    value={rankColumn ?? ''}
+                    onChange={(e) =>
+                      setRankColumn(e.target.value === '' ? null : Number(e.target.value))
+                    }
+                  >
+                    <option value="">Use row order</option>
+                    {data.headers.map((header, i) => (
+                      <option key={i} value={i}>
+                        {header || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+
+              {result && (
+                <div className="space-y-2 text-sm">
+                  <p>
+                    {result.playerIds.length} of {league.players.length} players matched. Players
+                    not in the spreadsheet will be unranked.
+                  </p>
+                  {result.unmatched.length > 0 && (
+                    <p className="text-muted-foreground">
+                      No player named: {result.unmatched.slice(0, 10).join(', ')}
+                      {result.unmatched.length > 10 && ` and ${result.unmatched.length - 10} more`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setData(null)}>
+                  Choose Another File
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={!result || result.playerIds.length === 0}
+                  loading={setBigBoard.isPending}
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  Replace Board
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/Label'
 import { Select } from '@/components/ui/Select'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
 import { SortableCaptainItem } from './SortableCaptainItem'
+import { PickOrderMatrix } from './PickOrderMatrix'
 import { useToast } from '@/components/ui/Toast'
 import { useDeleteCaptain, useAssignRandomCaptains, useReorderCaptains } from '@/hooks/useCaptains'
 import { shuffleArray } from '@/lib/utils'
@@ -37,6 +38,11 @@ export function DraftOrderCard({
   const captainLinkedCount = league.captains.filter((c) => c.player_id).length
   const availableDraftPlayers = league.players.length - captainLinkedCount
   const maxRandomCaptains = Math.floor(league.players.length / 2)
+  const roundCount =
+    sortedCaptains.length > 0 ? Math.ceil(availableDraftPlayers / sortedCaptains.length) : 0
+  const keepers = league.players
+    .filter((p) => p.keeper_captain_id)
+    .sort((a, b) => (a.keeper_round ?? 0) - (b.keeper_round ?? 0))
 
   // Random assign options: 2 to maxRandomCaptains
   const randomAssignOptions: number[] = []
@@ -151,7 +157,15 @@ export function DraftOrderCard({
         </div>
         <CardDescription>
           {isEditable ? 'Drag to reorder captains. ' : 'Captains will pick in this order. '}
-          {league.draft_type === 'snake' ? 'Order reverses each round.' : 'Same order every round.'}
+          {league.draft_type === 'snake'
+            ? 'Order reverses each round.'
+            : league.draft_type === 'third_round_reversal'
+              ? 'Order reverses in rounds 2 and 3, then alternates each round.'
+              : league.draft_type === 'custom'
+                ? 'Rounds use the custom pick order below.'
+                : league.draft_type === 'auction'
+                  ? 'Nominations rotate in this order.'
+                  : 'Same order every round.'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -186,12 +200,25 @@ export function DraftOrderCard({
                   onTeamSettings={onTeamSettings}
                   onCopyLink={onCopyCaptainLink}
                   onEditPlayer={onEditPlayer}
+                  keepers={keepers.filter((p) => p.keeper_captain_id === captain.id)}
                 />
               ))}
             </ul>
           </SortableList>
         )}
 
+        {league.draft_type === 'custom' && sortedCaptains.length > 0 && (
+          <div className="mt-4 border-t border-border pt-4">
+            <PickOrderMatrix
+              leagueId={league.id}
+              sortedCaptains={sortedCaptains}
+              roundCount={roundCount}
+              pickOrderMatrix={league.pick_order_matrix}
+              isEditable={isEditable}
+            />
+          </div>
+        )}
+
         {sortedCaptains.length > 0 && sortedCaptains.length < 2 && (
           <p className="mt-4 text-sm text-yellow-600 dark:text-yellow-400">
             You need at least 2 captains to start the draft.
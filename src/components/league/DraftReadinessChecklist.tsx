@@ -1,6 +1,16 @@
 import { useMemo } from 'react'
-import { CheckCircle2, XCircle, AlertCircle, ClipboardCheck } from 'lucide-react'
-import { formatScheduledTime, getAvailablePlayers } from '@/lib/draft'
+import { CheckCircle2, XCircle, AlertCircle, ClipboardCheck, Circle } from 'lucide-react'
+import {
+  formatScheduledTime,
+  getAvailablePlayers,
+  getKeeperPickIndex,
+  getPickOrder,
+  getUnplacedKeepers,
+  getUnreadyCaptains,
+  isValidRoundOrder,
+} from '@/lib/draft'
+import { AUCTION_MIN_BID, getAuctionRosterSize } from '@/lib/auction'
+import type { DraftPresence } from '@/lib/presence'
 import type { LeagueFullPublic, LeagueFieldSchema, PlayerCustomField } from '@/lib/types'
 
 type Status = 'pass' | 'fail' | 'warn'
@@ -16,6 +26,8 @@ interface DraftReadinessChecklistProps {
   league: LeagueFullPublic
   fieldSchemas: LeagueFieldSchema[]
   customFieldsMap: Record<string, PlayerCustomField[]> | undefined
+  /** Captains with the draft open; omitted when presence isn't available */
+  presence?: DraftPresence
 }
 
 const statusIcon: Record<Status, typeof CheckCircle2> = {
@@ -34,6 +46,7 @@ export function DraftReadinessChecklist({
   league,
   fieldSchemas,
   customFieldsMap,
+  presence,
 }: DraftReadinessChecklistProps) {
   const items = useMemo(() => {
     const result: ChecklistItem[] = []
@@ -63,6 +76,68 @@ export function DraftReadinessChecklist({
           : `Need at least ${captainCount} available players (${availableCount} available)`,
     })
 
+    // 2b. Auction budget covers a full roster at the minimum bid (blocking, auction only)
+    if (league.draft_type === 'auction' && captainCount > 0) {
+      const rosterSize = getAuctionRosterSize(availableCount, captainCount)
+      const minimumNeeded = rosterSize * AUCTION_MIN_BID
+      result.push({
+        id: 'auction-budget',
+        label: 'Auction budget',
+        status: league.auction_budget >= minimumNeeded ? 'pass' : 'fail',
+        detail:
+          league.auction_budget >= minimumNeeded
+            ? `$${league.auction_budget} per team for ${rosterSize} roster spots`
+            : `Budget must be at least $${minimumNeeded} to fill ${rosterSize} roster spots`,
+      })
+    }
+
+    // 2c. Every round has a custom order (warning, custom only)
+    if (league.draft_type === 'custom' && captainCount >= 2) {
+      const roundCount = Math.ceil(availableCount / captainCount)
+      const captainIds = [...league.captains]
+        .sort((a, b) => a.draft_position - b.draft_position)
+        .map((c) => c.id)
+      let unsetRounds = 0
+      for (let round = 0; round < roundCount; round++) {
+        if (!isValidRoundOrder(league.pick_order_matrix?.[round], captainIds)) unsetRounds++
+      }
+      result.push({
+        id: 'custom-order',
+        label: 'Custom pick order',
+        status: unsetRounds === 0 ? 'pass' : 'warn',
+        detail:
+          unsetRounds === 0
+            ? `Order set for all ${roundCount} rounds`
+            : `${unsetRounds} round${unsetRounds === 1 ? '' : 's'} will use draft position order`,
+      })
+    }
+
+    // 2d. Every keeper has a pick to use (blocking)
+    const keepers = getUnplacedKeepers(league.players)
+    if (keepers.length > 0 && captainCount >= 2) {
+      const totalPicks = availableCount + keepers.length
+      const pickOrder = getPickOrder(league.captains, totalPicks, league.draft_type, {
+        pickOrderMatrix: league.pick_order_matrix,
+        pickOwnership: league.pick_ownership,
+      })
+      const unplaceable = keepers.filter(
+        (p) =>
+          getKeeperPickIndex(pickOrder, p.keeper_captain_id!, p.keeper_round ?? 0, captainCount) ===
+          -1
+      )
+      const isAuction = league.draft_type === 'auction'
+      result.push({
+        id: 'keepers',
+        label: 'Keepers',
+        status: isAuction || unplaceable.length > 0 ? 'fail' : 'pass',
+        detail: isAuction
+          ? "Auction drafts don't use keepers. Remove them or change the draft type."
+          : unplaceable.length > 0
+            ? `No pick in the keeper round for ${unplaceable.map((p) => p.name).join(', ')}`
+            : `${keepers.length} keeper${keepers.length === 1 ? '' : 's'} assigned`,
+      })
+    }
+
     // 3. Player profiles complete (warning, only if required schemas exist)
     const requiredSchemas = fieldSchemas.filter((s) => s.is_required && s.field_type !== 'checkbox')
     if (requiredSchemas.length > 0 && customFieldsMap !== undefined) {
@@ -87,18 +162,49 @@ export function DraftReadinessChecklist({
       })
     }
 
+    // 3b. Captains have their link open (warning)
+    if (presence && captainCount > 0) {
+      const offline = league.captains.filter((c) => !presence.captains[c.id])
+      const connected = captainCount - offline.length
+      result.push({
+        id: 'connected',
+        label: 'Captains connected',
+        status: offline.length === 0 ? 'pass' : 'warn',
+        detail:
+          offline.length === 0
+            ? `All ${captainCount} captains have the draft open`
+            : `${connected} of ${captainCount} connected. Not connected: ${offline.map((c) => c.name).join(', ')}`,
+      })
+    }
+
+    // 3c. Captains pressed Ready (blocking, ready check leagues only)
+    if (league.require_ready_check && captainCount > 0) {
+      const unready = getUnreadyCaptains(league, league.captains)
+      result.push({
+        id: 'ready',
+        label: 'Captains ready',
+        status: unready.length === 0 ? 'pass' : 'fail',
+        detail:
+          unready.length === 0
+            ? `All ${captainCount} captains are ready`
+            : `${captainCount - unready.length} of ${captainCount} ready${
+                league.auto_start_when_ready ? '. The draft starts when everyone is ready' : ''
+              }`,
+      })
+    }
+
     // 4. Scheduled start time (info)
     result.push({
       id: 'schedule',
       label: 'Scheduled start time',
       status: league.scheduled_start_at ? 'pass' : 'warn',
       detail: league.scheduled_start_at
-        ? formatScheduledTime(league.scheduled_start_at)
+        ? `${formatScheduledTime(league.scheduled_start_at)}. Starts automatically if every check passes`
         : 'No start time scheduled',
     })
 
     return result
-  }, [league, fieldSchemas, customFieldsMap])
+  }, [league, fieldSchemas, customFieldsMap, presence])
 
   const allBlockingPass = items.every((i) => i.status !== 'fail')
 
@@ -140,6 +246,27 @@ export function DraftReadinessChecklist({
           )
         })}
       </div>
+      {league.require_ready_check && league.captains.length > 0 && (
+        <ul aria-label="Lobby" className="mt-3 flex flex-wrap gap-1.5 border-t pt-3">
+          {league.captains.map((captain) => (
+            <li
+              key={captain.id}
+              className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+                captain.is_ready
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                  : 'bg-muted text-muted-foreground'
+              }`}
+            >
+              {captain.is_ready ? (
+                <CheckCircle2 className="h-3.5 w-3.5" aria-label="Ready" />
+              ) : (
+                <Circle className="h-3.5 w-3.5" aria-label="Not ready" />
+              )}
+              {captain.team_name || captain.name}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   )
 }
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { useUpdatePlayer } from '@/hooks/usePlayers'
+import { getAvailablePlayers, getKeeperPickIndex, getPickOrder } from '@/lib/draft'
+import type { LeagueFullPublic, PlayerPublic } from '@/lib/types'
+
+interface KeepersCardProps {
+  league: LeagueFullPublic
+}
+
+/**
+ * Assign players to a team before the draft. Each keeper uses up the team's
+ * pick in the chosen round; the picks are filled in when the draft starts.
+ */
+export function KeepersCard({ league }: KeepersCardProps) {
+  const [playerId, setPlayerId] = useState('')
+  const [captainId, setCaptainId] = useState('')
+  const [round, setRound] = useState('1')
+
+  const { addToast } = useToast()
+  const updatePlayer = useUpdatePlayer()
+
+  const isEditable = league.status === 'not_started'
+  const sortedCaptains = [...league.captains].sort((a, b) => a.draft_position - b.draft_position)
+  const captainPlayerIds = new Set(league.captains.map((c) => c.player_id))
+  const totalPicks = league.players.filter((p) => !captainPlayerIds.has(p.id)).length
+  const roundCount = sortedCaptains.length > 0 ? Math.ceil(totalPicks / sortedCaptains.length) : 0
+
+  const pickOrder = getPickOrder(league.captains, totalPicks, league.draft_type, {
+    pickOrderMatrix: league.pick_order_matrix,
+    pickOwnership: league.pick_ownership,
+  })
+  const keepers = league.players
+    .filter((p) => p.keeper_captain_id)
+    .sort((a, b) => (a.keeper_round ?? 0) - (b.keeper_round ?? 0))
+  const availablePlayers = getAvailablePlayers(league.players, league.captains)
+
+  const teamName = (id: string | null) => {
+    const captain = league.captains.find((c) => c.id === id)
+    return captain ? captain.team_name || captain.name : 'Unknown'
+  }
+
+  async function handleAddKeeper(e: React.FormEvent) {
+    e.preventDefault()
+    if (!playerId || !captainId) return
+    const keeperRound = parseInt(round, 10)
+    if (keepers.some((k) => k.keeper_captain_id === captainId && k.keeper_round === keeperRound)) {
+      addToast(`${teamName(captainId)} already has a keeper in round ${keeperRound}`, 'error')
+      return
+    }
+    try {
+      await updatePlayer.mutateAsync({
+        id: playerId,
+        keeper_captain_id: captainId,
+        keeper_round: keeperRound,
+      })
+      setPlayerId('')
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to add keeper', 'error')
+    }
+  }
+
+  async function handleRemoveKeeper(player: PlayerPublic) {
+    try {
+      await updatePlayer.mutateAsync({ id: player.id, keeper_captain_id: null, keeper_round: null })
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to remove keeper', 'error')
+    }
+  }
+
+  function describeKeeperPick(player: PlayerPublic) {
+    if (player.draft_pick_number !== null) return `Pick #${player.draft_pick_number}`
+    const index = getKeeperPickIndex(
+      pickOrder,
+      player.keeper_captain_id!,
+      player.keeper_round ?? 0,
+      sortedCaptains.length
+    )
+    return index === -1 ? null : `Pick #${index + 1}`
+  }
+
+  if (!isEditable && keepers.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Keepers ({keepers.length})</CardTitle>
+        <CardDescription>
+          Players a team keeps going into the draft. Each keeper uses that team&apos;s pick in the
+          chosen round.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isEditable && (
+          <form onSubmit={handleAddKeeper} className="grid gap-3 sm:grid-cols-[2fr_2fr_1fr_auto]">
+            <div className="space-y-1">
+              <Label htmlFor="keeper-player">Player</Label>
+              <Select
+                id="keeper-player"
+                value={playerId}
+                onChange={(e) => setPlayerId(e.target.value)}
+              >
+                <option value="">Select a player</option>
+                {availablePlayers.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="keeper-team">Team</Label>
+              <Select
+                id="keeper-team"
+                value={captainId}
+                onChange={(e) => setCaptainId(e.target.value)}
+              >
+                <option value="">Select a team</option>
+                {sortedCaptains.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.team_name || c.name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="keeper-round">Round</Label>
+              <Select id="keeper-round" value={round} onChange={(e) => setRound(e.target.value)}>
+                {Array.from({ length: Math.max(roundCount, 1) }, (_, i) => (
+                  <option key={i + 1} value={String(i + 1)}>
+                    Round {i + 1}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="flex items-end">
+              <Button
+                type="submit"
+                disabled={!playerId || !captainId || updatePlayer.isPending}
+                className="w-full"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Keep
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {keepers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No keepers assigned.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {keepers.map((player) => {
+              const pickLabel = describeKeeperPick(player)
+              return (
+                <li key={player.id} className="flex items-center gap-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <span className="font-medium">{player.name}</span>
+                    <div className="text-xs text-muted-foreground">
+                      {teamName(player.keeper_captain_id)} · Round {player.keeper_round}
+                      {pickLabel ? (
+                        <> · {pickLabel}</>
+                      ) : (
+                        <span className="text-destructive"> · No pick in this round</span>
+                      )}
+                    </div>
+                  </div>
+                  {isEditable && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveKeeper(player)}
+                      disabled={updatePlayer.isPending}
+                      title="Remove keeper"
+                      aria-label={`Remove ${player.name} as a keeper`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,6 +4,7 @@ import { Settings, Play, Users, Copy, Crown, Clock } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
 import { CopyLeagueModal } from '@/components/league/CopyLeagueModal'
 import { StatusBadge } from '@/components/ui/StatusBadge'
+import { formatDraftType, formatTimerSetting } from '@/lib/draft'
 import type { LeagueWithCounts } from '@/lib/types'
 
 interface LeagueCardProps {
@@ -26,7 +27,9 @@ export function LeagueCard({ league, index = 0 }: LeagueCardProps) {
               <div className="min-w-0">
                 <CardTitle className="truncate text-lg">{league.name}</CardTitle>
                 <CardDescription className="mt-1">
-                  {league.draft_type === 'snake' ? 'Snake Draft' : 'Round Robin'}
+                  {league.draft_type === 'snake'
+                    ? 'Snake Draft'
+                    : formatDraftType(league.draft_type)}
                 </CardDescription>
               </div>
               <div className="flex shrink-0 items-center gap-2">
@@ -59,12 +62,7 @@ export function LeagueCard({ league, index = 0 }: LeagueCardProps) {
               </div>
               <div className="flex items-center gap-1">
                 <Clock className="h-4 w-4" />
-                <span>
-                  {league.time_limit_seconds >= 60 && league.time_limit_seconds % 60 === 0
-                    ? `${league.time_limit_seconds / 60}m`
-                    : `${league.time_limit_seconds}s`}{' '}
-                  per pick
-                </span>
+                <span>{formatTimerSetting(league)}</span>
               </div>
               {league.scheduled_start_at && (
                 <div className="flex items-center gap-1">
@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom'
 import { ChevronRight, Copy, Crown, Users, Clock } from 'lucide-react'
 import { StatusBadge, StatusDot } from '@/components/ui/StatusBadge'
 import { CopyLeagueModal } from '@/components/league/CopyLeagueModal'
+import { formatDraftType, formatDuration } from '@/lib/draft'
 import type { LeagueWithCounts } from '@/lib/types'
 
 interface LeagueListItemProps {
@@ -14,9 +15,9 @@ export function LeagueListItem({ league, index = 0 }: LeagueListItemProps) {
   const [showCopyModal, setShowCopyModal] = useState(false)
 
   const timerLabel =
-    league.time_limit_seconds >= 60 && league.time_limit_seconds % 60 === 0
-      ? `${league.time_limit_seconds / 60}m`
-      : `${league.time_limit_seconds}s`
+    league.timer_mode === 'time_bank' && league.draft_type !== 'auction'
+      ? `${formatDuration(league.time_bank_seconds)} bank`
+      : formatDuration(league.time_limit_seconds)
 
   return (
     <>
@@ -31,9 +32,7 @@ export function LeagueListItem({ league, index = 0 }: LeagueListItemProps) {
           {/* Name + draft type */}
           <div className="min-w-0 flex-1">
             <p className="truncate font-medium">{league.name}</p>
-            <p className="text-xs text-muted-foreground">
-              {league.draft_type === 'snake' ? 'Snake' : 'Round Robin'}
-            </p>
+            <p className="text-xs text-muted-foreground">{formatDraftType(league.draft_type)}</p>
           </div>
 
           {/* Stats — hidden on mobile */}
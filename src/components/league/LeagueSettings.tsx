@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -9,15 +10,43 @@ import { Select } from '@/components/ui/Select'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
 import { useToast } from '@/components/ui/Toast'
 import { useUpdateLeague } from '@/hooks/useLeagues'
+import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
+import { AutoPickStrategyPicker } from '@/components/draft/AutoPickStrategyPicker'
+import { ApiKeysCard } from '@/components/league/ApiKeysCard'
 import { toDatetimeLocal, fromDatetimeLocal } from '@/lib/draft'
-import type { LeagueFullPublic } from '@/lib/types'
+import { CONSECUTIVE_TIMEOUT_ACTIONS } from '@/lib/timeoutPolicy'
+import type {
+  AutoPickStrategy,
+  ConsecutiveTimeoutAction,
+  DraftType,
+  LeagueFullPublic,
+  TimerMode,
+} from '@/lib/types'
 
 const settingsSchema = z.object({
   name: z.string().trim().min(1, 'League name is required').max(100),
-  draft_type: z.enum(['snake', 'round_robin']),
+  draft_type: z.enum(['snake', 'round_robin', 'third_round_reversal', 'custom', 'auction']),
   time_limit_seconds: z.coerce.number().min(15).max(1800),
+  timer_mode: z.enum(['per_pick', 'time_bank']),
+  time_bank_seconds: z.coerce.number().min(60).max(7200),
+  time_bank_increment_seconds: z.coerce.number().min(0).max(300),
+  timeouts_per_captain: z.coerce.number().min(0).max(5),
+  timeout_seconds: z.coerce.number().min(15).max(600),
+  // 0 = off
+  disconnect_auto_pick_seconds: z.coerce.number().min(0).max(600),
+  // 0 = never
+  consecutive_timeout_limit: z.coerce.number().min(0).max(5),
+  consecutive_timeout_action: z.enum(['auto_pick', 'skip', 'pause']),
+  consecutive_timeout_notify: z.boolean(),
+  auction_budget: z.coerce
+    .number()
+    .int('Budget must be a whole number')
+    .min(1, 'Budget must be at least $1')
+    .max(100000),
   scheduled_start_at: z.string().optional().nullable(),
   allow_player_custom_fields: z.boolean(),
+  require_ready_check: z.boolean(),
+  auto_start_when_ready: z.boolean(),
 })
 
 interface LeagueSettingsProps {
@@ -33,6 +62,13 @@ export function LeagueSettings({
 }: LeagueSettingsProps) {
   const updateLeague = useUpdateLeague()
   const { addToast } = useToast()
+  const { data: fieldSchemas = [] } = useLeagueFieldSchemas(league.id)
+  // Kept outside the form since the picker edits a nested object
+  const [autoPickStrategy, setAutoPickStrategy] = useState<AutoPickStrategy | null>(
+    league.auto_pick_strategy
+  )
+  const strategyChanged =
+    JSON.stringify(autoPickStrategy) !== JSON.stringify(league.auto_pick_strategy)
 
   const {
     register,
@@ -44,21 +80,50 @@ export function LeagueSettings({
     resolver: zodResolver(settingsSchema),
     defaultValues: {
       name: league.name,
-      draft_type: league.draft_type as 'snake' | 'round_robin',
+      draft_type: league.draft_type,
       time_limit_seconds: league.time_limit_seconds,
+      timer_mode: league.timer_mode,
+      time_bank_seconds: league.time_bank_seconds,
+      time_bank_increment_seconds: league.time_bank_increment_seconds,
+      timeouts_per_captain: league.timeouts_per_captain,
+      timeout_seconds: league.timeout_seconds,
+      disconnect_auto_pick_seconds: league.disconnect_auto_pick_seconds ?? 0,
+      consecutive_timeout_limit: league.consecutive_timeout_limit ?? 0,
+      consecutive_timeout_action: league.consecutive_timeout_action,
+      consecutive_timeout_notify: league.consecutive_timeout_notify,
+      auction_budget: league.auction_budget,
       scheduled_start_at: toDatetimeLocal(league.scheduled_start_at),
       allow_player_custom_fields: league.allow_player_custom_fields,
+      require_ready_check: league.require_ready_check,
+      auto_start_when_ready: league.auto_start_when_ready,
     },
   })
 
   const scheduledValue = watch('scheduled_start_at') // eslint-disable-line react-hooks/incompatible-library
+  const draftTypeValue = watch('draft_type')
+  const usesTimeBank = draftTypeValue !== 'auction' && watch('timer_mode') === 'time_bank'
+  const hasTimeouts = Number(watch('timeouts_per_captain')) > 0
+  const hasTimeoutLimit = Number(watch('consecutive_timeout_limit')) > 0
+  const requiresReadyCheck = watch('require_ready_check')
 
   async function onSubmit(data: {
     name: string
-    draft_type: 'snake' | 'round_robin'
+    draft_type: DraftType
     time_limit_seconds: number
+    timer_mode: TimerMode
+    time_bank_seconds: number
+    time_bank_increment_seconds: number
+    timeouts_per_captain: number
+    timeout_seconds: number
+    disconnect_auto_pick_seconds: number
+    consecutive_timeout_limit: number
+    consecutive_timeout_action: ConsecutiveTimeoutAction
+    consecutive_timeout_notify: boolean
+    auction_budget: number
     scheduled_start_at?: string | null
     allow_player_custom_fields: boolean
+    require_ready_check: boolean
+    auto_start_when_ready: boolean
   }) {
     try {
       await updateLeague.mutateAsync({
@@ -66,8 +131,21 @@ export function LeagueSettings({
         name: data.name,
         draft_type: data.draft_type,
         time_limit_seconds: data.time_limit_seconds,
+        timer_mode: data.timer_mode,
+        time_bank_seconds: data.time_bank_seconds,
+        time_bank_increment_seconds: data.time_bank_increment_seconds,
+        timeouts_per_captain: data.timeouts_per_captain,
+        timeout_seconds: data.timeout_seconds,
+        disconnect_auto_pick_seconds: data.disconnect_auto_pick_seconds || null,
+        consecutive_timeout_limit: data.consecutive_timeout_limit || null,
+        consecutive_timeout_action: data.consecutive_timeout_action,
+        consecutive_timeout_notify: data.consecutive_timeout_notify,
+        auction_budget: data.auction_budget,
         scheduled_start_at: fromDatetimeLocal(data.scheduled_start_at || ''),
         allow_player_custom_fields: data.allow_player_custom_fields,
+        require_ready_check: data.require_ready_check,
+        auto_start_when_ready: data.require_ready_check && data.auto_start_when_ready,
+        auto_pick_strategy: autoPickStrategy,
       })
       addToast('Settings saved', 'success')
     } catch {
@@ -105,28 +183,240 @@ export function LeagueSettings({
               <Select id="draft_type" {...register('draft_type')} disabled={!isEditable}>
                 <option value="snake">Snake Draft</option>
                 <option value="round_robin">Round Robin</option>
+                <option value="third_round_reversal">Third-Round Reversal</option>
+                <option value="custom">Custom Order</option>
+                <option value="auction">Auction</option>
               </Select>
               <p className="text-sm text-muted-foreground">
                 Snake: Pick order reverses each round. Round Robin: Same order every round.
+                Third-Round Reversal: Like snake, but round 3 repeats round 2. Custom Order: Set
+                each round's order by hand under Draft Order. Auction: Captains nominate in turn and
+                bid from a budget.
               </p>
             </div>
 
+            {draftTypeValue === 'auction' && (
+              <div className="space-y-2">
+                <Label htmlFor="auction_budget">Budget Per Team</Label>
+                <Input
+                  id="auction_budget"
+                  type="number"
+                  min={1}
+                  step={1}
+                  {...register('auction_budget')}
+                  error={!!errors.auction_budget}
+                  disabled={!isEditable}
+                />
+                {errors.auction_budget && (
+                  <p className="text-sm text-destructive">{errors.auction_budget.message}</p>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  Each bid restarts the pick timer. The high bidder wins when it runs out.
+                </p>
+              </div>
+            )}
+
+            {draftTypeValue !== 'auction' && (
+              <div className="space-y-2">
+                <Label htmlFor="timer_mode">Pick Timer</Label>
+                <Select id="timer_mode" {...register('timer_mode')} disabled={!isEditable}>
+                  <option value="per_pick">Fixed time per pick</option>
+                  <option value="time_bank">Time bank (chess clock)</option>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  With a time bank, each captain gets one pool of time for the whole draft. Time
+                  they don&apos;t use on a pick carries over, and pausing the draft stops their
+                  clock.
+                </p>
+              </div>
+            )}
+
+            {usesTimeBank ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="time_bank_seconds">Time Bank Per Captain</Label>
+                  <Select
+                    id="time_bank_seconds"
+                    {...register('time_bank_seconds')}
+                    disabled={!isEditable}
+                  >
+                    <option value="120">2 minutes</option>
+                    <option value="300">5 minutes</option>
+                    <option value="600">10 minutes</option>
+                    <option value="900">15 minutes</option>
+                    <option value="1200">20 minutes</option>
+                    <option value="1800">30 minutes</option>
+                    <option value="2700">45 minutes</option>
+                    <option value="3600">1 hour</option>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="time_bank_increment_seconds">Added After Each Pick</Label>
+                  <Select
+                    id="time_bank_increment_seconds"
+                    {...register('time_bank_increment_seconds')}
+                    disabled={!isEditable}
+                  >
+                    <option value="0">Nothing</option>
+                    <option value="5">5 seconds</option>
+                    <option value="10">10 seconds</option>
+                    <option value="15">15 seconds</option>
+                    <option value="30">30 seconds</option>
+                    <option value="60">1 minute</option>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="time_limit_seconds">Time Limit Per Pick</Label>
+                <Select
+                  id="time_limit_seconds"
+                  {...register('time_limit_seconds')}
+                  disabled={!isEditable}
+                >
+                  <option value="15">15 seconds</option>
+                  <option value="30">30 seconds</option>
+                  <option value="60">1 minute</option>
+                  <option value="120">2 minutes</option>
+                  <option value="300">5 minutes</option>
+                  <option value="600">10 minutes</option>
+                  <option value="900">15 minutes</option>
+                  <option value="1800">30 minutes</option>
+                </Select>
+              </div>
+            )}
+
+            {draftTypeValue !== 'auction' && (
+              <div className="space-y-2">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="timeouts_per_captain">Timeouts Per Captain</Label>
+                    <Select
+                      id="timeouts_per_captain"
+                      {...register('timeouts_per_captain')}
+                      disabled={!isEditable}
+                    >
+                      <option value="0">None</option>
+                      <option value="1">1</option>
+                      <option value="2">2</option>
+                      <option value="3">3</option>
+                      <option value="4">4</option>
+                      <option value="5">5</option>
+                    </Select>
+                  </div>
+                  {hasTimeouts && (
+                    <div className="space-y-2">
+                      <Label htmlFor="timeout_seconds">Time Added Per Timeout</Label>
+                      <Select
+                        id="timeout_seconds"
+                        {...register('timeout_seconds')}
+                        disabled={!isEditable}
+                      >
+                        <option value="15">15 seconds</option>
+                        <option value="30">30 seconds</option>
+                        <option value="60">1 minute</option>
+                        <option value="120">2 minutes</option>
+                        <option value="300">5 minutes</option>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Captains can call a timeout on their own pick to add time to the clock.
+                </p>
+              </div>
+            )}
+
+            {draftTypeValue !== 'auction' && (
+              <div className="space-y-2">
+                <Label htmlFor="disconnect_auto_pick_seconds">Auto-Pick When Disconnected</Label>
+                <Select
+                  id="disconnect_auto_pick_seconds"
+                  {...register('disconnect_auto_pick_seconds')}
+                  disabled={!isEditable}
+                >
+                  <option value="0">Off</option>
+                  <option value="60">After 1 minute</option>
+                  <option value="120">After 2 minutes</option>
+                  <option value="300">After 5 minutes</option>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  If the captain on the clock hasn&apos;t had their captain link open for this long,
+                  they&apos;re auto-picked for that turn instead of waiting out the timer. Leave
+                  this off if you pick for some captains from your own screen.
+                </p>
+              </div>
+            )}
+
+            {draftTypeValue !== 'auction' && (
+              <div className="space-y-2">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="consecutive_timeout_limit">Missed Picks In A Row</Label>
+                    <Select
+                      id="consecutive_timeout_limit"
+                      {...register('consecutive_timeout_limit')}
+                      disabled={!isEditable}
+                    >
+                      <option value="0">No limit</option>
+                      <option value="1">1</option>
+                      <option value="2">2</option>
+                      <option value="3">3</option>
+                      <option value="4">4</option>
+                      <option value="5">5</option>
+                    </Select>
+                  </div>
+                  {hasTimeoutLimit && (
+                    <div className="space-y-2">
+                      <Label htmlFor="consecutive_timeout_action">Then</Label>
+                      <Select
+                        id="consecutive_timeout_action"
+                        {...register('consecutive_timeout_action')}
+                        disabled={!isEditable}
+                      >
+                        {CONSECUTIVE_TIMEOUT_ACTIONS.map((action) => (
+                          <option key={action.value} value={action.value}>
+                            {action.label}
+                          </option>
+                        ))}
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  What happens when a captain lets their timer run out this many times in a row. The
+                  count starts over when they make a pick.
+                </p>
+                {hasTimeoutLimit && (
+                  <div className="flex items-start gap-3 pt-1">
+                    <input
+                      id="consecutive_timeout_notify"
+                      type="checkbox"
+                      {...register('consecutive_timeout_notify')}
+                      disabled={!isEditable}
+                      className="mt-1 h-4 w-4 rounded border-border"
+                    />
+                    <Label htmlFor="consecutive_timeout_notify">
+                      Tell the captain when this happens
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
-              <Label htmlFor="time_limit_seconds">Time Limit Per Pick</Label>
-              <Select
-                id="time_limit_seconds"
-                {...register('time_limit_seconds')}
+              <Label htmlFor="auto_pick_strategy">Auto-Pick Strategy</Label>
+              <AutoPickStrategyPicker
+                id="auto_pick_strategy"
+                value={autoPickStrategy}
+                onChange={setAutoPickStrategy}
+                fieldSchemas={fieldSchemas}
                 disabled={!isEditable}
-              >
-                <option value="15">15 seconds</option>
-                <option value="30">30 seconds</option>
-                <option value="60">1 minute</option>
-                <option value="120">2 minutes</option>
-                <option value="300">5 minutes</option>
-                <option value="600">10 minutes</option>
-                <option value="900">15 minutes</option>
-                <option value="1800">30 minutes</option>
-              </Select>
+              />
+              <p className="text-sm text-muted-foreground">
+                How auto-pick chooses a player once a captain&apos;s queue is empty. Captains can
+                override this in their team settings.
+              </p>
             </div>
 
             <div className="space-y-2">
@@ -153,11 +443,45 @@ export function LeagueSettings({
                 )}
               </div>
               <p className="text-sm text-muted-foreground">
-                Set a time to let participants know when the draft will begin. You will still need
-                to manually start the draft.
+                The draft starts automatically within a minute of this time if the readiness checks
+                pass. If they don&apos;t, it waits for you to start it.
               </p>
             </div>
 
+            <div className="flex items-start gap-3">
+              <input
+                id="require_ready_check"
+                type="checkbox"
+                {...register('require_ready_check')}
+                disabled={!isEditable}
+                className="mt-1 h-4 w-4 rounded border-border"
+              />
+              <div>
+                <Label htmlFor="require_ready_check">Require a ready check</Label>
+                <p className="text-sm text-muted-foreground">
+                  Every captain has to open their link and press Ready before the draft can start.
+                </p>
+              </div>
+            </div>
+
+            {requiresReadyCheck && (
+              <div className="ml-7 flex items-start gap-3">
+                <input
+                  id="auto_start_when_ready"
+                  type="checkbox"
+                  {...register('auto_start_when_ready')}
+                  disabled={!isEditable}
+                  className="mt-1 h-4 w-4 rounded border-border"
+                />
+                <div>
+                  <Label htmlFor="auto_start_when_ready">Start when everyone is ready</Label>
+                  <p className="text-sm text-muted-foreground">
+                    The draft starts on its own as soon as the last captain presses Ready.
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div className="flex items-start gap-3">
               <input
                 id="allow_player_custom_fields"
@@ -175,7 +499,7 @@ export function LeagueSettings({
             </div>
 
             {isEditable && (
-              <Button type="submit" loading={isSubmitting} disabled={!isDirty}>
+              <Button type="submit" loading={isSubmitting} disabled={!isDirty && !strategyChanged}>
                 Save Settings
               </Button>
             )}
@@ -206,6 +530,8 @@ export function LeagueSettings({
           </CardContent>
         </Card>
       )}
+
+      <ApiKeysCard leagueId={league.id} />
     </>
   )
 }
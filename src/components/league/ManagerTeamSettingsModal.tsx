@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react'
 import { X, Camera } from 'lucide-react'
 import { useModalFocus } from '@/hooks/useModalFocus'
+import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
 import { useUpdateCaptainColor, useUploadTeamPhoto } from '@/hooks/useCaptains'
 import { useToast } from '@/components/ui/Toast'
 import { ColorPicker } from '@/components/ui/ColorPicker'
 import { ImageCropper } from '@/components/ui/ImageCropper'
 import { Input } from '@/components/ui/Input'
 import { Button } from '@/components/ui/Button'
-import type { CaptainPublic } from '@/lib/types'
+import { AutoPickStrategyPicker } from '@/components/draft/AutoPickStrategyPicker'
+import type { AutoPickStrategy, CaptainPublic } from '@/lib/types'
 
 interface ManagerTeamSettingsModalProps {
   captain: CaptainPublic
@@ -24,6 +26,7 @@ export function ManagerTeamSettingsModal({
   const updateCaptain = useUpdateCaptainColor()
   const uploadTeamPhoto = useUploadTeamPhoto()
   const { addToast } = useToast()
+  const { data: fieldSchemas = [] } = useLeagueFieldSchemas(leagueId)
   const [teamName, setTeamName] = useState(captain.team_name || '')
   const [showCropper, setShowCropper] = useState(false)
 
@@ -41,6 +44,19 @@ export function ManagerTeamSettingsModal({
     )
   }
 
+  function handleStrategyChange(autoPickStrategy: AutoPickStrategy | null) {
+    updateCaptain.mutate(
+      { captainId: captain.id, autoPickStrategy, leagueId },
+      {
+        onError: (err) =>
+          addToast(
+            err instanceof Error ? err.message : 'Failed to update auto-pick strategy',
+            'error'
+          ),
+      }
+    )
+  }
+
   function handleTeamNameBlur() {
     const trimmed = teamName.trim() || null
     if (trimmed !== (captain.team_name || null)) {
@@ -131,6 +147,26 @@ export function ManagerTeamSettingsModal({
                   </Button>
                 </div>
               </div>
+
+              <div className="space-y-1">
+                <label
+                  className="text-sm text-muted-foreground"
+                  htmlFor="mgr-team-auto-pick-strategy"
+                >
+                  Auto-pick strategy
+                </label>
+                <AutoPickStrategyPicker
+                  id="mgr-team-auto-pick-strategy"
+                  value={captain.auto_pick_strategy}
+                  onChange={handleStrategyChange}
+                  fieldSchemas={fieldSchemas}
+                  inheritLabel="League default"
+                  disabled={updateCaptain.isPending}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Used when auto-pick runs and the queue is empty.
+                </p>
+              </div>
             </>
           )}
         </div>
@@ -0,0 +1,172 @@
+import { useState } from 'react'
+import { ArrowLeftRight, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Select } from '@/components/ui/Select'
+import { useToast } from '@/components/ui/Toast'
+import { useUpdateLeague } from '@/hooks/useLeagues'
+import { isValidRoundOrder } from '@/lib/draft'
+import type { CaptainPublic } from '@/lib/types'
+
+interface PickOrderMatrixProps {
+  leagueId: string
+  sortedCaptains: CaptainPublic[]
+  roundCount: number
+  pickOrderMatrix: string[][] | null
+  isEditable: boolean
+}
+
+/**
+ * Grid editor for a custom draft: one row per round, one column per pick.
+ * Picking a captain who is already in the row swaps the two slots, so every
+ * row always lists each captain exactly once.
+ */
+export function PickOrderMatrix({
+  leagueId,
+  sortedCaptains,
+  roundCount,
+  pickOrderMatrix,
+  isEditable,
+}: PickOrderMatrixProps) {
+  // Unsaved edits; null means the grid shows the saved matrix
+  const [draftRows, setDraftRows] = useState<string[][] | null>(null)
+  const updateLeague = useUpdateLeague()
+  const { addToast } = useToast()
+
+  const captainIds = sortedCaptains.map((c) => c.id)
+  const savedRows = Array.from({ length: roundCount }, (_, round) => {
+    const row = pickOrderMatrix?.[round]
+    return isValidRoundOrder(row, captainIds) ? row : captainIds
+  })
+  const rows = draftRows ?? savedRows
+
+  function updateRow(round: number, newRow: string[]) {
+    setDraftRows(rows.map((row, i) => (i === round ? newRow : row)))
+  }
+
+  function handleSlotChange(round: number, slot: number, captainId: string) {
+    const row = [...rows[round]]
+    const otherSlot = row.indexOf(captainId)
+    if (otherSlot === -1 || otherSlot === slot) return
+    row[otherSlot] = row[slot]
+    row[slot] = captainId
+    updateRow(round, row)
+  }
+
+  function handleSnakeFill() {
+    setDraftRows(
+      Array.from({ length: roundCount }, (_, round) =>
+        round % 2 === 1 ? [...captainIds].reverse() : captainIds
+      )
+    )
+  }
+
+  async function handleSave() {
+    try {
+      await updateLeague.mutateAsync({ id: leagueId, pick_order_matrix: rows })
+      setDraftRows(null)
+      addToast('Pick order saved', 'success')
+    } catch {
+      // Error handled by mutation
+    }
+  }
+
+  const teamName = (captainId: string) => {
+    const captain = sortedCaptains.find((c) => c.id === captainId)
+    return captain ? captain.team_name || captain.name : 'Unknown'
+  }
+
+  if (sortedCaptains.length < 2 || roundCount === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add at least 2 captains and some players to set a custom pick order.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-sm font-medium">Pick Order by Round</h4>
+        {isEditable && (
+          <Button variant="outline" size="sm" onClick={handleSnakeFill}>
+            Fill as Snake
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 pr-2 font-medium">Round</th>
+              {captainIds.map((_, slot) => (
+                <th key={slot} className="px-1 py-1 font-medium">
+                  Pick {slot + 1}
+                </th>
+              ))}
+              {isEditable && <th className="sr-only">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, round) => (
+              <tr key={round}>
+                <td className="py-1 pr-2 font-medium">{round + 1}</td>
+                {row.map((captainId, slot) => (
+                  <td key={slot} className="min-w-32 px-1 py-1">
+                    {isEditable ? (
+                      <Select
+                        value={captainId}
+                        onChange={(e) => handleSlotChange(round, slot, e.target.value)}
+                        aria-label={`Round ${round + 1}, pick ${slot + 1}`}
+                      >
+                        {sortedCaptains.map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.team_name || c.name}
+                          </option>
+                        ))}
+                      </Select>
+                    ) : (
+                      <span className="truncate">{teamName(captainId)}</span>
+                    )}
+                  </td>
+                ))}
+                {isEditable && (
+                  <td className="py-1 pl-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateRow(round, [...row].reverse())}
+                      aria-label={`Reverse round ${round + 1}`}
+                      title="Reverse round"
+                    >
+                      <ArrowLeftRight className="h-4 w-4" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isEditable && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!draftRows}
+            loading={updateLeague.isPending}
+          >
+            Save Pick Order
+          </Button>
+          {draftRows && (
+            <Button variant="outline" size="sm" onClick={() => setDraftRows(null)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Discard Changes
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
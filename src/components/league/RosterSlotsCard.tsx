@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import { useUpdateLeague } from '@/hooks/useLeagues'
+import type { RosterSlots } from '@/lib/rosterSlots'
+import type { LeagueFullPublic, LeagueFieldSchema } from '@/lib/types'
+
+interface RosterSlotsCardProps {
+  league: LeagueFullPublic
+  fieldSchemas: LeagueFieldSchema[]
+}
+
+function getDropdownOptions(schema: LeagueFieldSchema | undefined): string[] {
+  return (schema?.field_options?.options as string[] | undefined) ?? []
+}
+
+function toSlotInputs(slots: RosterSlots | null): Record<string, string> {
+  return Object.fromEntries(Object.entries(slots ?? {}).map(([k, v]) => [k, String(v)]))
+}
+
+/**
+ * Limit how many players each team can draft per option of a dropdown field
+ * (e.g. 1 Goalie, 4 Defenders). Blank options are unrestricted.
+ */
+export function RosterSlotsCard({ league, fieldSchemas }: RosterSlotsCardProps) {
+  const [schemaId, setSchemaId] = useState(league.roster_slot_schema_id ?? '')
+  const [slotInputs, setSlotInputs] = useState(() => toSlotInputs(league.roster_slots))
+
+  const updateLeague = useUpdateLeague()
+  const { addToast } = useToast()
+
+  const dropdownSchemas = fieldSchemas.filter((s) => s.field_type === 'dropdown')
+  const options = getDropdownOptions(dropdownSchemas.find((s) => s.id === schemaId))
+  const isEditable = league.status === 'not_started' || league.status === 'paused'
+
+  function handleSchemaChange(id: string) {
+    setSchemaId(id)
+    setSlotInputs({})
+  }
+
+  async function handleSave() {
+    const slots: RosterSlots = {}
+    for (const option of options) {
+      const count = parseInt(slotInputs[option] ?? '', 10)
+      if (count > 0) slots[option] = count
+    }
+    const hasSlots = schemaId !== '' && Object.keys(slots).length > 0
+    try {
+      await updateLeague.mutateAsync({
+        id: league.id,
+        roster_slot_schema_id: hasSlots ? schemaId : null,
+        roster_slots: hasSlots ? slots : null,
+      })
+      addToast('Roster slots saved', 'success')
+    } catch {
+      // Error handled by mutation
+    }
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Roster Slots</CardTitle>
+        <CardDescription>
+          Limit how many players each team can draft per position. Auto-pick skips players whose
+          position is already full.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dropdownSchemas.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add a dropdown custom field (e.g. Position) to set roster slots.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="roster_slot_schema_id">Position Field</Label>
+              <Select
+                id="roster_slot_schema_id"
+                value={schemaId}
+                onChange={(e) => handleSchemaChange(e.target.value)}
+                disabled={!isEditable}
+              >
+                <option value="">No roster slots</option>
+                {dropdownSchemas.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.field_name}
+                  </option>
+                ))}
+              </Select>
+            </div>
+
+            {options.length > 0 && (
+              <div className="grid gap-3 sm:grid-cols-3">
+                {options.map((option) => (
+                  <div key={option} className="space-y-1">
+                    <Label htmlFor={`roster-slot-${option}`}>{option}</Label>
+                    <Input
+                      id={`roster-slot-${option}`}
+                      type="number"
+                      min={1}
+                      step={1}
+                      placeholder="No limit"
+                      value={slotInputs[option] ?? ''}
+                      onChange={(e) =>
+                        setSlotInputs((prev) => ({ ...prev, [option]: e.target.value }))
+                      }
+                      disabled={!isEditable}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isEditable && (
+              <Button onClick={handleSave} loading={updateLeague.isPending}>
+                Save Roster Slots
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,8 @@ import { PlayerProfileForm, type ProfileFormData } from '@/components/player/Pla
 import { SpreadsheetImportModal } from '@/components/spreadsheet/SpreadsheetImportModal'
 import { ManagerTeamSettingsModal } from '@/components/league/ManagerTeamSettingsModal'
 import { DraftOrderCard } from './DraftOrderCard'
+import { KeepersCard } from './KeepersCard'
+import { BigBoardCard } from './BigBoardCard'
 import { useToast } from '@/components/ui/Toast'
 import { useModalFocus } from '@/hooks/useModalFocus'
 import { useCreatePlayer, useDeletePlayer } from '@/hooks/usePlayers'
@@ -493,6 +495,12 @@ export function RosterTab({ league, customFieldsMap = {}, tokens, fieldSchemas }
         </CardContent>
       </Card>
 
+      {/* ── Big Board ────────────────────────────────────────────────── */}
+      {league.players.length > 0 && <BigBoardCard league={league} />}
+
+      {/* ── Keepers ──────────────────────────────────────────────────── */}
+      {league.draft_type !== 'auction' && <KeepersCard league={league} />}
+
       {/* ── Drafted Players ──────────────────────────────────────────── */}
       {draftedPlayers.length > 0 && (
         <Card>
@@ -1,7 +1,7 @@
 import { ChevronUp, ChevronDown, Settings, Trash2, Link as LinkIcon, Pencil } from 'lucide-react'
 import { SortableItem, DragHandle } from '@/components/ui/SortableList'
 import { Button } from '@/components/ui/Button'
-import type { CaptainPublic } from '@/lib/types'
+import type { CaptainPublic, PlayerPublic } from '@/lib/types'
 
 export interface SortableCaptainItemProps {
   captain: CaptainPublic
@@ -17,6 +17,7 @@ export interface SortableCaptainItemProps {
   onTeamSettings: (captain: CaptainPublic) => void
   onCopyLink: (captain: CaptainPublic) => void
   onEditPlayer?: (captain: CaptainPublic) => void
+  keepers?: PlayerPublic[]
 }
 
 export function SortableCaptainItem({
@@ -33,6 +34,7 @@ export function SortableCaptainItem({
   onTeamSettings,
   onCopyLink,
   onEditPlayer,
+  keepers = [],
 }: SortableCaptainItemProps) {
   return (
     <SortableItem
@@ -98,6 +100,11 @@ export function SortableCaptainItem({
             {captain.team_name && (
               <span className="text-sm text-muted-foreground">{captain.team_name}</span>
             )}
+            {keepers.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Keeps {keepers.map((p) => `${p.name} (Rd ${p.keeper_round})`).join(', ')}
+              </p>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-1 flex-shrink-0">
@@ -0,0 +1,392 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Copy, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { Label } from '@/components/ui/Label'
+import { Select } from '@/components/ui/Select'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
+import { useToast } from '@/components/ui/Toast'
+import {
+  useCreateWebhook,
+  useDeleteWebhook,
+  useLeagueWebhooks,
+  useUpdateWebhook,
+  useWebhookDeliveries,
+} from '@/hooks/useWebhooks'
+import { useLeagueCustomFields } from '@/hooks/useCustomFields'
+import { WEBHOOK_EVENTS, describeWebhookDelivery, validateWebhookUrl } from '@/lib/webhooks'
+import {
+  WEBHOOK_FORMATS,
+  formatWebhookBody,
+  getWebhookPreviewPayload,
+  type WebhookEventPayload,
+} from '@/lib/webhookFormats'
+import type { LeagueFullPublic, LeagueWebhook, WebhookEvent, WebhookFormat } from '@/lib/types'
+
+interface WebhooksCardProps {
+  league: LeagueFullPublic
+}
+
+const DELIVERY_STATUS_CLASSES = {
+  pending: 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400',
+  delivered: 'bg-green-500/10 text-green-700 dark:text-green-400',
+  failed: 'bg-destructive/10 text-destructive',
+}
+
+function EventCheckboxes({
+  idPrefix,
+  selected,
+  onChange,
+}: {
+  idPrefix: string
+  selected: WebhookEvent[]
+  onChange: (events: WebhookEvent[]) => void
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {WEBHOOK_EVENTS.map((event) => (
+        <div key={event.value} className="flex items-center gap-2">
+          <input
+            id={`${idPrefix}-${event.value}`}
+            type="checkbox"
+            checked={selected.includes(event.value)}
+            onChange={(e) =>
+              onChange(
+                e.target.checked
+                  ? [...selected, event.value]
+                  : selected.filter((v) => v !== event.value)
+              )
+            }
+            className="h-4 w-4 rounded border-border"
+          />
+          <Label htmlFor={`${idPrefix}-${event.value}`} className="font-normal">
+            {event.label}
+          </Label>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface FormatSettings {
+  format: WebhookFormat
+  include_custom_fields: boolean
+}
+
+/** Format and custom-field choice, with a preview of a pick in that format. */
+function FormatSettingsFields({
+  idPrefix,
+  value,
+  onChange,
+  previewPayload,
+}: {
+  idPrefix: string
+  value: FormatSettings
+  onChange: (value: Partial<FormatSettings>) => void
+  previewPayload: WebhookEventPayload
+}) {
+  const [showPreview, setShowPreview] = useState(false)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}-format`} className="font-normal">
+            Format
+          </Label>
+          <Select
+            id={`${idPrefix}-format`}
+            value={value.format}
+            onChange={(e) => onChange({ format: e.target.value as WebhookFormat })}
+          >
+            {WEBHOOK_FORMATS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            id={`${idPrefix}-custom-fields`}
+            type="checkbox"
+            checked={value.include_custom_fields}
+            onChange={(e) => onChange({ include_custom_fields: e.target.checked })}
+            className="h-4 w-4 rounded border-border"
+          />
+          <Label htmlFor={`${idPrefix}-custom-fields`} className="font-normal">
+            Include player custom fields
+          </Label>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowPreview((v) => !v)}
+          className="text-sm font-medium text-primary hover:underline"
+        >
+          {showPreview ? 'Hide preview' : 'Preview'}
+        </button>
+      </div>
+      {showPreview && (
+        <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+          {JSON.stringify(
+            formatWebhookBody(value.format, previewPayload, {
+              includeCustomFields: value.include_custom_fields,
+            }),
+            null,
+            2
+          )}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+function WebhookDeliveries({ webhookId }: { webhookId: string }) {
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(webhookId)
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading deliveries...</p>
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing has been sent yet.</p>
+  }
+
+  return (
+    <ul className="divide-y divide-border rounded-md border border-border">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-2">
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ${DELIVERY_STATUS_CLASSES[delivery.status]}`}
+          >
+            {delivery.status}
+          </span>
+          <span className="text-sm font-medium">{delivery.event}</span>
+          <span className="text-sm text-muted-foreground">{describeWebhookDelivery(delivery)}</span>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {new Date(delivery.created_at).toLocaleString()}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function WebhookItem({
+  webhook,
+  previewPayload,
+}: {
+  webhook: LeagueWebhook
+  previewPayload: WebhookEventPayload
+}) {
+  const [showDeliveries, setShowDeliveries] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const updateWebhook = useUpdateWebhook()
+  const deleteWebhook = useDeleteWebhook()
+  const { addToast } = useToast()
+
+  async function update(
+    data: { events?: WebhookEvent[]; enabled?: boolean } & Partial<FormatSettings>
+  ) {
+    try {
+      await updateWebhook.mutateAsync({ id: webhook.id, leagueId: webhook.league_id, ...data })
+    } catch {
+      addToast('Failed to update webhook', 'error')
+    }
+  }
+
+  async function handleDelete() {
+    try {
+      await deleteWebhook.mutateAsync({ id: webhook.id, leagueId: webhook.league_id })
+      addToast('Webhook deleted', 'success')
+    } catch {
+      addToast('Failed to delete webhook', 'error')
+    }
+  }
+
+  async function handleCopySecret() {
+    try {
+      await navigator.clipboard.writeText(webhook.secret)
+      addToast('Signing secret copied', 'success')
+    } catch {
+      addToast('Failed to copy secret', 'error')
+    }
+  }
+
+  return (
+    <li className="space-y-3 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="min-w-0 flex-1 truncate font-mono text-sm" title={webhook.url}>
+          {webhook.url}
+        </span>
+        <div className="flex items-center gap-2">
+          <input
+            id={`webhook-enabled-${webhook.id}`}
+            type="checkbox"
+            checked={webhook.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            disabled={updateWebhook.isPending}
+            className="h-4 w-4 rounded border-border"
+          />
+          <Label htmlFor={`webhook-enabled-${webhook.id}`} className="font-normal">
+            Enabled
+          </Label>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCopySecret}>
+          <Copy className="mr-1.5 h-4 w-4" />
+          Secret
+        </Button>
+        {confirmDelete ? (
+          <>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleDelete}
+              loading={deleteWebhook.isPending}
+            >
+              Delete
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setConfirmDelete(true)}
+            title="Delete webhook"
+            aria-label="Delete webhook"
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+
+      <EventCheckboxes
+        idPrefix={`webhook-${webhook.id}`}
+        selected={webhook.events}
+        onChange={(events) => {
+          if (events.length > 0) update({ events })
+        }}
+      />
+
+      <FormatSettingsFields
+        idPrefix={`webhook-${webhook.id}`}
+        value={webhook}
+        onChange={update}
+        previewPayload={previewPayload}
+      />
+
+      <button
+        type="button"
+        onClick={() => setShowDeliveries((v) => !v)}
+        className="flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+      >
+        {showDeliveries ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        Recent deliveries
+      </button>
+      {showDeliveries && <WebhookDeliveries webhookId={webhook.id} />}
+    </li>
+  )
+}
+
+/**
+ * URLs that receive the league's draft events as signed JSON POSTs, e.g. a
+ * group chat bot announcing picks. Delivery is queued and retried on the
+ * server (migration 046, deliver-webhooks).
+ */
+export function WebhooksCard({ league }: WebhooksCardProps) {
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>(WEBHOOK_EVENTS.map((e) => e.value))
+  const [formatSettings, setFormatSettings] = useState<FormatSettings>({
+    format: 'raw',
+    include_custom_fields: false,
+  })
+  const [urlError, setUrlError] = useState<string | null>(null)
+
+  const { data: webhooks = [] } = useLeagueWebhooks(league.id)
+  const { data: customFieldsMap } = useLeagueCustomFields(league.id)
+  const previewPayload = getWebhookPreviewPayload(league, customFieldsMap)
+  const createWebhook = useCreateWebhook()
+  const { addToast } = useToast()
+
+  async function handleAdd() {
+    const error = validateWebhookUrl(url)
+    setUrlError(error)
+    if (error) return
+    if (events.length === 0) {
+      addToast('Choose at least one event', 'error')
+      return
+    }
+
+    try {
+      await createWebhook.mutateAsync({
+        league_id: league.id,
+        url: url.trim(),
+        events,
+        ...formatSettings,
+      })
+      setUrl('')
+      addToast('Webhook added', 'success')
+    } catch {
+      addToast('Failed to add webhook', 'error')
+    }
+  }
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Send draft events to a Slack or Discord channel, or to your own services as JSON POSTs.
+          Each request carries an{' '}
+          <code>X-Draft-Room-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code> header,
+          where the signature is the hex HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code>{' '}
+          with the webhook&apos;s secret. Failed deliveries are retried for up to 8 hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {webhooks.length > 0 && (
+          <ul className="divide-y divide-border rounded-md border border-border">
+            {webhooks.map((webhook) => (
+              <WebhookItem key={webhook.id} webhook={webhook} previewPayload={previewPayload} />
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="webhook_url">Add a Webhook URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="webhook_url"
+                type="url"
+                placeholder="https://example.com/hooks/draft"
+                value={url}
+                onChange={(e) => {
+                  setUrl(e.target.value)
+                  setUrlError(null)
+                }}
+                className="flex-1"
+              />
+              <Button onClick={handleAdd} loading={createWebhook.isPending} disabled={!url.trim()}>
+                <Plus className="mr-1.5 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {urlError && <p className="text-sm text-destructive">{urlError}</p>}
+          </div>
+          <EventCheckboxes idPrefix="new-webhook" selected={events} onChange={setEvents} />
+          <FormatSettingsFields
+            idPrefix="new-webhook"
+            value={formatSettings}
+            onChange={(value) => setFormatSettings((prev) => ({ ...prev, ...value }))}
+            previewPayload={previewPayload}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
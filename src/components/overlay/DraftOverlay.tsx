@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react'
+import { useTimer } from '@/hooks/useTimer'
+import { formatTime, getCurrentRound, getPickTimeLimit } from '@/lib/draft'
+import { getRecentPicks, type OverlayOptions, type OverlayPick } from '@/lib/overlay'
+import { cn, getInitials } from '@/lib/utils'
+import type { CaptainPublic, LeagueFullPublic } from '@/lib/types'
+
+interface DraftOverlayProps {
+  league: LeagueFullPublic
+  currentCaptain: CaptainPublic | undefined
+  options: OverlayOptions
+}
+
+const FALLBACK_TEAM_COLOR = 'var(--color-primary)'
+
+function teamLabel(captain: CaptainPublic | undefined): string {
+  return captain ? captain.team_name || captain.name : 'Unknown team'
+}
+
+function TeamBadge({ captain, size }: { captain: CaptainPublic | undefined; size: string }) {
+  if (captain?.team_photo_url) {
+    return (
+      <img
+        src={captain.team_photo_url}
+        alt=""
+        className={cn(size, 'shrink-0 rounded-full object-cover')}
+      />
+    )
+  }
+  return (
+    <div
+      className={cn(size, 'flex shrink-0 items-center justify-center rounded-full font-bold')}
+      style={{ backgroundColor: captain?.team_color ?? FALLBACK_TEAM_COLOR, color: 'white' }}
+    >
+      {getInitials(teamLabel(captain))}
+    </div>
+  )
+}
+
+function Countdown({ league, captain }: { league: LeagueFullPublic; captain: CaptainPublic }) {
+  const { remainingTime } = useTimer(
+    league.current_pick_started_at,
+    getPickTimeLimit(league, captain),
+    league.status === 'in_progress'
+  )
+
+  return (
+    <div
+      className={cn(
+        'text-5xl font-bold tabular-nums',
+        remainingTime <= 5
+          ? 'text-red-500 animate-pulse-fast'
+          : remainingTime <= 10 && 'text-yellow-500'
+      )}
+    >
+      {league.status === 'paused' ? 'PAUSED' : formatTime(remainingTime)}
+    </div>
+  )
+}
+
+/** "Now picking": the team on the clock, their pick and the countdown. */
+function LowerThird({ league, currentCaptain, options }: DraftOverlayProps) {
+  const isLive = league.status === 'in_progress' || league.status === 'paused'
+  const isAuction = league.draft_type === 'auction'
+  const captain = isLive ? currentCaptain : undefined
+
+  let label = league.name
+  let title = 'Draft starts soon'
+  if (league.status === 'completed') title = 'Draft complete'
+  if (captain) {
+    label = isAuction
+      ? 'Now nominating'
+      : `Now picking · Round ${getCurrentRound(league.current_pick_index, league.captains.length)}, Pick ${league.current_pick_index + 1}`
+    title = teamLabel(captain)
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex w-[42rem] max-w-full items-center gap-5 overflow-hidden rounded-xl border-l-8 p-5 shadow-2xl animate-slide-up',
+        options.theme === 'light' ? 'bg-white/90 text-neutral-900' : 'bg-black/75 text-white'
+      )}
+      style={{ borderLeftColor: captain?.team_color ?? FALLBACK_TEAM_COLOR }}
+    >
+      {captain && <TeamBadge captain={captain} size="h-20 w-20 text-2xl" />}
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-semibold uppercase tracking-widest opacity-75">
+          {label}
+        </p>
+        <p className="truncate text-4xl font-bold">{title}</p>
+        {captain && captain.team_name && (
+          <p className="truncate text-lg opacity-75">{captain.name}</p>
+        )}
+      </div>
+      {captain && options.showTimer && <Countdown league={league} captain={captain} />}
+    </div>
+  )
+}
+
+/** Full-screen "the pick is in" card for the newest pick. */
+function PickReveal({ item, options }: { item: OverlayPick; options: OverlayOptions }) {
+  const color = item.captain?.team_color ?? FALLBACK_TEAM_COLOR
+  const playerName = item.player?.name ?? 'Unknown player'
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center">
+      <div
+        className={cn(
+          'flex w-[36rem] flex-col items-center gap-4 rounded-2xl border-t-8 p-8 text-center shadow-2xl animate-scale-in',
+          options.theme === 'light' ? 'bg-white/95 text-neutral-900' : 'bg-black/85 text-white'
+        )}
+        style={{ borderTopColor: color }}
+      >
+        <p className="text-lg font-semibold uppercase tracking-widest opacity-75">
+          The pick is in · #{item.pick.pick_number}
+        </p>
+        {item.player?.profile_picture_url ? (
+          <img
+            src={item.player.profile_picture_url}
+            alt=""
+            className="h-48 w-48 rounded-full border-4 object-cover"
+            style={{ borderColor: color }}
+          />
+        ) : (
+          <div
+            className="flex h-48 w-48 items-center justify-center rounded-full text-6xl font-bold text-white"
+            style={{ backgroundColor: color }}
+          >
+            {getInitials(playerName)}
+          </div>
+        )}
+        <p className="text-5xl font-bold">{playerName}</p>
+        <div className="flex items-center gap-3 text-2xl">
+          <TeamBadge captain={item.captain} size="h-10 w-10 text-sm" />
+          <span>{teamLabel(item.captain)}</span>
+          {item.pick.price !== null && <span className="font-semibold">${item.pick.price}</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/** Recent picks scrolling along the bottom. */
+function PickTicker({ picks, options }: { picks: OverlayPick[]; options: OverlayOptions }) {
+  const items = picks.map((item) => (
+    <span key={item.pick.id} className="flex shrink-0 items-center gap-2 px-6">
+      <span
+        className="h-3 w-3 rounded-full"
+        style={{ backgroundColor: item.captain?.team_color ?? FALLBACK_TEAM_COLOR }}
+      />
+      <span className="opacity-75">#{item.pick.pick_number}</span>
+      <span className="font-semibold">{item.player?.name ?? 'Unknown player'}</span>
+      <span className="opacity-75">{teamLabel(item.captain)}</span>
+    </span>
+  ))
+
+  return (
+    <div
+      className={cn(
+        'overflow-hidden py-2 text-xl whitespace-nowrap',
+        options.theme === 'light' ? 'bg-white/90 text-neutral-900' : 'bg-black/75 text-white'
+      )}
+    >
+      {/* Two copies so the loop is seamless; the animation moves one copy's width */}
+      <div className="flex w-max animate-ticker" aria-label="Recent picks">
+        <div className="flex">{items}</div>
+        <div className="flex" aria-hidden>
+          {items}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Broadcast graphics for an OBS browser source: a lower-third for the team on
+ * the clock, a reveal card for each new pick and a ticker of recent picks, on
+ * a transparent page.
+ */
+export function DraftOverlay({ league, currentCaptain, options }: DraftOverlayProps) {
+  const recentPicks = getRecentPicks(league, Math.max(options.tickerCount, 1))
+  const latest = recentPicks[0] ?? null
+  const latestPickNumber = latest?.pick.pick_number ?? 0
+
+  const [reveal, setReveal] = useState<OverlayPick | null>(null)
+  // Newest pick number already handled; only a newer pick is revealed, not the
+  // initial load or a rewind. Updated during render, as React recommends for
+  // state that follows a prop.
+  const [seenPickNumber, setSeenPickNumber] = useState(latestPickNumber)
+  if (latestPickNumber !== seenPickNumber) {
+    setSeenPickNumber(latestPickNumber)
+    if (latest && latestPickNumber > seenPickNumber && options.showReveal) setReveal(latest)
+  }
+
+  useEffect(() => {
+    if (!reveal) return
+    const timeout = setTimeout(() => setReveal(null), options.revealSeconds * 1000)
+    return () => clearTimeout(timeout)
+  }, [reveal, options.revealSeconds])
+
+  return (
+    <div className="fixed inset-0 overflow-hidden" style={{ zoom: options.scale }}>
+      {reveal && <PickReveal key={reveal.pick.id} item={reveal} options={options} />}
+
+      <div className="absolute inset-x-0 bottom-0 flex flex-col gap-4">
+        <div
+          className={cn(
+            'flex px-12',
+            options.align === 'center' && 'justify-center',
+            options.align === 'right' && 'justify-end'
+          )}
+        >
+          <LowerThird league={league} currentCaptain={currentCaptain} options={options} />
+        </div>
+        {options.tickerCount > 0 && recentPicks.length > 0 ? (
+          <PickTicker picks={recentPicks} options={options} />
+        ) : (
+          <div className="h-8" />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { LeagueApiKey } from '@/lib/types'
+
+/** The league's API keys, active and revoked, newest first. Only the manager can read them (RLS). */
+export function useLeagueApiKeys(leagueId: string | undefined) {
+  return useQuery({
+    queryKey: ['league-api-keys', leagueId],
+    queryFn: async () => {
+      if (!leagueId) return []
+
+      const { data, error } = await supabase
+        .from('league_api_keys')
+        .select('id, league_id, name, key_prefix, created_at, last_used_at, revoked_at')
+        .eq('league_id', leagueId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as LeagueApiKey[]
+    },
+    enabled: !!leagueId,
+  })
+}
+
+/** Creates a key and returns it in full. It can't be read again afterwards. */
+export function useCreateApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ leagueId, name }: { leagueId: string; name: string }) => {
+      const { data, error } = await supabase.rpc('create_league_api_key', {
+        p_league_id: leagueId,
+        p_name: name,
+      })
+
+      if (error) throw error
+      return { leagueId, key: data as string }
+    },
+    onSuccess: ({ leagueId }) => {
+      queryClient.invalidateQueries({ queryKey: ['league-api-keys', leagueId] })
+    },
+  })
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, leagueId }: { id: string; leagueId: string }) => {
+      const { error } = await supabase.rpc('revoke_league_api_key', { p_key_id: id })
+
+      if (error) throw error
+      return { leagueId }
+    },
+    onSuccess: ({ leagueId }) => {
+      queryClient.invalidateQueries({ queryKey: ['league-api-keys', leagueId] })
+    },
+  })
+}
@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { parseEdgeFunctionError } from '@/lib/edgeFunctionUtils'
+import { trackCount, trackDistribution, startTimer } from '@/lib/metrics'
+import type { AuctionNomination } from '@/lib/types'
+
+/**
+ * The player currently on the block in an auction draft (null between nominations).
+ * Kept fresh by the realtime subscription in useDraft.
+ */
+export function useOpenNomination(leagueId: string | undefined, enabled: boolean) {
+  return useQuery({
+    queryKey: ['auction-nomination', leagueId],
+    queryFn: async () => {
+      if (!leagueId) return null
+
+      const { data, error } = await supabase
+        .from('auction_nominations')
+        .select('*')
+        .eq('league_id', leagueId)
+        .eq('status', 'open')
+        .maybeSingle()
+
+      if (error) throw error
+      return (data as AuctionNomination | null) ?? null
+    },
+    enabled: !!leagueId && enabled,
+  })
+}
+
+interface AuctionActionInput {
+  leagueId: string
+  captainId: string
+  amount: number
+  captainToken?: string
+}
+
+async function invokeManageAuction(
+  body: Record<string, unknown>,
+  fallbackMessage: string
+): Promise<void> {
+  const elapsed = startTimer()
+  const response = await supabase.functions.invoke('manage-auction', { body })
+
+  if (response.error) {
+    trackCount('edge_function.error', { function_name: 'manage-auction' })
+    const message = await parseEdgeFunctionError(response.response, fallbackMessage)
+    throw new Error(message)
+  }
+  if (response.data?.error) {
+    trackCount('edge_function.error', { function_name: 'manage-auction' })
+    throw new Error(response.data.error)
+  }
+
+  trackDistribution('edge_function.latency', elapsed(), 'millisecond', {
+    function_name: 'manage-auction',
+  })
+}
+
+export function useNominatePlayer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ playerId, ...input }: AuctionActionInput & { playerId: string }) => {
+      await invokeManageAuction(
+        { action: 'nominate', playerId, ...input },
+        'Failed to nominate player'
+      )
+    },
+    onSuccess: (_, variables) => {
+      trackCount('auction.player_nominated', { by_manager: !variables.captainToken })
+      queryClient.invalidateQueries({ queryKey: ['auction-nomination', variables.leagueId] })
+      queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+    },
+  })
+}
+
+export function usePlaceBid() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      nominationId,
+      ...input
+    }: AuctionActionInput & { nominationId: string }) => {
+      await invokeManageAuction({ action: 'bid', nominationId, ...input }, 'Failed to place bid')
+    },
+    onSuccess: (_, variables) => {
+      trackCount('auction.bid_placed', { by_manager: !variables.captainToken })
+      queryClient.invalidateQueries({ queryKey: ['auction-nomination', variables.leagueId] })
+      queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+    },
+  })
+}
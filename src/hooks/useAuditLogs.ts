@@ -0,0 +1,82 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { AUDIT_LOG_PAGE_SIZE, getAuditLogSince, type AuditLogFilters } from '@/lib/auditLog'
+import type { AuditLog } from '@/lib/types'
+
+/** PostgREST returns at most this many rows per request. */
+const EXPORT_BATCH_SIZE = 1000
+
+function selectAuditLogs(leagueId: string, filters: AuditLogFilters, withCount = false) {
+  let query = supabase
+    .from('audit_logs')
+    .select('*', withCount ? { count: 'exact' } : undefined)
+    .eq('league_id', leagueId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.actorType) query = query.eq('actor_type', filters.actorType)
+  const since = getAuditLogSince(filters.range, Date.now())
+  if (since) query = query.gte('created_at', since)
+
+  return query
+}
+
+/**
+ * One page of a league's audit log, newest first. Only the league's manager
+ * can read it (RLS). The previous page stays on screen while the next loads.
+ */
+export function useAuditLogs(leagueId: string | undefined, filters: AuditLogFilters, page: number) {
+  return useQuery({
+    queryKey: ['audit-logs', leagueId, filters, page],
+    queryFn: async () => {
+      if (!leagueId) return { logs: [], total: 0 }
+
+      const from = page * AUDIT_LOG_PAGE_SIZE
+      const { data, count, error } = await selectAuditLogs(leagueId, filters, true).range(
+        from,
+        from + AUDIT_LOG_PAGE_SIZE - 1
+      )
+
+      if (error) throw error
+      return { logs: data as AuditLog[], total: count ?? 0 }
+    },
+    enabled: !!leagueId,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/** Actions that appear in a league's audit log, for the action filter. */
+export function useAuditLogActions(leagueId: string | undefined) {
+  return useQuery({
+    queryKey: ['audit-log-actions', leagueId],
+    queryFn: async () => {
+      if (!leagueId) return []
+
+      const { data, error } = await supabase.rpc('get_audit_log_actions', {
+        p_league_id: leagueId,
+      })
+
+      if (error) throw error
+      return data as string[]
+    },
+    enabled: !!leagueId,
+  })
+}
+
+/** Every entry matching the filters, for export. */
+export async function fetchAllAuditLogs(
+  leagueId: string,
+  filters: AuditLogFilters
+): Promise<AuditLog[]> {
+  const logs: AuditLog[] = []
+  for (let from = 0; ; from += EXPORT_BATCH_SIZE) {
+    const { data, error } = await selectAuditLogs(leagueId, filters).range(
+      from,
+      from + EXPORT_BATCH_SIZE - 1
+    )
+    if (error) throw error
+    logs.push(...(data as AuditLog[]))
+    if (data.length < EXPORT_BATCH_SIZE) return logs
+  }
+}
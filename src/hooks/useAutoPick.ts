@@ -13,6 +13,8 @@ interface UseAutoPickOptions {
   availablePlayerCount: number
   captainToken?: string
   spectatorToken?: string
+  /** When false, captains with auto-pick on aren't picked for (mock drafts pick for their bots) */
+  enabled?: boolean
 }
 
 export function useAutoPick({
@@ -23,6 +25,7 @@ export function useAutoPick({
   availablePlayerCount,
   captainToken,
   spectatorToken,
+  enabled = true,
 }: UseAutoPickOptions) {
   const [showAutoPickFlash, setShowAutoPickFlash] = useState(false)
   const isAutoPickingRef = useRef(false)
@@ -88,13 +91,29 @@ export function useAutoPick({
         trackDistribution('edge_function.latency', elapsed(), 'millisecond', {
           function_name: 'auto-pick',
         })
-        addToast(
-          `Auto-picked ${response.data.pick.player} for ${response.data.pick.captain}`,
-          'info'
-        )
-        // Brief flash animation
-        setShowAutoPickFlash(true)
-        setTimeout(() => setShowAutoPickFlash(false), 1500)
+        const { pick, auction, timeoutPolicy } = response.data
+        if (timeoutPolicy) {
+          // The league's consecutive-timeout policy skipped the turn or paused the draft
+          addToast(
+            timeoutPolicy === 'pause'
+              ? `Draft paused: ${pick.captain} has missed too many picks in a row`
+              : `Skipped ${pick.captain}'s turn after too many missed picks in a row`,
+            'info'
+          )
+        } else {
+          // Auction drafts resolve the clock with a sale or an automatic nomination
+          addToast(
+            auction === 'sold'
+              ? `${pick.player} sold to ${pick.captain} for $${pick.price}`
+              : auction === 'nominated'
+                ? `Auto-nominated ${pick.player} for ${pick.captain}`
+                : `Auto-picked ${pick.player} for ${pick.captain}`,
+            'info'
+          )
+          // Brief flash animation
+          setShowAutoPickFlash(true)
+          setTimeout(() => setShowAutoPickFlash(false), 1500)
+        }
         // Invalidate queries to refresh data
         queryClient.invalidateQueries({ queryKey: ['league', leagueId] })
       }
@@ -113,6 +132,7 @@ export function useAutoPick({
   // Any connected client (manager, captain, or spectator) can trigger this.
   // The edge function validates auth via captain token, spectator token, or manager JWT.
   useEffect(() => {
+    if (!enabled) return
     // Only when draft is in progress
     if (leagueStatus !== 'in_progress') return
     // Only if there's a current captain with auto-pick enabled
@@ -137,6 +157,7 @@ export function useAutoPick({
 
     return () => clearTimeout(timeoutId)
   }, [
+    enabled,
     leagueStatus,
     currentPickIndex,
     currentCaptain?.id,
@@ -0,0 +1,32 @@
+import { useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { trackCount } from '@/lib/metrics'
+
+/** How often a captain page checks in. Well under the shortest disconnect delay (1 minute). */
+const HEARTBEAT_INTERVAL_MS = 15 * 1000
+
+/**
+ * Tell the server this captain's page is open, so leagues with
+ * disconnect_auto_pick_seconds can tell who has left (migration 041).
+ */
+export function useCaptainHeartbeat(
+  leagueId: string | undefined,
+  captainToken: string | null,
+  enabled: boolean
+) {
+  useEffect(() => {
+    if (!leagueId || !captainToken || !enabled) return
+
+    async function beat() {
+      const { error } = await supabase.rpc('record_captain_heartbeat', {
+        p_league_id: leagueId,
+        p_token: captainToken,
+      })
+      if (error) trackCount('captain_heartbeat.error')
+    }
+
+    beat()
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [leagueId, captainToken, enabled])
+}
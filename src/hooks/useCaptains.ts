@@ -4,7 +4,7 @@ import { blobToBase64 } from '@/lib/utils'
 import { DEFAULT_CAPTAIN_COLORS } from '@/lib/colors'
 import { CAPTAIN_COLUMNS } from '@/lib/queryColumns'
 import { shuffleArray } from '@/lib/utils'
-import type { CaptainPublic, LeagueFullPublic, PlayerPublic } from '@/lib/types'
+import type { AutoPickStrategy, CaptainPublic, LeagueFullPublic, PlayerPublic } from '@/lib/types'
 
 interface CreateCaptainInput {
   league_id: string
@@ -144,16 +144,19 @@ export function useUpdateCaptainColor() {
       captainId,
       color,
       teamName,
+      autoPickStrategy,
       leagueId,
     }: {
       captainId: string
       color?: string
       teamName?: string | null
+      autoPickStrategy?: AutoPickStrategy | null
       leagueId: string
     }) => {
       const updateFields: Record<string, unknown> = {}
       if (color !== undefined) updateFields.team_color = color
       if (teamName !== undefined) updateFields.team_name = teamName
+      if (autoPickStrategy !== undefined) updateFields.auto_pick_strategy = autoPickStrategy
 
       const { error } = await supabase.from('captains').update(updateFields).eq('id', captainId)
 
@@ -175,6 +178,7 @@ export function useUpdateCaptainColorAsCaptain() {
       color,
       teamName,
       teamPhotoUrl,
+      autoPickStrategy,
       captainToken,
       leagueId,
     }: {
@@ -182,6 +186,7 @@ export function useUpdateCaptainColorAsCaptain() {
       color?: string
       teamName?: string | null
       teamPhotoUrl?: string | null
+      autoPickStrategy?: AutoPickStrategy | null
       captainToken: string
       leagueId: string
     }) => {
@@ -189,6 +194,7 @@ export function useUpdateCaptainColorAsCaptain() {
       if (color !== undefined) body.color = color
       if (teamName !== undefined) body.teamName = teamName
       if (teamPhotoUrl !== undefined) body.teamPhotoUrl = teamPhotoUrl
+      if (autoPickStrategy !== undefined) body.autoPickStrategy = autoPickStrategy
 
       const response = await supabase.functions.invoke('update-captain-color', { body })
 
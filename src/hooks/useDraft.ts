@@ -1,11 +1,26 @@
 import { useEffect, useCallback, useMemo, useState, useRef } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import * as Sentry from '@sentry/react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 import { parseEdgeFunctionError } from '@/lib/edgeFunctionUtils'
 import { trackCount, trackDistribution, startTimer } from '@/lib/metrics'
 import { useLeague, useUpdateLeague } from './useLeagues'
-import { getPickOrder, getCaptainAtPick, getAvailablePlayers } from '@/lib/draft'
+import { usePresenceStatus } from './usePresenceStatus'
+import {
+  getPickOrder,
+  getCaptainAtPick,
+  getAvailablePlayers,
+  getUnplacedKeepers,
+} from '@/lib/draft'
+import { getAuctionRosterSize, getNominatingCaptain, getRosterCounts } from '@/lib/auction'
+import {
+  EMPTY_PRESENCE,
+  summarizePresence,
+  type DraftPresence,
+  type PresenceMeta,
+  type PresenceRole,
+} from '@/lib/presence'
 import type { LeagueFullPublic, PlayerPublic, CaptainPublic, ValidatedCaptain } from '@/lib/types'
 
 interface UseDraftReturn {
@@ -13,6 +28,8 @@ interface UseDraftReturn {
   isLoading: boolean
   error: Error | null
   isSubscribed: boolean
+  /** Who has the draft open, from realtime presence */
+  presence: DraftPresence
   dataUpdatedAt: number
   currentCaptain: CaptainPublic | undefined
   availablePlayers: PlayerPublic[]
@@ -23,12 +40,25 @@ interface UseDraftReturn {
   resumeDraft: () => Promise<void>
   restartDraft: () => Promise<void>
   undoLastPick: () => Promise<void>
+  rewindToPick: (pickNumber: number, restoreQueues: boolean) => Promise<void>
   makePick: (playerId: string, captainId: string, captainToken?: string) => Promise<void>
 }
 
-export function useDraft(leagueId: string | undefined): UseDraftReturn {
+/** How this page appears in presence; pages that omit it are not shown as connected. */
+interface PresenceIdentity {
+  role: PresenceRole
+  captainId?: string | null
+}
+
+export function useDraft(
+  leagueId: string | undefined,
+  identity?: PresenceIdentity
+): UseDraftReturn {
   const queryClient = useQueryClient()
   const [isSubscribed, setIsSubscribed] = useState(false)
+  const [presence, setPresence] = useState<DraftPresence>(EMPTY_PRESENCE)
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const presenceStatus = usePresenceStatus()
   const prevStatusRef = useRef<string | undefined>(undefined)
 
   // Use polling as fallback when subscription isn't connected or draft is active
@@ -98,6 +128,57 @@ export function useDraft(leagueId: string | undefined): UseDraftReturn {
           queryClient.invalidateQueries({ queryKey: ['league', leagueId] })
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'auction_nominations',
+          filter: `league_id=eq.${leagueId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['auction-nomination', leagueId] })
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'trades',
+          filter: `league_id=eq.${leagueId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['trades', leagueId] })
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'draft_events',
+          filter: `league_id=eq.${leagueId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['draft-events', leagueId] })
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'pick_ownership',
+          filter: `league_id=eq.${leagueId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['league', leagueId] })
+        }
+      )
+      .on('presence', { event: 'sync' }, () => {
+        setPresence(summarizePresence(channel.presenceState<PresenceMeta>()))
+      })
       .subscribe((status) => {
         trackCount('realtime.subscription_status', { status })
         const connected = status === 'SUBSCRIBED'
@@ -106,13 +187,29 @@ export function useDraft(leagueId: string | undefined): UseDraftReturn {
         }
         setIsSubscribed(connected)
       })
+    channelRef.current = channel
 
     return () => {
       setIsSubscribed(false)
+      setPresence(EMPTY_PRESENCE)
+      channelRef.current = null
       supabase.removeChannel(channel)
     }
   }, [leagueId, queryClient])
 
+  // Announce this page on the channel, and again whenever its status changes
+  const presenceRole = identity?.role
+  const presenceCaptainId = identity?.captainId ?? null
+  useEffect(() => {
+    if (!isSubscribed || !presenceRole || !channelRef.current) return
+    const meta: PresenceMeta = {
+      role: presenceRole,
+      captainId: presenceCaptainId,
+      status: presenceStatus,
+    }
+    channelRef.current.track(meta)
+  }, [isSubscribed, presenceRole, presenceCaptainId, presenceStatus])
+
   // Track draft completion when status transitions to 'completed'
   useEffect(() => {
     if (league?.status === 'completed' && prevStatusRef.current === 'in_progress') {
@@ -142,24 +239,45 @@ export function useDraft(leagueId: string | undefined): UseDraftReturn {
     [league]
   )
 
+  // Keepers only get a draft_picks row once the draft starts, so count them separately
   const totalPicks = useMemo(
-    () => availablePlayers.length + (league?.draft_picks?.length ?? 0),
-    [availablePlayers.length, league?.draft_picks?.length]
+    () =>
+      league
+        ? availablePlayers.length +
+          league.draft_picks.length +
+          getUnplacedKeepers(league.players).length
+        : 0,
+    [league, availablePlayers.length]
   )
 
   const pickOrder = useMemo(
-    () => (league ? getPickOrder(league.captains, totalPicks, league.draft_type) : []),
-    [league, totalPicks]
-  )
-
-  const currentCaptain = useMemo(
     () =>
       league
-        ? getCaptainAtPick(league.captains, league.current_pick_index, league.draft_type)
-        : undefined,
-    [league]
+        ? getPickOrder(league.captains, totalPicks, league.draft_type, {
+            pickOrderMatrix: league.pick_order_matrix,
+            pickOwnership: league.pick_ownership,
+          })
+        : [],
+    [league, totalPicks]
   )
 
+  // In auction drafts the "current captain" is the one nominating
+  const currentCaptain = useMemo(() => {
+    if (!league) return undefined
+    if (league.draft_type === 'auction') {
+      return getNominatingCaptain(
+        league.captains,
+        league.current_pick_index,
+        getRosterCounts(league.draft_picks),
+        getAuctionRosterSize(totalPicks, league.captains.length)
+      )
+    }
+    return getCaptainAtPick(league.captains, league.current_pick_index, league.draft_type, {
+      pickOrderMatrix: league.pick_order_matrix,
+      pickOwnership: league.pick_ownership,
+    })
+  }, [league, totalPicks])
+
   const startDraft = useCallback(async () => {
     if (!league || league.status !== 'not_started') return
 
@@ -265,6 +383,44 @@ export function useDraft(leagueId: string | undefined): UseDraftReturn {
     queryClient.invalidateQueries({ queryKey: ['league', league.id] })
   }, [league, queryClient])
 
+  const rewindToPick = useCallback(
+    async (pickNumber: number, restoreQueues: boolean) => {
+      if (!league) return
+      if (league.status !== 'in_progress' && league.status !== 'paused') return
+
+      // Proactively refresh session — during long draft sessions, the JWT may have expired
+      const { error: refreshError } = await supabase.auth.refreshSession()
+      if (refreshError) {
+        throw new Error('Session expired. Please refresh the page and log in again.')
+      }
+
+      const elapsed = startTimer()
+      const response = await supabase.functions.invoke('rewind-draft', {
+        body: { leagueId: league.id, pickNumber, restoreQueues },
+      })
+
+      if (response.error) {
+        trackCount('edge_function.error', { function_name: 'rewind-draft' })
+        const message = await parseEdgeFunctionError(response.response, 'Failed to rewind draft')
+        throw new Error(message)
+      }
+      if (response.data?.error) {
+        trackCount('edge_function.error', { function_name: 'rewind-draft' })
+        throw new Error(response.data.error)
+      }
+
+      trackDistribution('edge_function.latency', elapsed(), 'millisecond', {
+        function_name: 'rewind-draft',
+      })
+      trackCount('draft.rewound', { restore_queues: restoreQueues })
+      queryClient.invalidateQueries({ queryKey: ['league', league.id] })
+      if (restoreQueues) {
+        queryClient.invalidateQueries({ queryKey: ['draft-queue'] })
+      }
+    },
+    [league, queryClient]
+  )
+
   const makePick = useCallback(
     async (playerId: string, captainId: string, captainToken?: string) => {
       if (!league || league.status !== 'in_progress') {
@@ -326,6 +482,7 @@ export function useDraft(leagueId: string | undefined): UseDraftReturn {
     isLoading,
     error: error as Error | null,
     isSubscribed,
+    presence,
     dataUpdatedAt,
     currentCaptain,
     availablePlayers,
@@ -336,6 +493,7 @@ export function useDraft(leagueId: string | undefined): UseDraftReturn {
     resumeDraft,
     restartDraft,
     undoLastPick,
+    rewindToPick,
     makePick,
   }
 }
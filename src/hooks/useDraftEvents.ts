@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { DraftEvent } from '@/lib/types'
+
+/**
+ * Every event in a league's draft, oldest first. Kept fresh by the realtime subscription in useDraft.
+ */
+export function useDraftEvents(leagueId: string | undefined) {
+  return useQuery({
+    queryKey: ['draft-events', leagueId],
+    queryFn: async () => {
+      if (!leagueId) return []
+
+      const { data, error } = await supabase
+        .from('draft_events')
+        .select('*')
+        .eq('league_id', leagueId)
+        .order('seq', { ascending: true })
+
+      if (error) throw error
+      return data as DraftEvent[]
+    },
+    enabled: !!leagueId,
+  })
+}
@@ -4,12 +4,15 @@ import { useAuth } from '@/context/AuthContext'
 import { trackCount, trackDistribution, startTimer } from '@/lib/metrics'
 import { LEAGUE_COLUMNS, CAPTAIN_COLUMNS, PLAYER_COLUMNS } from '@/lib/queryColumns'
 import type {
+  AutoPickStrategy,
+  ConsecutiveTimeoutAction,
   LeaguePublic,
   LeagueWithCounts,
   LeagueFullPublic,
   LeagueTokens,
   DraftType,
   LeagueStatus,
+  TimerMode,
 } from '@/lib/types'
 
 export function useLeagues() {
@@ -50,7 +53,8 @@ export function useLeague(id: string | undefined, options?: UseLeagueOptions) {
           ${LEAGUE_COLUMNS},
           captains (${CAPTAIN_COLUMNS}),
           players (${PLAYER_COLUMNS}),
-          draft_picks (id, captain_id, player_id, pick_number, is_auto_pick)
+          draft_picks (id, captain_id, player_id, pick_number, is_auto_pick, is_keeper, price, original_player_id),
+          pick_ownership (pick_number, captain_id, trade_id)
         `
         )
         .eq('id', id)
@@ -124,6 +128,22 @@ interface UpdateLeagueInput {
   name?: string
   draft_type?: DraftType
   time_limit_seconds?: number
+  timer_mode?: TimerMode
+  time_bank_seconds?: number
+  time_bank_increment_seconds?: number
+  timeouts_per_captain?: number
+  timeout_seconds?: number
+  auction_budget?: number
+  pick_order_matrix?: string[][] | null
+  roster_slot_schema_id?: string | null
+  roster_slots?: Record<string, number> | null
+  auto_pick_strategy?: AutoPickStrategy | null
+  disconnect_auto_pick_seconds?: number | null
+  consecutive_timeout_limit?: number | null
+  consecutive_timeout_action?: ConsecutiveTimeoutAction
+  consecutive_timeout_notify?: boolean
+  require_ready_check?: boolean
+  auto_start_when_ready?: boolean
   status?: LeagueStatus
   current_pick_index?: number
   current_pick_started_at?: string | null
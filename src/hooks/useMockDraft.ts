@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useDraftQueue } from './useDraftQueue'
+import { trackCount } from '@/lib/metrics'
+import { getAvailablePlayers, getCaptainAtPick, getPicksToRewind } from '@/lib/draft'
+import {
+  chooseMockPick,
+  createMockDraft,
+  getMockLeague,
+  getMockPickOrder,
+  recordMockPick,
+  rewindMockDraft,
+  type MockDraftState,
+} from '@/lib/mockDraft'
+import type { CaptainPublic, LeagueFullPublic, PlayerCustomField, PlayerPublic } from '@/lib/types'
+
+/** How long a bot "thinks" before picking */
+const BOT_PICK_DELAY_MS = 1500
+
+interface UseMockDraftOptions {
+  /** The captain the user drafts for; every other captain is a bot. Null makes them all bots. */
+  humanCaptainId: string | null
+  secondsPerPick: number
+  customFieldsMap?: Record<string, PlayerCustomField[]>
+}
+
+interface UseMockDraftReturn {
+  league: LeagueFullPublic
+  currentCaptain: CaptainPublic | undefined
+  availablePlayers: PlayerPublic[]
+  pickOrder: string[]
+  startDraft: () => Promise<void>
+  pauseDraft: () => Promise<void>
+  resumeDraft: () => Promise<void>
+  restartDraft: () => Promise<void>
+  undoLastPick: () => Promise<void>
+  rewindToPick: (pickNumber: number) => Promise<void>
+  makePick: (playerId: string, captainId: string) => Promise<void>
+  /** Pick for the captain on the clock when their timer runs out */
+  handleTimerExpire: () => void
+}
+
+/**
+ * Run a practice draft against the league's real captains and players, all in
+ * the browser. Bots pick like auto-pick after a short delay; nothing is saved.
+ */
+export function useMockDraft(
+  realLeague: LeagueFullPublic,
+  { humanCaptainId, secondsPerPick, customFieldsMap = {} }: UseMockDraftOptions
+): UseMockDraftReturn {
+  const [state, setState] = useState<MockDraftState>(() => createMockDraft(realLeague))
+  const prevStatusRef = useRef(state.status)
+
+  // Deps use whole objects to satisfy the React Compiler's preserve-manual-memoization rule
+  const league = useMemo(
+    () => getMockLeague(realLeague, state, { secondsPerPick, humanCaptainId }),
+    [realLeague, state, secondsPerPick, humanCaptainId]
+  )
+  const availablePlayers = useMemo(
+    () => getAvailablePlayers(league.players, league.captains),
+    [league]
+  )
+  const pickOrder = useMemo(() => getMockPickOrder(league), [league])
+  const currentCaptain = useMemo(
+    () =>
+      getCaptainAtPick(league.captains, league.current_pick_index, league.draft_type, {
+        pickOrderMatrix: league.pick_order_matrix,
+        pickOwnership: league.pick_ownership,
+      }),
+    [league]
+  )
+
+  // Queues are readable by anyone in the league, so bots use their captain's real queue
+  const { data: queue = [], isLoading: isQueueLoading } = useDraftQueue(currentCaptain?.id)
+
+  useEffect(() => {
+    if (state.status === 'completed' && prevStatusRef.current === 'in_progress') {
+      trackCount('mock_draft.completed')
+    }
+    prevStatusRef.current = state.status
+  }, [state.status])
+
+  const pick = useCallback(
+    (pickIndex: number, captainId: string, playerId: string, isAutoPick: boolean) => {
+      // Ignore picks for a pick that has already been made (timer and bot racing)
+      setState((prev) =>
+        prev.status === 'in_progress' && prev.pickIndex === pickIndex
+          ? recordMockPick(realLeague, prev, captainId, playerId, isAutoPick)
+          : prev
+      )
+    },
+    [realLeague]
+  )
+
+  const autoPick = useCallback(() => {
+    if (!currentCaptain) return
+    const player = chooseMockPick(
+      league,
+      currentCaptain.id,
+      queue.map((q) => q.player_id),
+      customFieldsMap
+    )
+    if (player) pick(league.current_pick_index, currentCaptain.id, player.id, true)
+  }, [league, currentCaptain, queue, customFieldsMap, pick])
+
+  // Bots pick after a short delay, once their queue has loaded
+  const isBotOnClock =
+    league.status === 'in_progress' && !!currentCaptain && currentCaptain.id !== humanCaptainId
+  useEffect(() => {
+    if (!isBotOnClock || isQueueLoading) return
+    const timeoutId = setTimeout(autoPick, BOT_PICK_DELAY_MS)
+    return () => clearTimeout(timeoutId)
+  }, [isBotOnClock, isQueueLoading, autoPick])
+
+  const makePick = useCallback(
+    async (playerId: string, captainId: string) => {
+      if (captainId !== currentCaptain?.id) throw new Error('Not your turn')
+      if (!availablePlayers.some((p) => p.id === playerId)) {
+        throw new Error('Player is not available')
+      }
+      pick(league.current_pick_index, captainId, playerId, false)
+    },
+    [currentCaptain, availablePlayers, league.current_pick_index, pick]
+  )
+
+  const startDraft = useCallback(async () => {
+    setState((prev) =>
+      prev.status === 'not_started'
+        ? { ...prev, status: 'in_progress', pickStartedAt: new Date().toISOString() }
+        : prev
+    )
+    trackCount('mock_draft.started', {
+      captain_count: realLeague.captains.length,
+      player_count: realLeague.players.length,
+    })
+  }, [realLeague])
+
+  const pauseDraft = useCallback(async () => {
+    setState((prev) =>
+      prev.status === 'in_progress' ? { ...prev, status: 'paused', pickStartedAt: null } : prev
+    )
+  }, [])
+
+  const resumeDraft = useCallback(async () => {
+    setState((prev) =>
+      prev.status === 'paused'
+        ? { ...prev, status: 'in_progress', pickStartedAt: new Date().toISOString() }
+        : prev
+    )
+  }, [])
+
+  const restartDraft = useCallback(async () => {
+    setState(createMockDraft(realLeague))
+  }, [realLeague])
+
+  const rewindToPick = useCallback(async (pickNumber: number) => {
+    setState((prev) => rewindMockDraft(prev, pickNumber))
+  }, [])
+
+  const undoLastPick = useCallback(async () => {
+    setState((prev) => {
+      const [lastPick] = getPicksToRewind(prev.picks, 0).reverse()
+      return lastPick ? rewindMockDraft(prev, lastPick.pick_number - 1) : prev
+    })
+  }, [])
+
+  return {
+    league,
+    currentCaptain,
+    availablePlayers,
+    pickOrder,
+    startDraft,
+    pauseDraft,
+    resumeDraft,
+    restartDraft,
+    undoLastPick,
+    rewindToPick,
+    makePick,
+    handleTimerExpire: autoPick,
+  }
+}
@@ -0,0 +1,45 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { parseEdgeFunctionError } from '@/lib/edgeFunctionUtils'
+import { trackCount, trackDistribution, startTimer } from '@/lib/metrics'
+
+interface CorrectPickInput {
+  leagueId: string
+  pickId: string
+  playerId: string
+}
+
+/**
+ * Swap the player on an already-recorded pick (manager only). Later picks and
+ * the pick order are left alone.
+ */
+export function useCorrectPick() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: CorrectPickInput) => {
+      const elapsed = startTimer()
+      const response = await supabase.functions.invoke('correct-pick', { body: input })
+
+      if (response.error) {
+        trackCount('edge_function.error', { function_name: 'correct-pick' })
+        const message = await parseEdgeFunctionError(response.response, 'Failed to correct pick')
+        throw new Error(message)
+      }
+      if (response.data?.error) {
+        trackCount('edge_function.error', { function_name: 'correct-pick' })
+        throw new Error(response.data.error)
+      }
+
+      trackDistribution('edge_function.latency', elapsed(), 'millisecond', {
+        function_name: 'correct-pick',
+      })
+      trackCount('draft.pick_corrected')
+    },
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+      // The new player was taken out of every captain's queue
+      queryClient.invalidateQueries({ queryKey: ['draft-queue'] })
+    },
+  })
+}
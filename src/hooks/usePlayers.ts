@@ -1,7 +1,8 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
+import { trackCount } from '@/lib/metrics'
 import { PLAYER_COLUMNS } from '@/lib/queryColumns'
-import type { PlayerPublic } from '@/lib/types'
+import type { LeagueFullPublic, PlayerPublic } from '@/lib/types'
 
 interface CreatePlayerInput {
   league_id: string
@@ -59,6 +60,8 @@ interface UpdatePlayerInput {
   name?: string
   drafted_by_captain_id?: string | null
   draft_pick_number?: number | null
+  keeper_captain_id?: string | null
+  keeper_round?: number | null
 }
 
 export function useUpdatePlayer() {
@@ -97,3 +100,44 @@ export function useDeletePlayer() {
     },
   })
 }
+
+/** Replace the league's big board. Players not in playerIds become unranked. */
+export function useSetBigBoard() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ leagueId, playerIds }: { leagueId: string; playerIds: string[] }) => {
+      const { error } = await supabase.rpc('set_big_board', {
+        p_league_id: leagueId,
+        p_player_ids: playerIds,
+      })
+
+      if (error) throw error
+    },
+    onMutate: async ({ leagueId, playerIds }) => {
+      await queryClient.cancelQueries({ queryKey: ['league', leagueId] })
+      const previous = queryClient.getQueryData<LeagueFullPublic>(['league', leagueId])
+
+      if (previous) {
+        const rankMap = new Map(playerIds.map((id, i) => [id, i + 1]))
+        queryClient.setQueryData<LeagueFullPublic>(['league', leagueId], {
+          ...previous,
+          players: previous.players.map((p) => ({ ...p, board_rank: rankMap.get(p.id) ?? null })),
+        })
+      }
+
+      return { previous }
+    },
+    onSuccess: () => {
+      trackCount('big_board.saved')
+    },
+    onError: (_err, variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['league', variables.leagueId], context.previous)
+      }
+    },
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+    },
+  })
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import { IDLE_AFTER_MS, type PresenceStatus } from '@/lib/presence'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const
+
+/**
+ * Whether this tab is in use: hidden while it's in the background, idle after
+ * IDLE_AFTER_MS without input, online otherwise.
+ */
+export function usePresenceStatus(): PresenceStatus {
+  const [status, setStatus] = useState<PresenceStatus>(() =>
+    document.visibilityState === 'hidden' ? 'hidden' : 'online'
+  )
+
+  useEffect(() => {
+    let idleTimer: ReturnType<typeof setTimeout> | undefined
+
+    function startIdleTimer() {
+      idleTimer = setTimeout(() => setStatus('idle'), IDLE_AFTER_MS)
+    }
+
+    function handleActivity() {
+      clearTimeout(idleTimer)
+      if (document.visibilityState === 'hidden') {
+        setStatus('hidden')
+        return
+      }
+      setStatus('online')
+      startIdleTimer()
+    }
+
+    if (document.visibilityState !== 'hidden') startIdleTimer()
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true })
+    }
+    document.addEventListener('visibilitychange', handleActivity)
+
+    return () => {
+      clearTimeout(idleTimer)
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity)
+      }
+      document.removeEventListener('visibilitychange', handleActivity)
+    }
+  }, [])
+
+  return status
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { trackCount } from '@/lib/metrics'
+import {
+  PUSH_SERVICE_WORKER_URL,
+  VAPID_PUBLIC_KEY,
+  getPushOptInKey,
+  isWebPushSupported,
+  urlBase64ToUint8Array,
+} from '@/lib/webPush'
+
+/**
+ * Opt this browser in or out of Web Push for a captain: "up next" and "on the
+ * clock" pushes from the send-push edge function, which arrive with the tab
+ * closed (migration 045).
+ */
+export function usePushNotifications(
+  leagueId: string | undefined,
+  captainId: string | undefined,
+  captainToken: string | null
+) {
+  const supported = isWebPushSupported()
+  const [subscribed, setSubscribed] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+
+  // Subscribed = opted in here and the browser still has the subscription
+  useEffect(() => {
+    if (!supported || !captainId) return
+    let cancelled = false
+
+    navigator.serviceWorker
+      .getRegistration(PUSH_SERVICE_WORKER_URL)
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => {
+        if (cancelled) return
+        setSubscribed(!!subscription && localStorage.getItem(getPushOptInKey(captainId)) === '1')
+      })
+      .catch(() => {
+        if (!cancelled) setSubscribed(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [supported, captainId])
+
+  const subscribe = useCallback(async () => {
+    if (!supported || !leagueId || !captainId || !captainToken) return
+    setIsPending(true)
+    try {
+      const permission = await Notification.requestPermission()
+      if (permission !== 'granted') {
+        throw new Error('Notifications are blocked. Allow them in your browser settings.')
+      }
+
+      const registration = await navigator.serviceWorker.register(PUSH_SERVICE_WORKER_URL)
+      await navigator.serviceWorker.ready
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+        }))
+
+      const { endpoint, keys } = subscription.toJSON()
+      const { error } = await supabase.rpc('save_push_subscription', {
+        p_league_id: leagueId,
+        p_token: captainToken,
+        p_endpoint: endpoint,
+        p_p256dh: keys?.p256dh,
+        p_auth: keys?.auth,
+      })
+      if (error) throw error
+
+      localStorage.setItem(getPushOptInKey(captainId), '1')
+      setSubscribed(true)
+      trackCount('push.subscribed')
+    } finally {
+      setIsPending(false)
+    }
+  }, [supported, leagueId, captainId, captainToken])
+
+  // Only this captain's row goes; other captains may share the browser's subscription
+  const unsubscribe = useCallback(async () => {
+    if (!supported || !leagueId || !captainId || !captainToken) return
+    setIsPending(true)
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(PUSH_SERVICE_WORKER_URL)
+      const subscription = await registration?.pushManager.getSubscription()
+      if (subscription) {
+        const { error } = await supabase.rpc('delete_push_subscription', {
+          p_league_id: leagueId,
+          p_token: captainToken,
+          p_endpoint: subscription.endpoint,
+        })
+        if (error) throw error
+      }
+
+      localStorage.removeItem(getPushOptInKey(captainId))
+      setSubscribed(false)
+      trackCount('push.unsubscribed')
+    } finally {
+      setIsPending(false)
+    }
+  }, [supported, leagueId, captainId, captainToken])
+
+  return { supported, subscribed, isPending, subscribe, unsubscribe }
+}
@@ -0,0 +1,35 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { trackCount } from '@/lib/metrics'
+
+interface SetCaptainReadyInput {
+  leagueId: string
+  captainToken: string
+  ready: boolean
+}
+
+/**
+ * Mark the captain ready (or not) for the draft. Resolves to whether this
+ * started the draft, in leagues that start once every captain is ready.
+ * The captain row change arrives over realtime; invalidating just makes it quicker.
+ */
+export function useSetCaptainReady() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ leagueId, captainToken, ready }: SetCaptainReadyInput) => {
+      const { data, error } = await supabase.rpc('set_captain_ready', {
+        p_league_id: leagueId,
+        p_token: captainToken,
+        p_ready: ready,
+      })
+
+      if (error) throw error
+      trackCount('draft.captain_ready', { ready })
+      return data as boolean
+    },
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+    },
+  })
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { parseEdgeFunctionError } from '@/lib/edgeFunctionUtils'
+import { trackCount, trackDistribution, startTimer } from '@/lib/metrics'
+
+interface CallTimeoutInput {
+  leagueId: string
+  captainId: string
+  captainToken?: string
+}
+
+/**
+ * Spend one of the captain's timeouts to add time to their current pick.
+ * The league row change arrives over realtime; invalidating just makes it quicker.
+ */
+export function useCallTimeout() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: CallTimeoutInput) => {
+      const elapsed = startTimer()
+      const response = await supabase.functions.invoke('call-timeout', { body: input })
+
+      if (response.error) {
+        trackCount('edge_function.error', { function_name: 'call-timeout' })
+        const message = await parseEdgeFunctionError(response.response, 'Failed to call timeout')
+        throw new Error(message)
+      }
+      if (response.data?.error) {
+        trackCount('edge_function.error', { function_name: 'call-timeout' })
+        throw new Error(response.data.error)
+      }
+
+      trackDistribution('edge_function.latency', elapsed(), 'millisecond', {
+        function_name: 'call-timeout',
+      })
+      trackCount('draft.timeout_called')
+    },
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+    },
+  })
+}
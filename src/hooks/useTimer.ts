@@ -17,15 +17,22 @@ export function useTimer(
   const expireCallbackRef = useRef(onExpire)
   const hasExpiredRef = useRef(false)
   const lastPickStartRef = useRef(currentPickStartedAt)
+  const lastTimeLimitRef = useRef(timeLimitSeconds)
 
   // Keep callback ref updated
   useEffect(() => {
     expireCallbackRef.current = onExpire
   }, [onExpire])
 
-  // Reset expired state when pick changes
-  if (currentPickStartedAt !== lastPickStartRef.current) {
+  // Reset expired state when pick changes, when a time bank is refreshed
+  // (the captain's bank can arrive in a separate realtime update from the pick),
+  // or when a timeout extends the current pick
+  if (
+    currentPickStartedAt !== lastPickStartRef.current ||
+    timeLimitSeconds !== lastTimeLimitRef.current
+  ) {
     lastPickStartRef.current = currentPickStartedAt
+    lastTimeLimitRef.current = timeLimitSeconds
     hasExpiredRef.current = false
   }
 
@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { parseEdgeFunctionError } from '@/lib/edgeFunctionUtils'
+import { trackCount, trackDistribution, startTimer } from '@/lib/metrics'
+import type { TradeWithItems } from '@/lib/types'
+
+/**
+ * All trades in a league, newest first. Kept fresh by the realtime subscription in useDraft.
+ */
+export function useTrades(leagueId: string | undefined) {
+  return useQuery({
+    queryKey: ['trades', leagueId],
+    queryFn: async () => {
+      if (!leagueId) return []
+
+      const { data, error } = await supabase
+        .from('trades')
+        .select('*, trade_items(*)')
+        .eq('league_id', leagueId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data as TradeWithItems[]
+    },
+    enabled: !!leagueId,
+  })
+}
+
+async function invokeManageTrade(
+  body: Record<string, unknown>,
+  fallbackMessage: string
+): Promise<void> {
+  const elapsed = startTimer()
+  const response = await supabase.functions.invoke('manage-trade', { body })
+
+  if (response.error) {
+    trackCount('edge_function.error', { function_name: 'manage-trade' })
+    const message = await parseEdgeFunctionError(response.response, fallbackMessage)
+    throw new Error(message)
+  }
+  if (response.data?.error) {
+    trackCount('edge_function.error', { function_name: 'manage-trade' })
+    throw new Error(response.data.error)
+  }
+
+  trackDistribution('edge_function.latency', elapsed(), 'millisecond', {
+    function_name: 'manage-trade',
+  })
+}
+
+export interface TradeItemInput {
+  fromCaptainId: string
+  pickNumber?: number
+  playerId?: string
+}
+
+export function useProposeTrade() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: {
+      leagueId: string
+      captainId: string
+      recipientCaptainId: string
+      items: TradeItemInput[]
+      captainToken?: string
+    }) => {
+      await invokeManageTrade({ action: 'propose', ...input }, 'Failed to propose trade')
+    },
+    onSuccess: (_, variables) => {
+      trackCount('trade.proposed', { item_count: variables.items.length })
+      queryClient.invalidateQueries({ queryKey: ['trades', variables.leagueId] })
+    },
+  })
+}
+
+export type TradeResponseAction = 'accept' | 'decline' | 'cancel' | 'veto'
+
+export function useRespondToTrade() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: {
+      action: TradeResponseAction
+      leagueId: string
+      tradeId: string
+      captainId?: string
+      captainToken?: string
+    }) => {
+      await invokeManageTrade(input, `Failed to ${input.action} trade`)
+    },
+    onSuccess: (_, variables) => {
+      trackCount('trade.responded', { action: variables.action })
+      queryClient.invalidateQueries({ queryKey: ['trades', variables.leagueId] })
+      if (variables.action === 'accept') {
+        queryClient.invalidateQueries({ queryKey: ['league', variables.leagueId] })
+      }
+    },
+  })
+}
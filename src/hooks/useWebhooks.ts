@@ -0,0 +1,119 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { WEBHOOK_DELIVERY_LIMIT } from '@/lib/webhooks'
+import type {
+  LeagueWebhook,
+  WebhookDeliveryWithAttempts,
+  WebhookEvent,
+  WebhookFormat,
+} from '@/lib/types'
+
+/** The league's webhooks, oldest first. Only the league's manager can read them (RLS). */
+export function useLeagueWebhooks(leagueId: string | undefined) {
+  return useQuery({
+    queryKey: ['league-webhooks', leagueId],
+    queryFn: async () => {
+      if (!leagueId) return []
+
+      const { data, error } = await supabase
+        .from('league_webhooks')
+        .select('*')
+        .eq('league_id', leagueId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as LeagueWebhook[]
+    },
+    enabled: !!leagueId,
+  })
+}
+
+/** A webhook's most recent deliveries with every attempt, newest first. */
+export function useWebhookDeliveries(webhookId: string | undefined) {
+  return useQuery({
+    queryKey: ['webhook-deliveries', webhookId],
+    queryFn: async () => {
+      if (!webhookId) return []
+
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*, webhook_delivery_attempts(*)')
+        .eq('webhook_id', webhookId)
+        .order('created_at', { ascending: false })
+        .limit(WEBHOOK_DELIVERY_LIMIT)
+
+      if (error) throw error
+      return (data || []) as WebhookDeliveryWithAttempts[]
+    },
+    enabled: !!webhookId,
+  })
+}
+
+interface CreateWebhookInput {
+  league_id: string
+  url: string
+  events: WebhookEvent[]
+  format: WebhookFormat
+  include_custom_fields: boolean
+}
+
+export function useCreateWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (data: CreateWebhookInput) => {
+      const { data: webhook, error } = await supabase
+        .from('league_webhooks')
+        .insert(data)
+        .select()
+        .single()
+
+      if (error) throw error
+      return webhook as LeagueWebhook
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ['league-webhooks', webhook.league_id] })
+    },
+  })
+}
+
+interface UpdateWebhookInput {
+  id: string
+  leagueId: string
+  events?: WebhookEvent[]
+  enabled?: boolean
+  format?: WebhookFormat
+  include_custom_fields?: boolean
+}
+
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, leagueId, ...data }: UpdateWebhookInput) => {
+      const { error } = await supabase.from('league_webhooks').update(data).eq('id', id)
+
+      if (error) throw error
+      return { leagueId }
+    },
+    onSuccess: ({ leagueId }) => {
+      queryClient.invalidateQueries({ queryKey: ['league-webhooks', leagueId] })
+    },
+  })
+}
+
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, leagueId }: { id: string; leagueId: string }) => {
+      const { error } = await supabase.from('league_webhooks').delete().eq('id', id)
+
+      if (error) throw error
+      return { leagueId }
+    },
+    onSuccess: ({ leagueId }) => {
+      queryClient.invalidateQueries({ queryKey: ['league-webhooks', leagueId] })
+    },
+  })
+}
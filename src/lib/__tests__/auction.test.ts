@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import type { CaptainPublic } from '../types'
+import {
+  AUCTION_MIN_BID,
+  getAuctionRosterSize,
+  getRosterCounts,
+  getCaptainSpend,
+  getMaxBid,
+  getNominatingCaptain,
+  validateBid,
+} from '../auction'
+
+// --- Helpers ---
+
+function makeCaptain(
+  overrides: Partial<CaptainPublic> & { id: string; draft_position: number }
+): CaptainPublic {
+  return {
+    league_id: 'league-1',
+    name: `Captain ${overrides.draft_position}`,
+    is_participant: false,
+    is_ready: false,
+    player_id: null,
+    auto_pick_enabled: false,
+    consecutive_timeout_picks: 0,
+    time_bank_remaining_seconds: null,
+    timeouts_used: 0,
+    auto_pick_strategy: null,
+    team_color: null,
+    team_name: null,
+    team_photo_url: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+// --- getAuctionRosterSize ---
+
+describe('getAuctionRosterSize', () => {
+  it('divides players evenly across teams', () => {
+    expect(getAuctionRosterSize(12, 3)).toBe(4)
+  })
+
+  it('rounds up so every player can be bought', () => {
+    expect(getAuctionRosterSize(13, 3)).toBe(5)
+  })
+
+  it('returns 0 with no captains', () => {
+    expect(getAuctionRosterSize(10, 0)).toBe(0)
+  })
+})
+
+// --- getRosterCounts / getCaptainSpend ---
+
+describe('getRosterCounts', () => {
+  it('counts picks per captain', () => {
+    const counts = getRosterCounts([
+      { captain_id: 'c1', price: 10 },
+      { captain_id: 'c2', price: 5 },
+      { captain_id: 'c1', price: 1 },
+    ])
+    expect(counts.get('c1')).toBe(2)
+    expect(counts.get('c2')).toBe(1)
+    expect(counts.get('c3')).toBeUndefined()
+  })
+})
+
+describe('getCaptainSpend', () => {
+  it('sums prices for the captain', () => {
+    const picks = [
+      { captain_id: 'c1', price: 10 },
+      { captain_id: 'c2', price: 5 },
+      { captain_id: 'c1', price: 7 },
+    ]
+    expect(getCaptainSpend(picks, 'c1')).toBe(17)
+    expect(getCaptainSpend(picks, 'c3')).toBe(0)
+  })
+
+  it('treats unpriced picks as free', () => {
+    expect(getCaptainSpend([{ captain_id: 'c1', price: null }], 'c1')).toBe(0)
+  })
+})
+
+// --- getMaxBid ---
+
+describe('getMaxBid', () => {
+  it('reserves the minimum bid for every other open slot', () => {
+    // 4 open slots → keep 3 × $1 in reserve
+    expect(getMaxBid(100, 0, 0, 4)).toBe(97)
+  })
+
+  it('allows the full remaining budget for the last slot', () => {
+    expect(getMaxBid(100, 60, 3, 4)).toBe(40)
+  })
+
+  it('returns 0 when the roster is full', () => {
+    expect(getMaxBid(100, 10, 4, 4)).toBe(0)
+  })
+
+  it('never goes negative', () => {
+    expect(getMaxBid(2, 0, 0, 5)).toBe(0)
+  })
+})
+
+// --- getNominatingCaptain ---
+
+describe('getNominatingCaptain', () => {
+  const captains = [
+    makeCaptain({ id: 'c3', draft_position: 3 }),
+    makeCaptain({ id: 'c1', draft_position: 1 }),
+    makeCaptain({ id: 'c2', draft_position: 2 }),
+  ]
+
+  it('rotates by draft position', () => {
+    const counts = new Map<string, number>()
+    expect(getNominatingCaptain(captains, 0, counts, 4)?.id).toBe('c1')
+    expect(getNominatingCaptain(captains, 1, counts, 4)?.id).toBe('c2')
+    expect(getNominatingCaptain(captains, 2, counts, 4)?.id).toBe('c3')
+    expect(getNominatingCaptain(captains, 3, counts, 4)?.id).toBe('c1')
+  })
+
+  it('skips captains with full rosters', () => {
+    const counts = new Map([['c2', 4]])
+    expect(getNominatingCaptain(captains, 1, counts, 4)?.id).toBe('c3')
+  })
+
+  it('wraps around when skipping', () => {
+    const counts = new Map([['c3', 2]])
+    expect(getNominatingCaptain(captains, 2, counts, 2)?.id).toBe('c1')
+  })
+
+  it('returns undefined when every roster is full', () => {
+    const counts = new Map([
+      ['c1', 1],
+      ['c2', 1],
+      ['c3', 1],
+    ])
+    expect(getNominatingCaptain(captains, 0, counts, 1)).toBeUndefined()
+  })
+
+  it('returns undefined with no captains', () => {
+    expect(getNominatingCaptain([], 0, new Map(), 4)).toBeUndefined()
+  })
+})
+
+// --- validateBid ---
+
+describe('validateBid', () => {
+  it('accepts an opening bid within the max', () => {
+    expect(validateBid(AUCTION_MIN_BID, null, 50)).toBeNull()
+  })
+
+  it('rejects bids below the minimum', () => {
+    expect(validateBid(0, null, 50)).toBe('Bid must be at least $1')
+  })
+
+  it('rejects fractional bids', () => {
+    expect(validateBid(2.5, 1, 50)).toBe('Bid must be a whole number')
+  })
+
+  it('requires raising the current bid', () => {
+    expect(validateBid(10, 10, 50)).toBe('Bid must be more than $10')
+    expect(validateBid(11, 10, 50)).toBeNull()
+  })
+
+  it('rejects bids above the max bid', () => {
+    expect(validateBid(51, 10, 50)).toBe('Bid exceeds your max bid of $50')
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import type { AuditLog, CaptainPublic, PlayerPublic } from '../types'
+import {
+  describeAuditActor,
+  formatAuditAction,
+  formatAuditMetadata,
+  getAuditLogRows,
+  getAuditLogSince,
+  toCsv,
+} from '../auditLog'
+
+// --- Helpers ---
+
+function makeLog(overrides: Partial<AuditLog> = {}): AuditLog {
+  return {
+    id: 'log-1',
+    action: 'pick_made',
+    league_id: 'league-1',
+    actor_type: 'captain',
+    actor_id: 'c1',
+    metadata: {},
+    ip_address: '203.0.113.7',
+    created_at: '2025-01-01T12:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const league = {
+  captains: [
+    { id: 'c1', name: 'Alice', team_name: 'Sharks' },
+    { id: 'c2', name: 'Bob', team_name: null },
+  ] as CaptainPublic[],
+  players: [{ id: 'p1', name: 'Casey' }] as PlayerPublic[],
+}
+
+// --- Tests ---
+
+describe('getAuditLogSince', () => {
+  const now = Date.parse('2025-01-08T00:00:00.000Z')
+
+  it('returns null for all time', () => {
+    expect(getAuditLogSince('all', now)).toBeNull()
+  })
+
+  it('subtracts the range from now', () => {
+    expect(getAuditLogSince('1h', now)).toBe('2025-01-07T23:00:00.000Z')
+    expect(getAuditLogSince('24h', now)).toBe('2025-01-07T00:00:00.000Z')
+    expect(getAuditLogSince('7d', now)).toBe('2025-01-01T00:00:00.000Z')
+  })
+})
+
+describe('formatAuditAction', () => {
+  it('turns snake case into a sentence', () => {
+    expect(formatAuditAction('pick_made')).toBe('Pick made')
+    expect(formatAuditAction('draft_queue_reorder')).toBe('Draft queue reorder')
+  })
+})
+
+describe('describeAuditActor', () => {
+  it('names captains by team', () => {
+    expect(describeAuditActor(makeLog({ actor_id: 'c1' }), league)).toBe('Sharks')
+    expect(describeAuditActor(makeLog({ actor_id: 'c2' }), league)).toBe('Bob')
+  })
+
+  it('names players', () => {
+    expect(describeAuditActor(makeLog({ actor_type: 'player', actor_id: 'p1' }), league)).toBe(
+      'Casey'
+    )
+  })
+
+  it('handles managers, the system and deleted actors', () => {
+    expect(describeAuditActor(makeLog({ actor_type: 'manager', actor_id: 'u1' }), league)).toBe(
+      'Manager'
+    )
+    expect(describeAuditActor(makeLog({ actor_type: 'system', actor_id: null }), league)).toBe(
+      'System'
+    )
+    expect(describeAuditActor(makeLog({ actor_id: 'gone' }), league)).toBe('Unknown captain')
+  })
+})
+
+describe('formatAuditMetadata', () => {
+  it('lists key-value pairs and skips empty values', () => {
+    expect(
+      formatAuditMetadata({ pick_number: 4, player_id: 'p1', reason: null, ids: ['a', 'b'] })
+    ).toBe('pick number: 4, player id: p1, ids: ["a","b"]')
+  })
+
+  it('handles missing metadata', () => {
+    expect(formatAuditMetadata(null)).toBe('')
+  })
+})
+
+describe('getAuditLogRows', () => {
+  it('starts with a header and has one row per entry', () => {
+    const rows = getAuditLogRows([makeLog({ metadata: { pick_number: 1 } })], league)
+    expect(rows[0]).toEqual([
+      'Time',
+      'Action',
+      'Actor Type',
+      'Actor',
+      'Actor ID',
+      'IP Address',
+      'Details',
+    ])
+    expect(rows[1]).toEqual([
+      '2025-01-01T12:00:00.000Z',
+      'Pick made',
+      'captain',
+      'Sharks',
+      'c1',
+      '203.0.113.7',
+      'pick number: 1',
+    ])
+  })
+})
+
+describe('toCsv', () => {
+  it('quotes values with commas, quotes and newlines', () => {
+    expect(
+      toCsv([
+        ['a', 'b, c'],
+        ['say "hi"', 'two\nlines'],
+      ])
+    ).toBe('a,"b, c"\r\n"say ""hi""","two\nlines"')
+  })
+})
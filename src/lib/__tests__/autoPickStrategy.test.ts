@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import type { PlayerCustomField } from '../types'
+import {
+  chooseByStrategy,
+  getFieldValues,
+  getStrategyFieldIds,
+  parseFieldNumber,
+  resolveAutoPickStrategy,
+  type FieldValues,
+} from '../autoPickStrategy'
+
+// --- Helpers ---
+
+function makeField(playerId: string, schemaId: string | null, value: string | null) {
+  return {
+    id: `${playerId}-${schemaId}`,
+    player_id: playerId,
+    field_name: 'Stat',
+    field_value: value,
+    field_order: 0,
+    schema_id: schemaId,
+    created_at: '2025-01-01T00:00:00Z',
+  } satisfies PlayerCustomField
+}
+
+function makeValues(fields: Record<string, Record<string, number>>): FieldValues {
+  return new Map(
+    Object.entries(fields).map(([fieldId, byPlayer]) => [
+      fieldId,
+      new Map(Object.entries(byPlayer)),
+    ])
+  )
+}
+
+// --- Tests ---
+
+describe('resolveAutoPickStrategy', () => {
+  const league = { auto_pick_strategy: { type: 'balance' as const, fieldIds: ['skill'] } }
+
+  it("prefers the captain's strategy", () => {
+    expect(resolveAutoPickStrategy(league, { auto_pick_strategy: { type: 'random' } })).toEqual({
+      type: 'random',
+    })
+  })
+
+  it("falls back to the league's strategy", () => {
+    expect(resolveAutoPickStrategy(league, { auto_pick_strategy: null })).toEqual(
+      league.auto_pick_strategy
+    )
+    expect(resolveAutoPickStrategy(league, undefined)).toEqual(league.auto_pick_strategy)
+  })
+
+  it('defaults to random', () => {
+    expect(
+      resolveAutoPickStrategy({ auto_pick_strategy: null }, { auto_pick_strategy: null })
+    ).toEqual({ type: 'random' })
+  })
+})
+
+describe('getStrategyFieldIds', () => {
+  it('returns the fields each strategy reads', () => {
+    expect(getStrategyFieldIds({ type: 'random' })).toEqual([])
+    expect(getStrategyFieldIds({ type: 'best_field', fieldId: 'a', order: 'highest' })).toEqual([
+      'a',
+    ])
+    expect(getStrategyFieldIds({ type: 'balance', fieldIds: ['a', 'b'] })).toEqual(['a', 'b'])
+  })
+})
+
+describe('parseFieldNumber', () => {
+  it('parses numbers', () => {
+    expect(parseFieldNumber('42')).toBe(42)
+    expect(parseFieldNumber(' -1.5 ')).toBe(-1.5)
+  })
+
+  it('returns null for blanks and non-numbers', () => {
+    expect(parseFieldNumber(null)).toBeNull()
+    expect(parseFieldNumber(undefined)).toBeNull()
+    expect(parseFieldNumber('  ')).toBeNull()
+    expect(parseFieldNumber('tall')).toBeNull()
+  })
+})
+
+describe('getFieldValues', () => {
+  it('collects numeric values of the requested fields', () => {
+    const values = getFieldValues(
+      {
+        p1: [makeField('p1', 'skill', '7'), makeField('p1', 'other', '3')],
+        p2: [makeField('p2', 'skill', 'n/a')],
+        p3: [makeField('p3', null, '5')],
+      },
+      ['skill']
+    )
+    expect([...values.keys()]).toEqual(['skill'])
+    expect(values.get('skill')).toEqual(new Map([['p1', 7]]))
+  })
+})
+
+describe('chooseByStrategy', () => {
+  const values = makeValues({ skill: { a: 3, b: 9, c: 5 } })
+
+  it('returns null for random', () => {
+    expect(chooseByStrategy({ type: 'random' }, ['a', 'b'], values, [])).toBeNull()
+  })
+
+  it('picks the highest value', () => {
+    const strategy = { type: 'best_field' as const, fieldId: 'skill', order: 'highest' as const }
+    expect(chooseByStrategy(strategy, ['a', 'b', 'c'], values, [])).toBe('b')
+  })
+
+  it('picks the lowest value', () => {
+    const strategy = { type: 'best_field' as const, fieldId: 'skill', order: 'lowest' as const }
+    expect(chooseByStrategy(strategy, ['a', 'b', 'c'], values, [])).toBe('a')
+  })
+
+  it('only considers candidates', () => {
+    const strategy = { type: 'best_field' as const, fieldId: 'skill', order: 'highest' as const }
+    expect(chooseByStrategy(strategy, ['a', 'c'], values, [])).toBe('c')
+  })
+
+  it('breaks ties in favour of the earlier candidate', () => {
+    const tied = makeValues({ skill: { a: 5, b: 5 } })
+    const strategy = { type: 'best_field' as const, fieldId: 'skill', order: 'highest' as const }
+    expect(chooseByStrategy(strategy, ['b', 'a'], tied, [])).toBe('b')
+  })
+
+  it('returns null when no candidate has a value', () => {
+    const strategy = { type: 'best_field' as const, fieldId: 'skill', order: 'highest' as const }
+    expect(chooseByStrategy(strategy, ['x', 'y'], values, [])).toBeNull()
+    expect(chooseByStrategy({ type: 'balance', fieldIds: ['skill'] }, ['x'], values, [])).toBeNull()
+  })
+
+  it('balances toward the league average', () => {
+    // League average is 5; a team holding a 9 needs a low player to get back to it
+    const balance = makeValues({ skill: { a: 1, b: 9, c: 5, d: 5 } })
+    const strategy = { type: 'balance' as const, fieldIds: ['skill'] }
+    expect(chooseByStrategy(strategy, ['c', 'a'], balance, ['b'])).toBe('a')
+    // With an empty roster the average player is closest
+    expect(chooseByStrategy(strategy, ['a', 'c'], balance, [])).toBe('c')
+  })
+
+  it('balances several fields on their own scales', () => {
+    const balance = makeValues({
+      speed: { a: 10, b: 0, r: 0 },
+      height: { a: 150, b: 190, r: 170 },
+    })
+    const strategy = { type: 'balance' as const, fieldIds: ['speed', 'height'] }
+    // Roster r is slow; a fixes speed more than b would fix height
+    expect(chooseByStrategy(strategy, ['b', 'a'], balance, ['r'])).toBe('a')
+  })
+})
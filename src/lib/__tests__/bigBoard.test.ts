@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { compareBoardRank, getBigBoard, matchBoardRows } from '../bigBoard'
+
+// --- Helpers ---
+
+function makePlayer(id: string, name: string, boardRank: number | null = null) {
+  return { id, name, board_rank: boardRank }
+}
+
+const players = [
+  makePlayer('p1', 'Alex'),
+  makePlayer('p2', 'Blair'),
+  makePlayer('p3', 'Casey'),
+  makePlayer('p4', 'alex'),
+]
+
+// --- Tests ---
+
+describe('compareBoardRank', () => {
+  it('orders ranked players by rank, then unranked players by name', () => {
+    const sorted = [
+      makePlayer('a', 'Zed'),
+      makePlayer('b', 'Yan', 2),
+      makePlayer('c', 'Abe'),
+      makePlayer('d', 'Xia', 1),
+    ].sort(compareBoardRank)
+    expect(sorted.map((p) => p.id)).toEqual(['d', 'b', 'c', 'a'])
+  })
+})
+
+describe('getBigBoard', () => {
+  it('returns only ranked players, best first', () => {
+    const board = getBigBoard([
+      makePlayer('a', 'A', 3),
+      makePlayer('b', 'B'),
+      makePlayer('c', 'C', 1),
+    ])
+    expect(board.map((p) => p.id)).toEqual(['c', 'a'])
+  })
+})
+
+describe('matchBoardRows', () => {
+  it('uses row order without a rank column', () => {
+    const rows = [['Casey'], ['Blair']]
+    expect(matchBoardRows(players, rows, 0, null)).toEqual({
+      playerIds: ['p3', 'p2'],
+      unmatched: [],
+    })
+  })
+
+  it('orders by the rank column, with unranked rows last', () => {
+    const rows = [
+      ['Blair', '2'],
+      ['Casey', ''],
+      ['Alex', '1'],
+    ]
+    expect(matchBoardRows(players, rows, 0, 1).playerIds).toEqual(['p1', 'p2', 'p3'])
+  })
+
+  it('matches names case-insensitively and ranks each player once', () => {
+    const rows = [['  ALEX '], ['Alex'], ['Alex']]
+    expect(matchBoardRows(players, rows, 0, null)).toEqual({
+      playerIds: ['p1', 'p4'],
+      unmatched: ['Alex'],
+    })
+  })
+
+  it('reports names without a player and skips blank rows', () => {
+    const rows = [['Dana'], [''], ['Blair']]
+    expect(matchBoardRows(players, rows, 0, null)).toEqual({
+      playerIds: ['p2'],
+      unmatched: ['Dana'],
+    })
+  })
+})
@@ -8,12 +8,20 @@ import {
   getRemainingTime,
   isTimerExpired,
   formatTime,
+  getPickTimeLimit,
+  formatTimerSetting,
   getTimeUntilStart,
   formatCountdown,
   toDatetimeLocal,
   fromDatetimeLocal,
   getAvailablePlayers,
+  getUnplacedKeepers,
+  getUnreadyCaptains,
+  getKeeperPickIndex,
+  getPicksToRewind,
   formatScheduledTime,
+  formatDraftType,
+  isValidRoundOrder,
 } from '../draft'
 
 // --- Helpers ---
@@ -25,9 +33,13 @@ function makeCaptain(
     league_id: 'league-1',
     name: `Captain ${overrides.draft_position}`,
     is_participant: false,
+    is_ready: false,
     player_id: null,
     auto_pick_enabled: false,
     consecutive_timeout_picks: 0,
+    time_bank_remaining_seconds: null,
+    timeouts_used: 0,
+    auto_pick_strategy: null,
     team_color: null,
     team_name: null,
     team_photo_url: null,
@@ -42,6 +54,9 @@ function makePlayer(overrides: Partial<PlayerPublic> & { id: string }): PlayerPu
     name: `Player ${overrides.id}`,
     drafted_by_captain_id: null,
     draft_pick_number: null,
+    keeper_captain_id: null,
+    keeper_round: null,
+    board_rank: null,
     bio: null,
     profile_picture_url: null,
     created_at: '2025-01-01T00:00:00Z',
@@ -106,6 +121,116 @@ describe('getPickOrder', () => {
     })
   })
 
+  describe('third-round reversal draft', () => {
+    it('repeats the reversed order in round 3', () => {
+      expect(getPickOrder(captains, 9, 'third_round_reversal')).toEqual([
+        'c1',
+        'c2',
+        'c3',
+        'c3',
+        'c2',
+        'c1',
+        'c3',
+        'c2',
+        'c1',
+      ])
+    })
+
+    it('snakes from round 3 onward', () => {
+      const order = getPickOrder(captains, 15, 'third_round_reversal')
+      expect(order.slice(9, 12)).toEqual(['c1', 'c2', 'c3'])
+      expect(order.slice(12, 15)).toEqual(['c3', 'c2', 'c1'])
+    })
+  })
+
+  describe('custom draft', () => {
+    const matrix = [
+      ['c2', 'c3', 'c1'],
+      ['c1', 'c3', 'c2'],
+    ]
+
+    it('uses the matrix row for each round', () => {
+      expect(getPickOrder(captains, 6, 'custom', { pickOrderMatrix: matrix })).toEqual([
+        'c2',
+        'c3',
+        'c1',
+        'c1',
+        'c3',
+        'c2',
+      ])
+    })
+
+    it('falls back to draft position order for rounds beyond the matrix', () => {
+      expect(getPickOrder(captains, 9, 'custom', { pickOrderMatrix: matrix }).slice(6)).toEqual([
+        'c1',
+        'c2',
+        'c3',
+      ])
+    })
+
+    it('falls back to draft position order for rows missing a captain', () => {
+      const stale = [['c2', 'c1', 'c-removed']]
+      expect(getPickOrder(captains, 3, 'custom', { pickOrderMatrix: stale })).toEqual([
+        'c1',
+        'c2',
+        'c3',
+      ])
+    })
+
+    it('falls back to draft position order with no matrix', () => {
+      expect(getPickOrder(captains, 3, 'custom', { pickOrderMatrix: null })).toEqual([
+        'c1',
+        'c2',
+        'c3',
+      ])
+    })
+
+    it('ignores the matrix for other draft types', () => {
+      expect(getPickOrder(captains, 3, 'snake', { pickOrderMatrix: matrix })).toEqual([
+        'c1',
+        'c2',
+        'c3',
+      ])
+    })
+  })
+
+  describe('traded picks', () => {
+    const pickOwnership = [
+      { pick_number: 2, captain_id: 'c3' },
+      { pick_number: 6, captain_id: 'c2' },
+    ]
+
+    it('gives traded picks to their current owner', () => {
+      expect(getPickOrder(captains, 6, 'snake', { pickOwnership })).toEqual([
+        'c1',
+        'c3',
+        'c3',
+        'c3',
+        'c2',
+        'c2',
+      ])
+    })
+
+    it('ignores ownership beyond totalPicks', () => {
+      expect(getPickOrder(captains, 3, 'snake', { pickOwnership })).toEqual(['c1', 'c3', 'c3'])
+    })
+
+    it('ignores owners who are no longer captains', () => {
+      const stale = [{ pick_number: 1, captain_id: 'c-removed' }]
+      expect(getPickOrder(captains, 3, 'snake', { pickOwnership: stale })).toEqual([
+        'c1',
+        'c2',
+        'c3',
+      ])
+    })
+  })
+
+  describe('auction draft', () => {
+    it('rotates nominations like round robin', () => {
+      expect(getPickOrder(captains, 4, 'auction')).toEqual(['c1', 'c2', 'c3', 'c1'])
+    })
+  })
+
   it('sorts captains by draft_position regardless of input order', () => {
     const unsorted = [
       makeCaptain({ id: 'c3', draft_position: 3 }),
@@ -147,11 +272,44 @@ describe('getCaptainAtPick', () => {
     expect(getCaptainAtPick(captains, 3, 'round_robin')?.id).toBe('c2')
   })
 
+  it('follows a custom matrix', () => {
+    const matrix = [
+      ['c2', 'c1'],
+      ['c2', 'c1'],
+    ]
+    expect(getCaptainAtPick(captains, 2, 'custom', { pickOrderMatrix: matrix })?.id).toBe('c2')
+    expect(getCaptainAtPick(captains, 3, 'custom', { pickOrderMatrix: matrix })?.id).toBe('c1')
+  })
+
   it('returns undefined for empty captains', () => {
     expect(getCaptainAtPick([], 0, 'snake')).toBeUndefined()
   })
 })
 
+// --- isValidRoundOrder ---
+
+describe('isValidRoundOrder', () => {
+  const captainIds = ['c1', 'c2', 'c3']
+
+  it('accepts a row listing every captain once', () => {
+    expect(isValidRoundOrder(['c3', 'c1', 'c2'], captainIds)).toBe(true)
+  })
+
+  it('rejects duplicates', () => {
+    expect(isValidRoundOrder(['c1', 'c1', 'c2'], captainIds)).toBe(false)
+  })
+
+  it('rejects rows with the wrong length or unknown captains', () => {
+    expect(isValidRoundOrder(['c1', 'c2'], captainIds)).toBe(false)
+    expect(isValidRoundOrder(['c1', 'c2', 'c4'], captainIds)).toBe(false)
+  })
+
+  it('rejects non-arrays', () => {
+    expect(isValidRoundOrder(undefined, captainIds)).toBe(false)
+    expect(isValidRoundOrder('c1,c2,c3', captainIds)).toBe(false)
+  })
+})
+
 // --- getCurrentRound ---
 
 describe('getCurrentRound', () => {
@@ -282,6 +440,63 @@ describe('isTimerExpired', () => {
 
 // --- formatTime ---
 
+describe('getPickTimeLimit', () => {
+  const perPick = {
+    draft_type: 'snake' as const,
+    timer_mode: 'per_pick' as const,
+    time_limit_seconds: 60,
+    time_bank_seconds: 600,
+    current_pick_extension_seconds: 0,
+  }
+  const timeBank = { ...perPick, timer_mode: 'time_bank' as const }
+
+  it('uses the fixed limit for per-pick leagues', () => {
+    expect(getPickTimeLimit(perPick, { time_bank_remaining_seconds: 42 })).toBe(60)
+  })
+
+  it("uses the captain's remaining bank", () => {
+    expect(getPickTimeLimit(timeBank, { time_bank_remaining_seconds: 42.5 })).toBe(42.5)
+    expect(getPickTimeLimit(timeBank, { time_bank_remaining_seconds: 0 })).toBe(0)
+  })
+
+  it('falls back to the full bank before banks are filled', () => {
+    expect(getPickTimeLimit(timeBank, { time_bank_remaining_seconds: null })).toBe(600)
+    expect(getPickTimeLimit(timeBank, undefined)).toBe(600)
+  })
+
+  it('ignores banks in auction drafts', () => {
+    expect(
+      getPickTimeLimit({ ...timeBank, draft_type: 'auction' }, { time_bank_remaining_seconds: 5 })
+    ).toBe(60)
+  })
+
+  it('adds time from timeouts', () => {
+    const extended = { current_pick_extension_seconds: 30 }
+    expect(getPickTimeLimit({ ...perPick, ...extended }, undefined)).toBe(90)
+    expect(getPickTimeLimit({ ...timeBank, ...extended }, { time_bank_remaining_seconds: 0 })).toBe(
+      30
+    )
+  })
+})
+
+describe('formatTimerSetting', () => {
+  const league = {
+    draft_type: 'snake' as const,
+    timer_mode: 'per_pick' as const,
+    time_limit_seconds: 45,
+    time_bank_seconds: 900,
+  }
+
+  it('describes a per-pick limit', () => {
+    expect(formatTimerSetting(league)).toBe('45s per pick')
+    expect(formatTimerSetting({ ...league, time_limit_seconds: 120 })).toBe('2m per pick')
+  })
+
+  it('describes a time bank', () => {
+    expect(formatTimerSetting({ ...league, timer_mode: 'time_bank' })).toBe('15m time bank')
+  })
+})
+
 describe('formatTime', () => {
   it('formats zero seconds', () => {
     expect(formatTime(0)).toBe('0:00')
@@ -467,6 +682,103 @@ describe('getAvailablePlayers', () => {
     const captains = [makeCaptain({ id: 'c1', draft_position: 1, player_id: null })]
     expect(getAvailablePlayers(players, captains)).toHaveLength(1)
   })
+
+  it('excludes keepers', () => {
+    const players = [
+      makePlayer({ id: 'p1', keeper_captain_id: 'c1', keeper_round: 2 }),
+      makePlayer({ id: 'p2' }),
+    ]
+    const captains = [makeCaptain({ id: 'c1', draft_position: 1 })]
+    const available = getAvailablePlayers(players, captains)
+    expect(available).toHaveLength(1)
+    expect(available[0].id).toBe('p2')
+  })
+})
+
+// --- Ready checks ---
+
+describe('getUnreadyCaptains', () => {
+  const captains = [
+    makeCaptain({ id: 'c1', draft_position: 1, is_ready: true }),
+    makeCaptain({ id: 'c2', draft_position: 2 }),
+  ]
+
+  it('returns captains who have not pressed Ready', () => {
+    expect(getUnreadyCaptains({ require_ready_check: true }, captains).map((c) => c.id)).toEqual([
+      'c2',
+    ])
+  })
+
+  it('is empty when the league does not use ready checks', () => {
+    expect(getUnreadyCaptains({ require_ready_check: false }, captains)).toEqual([])
+  })
+})
+
+// --- Keepers ---
+
+describe('getUnplacedKeepers', () => {
+  it('returns keepers that have not been placed on a team', () => {
+    const players = [
+      makePlayer({ id: 'p1', keeper_captain_id: 'c1', keeper_round: 1 }),
+      makePlayer({
+        id: 'p2',
+        keeper_captain_id: 'c2',
+        keeper_round: 1,
+        drafted_by_captain_id: 'c2',
+        draft_pick_number: 2,
+      }),
+      makePlayer({ id: 'p3' }),
+    ]
+    expect(getUnplacedKeepers(players).map((p) => p.id)).toEqual(['p1'])
+  })
+})
+
+describe('getKeeperPickIndex', () => {
+  // Snake order for 3 captains over 3 rounds
+  const pickOrder = ['c1', 'c2', 'c3', 'c3', 'c2', 'c1', 'c1', 'c2', 'c3']
+
+  it("returns the team's pick in the keeper round", () => {
+    expect(getKeeperPickIndex(pickOrder, 'c1', 1, 3)).toBe(0)
+    expect(getKeeperPickIndex(pickOrder, 'c1', 2, 3)).toBe(5)
+    expect(getKeeperPickIndex(pickOrder, 'c3', 3, 3)).toBe(8)
+  })
+
+  it('uses the first pick when a team owns two picks in the round', () => {
+    const traded = ['c1', 'c2', 'c3', 'c3', 'c3', 'c1', 'c1', 'c2', 'c3']
+    expect(getKeeperPickIndex(traded, 'c3', 2, 3)).toBe(3)
+    expect(getKeeperPickIndex(traded, 'c2', 2, 3)).toBe(-1)
+  })
+
+  it('returns -1 when the round is past the end of the draft', () => {
+    expect(getKeeperPickIndex(pickOrder, 'c1', 4, 3)).toBe(-1)
+    expect(getKeeperPickIndex(pickOrder.slice(0, 7), 'c3', 3, 3)).toBe(-1)
+  })
+
+  it('returns -1 for invalid input', () => {
+    expect(getKeeperPickIndex(pickOrder, 'c1', 0, 3)).toBe(-1)
+    expect(getKeeperPickIndex([], 'c1', 1, 0)).toBe(-1)
+  })
+})
+
+describe('getPicksToRewind', () => {
+  const picks = [
+    { pick_number: 3, is_keeper: false },
+    { pick_number: 1, is_keeper: false },
+    { pick_number: 2, is_keeper: true },
+    { pick_number: 4, is_keeper: false },
+  ]
+
+  it('returns the picks after the target in pick order', () => {
+    expect(getPicksToRewind(picks, 1).map((p) => p.pick_number)).toEqual([3, 4])
+  })
+
+  it('rewinds every pick from the start of the draft', () => {
+    expect(getPicksToRewind(picks, 0).map((p) => p.pick_number)).toEqual([1, 3, 4])
+  })
+
+  it('leaves keeper picks in place', () => {
+    expect(getPicksToRewind([{ pick_number: 5, is_keeper: true }], 0)).toEqual([])
+  })
 })
 
 describe('formatScheduledTime', () => {
@@ -488,3 +800,13 @@ describe('formatScheduledTime', () => {
     expect(() => formatScheduledTime('2025-01-01T00:00:00.000Z')).not.toThrow()
   })
 })
+
+describe('formatDraftType', () => {
+  it('labels each draft type', () => {
+    expect(formatDraftType('snake')).toBe('Snake')
+    expect(formatDraftType('round_robin')).toBe('Round Robin')
+    expect(formatDraftType('third_round_reversal')).toBe('Third-Round Reversal')
+    expect(formatDraftType('custom')).toBe('Custom Order')
+    expect(formatDraftType('auction')).toBe('Auction')
+  })
+})
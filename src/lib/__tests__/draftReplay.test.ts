@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import type { DraftEvent } from '../types'
+import { describeDraftEvent, replayDraftEvents } from '../draftReplay'
+
+// --- Helpers ---
+
+let nextSeq = 1
+
+function makeEvent(
+  overrides: Partial<DraftEvent> & { event_type: DraftEvent['event_type'] }
+): DraftEvent {
+  return {
+    seq: nextSeq++,
+    league_id: 'league-1',
+    pick_number: null,
+    captain_id: null,
+    player_id: null,
+    data: {},
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function pick(
+  pickNumber: number,
+  captainId: string,
+  playerId: string,
+  type: 'pick' | 'auto_pick' | 'keeper' = 'pick'
+) {
+  return makeEvent({
+    event_type: type,
+    pick_number: pickNumber,
+    captain_id: captainId,
+    player_id: playerId,
+  })
+}
+
+function undo(...pickNumbers: number[]) {
+  return makeEvent({
+    event_type: 'undo',
+    pick_number: pickNumbers[0],
+    data: { picks: pickNumbers.map((n) => ({ pick_number: n })) },
+  })
+}
+
+const names = {
+  captain: (id: string | null) => (id === 'c1' ? 'Sharks' : 'Jets'),
+  player: (id: string | null) => `Player ${id}`,
+}
+
+// --- Tests ---
+
+describe('replayDraftEvents', () => {
+  it('starts before the draft', () => {
+    expect(replayDraftEvents([])).toEqual({ status: 'not_started', picks: [] })
+  })
+
+  it('follows status changes', () => {
+    const events = [
+      makeEvent({ event_type: 'start' }),
+      makeEvent({ event_type: 'pause' }),
+      makeEvent({ event_type: 'resume' }),
+      makeEvent({ event_type: 'complete' }),
+    ]
+    expect(replayDraftEvents(events, 1).status).toBe('in_progress')
+    expect(replayDraftEvents(events, 2).status).toBe('paused')
+    expect(replayDraftEvents(events, 3).status).toBe('in_progress')
+    expect(replayDraftEvents(events).status).toBe('completed')
+  })
+
+  it('places picks in pick order', () => {
+    const state = replayDraftEvents([
+      pick(3, 'c1', 'p1', 'keeper'),
+      makeEvent({ event_type: 'start' }),
+      pick(1, 'c1', 'p2'),
+      makeEvent({
+        event_type: 'auto_pick',
+        pick_number: 2,
+        captain_id: 'c2',
+        player_id: 'p3',
+        data: { price: 12 },
+      }),
+    ])
+    expect(state.picks).toEqual([
+      {
+        pickNumber: 1,
+        captainId: 'c1',
+        playerId: 'p2',
+        isAutoPick: false,
+        isKeeper: false,
+        price: null,
+      },
+      {
+        pickNumber: 2,
+        captainId: 'c2',
+        playerId: 'p3',
+        isAutoPick: true,
+        isKeeper: false,
+        price: 12,
+      },
+      {
+        pickNumber: 3,
+        captainId: 'c1',
+        playerId: 'p1',
+        isAutoPick: false,
+        isKeeper: true,
+        price: null,
+      },
+    ])
+  })
+
+  it('shows undone picks until they were undone', () => {
+    const events = [pick(1, 'c1', 'p1'), pick(2, 'c2', 'p2'), undo(2), pick(2, 'c2', 'p3')]
+    expect(replayDraftEvents(events, 2).picks.map((p) => p.playerId)).toEqual(['p1', 'p2'])
+    expect(replayDraftEvents(events, 3).picks.map((p) => p.playerId)).toEqual(['p1'])
+    expect(replayDraftEvents(events).picks.map((p) => p.playerId)).toEqual(['p1', 'p3'])
+  })
+
+  it('removes every pick in a rewind', () => {
+    const events = [pick(1, 'c1', 'p1'), pick(2, 'c2', 'p2'), pick(3, 'c2', 'p3'), undo(2, 3)]
+    expect(replayDraftEvents(events).picks.map((p) => p.pickNumber)).toEqual([1])
+  })
+
+  it('clears the board on restart', () => {
+    const state = replayDraftEvents([
+      makeEvent({ event_type: 'start' }),
+      pick(1, 'c1', 'p1', 'keeper'),
+      pick(2, 'c2', 'p2'),
+      makeEvent({ event_type: 'pause' }),
+      makeEvent({ event_type: 'restart' }),
+    ])
+    expect(state).toEqual({ status: 'not_started', picks: [] })
+  })
+
+  it('applies corrections', () => {
+    const state = replayDraftEvents([
+      pick(1, 'c1', 'p1'),
+      makeEvent({
+        event_type: 'correct',
+        pick_number: 1,
+        captain_id: 'c1',
+        player_id: 'p9',
+        data: { from_player_id: 'p1' },
+      }),
+    ])
+    expect(state.picks.map((p) => p.playerId)).toEqual(['p9'])
+  })
+
+  it('ignores settings changes', () => {
+    const events = [
+      pick(1, 'c1', 'p1'),
+      makeEvent({ event_type: 'settings', data: { time_limit_seconds: { from: 60, to: 90 } } }),
+    ]
+    expect(replayDraftEvents(events)).toEqual(replayDraftEvents(events, 1))
+  })
+})
+
+describe('describeDraftEvent', () => {
+  function describeEvent(event: DraftEvent) {
+    return describeDraftEvent(event, names.captain, names.player)
+  }
+
+  it('describes picks', () => {
+    expect(describeEvent(pick(4, 'c1', 'p1'))).toBe('Pick 4: Sharks picked Player p1')
+    expect(describeEvent(pick(5, 'c2', 'p2', 'auto_pick'))).toBe(
+      'Pick 5: Jets auto-picked Player p2'
+    )
+    expect(describeEvent(pick(6, 'c1', 'p3', 'keeper'))).toBe('Pick 6: Sharks kept Player p3')
+  })
+
+  it('describes undo and rewind', () => {
+    expect(describeEvent(undo(7))).toBe('Pick 7 undone')
+    expect(describeEvent(undo(3, 4, 5))).toBe('Picks 3–5 undone')
+  })
+
+  it('describes status and settings changes', () => {
+    expect(describeEvent(makeEvent({ event_type: 'pause', pick_number: 8 }))).toBe(
+      'Draft paused at pick 8'
+    )
+    expect(
+      describeEvent(
+        makeEvent({
+          event_type: 'settings',
+          data: { time_limit_seconds: { from: 60, to: 90 }, name: { from: 'A', to: 'B' } },
+        })
+      )
+    ).toBe('Settings changed: time limit seconds, name')
+  })
+
+  it('describes corrections', () => {
+    expect(
+      describeEvent(
+        makeEvent({
+          event_type: 'correct',
+          pick_number: 2,
+          player_id: 'p2',
+          data: { from_player_id: 'p1' },
+        })
+      )
+    ).toBe('Pick 2 corrected: Player p1 → Player p2')
+  })
+
+  it('describes skipped turns', () => {
+    expect(
+      describeEvent(
+        makeEvent({ event_type: 'skip', pick_number: 9, captain_id: 'c2', data: { timeouts: 2 } })
+      )
+    ).toBe("Pick 9: Jets's turn skipped after 2 missed picks")
+  })
+})
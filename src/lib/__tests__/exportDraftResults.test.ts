@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { formatPickTime } from '../exportDraftResults'
+import { describeCorrection, formatPickTime } from '../exportDraftResults'
 
 describe('formatPickTime', () => {
   it('formats seconds under a minute', () => {
@@ -35,3 +35,22 @@ describe('formatPickTime', () => {
     expect(formatPickTime(61.7)).toBe('1m 2s')
   })
 })
+
+describe('describeCorrection', () => {
+  const players = [
+    { id: 'p1', name: 'Alex Smith' },
+    { id: 'p2', name: 'Alex Jones' },
+  ]
+
+  it('returns an empty string for a pick that was never corrected', () => {
+    expect(describeCorrection({ original_player_id: null }, players)).toBe('')
+  })
+
+  it('names the originally picked player', () => {
+    expect(describeCorrection({ original_player_id: 'p1' }, players)).toBe('Was Alex Smith')
+  })
+
+  it('falls back when the original player no longer exists', () => {
+    expect(describeCorrection({ original_player_id: 'gone' }, players)).toBe('Was Unknown')
+  })
+})
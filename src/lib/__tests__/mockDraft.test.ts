@@ -0,0 +1,359 @@
+import { describe, it, expect } from 'vitest'
+import type { CaptainPublic, LeagueFullPublic, PlayerCustomField, PlayerPublic } from '../types'
+import {
+  chooseMockPick,
+  createMockDraft,
+  getMockLeague,
+  recordMockPick,
+  rewindMockDraft,
+  type MockDraftState,
+} from '../mockDraft'
+
+// --- Helpers ---
+
+function makeCaptain(
+  overrides: Partial<CaptainPublic> & { id: string; draft_position: number }
+): CaptainPublic {
+  return {
+    league_id: 'league-1',
+    name: `Captain ${overrides.draft_position}`,
+    is_participant: false,
+    is_ready: false,
+    player_id: null,
+    auto_pick_enabled: false,
+    consecutive_timeout_picks: 0,
+    time_bank_remaining_seconds: null,
+    timeouts_used: 0,
+    auto_pick_strategy: null,
+    team_color: null,
+    team_name: null,
+    team_photo_url: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function makePlayer(overrides: Partial<PlayerPublic> & { id: string }): PlayerPublic {
+  return {
+    league_id: 'league-1',
+    name: `Player ${overrides.id}`,
+    drafted_by_captain_id: null,
+    draft_pick_number: null,
+    keeper_captain_id: null,
+    keeper_round: null,
+    board_rank: null,
+    bio: null,
+    profile_picture_url: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function makeLeague(overrides: Partial<LeagueFullPublic> = {}): LeagueFullPublic {
+  return {
+    id: 'league-1',
+    manager_id: 'manager-1',
+    name: 'Test League',
+    draft_type: 'snake',
+    time_limit_seconds: 120,
+    timer_mode: 'time_bank',
+    time_bank_seconds: 300,
+    time_bank_increment_seconds: 0,
+    timeouts_per_captain: 2,
+    timeout_seconds: 60,
+    disconnect_auto_pick_seconds: null,
+    consecutive_timeout_limit: 2,
+    consecutive_timeout_action: 'auto_pick',
+    consecutive_timeout_notify: true,
+    require_ready_check: false,
+    auto_start_when_ready: false,
+    current_pick_extension_seconds: 0,
+    auction_budget: 200,
+    pick_order_matrix: null,
+    roster_slot_schema_id: null,
+    roster_slots: null,
+    auto_pick_strategy: null,
+    status: 'not_started',
+    current_pick_index: 0,
+    current_pick_started_at: null,
+    scheduled_start_at: null,
+    allow_player_custom_fields: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    captains: [
+      makeCaptain({ id: 'c1', draft_position: 1 }),
+      makeCaptain({ id: 'c2', draft_position: 2 }),
+    ],
+    players: ['p1', 'p2', 'p3', 'p4'].map((id) => makePlayer({ id })),
+    draft_picks: [],
+    pick_ownership: [],
+    ...overrides,
+  }
+}
+
+function makeField(playerId: string, schemaId: string, value: string) {
+  return {
+    id: `${playerId}-${schemaId}`,
+    player_id: playerId,
+    field_name: 'Position',
+    field_value: value,
+    field_order: 0,
+    schema_id: schemaId,
+    created_at: '2025-01-01T00:00:00Z',
+  } satisfies PlayerCustomField
+}
+
+// --- Tests ---
+
+describe('createMockDraft', () => {
+  it('starts with no picks', () => {
+    expect(createMockDraft(makeLeague())).toEqual({
+      status: 'not_started',
+      pickIndex: 0,
+      pickStartedAt: null,
+      picks: [],
+    })
+  })
+
+  it('ignores the real draft', () => {
+    const league = makeLeague({
+      status: 'in_progress',
+      current_pick_index: 1,
+      players: [makePlayer({ id: 'p1', drafted_by_captain_id: 'c1', draft_pick_number: 1 })],
+    })
+    expect(createMockDraft(league).picks).toEqual([])
+  })
+
+  it("places keepers on their team's pick in the keeper round", () => {
+    const league = makeLeague({
+      players: [
+        makePlayer({ id: 'p1', keeper_captain_id: 'c1', keeper_round: 1 }),
+        makePlayer({ id: 'p2', keeper_captain_id: 'c1', keeper_round: 2 }),
+        makePlayer({ id: 'p3' }),
+        makePlayer({ id: 'p4' }),
+      ],
+    })
+    const state = createMockDraft(league)
+    expect(state.picks.map((p) => [p.player_id, p.pick_number, p.is_keeper])).toEqual([
+      ['p1', 1, true],
+      ['p2', 4, true],
+    ])
+    // The first pick is filled, so c2 is on the clock
+    expect(state.pickIndex).toBe(1)
+  })
+})
+
+describe('getMockLeague', () => {
+  it('lays the mock picks over the league', () => {
+    const league = makeLeague({
+      players: [
+        makePlayer({ id: 'p1', drafted_by_captain_id: 'c2', draft_pick_number: 1 }),
+        makePlayer({ id: 'p2' }),
+      ],
+    })
+    const state = recordMockPick(
+      league,
+      { status: 'in_progress', pickIndex: 0, pickStartedAt: null, picks: [] },
+      'c1',
+      'p2',
+      false
+    )
+    const mock = getMockLeague(league, state, { secondsPerPick: 15, humanCaptainId: 'c1' })
+    expect(mock.status).toBe('in_progress')
+    expect(mock.current_pick_index).toBe(1)
+    expect(mock.draft_picks).toHaveLength(1)
+    expect(mock.players.map((p) => [p.id, p.drafted_by_captain_id, p.draft_pick_number])).toEqual([
+      ['p1', null, null],
+      ['p2', 'c1', 1],
+    ])
+  })
+
+  it('uses a fixed pick clock with no timeouts', () => {
+    const mock = getMockLeague(makeLeague(), createMockDraft(makeLeague()), {
+      secondsPerPick: 10,
+      humanCaptainId: 'c1',
+    })
+    expect(mock.timer_mode).toBe('per_pick')
+    expect(mock.time_limit_seconds).toBe(10)
+    expect(mock.timeouts_per_captain).toBe(0)
+  })
+
+  it('can start without a ready check', () => {
+    const league = makeLeague({ require_ready_check: true })
+    const mock = getMockLeague(league, createMockDraft(league), {
+      secondsPerPick: 10,
+      humanCaptainId: 'c1',
+    })
+    expect(mock.require_ready_check).toBe(false)
+  })
+
+  it('turns on auto-pick for every captain but the human one', () => {
+    const league = makeLeague()
+    const state = createMockDraft(league)
+    expect(
+      getMockLeague(league, state, { secondsPerPick: 15, humanCaptainId: 'c2' }).captains.map(
+        (c) => c.auto_pick_enabled
+      )
+    ).toEqual([true, false])
+    expect(
+      getMockLeague(league, state, { secondsPerPick: 15, humanCaptainId: null }).captains.map(
+        (c) => c.auto_pick_enabled
+      )
+    ).toEqual([true, true])
+  })
+})
+
+describe('recordMockPick', () => {
+  const started = {
+    status: 'in_progress' as const,
+    pickIndex: 0,
+    pickStartedAt: '2025-01-01T00:00:00Z',
+    picks: [],
+  }
+
+  it('records the pick and moves to the next one', () => {
+    const state = recordMockPick(makeLeague(), started, 'c1', 'p1', true)
+    expect(state.picks).toHaveLength(1)
+    expect(state.picks[0]).toMatchObject({
+      captain_id: 'c1',
+      player_id: 'p1',
+      pick_number: 1,
+      is_auto_pick: true,
+      is_keeper: false,
+    })
+    expect(state.pickIndex).toBe(1)
+    expect(state.status).toBe('in_progress')
+    expect(state.pickStartedAt).not.toBe(started.pickStartedAt)
+  })
+
+  it('skips picks filled by keepers', () => {
+    const league = makeLeague({
+      players: [
+        makePlayer({ id: 'p1' }),
+        makePlayer({ id: 'p2', keeper_captain_id: 'c2', keeper_round: 1 }),
+        makePlayer({ id: 'p3' }),
+        makePlayer({ id: 'p4' }),
+      ],
+    })
+    const state = recordMockPick(
+      league,
+      { ...createMockDraft(league), status: 'in_progress' },
+      'c1',
+      'p1',
+      false
+    )
+    expect(state.pickIndex).toBe(2)
+  })
+
+  it('completes the draft when every player is taken', () => {
+    const league = makeLeague({ players: [makePlayer({ id: 'p1' }), makePlayer({ id: 'p2' })] })
+    const state = recordMockPick(
+      league,
+      recordMockPick(league, started, 'c1', 'p1', false),
+      'c2',
+      'p2',
+      false
+    )
+    expect(state.status).toBe('completed')
+    expect(state.pickStartedAt).toBeNull()
+  })
+})
+
+describe('rewindMockDraft', () => {
+  it('removes later picks and keeps keepers', () => {
+    const league = makeLeague({
+      players: [
+        makePlayer({ id: 'p1' }),
+        makePlayer({ id: 'p2' }),
+        makePlayer({ id: 'p3' }),
+        makePlayer({ id: 'p4', keeper_captain_id: 'c1', keeper_round: 2 }),
+      ],
+    })
+    let state: MockDraftState = { ...createMockDraft(league), status: 'in_progress' }
+    state = recordMockPick(league, state, 'c1', 'p1', false)
+    state = recordMockPick(league, state, 'c2', 'p2', false)
+    state = recordMockPick(league, state, 'c2', 'p3', false)
+    expect(state.status).toBe('completed')
+
+    const rewound = rewindMockDraft(state, 1)
+    expect(rewound.picks.map((p) => p.player_id).sort()).toEqual(['p1', 'p4'])
+    expect(rewound.pickIndex).toBe(1)
+    expect(rewound.status).toBe('in_progress')
+  })
+
+  it('leaves a paused draft paused', () => {
+    const league = makeLeague()
+    const state = recordMockPick(
+      league,
+      { status: 'in_progress', pickIndex: 0, pickStartedAt: null, picks: [] },
+      'c1',
+      'p1',
+      false
+    )
+    const rewound = rewindMockDraft({ ...state, status: 'paused', pickStartedAt: null }, 0)
+    expect(rewound.status).toBe('paused')
+    expect(rewound.pickStartedAt).toBeNull()
+    expect(rewound.picks).toEqual([])
+  })
+})
+
+describe('chooseMockPick', () => {
+  it('takes the first available queued player', () => {
+    const league = makeLeague({
+      players: [makePlayer({ id: 'p1', drafted_by_captain_id: 'c2' }), makePlayer({ id: 'p2' })],
+    })
+    expect(chooseMockPick(league, 'c1', ['p1', 'p2'])?.id).toBe('p2')
+  })
+
+  it("follows the captain's strategy when the queue is empty", () => {
+    const league = makeLeague({
+      captains: [
+        makeCaptain({
+          id: 'c1',
+          draft_position: 1,
+          auto_pick_strategy: { type: 'best_field', fieldId: 'skill', order: 'highest' },
+        }),
+        makeCaptain({ id: 'c2', draft_position: 2 }),
+      ],
+    })
+    const customFieldsMap = {
+      p1: [makeField('p1', 'skill', '3')],
+      p2: [makeField('p2', 'skill', '9')],
+    }
+    expect(chooseMockPick(league, 'c1', [], customFieldsMap)?.id).toBe('p2')
+  })
+
+  it('falls back to the big board', () => {
+    const league = makeLeague({
+      players: [
+        makePlayer({ id: 'p1', board_rank: 2 }),
+        makePlayer({ id: 'p2' }),
+        makePlayer({ id: 'p3', board_rank: 1 }),
+      ],
+    })
+    expect(chooseMockPick(league, 'c1', [])?.id).toBe('p3')
+  })
+
+  it('skips players that would go over a roster slot', () => {
+    const league = makeLeague({
+      roster_slot_schema_id: 'pos',
+      roster_slots: { G: 1 },
+      players: [
+        makePlayer({ id: 'p1', drafted_by_captain_id: 'c1' }),
+        makePlayer({ id: 'p2', board_rank: 1 }),
+        makePlayer({ id: 'p3', board_rank: 2 }),
+      ],
+    })
+    const customFieldsMap = {
+      p1: [makeField('p1', 'pos', 'G')],
+      p2: [makeField('p2', 'pos', 'G')],
+      p3: [makeField('p3', 'pos', 'F')],
+    }
+    expect(chooseMockPick(league, 'c1', ['p2'], customFieldsMap)?.id).toBe('p3')
+  })
+
+  it('returns undefined when nobody is available', () => {
+    const league = makeLeague({ players: [makePlayer({ id: 'p1', drafted_by_captain_id: 'c1' })] })
+    expect(chooseMockPick(league, 'c2', [])).toBeUndefined()
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import type { CaptainPublic, DraftPick, PlayerPublic } from '../types'
+import {
+  DEFAULT_OVERLAY_OPTIONS,
+  getOverlayUrl,
+  getRecentPicks,
+  parseOverlayOptions,
+} from '../overlay'
+
+function parse(query: string) {
+  return parseOverlayOptions(new URLSearchParams(query))
+}
+
+function makePick(pickNumber: number, overrides: Partial<DraftPick> = {}): DraftPick {
+  return {
+    id: `pick-${pickNumber}`,
+    league_id: 'l1',
+    captain_id: 'c1',
+    player_id: `p${pickNumber}`,
+    pick_number: pickNumber,
+    is_auto_pick: false,
+    is_keeper: false,
+    price: null,
+    original_player_id: null,
+    picked_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('parseOverlayOptions', () => {
+  it('uses the defaults without parameters', () => {
+    expect(parse('')).toEqual(DEFAULT_OVERLAY_OPTIONS)
+  })
+
+  it('reads every option', () => {
+    expect(
+      parse('align=right&theme=light&scale=1.5&timer=0&reveal=off&revealSeconds=10&tickerCount=5')
+    ).toEqual({
+      align: 'right',
+      theme: 'light',
+      scale: 1.5,
+      showTimer: false,
+      showReveal: false,
+      revealSeconds: 10,
+      tickerCount: 5,
+    })
+  })
+
+  it('falls back on unknown values', () => {
+    const options = parse('align=middle&theme=neon&scale=big&timer=yes')
+    expect(options.align).toBe('left')
+    expect(options.theme).toBe('dark')
+    expect(options.scale).toBe(1)
+    expect(options.showTimer).toBe(true)
+  })
+
+  it('clamps numbers', () => {
+    expect(parse('scale=10').scale).toBe(3)
+    expect(parse('revealSeconds=0').revealSeconds).toBe(2)
+    expect(parse('tickerCount=100').tickerCount).toBe(30)
+    expect(parse('tickerCount=2.6').tickerCount).toBe(3)
+  })
+
+  it('hides the ticker with ticker=0', () => {
+    expect(parse('ticker=0').tickerCount).toBe(0)
+    expect(parse('ticker=1&tickerCount=4').tickerCount).toBe(4)
+  })
+})
+
+describe('getOverlayUrl', () => {
+  it('builds the overlay link', () => {
+    expect(getOverlayUrl('https://draft.example', 'l1', 'tok')).toBe(
+      'https://draft.example/league/l1/overlay?token=tok'
+    )
+  })
+})
+
+describe('getRecentPicks', () => {
+  const captains = [{ id: 'c1', name: 'Alice' }] as CaptainPublic[]
+  const players = [
+    { id: 'p1', name: 'Bob' },
+    { id: 'p2', name: 'Carol' },
+    { id: 'p3', name: 'Dan' },
+  ] as PlayerPublic[]
+
+  it('lists the newest picks first with their team and player', () => {
+    const league = {
+      captains,
+      players,
+      draft_picks: [makePick(1), makePick(3), makePick(2)],
+    }
+    const recent = getRecentPicks(league, 2)
+    expect(recent.map((r) => r.pick.pick_number)).toEqual([3, 2])
+    expect(recent[0].player?.name).toBe('Dan')
+    expect(recent[0].captain?.name).toBe('Alice')
+  })
+
+  it('leaves out keepers', () => {
+    const league = {
+      captains,
+      players,
+      draft_picks: [makePick(1, { is_keeper: true }), makePick(2)],
+    }
+    expect(getRecentPicks(league, 5).map((r) => r.pick.pick_number)).toEqual([2])
+  })
+
+  it('is empty for a count of zero', () => {
+    expect(getRecentPicks({ captains, players, draft_picks: [makePick(1)] }, 0)).toEqual([])
+  })
+})
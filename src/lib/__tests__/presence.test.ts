@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { formatPresenceStatus, summarizePresence, type PresenceMeta } from '../presence'
+
+function captain(captainId: string, status: PresenceMeta['status']): PresenceMeta {
+  return { role: 'captain', captainId, status }
+}
+
+describe('summarizePresence', () => {
+  it('is empty when nobody is connected', () => {
+    expect(summarizePresence({})).toEqual({ captains: {}, manager: null, spectatorCount: 0 })
+  })
+
+  it('gives each connected captain a status', () => {
+    const presence = summarizePresence({
+      a: [captain('c1', 'online')],
+      b: [captain('c2', 'hidden')],
+    })
+    expect(presence.captains).toEqual({ c1: 'online', c2: 'hidden' })
+  })
+
+  it("uses a captain's most active tab", () => {
+    const presence = summarizePresence({
+      a: [captain('c1', 'hidden')],
+      b: [captain('c1', 'online')],
+      c: [captain('c1', 'idle')],
+    })
+    expect(presence.captains.c1).toBe('online')
+  })
+
+  it('tracks the manager and counts spectators', () => {
+    const presence = summarizePresence({
+      a: [{ role: 'manager', captainId: null, status: 'idle' }],
+      b: [{ role: 'spectator', captainId: null, status: 'online' }],
+      c: [{ role: 'spectator', captainId: null, status: 'hidden' }],
+    })
+    expect(presence.manager).toBe('idle')
+    expect(presence.spectatorCount).toBe(2)
+    expect(presence.captains).toEqual({})
+  })
+
+  it('ignores captain pages that have not identified their captain', () => {
+    expect(
+      summarizePresence({ a: [{ role: 'captain', captainId: null, status: 'online' }] })
+    ).toEqual({ captains: {}, manager: null, spectatorCount: 0 })
+  })
+})
+
+describe('formatPresenceStatus', () => {
+  it('labels each status', () => {
+    expect(formatPresenceStatus('online')).toBe('Online')
+    expect(formatPresenceStatus('idle')).toBe('Idle')
+    expect(formatPresenceStatus('hidden')).toBe('Tab hidden')
+    expect(formatPresenceStatus(undefined)).toBe('Offline')
+  })
+})
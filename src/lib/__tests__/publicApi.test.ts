@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { LeagueApiKey } from '../types'
+import { getPublicApiUrl, sortApiKeys, validateApiKeyName } from '../publicApi'
+
+function makeKey(id: string, createdAt: string, revokedAt: string | null = null): LeagueApiKey {
+  return {
+    id,
+    league_id: 'l1',
+    name: id,
+    key_prefix: 'drk_12345678',
+    created_at: createdAt,
+    last_used_at: null,
+    revoked_at: revokedAt,
+  }
+}
+
+describe('getPublicApiUrl', () => {
+  it('points at the public-api function', () => {
+    expect(getPublicApiUrl('https://abc.supabase.co')).toBe(
+      'https://abc.supabase.co/functions/v1/public-api/v1/league'
+    )
+  })
+
+  it('ignores a trailing slash', () => {
+    expect(getPublicApiUrl('https://abc.supabase.co/')).toBe(
+      'https://abc.supabase.co/functions/v1/public-api/v1/league'
+    )
+  })
+})
+
+describe('validateApiKeyName', () => {
+  it('accepts a name', () => {
+    expect(validateApiKeyName('League website')).toBeNull()
+  })
+
+  it('rejects blank names', () => {
+    expect(validateApiKeyName('   ')).not.toBeNull()
+  })
+
+  it('rejects long names', () => {
+    expect(validateApiKeyName('a'.repeat(50))).toBeNull()
+    expect(validateApiKeyName('a'.repeat(51))).not.toBeNull()
+  })
+})
+
+describe('sortApiKeys', () => {
+  it('lists active keys first, newest first', () => {
+    const keys = [
+      makeKey('old', '2026-01-01T00:00:00Z'),
+      makeKey('revoked', '2026-03-01T00:00:00Z', '2026-03-02T00:00:00Z'),
+      makeKey('new', '2026-02-01T00:00:00Z'),
+    ]
+    expect(sortApiKeys(keys).map((k) => k.id)).toEqual(['new', 'old', 'revoked'])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import type { PlayerCustomField } from '../types'
+import {
+  fitsRosterSlots,
+  getPlayerPositions,
+  getPositionCounts,
+  getRosterSlotStatus,
+} from '../rosterSlots'
+
+// --- Helpers ---
+
+function makeField(playerId: string, schemaId: string | null, value: string | null) {
+  return {
+    id: `${playerId}-${schemaId}`,
+    player_id: playerId,
+    field_name: 'Position',
+    field_value: value,
+    field_order: 0,
+    schema_id: schemaId,
+    created_at: '2025-01-01T00:00:00Z',
+  } satisfies PlayerCustomField
+}
+
+const positions = new Map([
+  ['g1', 'Goalie'],
+  ['g2', 'Goalie'],
+  ['d1', 'Defender'],
+  ['f1', 'Forward'],
+])
+
+// --- Tests ---
+
+describe('getPlayerPositions', () => {
+  it('reads the value of the roster slot field', () => {
+    const result = getPlayerPositions(
+      {
+        g1: [makeField('g1', 'other', 'Tall'), makeField('g1', 'pos', 'Goalie')],
+        d1: [makeField('d1', 'pos', 'Defender')],
+      },
+      'pos'
+    )
+    expect(result).toEqual(
+      new Map([
+        ['g1', 'Goalie'],
+        ['d1', 'Defender'],
+      ])
+    )
+  })
+
+  it('skips players without a value', () => {
+    const result = getPlayerPositions(
+      {
+        p1: [makeField('p1', 'pos', null)],
+        p2: [makeField('p2', 'pos', '')],
+        p3: [makeField('p3', null, 'Goalie')],
+      },
+      'pos'
+    )
+    expect(result.size).toBe(0)
+  })
+})
+
+describe('getPositionCounts', () => {
+  it('counts roster players by position', () => {
+    const counts = getPositionCounts(['g1', 'g2', 'd1', 'unknown'], positions)
+    expect(counts.get('Goalie')).toBe(2)
+    expect(counts.get('Defender')).toBe(1)
+    expect(counts.has('Forward')).toBe(false)
+  })
+})
+
+describe('fitsRosterSlots', () => {
+  const slots = { Goalie: 1, Defender: 4 }
+
+  it('allows anything when no slots are set', () => {
+    expect(fitsRosterSlots(null, positions, ['g1'], 'g2')).toBe(true)
+  })
+
+  it('allows a position with open slots', () => {
+    expect(fitsRosterSlots(slots, positions, [], 'g1')).toBe(true)
+    expect(fitsRosterSlots(slots, positions, ['g1'], 'd1')).toBe(true)
+  })
+
+  it('rejects a position whose slots are full', () => {
+    expect(fitsRosterSlots(slots, positions, ['g1'], 'g2')).toBe(false)
+  })
+
+  it('treats unlisted positions and players without one as unrestricted', () => {
+    expect(fitsRosterSlots(slots, positions, ['g1'], 'f1')).toBe(true)
+    expect(fitsRosterSlots(slots, positions, ['g1'], 'nobody')).toBe(true)
+  })
+})
+
+describe('getRosterSlotStatus', () => {
+  it('lists filled and total slots in slot order', () => {
+    const counts = getPositionCounts(['g1', 'd1'], positions)
+    expect(getRosterSlotStatus({ Goalie: 1, Defender: 4, Forward: 5 }, counts)).toEqual([
+      { position: 'Goalie', filled: 1, limit: 1 },
+      { position: 'Defender', filled: 1, limit: 4 },
+      { position: 'Forward', filled: 0, limit: 5 },
+    ])
+  })
+})
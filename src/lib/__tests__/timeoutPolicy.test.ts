@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import type { ConsecutiveTimeoutAction } from '../types'
+import { getTimeoutPolicyNotice, hasReachedTimeoutLimit } from '../timeoutPolicy'
+
+function policy(limit: number | null, action: ConsecutiveTimeoutAction = 'auto_pick') {
+  return { consecutive_timeout_limit: limit, consecutive_timeout_action: action }
+}
+
+describe('hasReachedTimeoutLimit', () => {
+  it('is reached at the limit and beyond', () => {
+    expect(hasReachedTimeoutLimit(policy(2), 1)).toBe(false)
+    expect(hasReachedTimeoutLimit(policy(2), 2)).toBe(true)
+    expect(hasReachedTimeoutLimit(policy(2), 3)).toBe(true)
+  })
+
+  it('is never reached when the limit is off', () => {
+    expect(hasReachedTimeoutLimit(policy(null), 10)).toBe(false)
+  })
+})
+
+describe('getTimeoutPolicyNotice', () => {
+  it('is null below the limit', () => {
+    expect(getTimeoutPolicyNotice(policy(3), 1, 2)).toBeNull()
+  })
+
+  it('is null when the count did not go up', () => {
+    expect(getTimeoutPolicyNotice(policy(2), 2, 2)).toBeNull()
+    expect(getTimeoutPolicyNotice(policy(2), 3, 0)).toBeNull()
+  })
+
+  it('is null when the limit is off', () => {
+    expect(getTimeoutPolicyNotice(policy(null), 4, 5)).toBeNull()
+  })
+
+  it('describes each action', () => {
+    expect(getTimeoutPolicyNotice(policy(2, 'auto_pick'), 1, 2)).toBe(
+      "You've missed 2 picks in a row, so auto-pick is now on. Turn it off when you're back."
+    )
+    expect(getTimeoutPolicyNotice(policy(1, 'skip'), 0, 1)).toBe(
+      "You've missed 1 pick in a row, so your turn was skipped. Make a pick to stop your turns being skipped."
+    )
+    expect(getTimeoutPolicyNotice(policy(2, 'pause'), 1, 2)).toBe(
+      "You've missed 2 picks in a row, so the draft is paused until the manager resumes it."
+    )
+  })
+
+  it('tells a skipped captain about every turn they miss past the limit', () => {
+    expect(getTimeoutPolicyNotice(policy(2, 'skip'), 2, 3)).toContain('3 picks')
+  })
+})
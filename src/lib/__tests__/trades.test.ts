@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import type { TradeItem } from '../types'
+import {
+  getFirstTradablePickNumber,
+  getTradablePicks,
+  formatPickLabel,
+  splitTradeItems,
+} from '../trades'
+
+// --- Helpers ---
+
+function makeItem(overrides: Partial<TradeItem> & { id: string; from_captain_id: string }) {
+  return {
+    trade_id: 'trade-1',
+    pick_number: null,
+    player_id: null,
+    ...overrides,
+  } satisfies TradeItem
+}
+
+// --- Tests ---
+
+describe('getFirstTradablePickNumber', () => {
+  it('allows trading the first pick before the draft starts', () => {
+    expect(getFirstTradablePickNumber('not_started', 0)).toBe(1)
+  })
+
+  it('locks the pick on the clock once the draft is running', () => {
+    expect(getFirstTradablePickNumber('in_progress', 0)).toBe(2)
+    expect(getFirstTradablePickNumber('paused', 4)).toBe(6)
+  })
+})
+
+describe('getTradablePicks', () => {
+  // Snake order for 2 captains over 3 rounds: A B B A A B
+  const pickOrder = ['a', 'b', 'b', 'a', 'a', 'b']
+
+  it('returns every pick owned by the captain before the draft', () => {
+    expect(getTradablePicks(pickOrder, 'a', 1)).toEqual([1, 4, 5])
+    expect(getTradablePicks(pickOrder, 'b', 1)).toEqual([2, 3, 6])
+  })
+
+  it('skips picks before the first tradable pick', () => {
+    expect(getTradablePicks(pickOrder, 'a', 5)).toEqual([5])
+  })
+
+  it('reflects traded picks in the pick order', () => {
+    const traded = ['a', 'b', 'b', 'b', 'a', 'b']
+    expect(getTradablePicks(traded, 'a', 1)).toEqual([1, 5])
+    expect(getTradablePicks(traded, 'b', 1)).toEqual([2, 3, 4, 6])
+  })
+
+  it('skips picks that are already filled', () => {
+    expect(getTradablePicks(pickOrder, 'a', 1, new Set([4]))).toEqual([1, 5])
+  })
+
+  it('returns empty when nothing is left', () => {
+    expect(getTradablePicks(pickOrder, 'a', 7)).toEqual([])
+    expect(getTradablePicks([], 'a', 1)).toEqual([])
+  })
+})
+
+describe('formatPickLabel', () => {
+  it('includes the round', () => {
+    expect(formatPickLabel(1, 4)).toBe('Pick 1 (Round 1)')
+    expect(formatPickLabel(4, 4)).toBe('Pick 4 (Round 1)')
+    expect(formatPickLabel(5, 4)).toBe('Pick 5 (Round 2)')
+  })
+})
+
+describe('splitTradeItems', () => {
+  it('groups items by the side giving them up', () => {
+    const items = [
+      makeItem({ id: '1', from_captain_id: 'a', pick_number: 3 }),
+      makeItem({ id: '2', from_captain_id: 'b', player_id: 'p1' }),
+      makeItem({ id: '3', from_captain_id: 'a', player_id: 'p2' }),
+    ]
+    const { fromProposer, fromRecipient } = splitTradeItems(items, 'a')
+    expect(fromProposer.map((i) => i.id)).toEqual(['1', '3'])
+    expect(fromRecipient.map((i) => i.id)).toEqual(['2'])
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { getPushOptInKey, urlBase64ToUint8Array } from '../webPush'
+
+describe('urlBase64ToUint8Array', () => {
+  it('decodes URL-safe base64 without padding', () => {
+    // "-_8" is [0xfb, 0xff] in standard base64 "+/8="
+    expect([...urlBase64ToUint8Array('-_8')]).toEqual([0xfb, 0xff])
+  })
+
+  it('decodes padded lengths', () => {
+    expect([...urlBase64ToUint8Array('AQID')]).toEqual([1, 2, 3])
+    expect([...urlBase64ToUint8Array('AQ')]).toEqual([1])
+  })
+
+  it('decodes a 65-byte VAPID public key', () => {
+    const key = 'B' + 'A'.repeat(86)
+    expect(urlBase64ToUint8Array(key)).toHaveLength(65)
+  })
+})
+
+describe('getPushOptInKey', () => {
+  it('is per captain', () => {
+    expect(getPushOptInKey('a')).not.toBe(getPushOptInKey('b'))
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest'
+import type { CaptainPublic, LeagueFullPublic, PlayerCustomField, PlayerPublic } from '../types'
+import {
+  describeWebhookEvent,
+  formatWebhookBody,
+  getWebhookPreviewPayload,
+  type WebhookEventPayload,
+} from '../webhookFormats'
+
+function makePayload(overrides: Partial<WebhookEventPayload> = {}): WebhookEventPayload {
+  return {
+    id: 'd1',
+    event: 'pick_made',
+    occurredAt: '2026-01-01T00:00:00Z',
+    league: { id: 'l1', name: 'Friday League' },
+    pickNumber: 3,
+    captain: {
+      id: 'c1',
+      name: 'Alice',
+      teamName: 'Sharks',
+      teamColor: '#1e90ff',
+      teamPhotoUrl: 'https://example.com/sharks.png',
+    },
+    player: {
+      id: 'p1',
+      name: 'Bob',
+      photoUrl: 'https://example.com/bob.png',
+      customFields: [
+        { name: 'Position', value: 'Guard' },
+        { name: 'Height', value: null },
+      ],
+    },
+    ...overrides,
+  }
+}
+
+describe('describeWebhookEvent', () => {
+  it('names the team, player and pick', () => {
+    expect(describeWebhookEvent(makePayload())).toBe('Sharks drafted Bob with pick 3')
+    expect(describeWebhookEvent(makePayload({ event: 'auto_pick_made' }), (t) => `*${t}*`)).toBe(
+      '*Sharks* auto-drafted *Bob* with pick 3'
+    )
+  })
+
+  it('falls back to the captain name without a team name', () => {
+    const payload = makePayload()
+    payload.captain!.teamName = null
+    expect(describeWebhookEvent(payload)).toBe('Alice drafted Bob with pick 3')
+  })
+
+  it('describes draft status events', () => {
+    expect(describeWebhookEvent(makePayload({ event: 'draft_started' }))).toBe(
+      'The draft has started'
+    )
+    expect(describeWebhookEvent(makePayload({ event: 'draft_completed' }))).toBe(
+      'The draft is complete'
+    )
+  })
+})
+
+describe('formatWebhookBody', () => {
+  it('builds a Slack message with the team color and player photo', () => {
+    const body = formatWebhookBody('slack', makePayload(), { includeCustomFields: false })
+    expect(body).toEqual({
+      text: 'Friday League: Sharks drafted Bob with pick 3',
+      attachments: [
+        {
+          color: '#1e90ff',
+          blocks: [
+            {
+              type: 'section',
+              text: { type: 'mrkdwn', text: '*Sharks* drafted *Bob* with pick 3' },
+              accessory: {
+                type: 'image',
+                image_url: 'https://example.com/bob.png',
+                alt_text: 'Bob',
+              },
+            },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('adds custom field values to Slack messages when included', () => {
+    const body = formatWebhookBody('slack', makePayload(), { includeCustomFields: true }) as {
+      attachments: { blocks: unknown[] }[]
+    }
+    expect(body.attachments[0].blocks[1]).toEqual({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: 'Position: Guard' }],
+    })
+  })
+
+  it('builds a Discord embed', () => {
+    const body = formatWebhookBody('discord', makePayload(), { includeCustomFields: true })
+    expect(body).toEqual({
+      embeds: [
+        {
+          title: 'Friday League',
+          description: '**Sharks** drafted **Bob** with pick 3',
+          timestamp: '2026-01-01T00:00:00Z',
+          color: 0x1e90ff,
+          author: { name: 'Sharks', icon_url: 'https://example.com/sharks.png' },
+          thumbnail: { url: 'https://example.com/bob.png' },
+          fields: [{ name: 'Position', value: 'Guard', inline: true }],
+        },
+      ],
+    })
+  })
+
+  it('leaves out team colors that are not hex colors', () => {
+    const payload = makePayload()
+    payload.captain!.teamColor = 'red'
+    const slack = formatWebhookBody('slack', payload, { includeCustomFields: false }) as {
+      attachments: Record<string, unknown>[]
+    }
+    const discord = formatWebhookBody('discord', payload, { includeCustomFields: false }) as {
+      embeds: Record<string, unknown>[]
+    }
+    expect(slack.attachments[0]).not.toHaveProperty('color')
+    expect(discord.embeds[0]).not.toHaveProperty('color')
+  })
+
+  it('formats events without a captain or player', () => {
+    const payload = makePayload({ event: 'draft_paused', captain: null, player: null })
+    const body = formatWebhookBody('discord', payload, { includeCustomFields: true }) as {
+      embeds: Record<string, unknown>[]
+    }
+    expect(body.embeds[0]).toEqual({
+      title: 'Friday League',
+      description: 'The draft is paused',
+      timestamp: '2026-01-01T00:00:00Z',
+    })
+  })
+
+  it('strips custom fields from raw payloads unless included', () => {
+    const payload = makePayload()
+    const raw = formatWebhookBody('raw', payload, { includeCustomFields: false }) as {
+      player: Record<string, unknown>
+    }
+    expect(raw.player).not.toHaveProperty('customFields')
+    expect(formatWebhookBody('raw', payload, { includeCustomFields: true })).toEqual(payload)
+  })
+})
+
+describe('getWebhookPreviewPayload', () => {
+  function makeLeague(): Pick<LeagueFullPublic, 'id' | 'name' | 'captains' | 'players'> {
+    return {
+      id: 'l1',
+      name: 'Friday League',
+      captains: [
+        { id: 'c2', name: 'Carol', draft_position: 1, player_id: 'p1' },
+        {
+          id: 'c1',
+          name: 'Alice',
+          draft_position: 0,
+          player_id: null,
+          team_name: 'Sharks',
+          team_color: '#1e90ff',
+          team_photo_url: null,
+        },
+      ] as CaptainPublic[],
+      players: [
+        { id: 'p1', name: 'Carol', drafted_by_captain_id: null },
+        { id: 'p2', name: 'Dan', drafted_by_captain_id: 'c1' },
+        { id: 'p3', name: 'Erin', drafted_by_captain_id: null, profile_picture_url: null },
+      ] as PlayerPublic[],
+    }
+  }
+
+  it('uses the first captain and first available player', () => {
+    const customFields = {
+      p3: [{ field_name: 'Position', field_value: 'Forward' }] as PlayerCustomField[],
+    }
+    const payload = getWebhookPreviewPayload(makeLeague(), customFields)
+    expect(payload.captain).toMatchObject({ id: 'c1', teamName: 'Sharks', teamColor: '#1e90ff' })
+    expect(payload.player).toEqual({
+      id: 'p3',
+      name: 'Erin',
+      photoUrl: null,
+      customFields: [{ name: 'Position', value: 'Forward' }],
+    })
+  })
+
+  it('handles a league without captains or players', () => {
+    const payload = getWebhookPreviewPayload({ ...makeLeague(), captains: [], players: [] })
+    expect(payload.captain).toBeNull()
+    expect(payload.player).toBeNull()
+  })
+})
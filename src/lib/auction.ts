@@ -0,0 +1,90 @@
+import type { CaptainPublic, DraftPick } from './types'
+
+/** Smallest allowed bid, and the amount reserved for every unfilled roster slot. */
+export const AUCTION_MIN_BID = 1
+
+type PricedPick = Pick<DraftPick, 'captain_id' | 'price'>
+
+/**
+ * Number of roster slots each team fills in an auction draft.
+ * Rounds up so every draftable player can be bought.
+ */
+export function getAuctionRosterSize(draftablePlayerCount: number, captainCount: number): number {
+  if (captainCount === 0) return 0
+  return Math.ceil(draftablePlayerCount / captainCount)
+}
+
+/**
+ * Count auction purchases per captain
+ */
+export function getRosterCounts(picks: PricedPick[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const pick of picks) {
+    counts.set(pick.captain_id, (counts.get(pick.captain_id) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Total amount a captain has spent on won players
+ */
+export function getCaptainSpend(picks: PricedPick[], captainId: string): number {
+  return picks.filter((p) => p.captain_id === captainId).reduce((sum, p) => sum + (p.price ?? 0), 0)
+}
+
+/**
+ * Highest bid a captain can place. Keeps AUCTION_MIN_BID in reserve for each
+ * other open slot so the captain can always fill their roster.
+ * Returns 0 when the roster is full.
+ * NOTE: Keep in sync with getMaxBid() in supabase/functions/_shared/auction.ts.
+ */
+export function getMaxBid(
+  budget: number,
+  spent: number,
+  rosterCount: number,
+  rosterSize: number
+): number {
+  const openSlots = rosterSize - rosterCount
+  if (openSlots <= 0) return 0
+  return Math.max(0, budget - spent - (openSlots - 1) * AUCTION_MIN_BID)
+}
+
+/**
+ * Get the captain who nominates at a given pick index. Nominations rotate by
+ * draft position, skipping captains whose rosters are already full.
+ * NOTE: Keep in sync with getNominatingCaptainId() in supabase/functions/_shared/auction.ts.
+ */
+export function getNominatingCaptain(
+  captains: CaptainPublic[],
+  pickIndex: number,
+  rosterCounts: Map<string, number>,
+  rosterSize: number
+): CaptainPublic | undefined {
+  if (captains.length === 0) return undefined
+
+  const sorted = [...captains].sort((a, b) => a.draft_position - b.draft_position)
+  const start = pickIndex % sorted.length
+
+  for (let offset = 0; offset < sorted.length; offset++) {
+    const captain = sorted[(start + offset) % sorted.length]
+    if ((rosterCounts.get(captain.id) ?? 0) < rosterSize) return captain
+  }
+  return undefined
+}
+
+/**
+ * Validate a bid amount against the current high bid and the bidder's max bid.
+ * Pass null for currentBid when opening a nomination.
+ * @returns Error message, or null if the bid is valid
+ */
+export function validateBid(
+  amount: number,
+  currentBid: number | null,
+  maxBid: number
+): string | null {
+  if (!Number.isInteger(amount)) return 'Bid must be a whole number'
+  if (amount < AUCTION_MIN_BID) return `Bid must be at least $${AUCTION_MIN_BID}`
+  if (currentBid !== null && amount <= currentBid) return `Bid must be more than $${currentBid}`
+  if (amount > maxBid) return `Bid exceeds your max bid of $${maxBid}`
+  return null
+}
@@ -0,0 +1,141 @@
+import ExcelJS from 'exceljs'
+import { saveAs } from 'file-saver'
+import type { AuditActorType, AuditLog, LeagueFullPublic } from './types'
+
+export type AuditLogRange = '1h' | '24h' | '7d' | '30d' | 'all'
+
+export interface AuditLogFilters {
+  /** null matches every action */
+  action: string | null
+  /** null matches every actor type */
+  actorType: AuditActorType | null
+  range: AuditLogRange
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 50
+
+export const AUDIT_LOG_RANGES: { value: AuditLogRange; label: string }[] = [
+  { value: '1h', label: 'Last hour' },
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'all', label: 'All time' },
+]
+
+export const AUDIT_ACTOR_TYPES: { value: AuditActorType; label: string }[] = [
+  { value: 'manager', label: 'Manager' },
+  { value: 'captain', label: 'Captain' },
+  { value: 'player', label: 'Player' },
+  { value: 'system', label: 'System' },
+]
+
+const RANGE_MS: Record<Exclude<AuditLogRange, 'all'>, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+}
+
+/** The earliest created_at a range includes, or null for all time. */
+export function getAuditLogSince(range: AuditLogRange, now: number): string | null {
+  if (range === 'all') return null
+  return new Date(now - RANGE_MS[range]).toISOString()
+}
+
+/** "pick_made" → "Pick made" */
+export function formatAuditAction(action: string): string {
+  const words = action.replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Who performed the action. Captain and player actors are logged by id and
+ * named from the league; managers are logged by user id and there's only one.
+ */
+export function describeAuditActor(
+  log: Pick<AuditLog, 'actor_type' | 'actor_id'>,
+  league: Pick<LeagueFullPublic, 'captains' | 'players'>
+): string {
+  switch (log.actor_type) {
+    case 'manager':
+      return 'Manager'
+    case 'system':
+      return 'System'
+    case 'captain': {
+      const captain = league.captains.find((c) => c.id === log.actor_id)
+      return captain ? captain.team_name || captain.name : 'Unknown captain'
+    }
+    case 'player':
+      return league.players.find((p) => p.id === log.actor_id)?.name ?? 'Unknown player'
+  }
+}
+
+/** Metadata as "key: value" pairs on one line. */
+export function formatAuditMetadata(metadata: Record<string, unknown> | null): string {
+  return Object.entries(metadata ?? {})
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+      return `${key.replace(/_/g, ' ')}: ${text}`
+    })
+    .join(', ')
+}
+
+/** Header plus one row per log entry, shared by the CSV and XLSX exports. */
+export function getAuditLogRows(
+  logs: AuditLog[],
+  league: Pick<LeagueFullPublic, 'captains' | 'players'>
+): string[][] {
+  return [
+    ['Time', 'Action', 'Actor Type', 'Actor', 'Actor ID', 'IP Address', 'Details'],
+    ...logs.map((log) => [
+      new Date(log.created_at).toISOString(),
+      formatAuditAction(log.action),
+      log.actor_type,
+      describeAuditActor(log, league),
+      log.actor_id ?? '',
+      log.ip_address ?? '',
+      formatAuditMetadata(log.metadata),
+    ]),
+  ]
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n')
+}
+
+export async function exportAuditLogs(
+  league: LeagueFullPublic,
+  logs: AuditLog[],
+  format: 'csv' | 'xlsx'
+): Promise<void> {
+  const rows = getAuditLogRows(logs, league)
+  const safeName = league.name
+    .replace(/[^a-zA-Z0-9 ]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+
+  if (format === 'csv') {
+    saveAs(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${safeName}-activity.csv`)
+    return
+  }
+
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet('Activity')
+  worksheet.addRows(rows)
+  worksheet.getColumn(1).width = 24 // Time
+  worksheet.getColumn(2).width = 22 // Action
+  worksheet.getColumn(3).width = 11 // Actor Type
+  worksheet.getColumn(4).width = 20 // Actor
+  worksheet.getColumn(5).width = 38 // Actor ID
+  worksheet.getColumn(6).width = 16 // IP Address
+  worksheet.getColumn(7).width = 60 // Details
+  worksheet.getRow(1).font = { bold: true }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  saveAs(new Blob([buffer]), `${safeName}-activity.xlsx`)
+}
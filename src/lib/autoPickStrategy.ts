@@ -0,0 +1,131 @@
+import type { AutoPickStrategy, LeagueFieldSchema, PlayerCustomField } from './types'
+
+/** Numeric field values: field schema id → player id → value. */
+export type FieldValues = Map<string, Map<string, number>>
+
+export const AUTO_PICK_STRATEGY_LABELS: Record<AutoPickStrategy['type'], string> = {
+  random: 'Big board, then random',
+  best_field: 'Best available by field',
+  balance: 'Balance team averages',
+}
+
+/** Field schemas a strategy can rank by. */
+export function getNumericFieldSchemas(schemas: LeagueFieldSchema[]): LeagueFieldSchema[] {
+  return schemas.filter((s) => s.field_type === 'number')
+}
+
+/**
+ * The strategy auto-pick uses for a captain: their own, else the league's, else random.
+ * NOTE: Keep in sync with resolveAutoPickStrategy() in supabase/functions/_shared/autoPickStrategy.ts.
+ */
+export function resolveAutoPickStrategy(
+  league: { auto_pick_strategy: AutoPickStrategy | null },
+  captain: { auto_pick_strategy: AutoPickStrategy | null } | undefined
+): AutoPickStrategy {
+  return captain?.auto_pick_strategy ?? league.auto_pick_strategy ?? { type: 'random' }
+}
+
+/** Field schema ids a strategy reads values from. */
+export function getStrategyFieldIds(strategy: AutoPickStrategy): string[] {
+  switch (strategy.type) {
+    case 'best_field':
+      return [strategy.fieldId]
+    case 'balance':
+      return strategy.fieldIds
+    default:
+      return []
+  }
+}
+
+/** Parse a field value as a number, or null when it isn't one. */
+export function parseFieldNumber(value: string | null | undefined): number | null {
+  if (value == null || value.trim() === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Collect the numeric values of the given fields from a league's custom fields. */
+export function getFieldValues(
+  customFieldsMap: Record<string, PlayerCustomField[]>,
+  fieldIds: string[]
+): FieldValues {
+  const values: FieldValues = new Map(fieldIds.map((id) => [id, new Map()]))
+  for (const [playerId, fields] of Object.entries(customFieldsMap)) {
+    for (const field of fields) {
+      const byPlayer = field.schema_id ? values.get(field.schema_id) : undefined
+      const n = parseFieldNumber(field.field_value)
+      if (byPlayer && n !== null) byPlayer.set(playerId, n)
+    }
+  }
+  return values
+}
+
+/**
+ * Choose a player from candidates with the strategy, or null when it has
+ * nothing to go on (random, or no candidate has a value for its fields) and
+ * the caller should fall back to a random pick. Ties go to the earlier candidate.
+ *
+ * balance compares each field's team average (with the candidate added) to the
+ * average across every player in the league, scaled by the field's range, and
+ * picks the candidate whose team ends up closest overall.
+ * NOTE: Keep in sync with chooseByStrategy() in supabase/functions/_shared/autoPickStrategy.ts.
+ */
+export function chooseByStrategy(
+  strategy: AutoPickStrategy,
+  candidateIds: string[],
+  values: FieldValues,
+  rosterPlayerIds: string[]
+): string | null {
+  if (strategy.type === 'best_field') {
+    const byPlayer = values.get(strategy.fieldId)
+    if (!byPlayer) return null
+    const sign = strategy.order === 'lowest' ? -1 : 1
+    let best: string | null = null
+    for (const id of candidateIds) {
+      const v = byPlayer.get(id)
+      if (v === undefined) continue
+      if (best === null || sign * v > sign * byPlayer.get(best)!) best = id
+    }
+    return best
+  }
+
+  if (strategy.type === 'balance') {
+    const fields = strategy.fieldIds
+      .map((id) => values.get(id))
+      .filter((byPlayer): byPlayer is Map<string, number> => !!byPlayer && byPlayer.size > 0)
+      .map((byPlayer) => {
+        const all = [...byPlayer.values()]
+        const rosterValues = rosterPlayerIds
+          .map((id) => byPlayer.get(id))
+          .filter((v): v is number => v !== undefined)
+        return {
+          byPlayer,
+          target: all.reduce((sum, v) => sum + v, 0) / all.length,
+          range: Math.max(...all) - Math.min(...all) || 1,
+          rosterSum: rosterValues.reduce((sum, v) => sum + v, 0),
+          rosterCount: rosterValues.length,
+        }
+      })
+
+    let best: string | null = null
+    let bestScore = Infinity
+    for (const id of candidateIds) {
+      if (!fields.some((f) => f.byPlayer.has(id))) continue
+      let score = 0
+      for (const f of fields) {
+        const v = f.byPlayer.get(id)
+        const count = f.rosterCount + (v === undefined ? 0 : 1)
+        if (count === 0) continue
+        const average = (f.rosterSum + (v ?? 0)) / count
+        score += Math.abs(average - f.target) / f.range
+      }
+      if (score < bestScore) {
+        best = id
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  return null
+}
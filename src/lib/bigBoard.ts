@@ -0,0 +1,66 @@
+import type { PlayerPublic } from './types'
+
+/**
+ * Order players by big board rank. Unranked players go last, by name.
+ */
+export function compareBoardRank(
+  a: Pick<PlayerPublic, 'name' | 'board_rank'>,
+  b: Pick<PlayerPublic, 'name' | 'board_rank'>
+): number {
+  if (a.board_rank !== null && b.board_rank !== null) return a.board_rank - b.board_rank
+  if (a.board_rank !== null) return -1
+  if (b.board_rank !== null) return 1
+  return a.name.localeCompare(b.name)
+}
+
+/**
+ * Players on the big board, best first.
+ * NOTE: auto-pick's chooseFromBoard() in supabase/functions/_shared/bigBoard.ts takes the first.
+ */
+export function getBigBoard<T extends Pick<PlayerPublic, 'name' | 'board_rank'>>(
+  players: T[]
+): T[] {
+  return players.filter((p) => p.board_rank !== null).sort(compareBoardRank)
+}
+
+export interface BoardImportResult {
+  /** Matched player ids, best first */
+  playerIds: string[]
+  /** Names in the spreadsheet that don't match a player */
+  unmatched: string[]
+}
+
+/**
+ * Build a big board from spreadsheet rows. Rows are ordered by the rank column
+ * when there is one (rows without a number go last), otherwise by row order.
+ * Names match players case-insensitively; each player is ranked once.
+ */
+export function matchBoardRows(
+  players: Pick<PlayerPublic, 'id' | 'name'>[],
+  rows: string[][],
+  nameColumn: number,
+  rankColumn: number | null
+): BoardImportResult {
+  const entries = rows
+    .map((row, index) => {
+      const rank = rankColumn === null ? index : parseFloat(row[rankColumn] ?? '')
+      return { name: (row[nameColumn] ?? '').trim(), rank: isNaN(rank) ? Infinity : rank, index }
+    })
+    .filter((e) => e.name)
+    .sort((a, b) => (a.rank === b.rank ? a.index - b.index : a.rank < b.rank ? -1 : 1))
+
+  const byName = new Map<string, string[]>()
+  for (const player of players) {
+    const key = player.name.trim().toLowerCase()
+    byName.set(key, [...(byName.get(key) ?? []), player.id])
+  }
+
+  const playerIds: string[] = []
+  const unmatched: string[] = []
+  for (const entry of entries) {
+    const id = byName.get(entry.name.toLowerCase())?.shift()
+    if (id) playerIds.push(id)
+    else unmatched.push(entry.name)
+  }
+  return { playerIds, unmatched }
+}
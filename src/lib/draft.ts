@@ -1,16 +1,55 @@
-import type { LeagueStatus, DraftType, CaptainPublic, PlayerPublic } from './types'
+import type {
+  LeagueStatus,
+  DraftType,
+  CaptainPublic,
+  DraftPick,
+  LeaguePublic,
+  PlayerPublic,
+} from './types'
+
+/**
+ * Whether a round (0-indexed) runs in reverse draft position order.
+ * Third-round reversal flips rounds 2 and 3, then snakes from there.
+ */
+export function isReversedRound(round: number, draftType: DraftType): boolean {
+  if (draftType === 'snake') return round % 2 === 1
+  if (draftType === 'third_round_reversal') return round === 1 || (round >= 2 && round % 2 === 0)
+  return false
+}
+
+/**
+ * Check that a custom pick order row contains every captain exactly once.
+ * NOTE: Keep in sync with isValidRoundOrder() in supabase/functions/_shared/draftOrder.ts.
+ */
+export function isValidRoundOrder(row: unknown, captainIds: string[]): row is string[] {
+  if (!Array.isArray(row) || row.length !== captainIds.length) return false
+  const ids = new Set(captainIds)
+  return new Set(row).size === row.length && row.every((id) => ids.has(id))
+}
+
+export interface PickOrderOptions {
+  /** Per-round captain ID order for 'custom' drafts */
+  pickOrderMatrix?: string[][] | null
+  /** Traded picks (1-based pick_number); these override the derived order */
+  pickOwnership?: { pick_number: number; captain_id: string }[]
+}
 
 /**
  * Calculate the pick order for a draft
  * @param captains - Array of captains sorted by draft_position
  * @param totalPicks - Total number of picks to make
- * @param draftType - 'snake' or 'round_robin'
+ * @param draftType - 'snake', 'round_robin', 'third_round_reversal', 'custom', or 'auction'
+ *   (nominations rotate like round_robin)
+ * @param options.pickOrderMatrix - Per-round order for 'custom' drafts. Rounds that are
+ *   missing or don't list every captain exactly once use draft position order.
+ * @param options.pickOwnership - Traded picks, which go to their current owner
  * @returns Array of captain IDs in pick order
  */
 export function getPickOrder(
   captains: CaptainPublic[],
   totalPicks: number,
-  draftType: DraftType
+  draftType: DraftType,
+  { pickOrderMatrix = null, pickOwnership = [] }: PickOrderOptions = {}
 ): string[] {
   if (captains.length === 0) return []
 
@@ -19,12 +58,40 @@ export function getPickOrder(
   const order: string[] = []
 
   for (let round = 0; order.length < totalPicks; round++) {
-    const roundOrder =
-      draftType === 'snake' && round % 2 === 1 ? [...captainIds].reverse() : captainIds
+    const customRow = draftType === 'custom' ? pickOrderMatrix?.[round] : undefined
+    const roundOrder = isValidRoundOrder(customRow, captainIds)
+      ? customRow
+      : isReversedRound(round, draftType)
+        ? [...captainIds].reverse()
+        : captainIds
     order.push(...roundOrder)
   }
 
-  return order.slice(0, totalPicks)
+  const result = order.slice(0, totalPicks)
+  for (const { pick_number, captain_id } of pickOwnership) {
+    if (pick_number <= result.length && captainIds.includes(captain_id)) {
+      result[pick_number - 1] = captain_id
+    }
+  }
+  return result
+}
+
+/**
+ * Human-readable label for a draft type
+ */
+export function formatDraftType(draftType: DraftType): string {
+  switch (draftType) {
+    case 'snake':
+      return 'Snake'
+    case 'round_robin':
+      return 'Round Robin'
+    case 'third_round_reversal':
+      return 'Third-Round Reversal'
+    case 'custom':
+      return 'Custom Order'
+    case 'auction':
+      return 'Auction'
+  }
 }
 
 /**
@@ -33,9 +100,10 @@ export function getPickOrder(
 export function getCaptainAtPick(
   captains: CaptainPublic[],
   pickIndex: number,
-  draftType: DraftType
+  draftType: DraftType,
+  options: PickOrderOptions = {}
 ): CaptainPublic | undefined {
-  const order = getPickOrder(captains, pickIndex + 1, draftType)
+  const order = getPickOrder(captains, pickIndex + 1, draftType, options)
   const captainId = order[pickIndex]
   return captains.find((c) => c.id === captainId)
 }
@@ -76,6 +144,54 @@ export function getRemainingTime(
   return Math.max(0, timeLimitSeconds - elapsed)
 }
 
+/**
+ * Seconds the captain on the clock has for the current pick: what is left of
+ * their time bank in time bank leagues, otherwise the fixed per-pick limit,
+ * plus any time added by timeouts.
+ * Banks are only charged when the clock stops, so pass the result to
+ * getRemainingTime() like a fixed limit.
+ * NOTE: Keep in sync with getPickTimeLimit() in supabase/functions/_shared/draftHelpers.ts.
+ */
+export function getPickTimeLimit(
+  league: Pick<
+    LeaguePublic,
+    | 'draft_type'
+    | 'timer_mode'
+    | 'time_limit_seconds'
+    | 'time_bank_seconds'
+    | 'current_pick_extension_seconds'
+  >,
+  captain: Pick<CaptainPublic, 'time_bank_remaining_seconds'> | undefined
+): number {
+  const limit =
+    league.timer_mode === 'time_bank' && league.draft_type !== 'auction'
+      ? (captain?.time_bank_remaining_seconds ?? league.time_bank_seconds)
+      : league.time_limit_seconds
+  return limit + league.current_pick_extension_seconds
+}
+
+/**
+ * Format a whole number of seconds as "2m" or "45s"
+ */
+export function formatDuration(seconds: number): string {
+  return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`
+}
+
+/**
+ * Describe the league's timer, e.g. "1m per pick" or "10m time bank"
+ */
+export function formatTimerSetting(
+  league: Pick<
+    LeaguePublic,
+    'draft_type' | 'timer_mode' | 'time_limit_seconds' | 'time_bank_seconds'
+  >
+): string {
+  if (league.timer_mode === 'time_bank' && league.draft_type !== 'auction') {
+    return `${formatDuration(league.time_bank_seconds)} time bank`
+  }
+  return `${formatDuration(league.time_limit_seconds)} per pick`
+}
+
 /**
  * Check if timer has expired
  */
@@ -179,7 +295,7 @@ export function fromDatetimeLocal(value: string): string | null {
 }
 
 /**
- * Get players available for drafting (not drafted and not linked to a captain).
+ * Get players available for drafting (not drafted, not linked to a captain, and not kept).
  * NOTE: This logic is duplicated in edge functions (make-pick, auto-pick) for
  * server-side validation. Keep them in sync when modifying.
  */
@@ -188,5 +304,62 @@ export function getAvailablePlayers(
   captains: CaptainPublic[]
 ): PlayerPublic[] {
   const captainPlayerIds = new Set(captains.filter((c) => c.player_id).map((c) => c.player_id))
-  return players.filter((p) => !p.drafted_by_captain_id && !captainPlayerIds.has(p.id))
+  return players.filter(
+    (p) => !p.drafted_by_captain_id && !p.keeper_captain_id && !captainPlayerIds.has(p.id)
+  )
+}
+
+/**
+ * Captains who still have to press Ready before the draft can start. Empty when
+ * the league doesn't use ready checks.
+ */
+export function getUnreadyCaptains(
+  league: Pick<LeaguePublic, 'require_ready_check'>,
+  captains: CaptainPublic[]
+): CaptainPublic[] {
+  return league.require_ready_check ? captains.filter((c) => !c.is_ready) : []
+}
+
+/**
+ * Keepers that haven't been placed on a team yet. Keeper picks are filled in
+ * when the draft starts, so before then keepers are neither available nor drafted.
+ */
+export function getUnplacedKeepers(players: PlayerPublic[]): PlayerPublic[] {
+  return players.filter((p) => p.keeper_captain_id && !p.drafted_by_captain_id)
+}
+
+/**
+ * Get the pick a keeper uses: the team's first pick in the keeper round.
+ * NOTE: Keep in sync with place_keeper_picks() in supabase/migrations/030_keepers.sql.
+ * @param pickOrder - Captain IDs in pick order, with traded picks applied (see getPickOrder)
+ * @param round - Keeper round (1-indexed)
+ * @returns 0-based pick index, or -1 if the team has no pick in that round
+ */
+export function getKeeperPickIndex(
+  pickOrder: string[],
+  captainId: string,
+  round: number,
+  captainCount: number
+): number {
+  if (captainCount === 0 || round < 1) return -1
+  const end = Math.min(round * captainCount, pickOrder.length)
+  for (let i = (round - 1) * captainCount; i < end; i++) {
+    if (pickOrder[i] === captainId) return i
+  }
+  return -1
+}
+
+/**
+ * Picks removed by rewinding the draft to just after pickNumber, in pick order.
+ * Keeper picks stay put.
+ * NOTE: Keep in sync with rewind_to_pick() in supabase/migrations/035_rewind_draft.sql.
+ * @param pickNumber - Last pick to keep (1-indexed); 0 rewinds to the start of the draft
+ */
+export function getPicksToRewind<T extends Pick<DraftPick, 'pick_number' | 'is_keeper'>>(
+  picks: T[],
+  pickNumber: number
+): T[] {
+  return picks
+    .filter((p) => !p.is_keeper && p.pick_number > pickNumber)
+    .sort((a, b) => a.pick_number - b.pick_number)
 }
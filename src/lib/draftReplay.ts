@@ -0,0 +1,121 @@
+import type { DraftEvent, LeagueStatus } from './types'
+
+export interface ReplayPick {
+  pickNumber: number
+  captainId: string
+  playerId: string
+  isAutoPick: boolean
+  isKeeper: boolean
+  price: number | null
+}
+
+export interface ReplayState {
+  status: LeagueStatus
+  /** Picks on the board, in pick order */
+  picks: ReplayPick[]
+}
+
+interface RemovedPick {
+  pick_number: number
+}
+
+/**
+ * The draft board after the first `count` events (all of them by default).
+ * Events must be in seq order, as useDraftEvents returns them.
+ */
+export function replayDraftEvents(events: DraftEvent[], count = events.length): ReplayState {
+  let status: LeagueStatus = 'not_started'
+  const picks = new Map<number, ReplayPick>()
+
+  for (const event of events.slice(0, count)) {
+    switch (event.event_type) {
+      case 'start':
+      case 'resume':
+        status = 'in_progress'
+        break
+      case 'pause':
+        status = 'paused'
+        break
+      case 'complete':
+        status = 'completed'
+        break
+      case 'restart':
+        status = 'not_started'
+        picks.clear()
+        break
+      case 'pick':
+      case 'auto_pick':
+      case 'keeper':
+        if (event.pick_number === null || !event.captain_id || !event.player_id) break
+        picks.set(event.pick_number, {
+          pickNumber: event.pick_number,
+          captainId: event.captain_id,
+          playerId: event.player_id,
+          isAutoPick: event.event_type === 'auto_pick',
+          isKeeper: event.event_type === 'keeper',
+          price: typeof event.data.price === 'number' ? event.data.price : null,
+        })
+        break
+      case 'undo':
+        for (const removed of (event.data.picks ?? []) as RemovedPick[]) {
+          picks.delete(removed.pick_number)
+        }
+        break
+      case 'correct': {
+        const pick = event.pick_number === null ? undefined : picks.get(event.pick_number)
+        if (pick && event.player_id) {
+          picks.set(pick.pickNumber, { ...pick, playerId: event.player_id })
+        }
+        break
+      }
+      // Settings changes and skipped turns don't change the board
+    }
+  }
+
+  return { status, picks: [...picks.values()].sort((a, b) => a.pickNumber - b.pickNumber) }
+}
+
+/**
+ * A one-line description of an event for the replay timeline.
+ */
+export function describeDraftEvent(
+  event: DraftEvent,
+  captainName: (captainId: string | null) => string,
+  playerName: (playerId: string | null) => string
+): string {
+  switch (event.event_type) {
+    case 'start':
+      return 'Draft started'
+    case 'pause':
+      return `Draft paused at pick ${event.pick_number}`
+    case 'resume':
+      return `Draft resumed at pick ${event.pick_number}`
+    case 'complete':
+      return 'Draft completed'
+    case 'restart':
+      return 'Draft restarted'
+    case 'pick':
+    case 'auto_pick': {
+      const verb = event.event_type === 'auto_pick' ? 'auto-picked' : 'picked'
+      const price = typeof event.data.price === 'number' ? ` for $${event.data.price}` : ''
+      return `Pick ${event.pick_number}: ${captainName(event.captain_id)} ${verb} ${playerName(event.player_id)}${price}`
+    }
+    case 'keeper':
+      return `Pick ${event.pick_number}: ${captainName(event.captain_id)} kept ${playerName(event.player_id)}`
+    case 'undo': {
+      const removed = (event.data.picks ?? []) as RemovedPick[]
+      return removed.length === 1
+        ? `Pick ${removed[0].pick_number} undone`
+        : `Picks ${event.pick_number}–${removed[removed.length - 1]?.pick_number} undone`
+    }
+    case 'correct':
+      return `Pick ${event.pick_number} corrected: ${playerName(event.data.from_player_id as string)} → ${playerName(event.player_id)}`
+    case 'skip': {
+      const missed =
+        event.data.timeouts === 1 ? '1 missed pick' : `${event.data.timeouts} missed picks`
+      return `Pick ${event.pick_number}: ${captainName(event.captain_id)}'s turn skipped after ${missed}`
+    }
+    case 'settings':
+      return `Settings changed: ${Object.keys(event.data).join(', ').replace(/_/g, ' ')}`
+  }
+}
@@ -1,6 +1,8 @@
 import ExcelJS from 'exceljs'
 import { saveAs } from 'file-saver'
-import type { LeagueFullPublic } from './types'
+import { formatDraftType } from './draft'
+import { getCaptainSpend } from './auction'
+import type { DraftPick, LeagueFullPublic, PlayerPublic } from './types'
 
 export function formatPickTime(seconds: number): string {
   if (seconds >= 60) {
@@ -11,21 +13,39 @@ export function formatPickTime(seconds: number): string {
   return `${Math.round(seconds)}s`
 }
 
+/** "Was <player>" for a pick a manager corrected, or an empty string. */
+export function describeCorrection(
+  pick: Pick<DraftPick, 'original_player_id'>,
+  players: Pick<PlayerPublic, 'id' | 'name'>[]
+): string {
+  if (!pick.original_player_id) return ''
+  const original = players.find((p) => p.id === pick.original_player_id)
+  return `Was ${original?.name ?? 'Unknown'}`
+}
+
 export async function exportDraftResults(league: LeagueFullPublic): Promise<void> {
   const workbook = new ExcelJS.Workbook()
   const sortedCaptains = [...league.captains].sort((a, b) => a.draft_position - b.draft_position)
   const captainCount = league.captains.length
   const sortedPicks = [...league.draft_picks].sort((a, b) => a.pick_number - b.pick_number)
+  const isAuction = league.draft_type === 'auction'
 
   // --- Sheet 1: Team Rosters ---
   const rosterSheet = workbook.addWorksheet('Team Rosters')
-  const rosterRows: (string | number)[][] = [['Player', 'Pick #', 'Type']]
+  const rosterRows: (string | number)[][] = [
+    ['Player', 'Pick #', 'Type', ...(isAuction ? ['Price'] : [])],
+  ]
 
   for (let i = 0; i < sortedCaptains.length; i++) {
     const captain = sortedCaptains[i]
     if (i > 0) rosterRows.push([]) // blank row between teams
 
-    rosterRows.push([`Team: ${captain.team_name || captain.name}`, '', ''])
+    rosterRows.push([
+      `Team: ${captain.team_name || captain.name}`,
+      '',
+      '',
+      ...(isAuction ? [`$${getCaptainSpend(league.draft_picks, captain.id)} spent`] : []),
+    ])
 
     if (captain.is_participant) {
       rosterRows.push([captain.name, '', 'Captain'])
@@ -40,7 +60,8 @@ export async function exportDraftResults(league: LeagueFullPublic): Promise<void
       rosterRows.push([
         player.name,
         player.draft_pick_number ?? '',
-        pick?.is_auto_pick ? 'Auto' : 'Manual',
+        (pick?.is_auto_pick ? 'Auto' : 'Manual') + (pick?.original_player_id ? ' (corrected)' : ''),
+        ...(isAuction ? [pick?.price ?? ''] : []),
       ])
     }
   }
@@ -49,12 +70,22 @@ export async function exportDraftResults(league: LeagueFullPublic): Promise<void
   rosterSheet.getColumn(1).width = 25
   rosterSheet.getColumn(2).width = 8
   rosterSheet.getColumn(3).width = 10
+  if (isAuction) rosterSheet.getColumn(4).width = 12
   rosterSheet.getRow(1).font = { bold: true }
 
   // --- Sheet 2: Pick History ---
   const historySheet = workbook.addWorksheet('Pick History')
   const historyRows: (string | number)[][] = [
-    ['Pick', 'Round', 'Captain', 'Player', 'Type', 'Time'],
+    [
+      'Pick',
+      'Round',
+      'Captain',
+      'Player',
+      'Type',
+      'Time',
+      ...(isAuction ? ['Price'] : []),
+      'Correction',
+    ],
   ]
 
   for (const pick of sortedPicks) {
@@ -73,6 +104,8 @@ export async function exportDraftResults(league: LeagueFullPublic): Promise<void
       player?.name ?? 'Unknown',
       pick.is_auto_pick ? 'Auto' : 'Manual',
       time,
+      ...(isAuction ? [pick.price ?? ''] : []),
+      describeCorrection(pick, league.players),
     ])
   }
 
@@ -83,6 +116,8 @@ export async function exportDraftResults(league: LeagueFullPublic): Promise<void
   historySheet.getColumn(4).width = 20
   historySheet.getColumn(5).width = 8
   historySheet.getColumn(6).width = 10
+  if (isAuction) historySheet.getColumn(7).width = 8
+  historySheet.getColumn(isAuction ? 8 : 7).width = 20
   historySheet.getRow(1).font = { bold: true }
 
   // --- Sheet 3: Summary ---
@@ -113,7 +148,7 @@ export async function exportDraftResults(league: LeagueFullPublic): Promise<void
 
   const summaryRows: (string | number)[][] = [
     ['League', league.name],
-    ['Draft Type', league.draft_type === 'snake' ? 'Snake' : 'Round Robin'],
+    ['Draft Type', formatDraftType(league.draft_type)],
     ['Total Picks', totalPicks],
     ['Rounds', totalRounds],
     ['Teams', captainCount],
@@ -121,6 +156,12 @@ export async function exportDraftResults(league: LeagueFullPublic): Promise<void
     ['Avg Pick Time', avgPickTimeStr],
   ]
 
+  if (isAuction) {
+    const totalSpent = league.draft_picks.reduce((sum, p) => sum + (p.price ?? 0), 0)
+    summaryRows.push(['Budget Per Team', `$${league.auction_budget}`])
+    summaryRows.push(['Total Spent', `$${totalSpent}`])
+  }
+
   summarySheet.addRows(summaryRows)
   summarySheet.getColumn(1).width = 15
   summarySheet.getColumn(2).width = 25
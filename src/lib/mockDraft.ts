@@ -0,0 +1,228 @@
+import { getAvailablePlayers, getKeeperPickIndex, getPickOrder } from './draft'
+import {
+  chooseByStrategy,
+  getFieldValues,
+  getStrategyFieldIds,
+  resolveAutoPickStrategy,
+} from './autoPickStrategy'
+import { getBigBoard } from './bigBoard'
+import { fitsRosterSlots, getPlayerPositions } from './rosterSlots'
+import type {
+  DraftPick,
+  LeagueFullPublic,
+  LeagueStatus,
+  PlayerCustomField,
+  PlayerPublic,
+} from './types'
+
+/**
+ * A practice draft that only lives in the browser. It never writes to the
+ * league; picks are kept here and laid over the real league for display.
+ */
+export interface MockDraftState {
+  status: LeagueStatus
+  /** 0-based index of the pick on the clock */
+  pickIndex: number
+  pickStartedAt: string | null
+  picks: DraftPick[]
+}
+
+/** Players in the draft pool: everyone not linked to a captain. */
+function getPoolPlayers(league: LeagueFullPublic): PlayerPublic[] {
+  const captainPlayerIds = new Set(league.captains.map((c) => c.player_id))
+  return league.players.filter((p) => !captainPlayerIds.has(p.id))
+}
+
+/** Pick order for a mock draft of the whole pool, with traded picks applied. */
+export function getMockPickOrder(league: LeagueFullPublic): string[] {
+  return getPickOrder(league.captains, getPoolPlayers(league).length, league.draft_type, {
+    pickOrderMatrix: league.pick_order_matrix,
+    pickOwnership: league.pick_ownership,
+  })
+}
+
+/** Move past picks that are already filled (keepers), like the real draft does. */
+function skipFilledPicks(pickIndex: number, picks: DraftPick[]): number {
+  const filled = new Set(picks.map((p) => p.pick_number - 1))
+  let index = pickIndex
+  while (filled.has(index)) index++
+  return index
+}
+
+/**
+ * A fresh mock draft for the league, ignoring any real picks. Keepers are
+ * placed on their team's pick in the keeper round, as when a draft starts.
+ */
+export function createMockDraft(league: LeagueFullPublic): MockDraftState {
+  const pickOrder = getMockPickOrder(league)
+  const picks: DraftPick[] = []
+  const keepers = league.players
+    .filter((p) => p.keeper_captain_id && p.keeper_round)
+    .sort((a, b) => a.keeper_round! - b.keeper_round!)
+
+  for (const keeper of keepers) {
+    const index = getKeeperPickIndex(
+      pickOrder,
+      keeper.keeper_captain_id!,
+      keeper.keeper_round!,
+      league.captains.length
+    )
+    if (index === -1 || picks.some((p) => p.pick_number === index + 1)) continue
+    picks.push(
+      makeMockPick(league.id, keeper.keeper_captain_id!, keeper.id, index + 1, {
+        isKeeper: true,
+      })
+    )
+  }
+
+  return { status: 'not_started', pickIndex: skipFilledPicks(0, picks), pickStartedAt: null, picks }
+}
+
+function makeMockPick(
+  leagueId: string,
+  captainId: string,
+  playerId: string,
+  pickNumber: number,
+  { isAutoPick = false, isKeeper = false }: { isAutoPick?: boolean; isKeeper?: boolean } = {}
+): DraftPick {
+  return {
+    id: `mock-${pickNumber}`,
+    league_id: leagueId,
+    captain_id: captainId,
+    player_id: playerId,
+    pick_number: pickNumber,
+    is_auto_pick: isAutoPick,
+    is_keeper: isKeeper,
+    price: null,
+    original_player_id: null,
+    picked_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * The league as the mock draft sees it: the real captains and players with the
+ * mock picks, a fixed per-pick clock, no timeouts and no ready check. Every
+ * captain except the human one is a bot with auto-pick on.
+ */
+export function getMockLeague(
+  league: LeagueFullPublic,
+  state: MockDraftState,
+  { secondsPerPick, humanCaptainId }: { secondsPerPick: number; humanCaptainId: string | null }
+): LeagueFullPublic {
+  const pickByPlayer = new Map(state.picks.map((p) => [p.player_id, p]))
+  return {
+    ...league,
+    status: state.status,
+    current_pick_index: state.pickIndex,
+    current_pick_started_at: state.pickStartedAt,
+    current_pick_extension_seconds: 0,
+    time_limit_seconds: secondsPerPick,
+    timer_mode: 'per_pick',
+    timeouts_per_captain: 0,
+    scheduled_start_at: null,
+    require_ready_check: false,
+    draft_picks: state.picks,
+    captains: league.captains.map((c) => ({
+      ...c,
+      auto_pick_enabled: c.id !== humanCaptainId,
+      consecutive_timeout_picks: 0,
+      timeouts_used: 0,
+    })),
+    players: league.players.map((p) => ({
+      ...p,
+      drafted_by_captain_id: pickByPlayer.get(p.id)?.captain_id ?? null,
+      draft_pick_number: pickByPlayer.get(p.id)?.pick_number ?? null,
+    })),
+  }
+}
+
+/**
+ * Record a pick and move the clock to the next open pick, or complete the
+ * draft when nobody is left.
+ */
+export function recordMockPick(
+  league: LeagueFullPublic,
+  state: MockDraftState,
+  captainId: string,
+  playerId: string,
+  isAutoPick: boolean
+): MockDraftState {
+  const picks = [
+    ...state.picks,
+    makeMockPick(league.id, captainId, playerId, state.pickIndex + 1, { isAutoPick }),
+  ]
+  const pickedIds = new Set(picks.map((p) => p.player_id))
+  const isComplete = getPoolPlayers(league).every((p) => pickedIds.has(p.id) || p.keeper_captain_id)
+  return {
+    status: isComplete ? 'completed' : state.status,
+    pickIndex: skipFilledPicks(state.pickIndex + 1, picks),
+    pickStartedAt: isComplete ? null : new Date().toISOString(),
+    picks,
+  }
+}
+
+/**
+ * Rewind the mock draft to just after pickNumber (0 = the start). Keeper picks stay.
+ */
+export function rewindMockDraft(state: MockDraftState, pickNumber: number): MockDraftState {
+  const picks = state.picks.filter((p) => p.is_keeper || p.pick_number <= pickNumber)
+  return {
+    status: state.status === 'completed' ? 'in_progress' : state.status,
+    pickIndex: skipFilledPicks(pickNumber, picks),
+    pickStartedAt: state.status === 'paused' ? null : new Date().toISOString(),
+    picks,
+  }
+}
+
+/**
+ * Choose a player for a bot the way auto-pick does: the first queued player,
+ * then the captain's strategy, then the big board, then at random. Players
+ * that would go over a roster slot limit are skipped, unless none fit.
+ * NOTE: Mirrors selectPlayer() in supabase/functions/auto-pick/index.ts.
+ */
+export function chooseMockPick(
+  league: LeagueFullPublic,
+  captainId: string,
+  queuePlayerIds: string[],
+  customFieldsMap: Record<string, PlayerCustomField[]> = {}
+): PlayerPublic | undefined {
+  const availablePlayers = getAvailablePlayers(league.players, league.captains)
+  const rosterPlayerIds = league.players
+    .filter((p) => p.drafted_by_captain_id === captainId)
+    .map((p) => p.id)
+
+  let fits = (_playerId: string) => true
+  if (league.draft_type !== 'auction' && league.roster_slot_schema_id && league.roster_slots) {
+    const positions = getPlayerPositions(customFieldsMap, league.roster_slot_schema_id)
+    fits = (playerId) => fitsRosterSlots(league.roster_slots, positions, rosterPlayerIds, playerId)
+  }
+
+  for (const playerId of queuePlayerIds) {
+    const queued = availablePlayers.find((p) => p.id === playerId)
+    if (queued && fits(queued.id)) return queued
+  }
+
+  const fittingPlayers = availablePlayers.filter((p) => fits(p.id))
+  const candidates = fittingPlayers.length > 0 ? fittingPlayers : availablePlayers
+
+  const strategy = resolveAutoPickStrategy(
+    league,
+    league.captains.find((c) => c.id === captainId)
+  )
+  const fieldIds = getStrategyFieldIds(strategy)
+  if (fieldIds.length > 0) {
+    const chosenId = chooseByStrategy(
+      strategy,
+      candidates.map((p) => p.id),
+      getFieldValues(customFieldsMap, fieldIds),
+      rosterPlayerIds
+    )
+    const chosen = candidates.find((p) => p.id === chosenId)
+    if (chosen) return chosen
+  }
+
+  const [boardPlayer] = getBigBoard(candidates)
+  if (boardPlayer) return boardPlayer
+
+  return candidates[Math.floor(Math.random() * candidates.length)]
+}
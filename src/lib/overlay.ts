@@ -0,0 +1,96 @@
+import type { CaptainPublic, DraftPick, LeagueFullPublic, PlayerPublic } from './types'
+
+/** Layout of the broadcast overlay (/league/:id/overlay), set with query parameters. */
+export interface OverlayOptions {
+  /** Where the "now picking" lower-third sits: `?align=left|center|right` */
+  align: 'left' | 'center' | 'right'
+  /** `?theme=dark|light` */
+  theme: 'dark' | 'light'
+  /** Multiplies every size, for canvases other than 1080p: `?scale=1.5` */
+  scale: number
+  /** `?timer=0` hides the countdown */
+  showTimer: boolean
+  /** `?reveal=0` turns off the "pick is in" reveal */
+  showReveal: boolean
+  /** How long each reveal stays up: `?revealSeconds=8` */
+  revealSeconds: number
+  /** Recent picks in the ticker; `?ticker=0` hides it */
+  tickerCount: number
+}
+
+export const DEFAULT_OVERLAY_OPTIONS: OverlayOptions = {
+  align: 'left',
+  theme: 'dark',
+  scale: 1,
+  showTimer: true,
+  showReveal: true,
+  revealSeconds: 6,
+  tickerCount: 10,
+}
+
+function parseNumber(value: string | null, min: number, max: number, fallback: number): number {
+  if (value === null || value.trim() === '') return fallback
+  const n = Number(value)
+  if (!Number.isFinite(n)) return fallback
+  return Math.min(max, Math.max(min, n))
+}
+
+function parseFlag(value: string | null, fallback: boolean): boolean {
+  if (value === null) return fallback
+  return !['0', 'false', 'off', 'no'].includes(value.toLowerCase())
+}
+
+/** Reads overlay options from the URL. Unknown or out-of-range values fall back or are clamped. */
+export function parseOverlayOptions(params: URLSearchParams): OverlayOptions {
+  const align = params.get('align')
+  const theme = params.get('theme')
+  const ticker = params.get('ticker')
+
+  return {
+    align: align === 'center' || align === 'right' ? align : DEFAULT_OVERLAY_OPTIONS.align,
+    theme: theme === 'light' ? 'light' : DEFAULT_OVERLAY_OPTIONS.theme,
+    scale: parseNumber(params.get('scale'), 0.5, 3, DEFAULT_OVERLAY_OPTIONS.scale),
+    showTimer: parseFlag(params.get('timer'), DEFAULT_OVERLAY_OPTIONS.showTimer),
+    showReveal: parseFlag(params.get('reveal'), DEFAULT_OVERLAY_OPTIONS.showReveal),
+    revealSeconds: parseNumber(
+      params.get('revealSeconds'),
+      2,
+      30,
+      DEFAULT_OVERLAY_OPTIONS.revealSeconds
+    ),
+    tickerCount:
+      ticker !== null && !parseFlag(ticker, true)
+        ? 0
+        : Math.round(
+            parseNumber(params.get('tickerCount'), 0, 30, DEFAULT_OVERLAY_OPTIONS.tickerCount)
+          ),
+  }
+}
+
+/** The overlay link for a league, to paste into an OBS browser source. */
+export function getOverlayUrl(origin: string, leagueId: string, spectatorToken: string): string {
+  return `${origin}/league/${leagueId}/overlay?token=${spectatorToken}`
+}
+
+export interface OverlayPick {
+  pick: DraftPick
+  captain: CaptainPublic | undefined
+  player: PlayerPublic | undefined
+}
+
+/** Drafted (non-keeper) picks with their team and player, newest first. */
+export function getRecentPicks(
+  league: Pick<LeagueFullPublic, 'draft_picks' | 'captains' | 'players'>,
+  count: number
+): OverlayPick[] {
+  if (count <= 0) return []
+  return league.draft_picks
+    .filter((p) => !p.is_keeper)
+    .sort((a, b) => b.pick_number - a.pick_number)
+    .slice(0, count)
+    .map((pick) => ({
+      pick,
+      captain: league.captains.find((c) => c.id === pick.captain_id),
+      player: league.players.find((p) => p.id === pick.player_id),
+    }))
+}
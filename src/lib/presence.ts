@@ -0,0 +1,64 @@
+export type PresenceStatus = 'online' | 'idle' | 'hidden'
+export type PresenceRole = 'manager' | 'captain' | 'spectator'
+
+/** What each open draft page tracks on the league's realtime channel. */
+export interface PresenceMeta {
+  role: PresenceRole
+  /** The captain a captain page belongs to; null for managers and spectators */
+  captainId: string | null
+  status: PresenceStatus
+}
+
+export interface DraftPresence {
+  /** Best status of each captain with a page open; missing captains are offline */
+  captains: Record<string, PresenceStatus>
+  manager: PresenceStatus | null
+  spectatorCount: number
+}
+
+export const EMPTY_PRESENCE: DraftPresence = { captains: {}, manager: null, spectatorCount: 0 }
+
+/** How long an open tab can go without input before it counts as idle. */
+export const IDLE_AFTER_MS = 2 * 60 * 1000
+
+const STATUS_RANK: Record<PresenceStatus, number> = { online: 0, idle: 1, hidden: 2 }
+
+function best(a: PresenceStatus | null | undefined, b: PresenceStatus): PresenceStatus {
+  return a && STATUS_RANK[a] <= STATUS_RANK[b] ? a : b
+}
+
+/**
+ * Collapse the channel's presence state (one entry per open tab) into one
+ * status per captain. Someone with several tabs open counts as their most
+ * active one.
+ */
+export function summarizePresence(state: Record<string, PresenceMeta[]>): DraftPresence {
+  const presence: DraftPresence = { captains: {}, manager: null, spectatorCount: 0 }
+
+  for (const metas of Object.values(state)) {
+    for (const meta of metas) {
+      if (meta.role === 'captain' && meta.captainId) {
+        presence.captains[meta.captainId] = best(presence.captains[meta.captainId], meta.status)
+      } else if (meta.role === 'manager') {
+        presence.manager = best(presence.manager, meta.status)
+      } else if (meta.role === 'spectator') {
+        presence.spectatorCount++
+      }
+    }
+  }
+
+  return presence
+}
+
+export function formatPresenceStatus(status: PresenceStatus | undefined): string {
+  switch (status) {
+    case 'online':
+      return 'Online'
+    case 'idle':
+      return 'Idle'
+    case 'hidden':
+      return 'Tab hidden'
+    default:
+      return 'Offline'
+  }
+}
@@ -0,0 +1,27 @@
+import type { LeagueApiKey } from './types'
+
+/** Longest API key name (league_api_keys.name, migration 048). */
+export const MAX_API_KEY_NAME_LENGTH = 50
+
+/** The public-api endpoint for the league an API key belongs to. */
+export function getPublicApiUrl(supabaseUrl: string): string {
+  return `${supabaseUrl.replace(/\/+$/, '')}/functions/v1/public-api/v1/league`
+}
+
+/** Why an API key name can't be saved, or null when it can. */
+export function validateApiKeyName(value: string): string | null {
+  const name = value.trim()
+  if (!name) return 'Give the key a name, e.g. League website'
+  if (name.length > MAX_API_KEY_NAME_LENGTH) {
+    return `Key names can be at most ${MAX_API_KEY_NAME_LENGTH} characters`
+  }
+  return null
+}
+
+/** Active keys first, then revoked; newest first within each. */
+export function sortApiKeys(keys: LeagueApiKey[]): LeagueApiKey[] {
+  return [...keys].sort((a, b) => {
+    if (!a.revoked_at !== !b.revoked_at) return a.revoked_at ? 1 : -1
+    return b.created_at.localeCompare(a.created_at)
+  })
+}
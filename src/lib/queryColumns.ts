@@ -3,10 +3,10 @@
 // because they are revoked from anon/authenticated roles via column-level grants.
 
 export const LEAGUE_COLUMNS =
-  'id, manager_id, name, draft_type, time_limit_seconds, status, current_pick_index, current_pick_started_at, scheduled_start_at, allow_player_custom_fields, created_at, updated_at'
+  'id, manager_id, name, draft_type, time_limit_seconds, timer_mode, time_bank_seconds, time_bank_increment_seconds, timeouts_per_captain, timeout_seconds, current_pick_extension_seconds, auction_budget, pick_order_matrix, roster_slot_schema_id, roster_slots, auto_pick_strategy, disconnect_auto_pick_seconds, consecutive_timeout_limit, consecutive_timeout_action, consecutive_timeout_notify, require_ready_check, auto_start_when_ready, status, current_pick_index, current_pick_started_at, scheduled_start_at, allow_player_custom_fields, created_at, updated_at'
 
 export const CAPTAIN_COLUMNS =
-  'id, league_id, name, is_participant, draft_position, player_id, auto_pick_enabled, consecutive_timeout_picks, team_color, team_name, team_photo_url, created_at'
+  'id, league_id, name, is_participant, is_ready, draft_position, player_id, auto_pick_enabled, consecutive_timeout_picks, time_bank_remaining_seconds, timeouts_used, auto_pick_strategy, team_color, team_name, team_photo_url, created_at'
 
 export const PLAYER_COLUMNS =
-  'id, league_id, name, drafted_by_captain_id, draft_pick_number, bio, profile_picture_url, created_at'
+  'id, league_id, name, drafted_by_captain_id, draft_pick_number, keeper_captain_id, keeper_round, board_rank, bio, profile_picture_url, created_at'
@@ -0,0 +1,73 @@
+import type { PlayerCustomField } from './types'
+
+/** Maximum players per position, keyed by dropdown option. */
+export type RosterSlots = Record<string, number>
+
+export interface RosterSlotStatus {
+  position: string
+  filled: number
+  limit: number
+}
+
+/**
+ * Map each player to their value for the roster slot field.
+ * Players with no value are left out.
+ */
+export function getPlayerPositions(
+  customFieldsMap: Record<string, PlayerCustomField[]>,
+  schemaId: string
+): Map<string, string> {
+  const positions = new Map<string, string>()
+  for (const [playerId, fields] of Object.entries(customFieldsMap)) {
+    const value = fields.find((f) => f.schema_id === schemaId)?.field_value
+    if (value) positions.set(playerId, value)
+  }
+  return positions
+}
+
+/**
+ * Count how many of a team's players are at each position.
+ * NOTE: Keep in sync with getPositionCounts() in supabase/functions/_shared/rosterSlots.ts.
+ */
+export function getPositionCounts(
+  rosterPlayerIds: string[],
+  positions: Map<string, string>
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const playerId of rosterPlayerIds) {
+    const position = positions.get(playerId)
+    if (position) counts.set(position, (counts.get(position) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Whether a team can draft a player without going over its slots for the
+ * player's position. Unlisted positions and players without one always fit.
+ * NOTE: Keep in sync with fitsRosterSlots() in supabase/functions/_shared/rosterSlots.ts.
+ */
+export function fitsRosterSlots(
+  slots: RosterSlots | null,
+  positions: Map<string, string>,
+  rosterPlayerIds: string[],
+  playerId: string
+): boolean {
+  if (!slots) return true
+  const position = positions.get(playerId)
+  if (!position || slots[position] === undefined) return true
+  return (getPositionCounts(rosterPlayerIds, positions).get(position) ?? 0) < slots[position]
+}
+
+/**
+ * Filled and total slots for each limited position, in the order the slots were set up.
+ */
+export function getRosterSlotStatus(
+  slots: RosterSlots,
+  positionCounts: Map<string, number>
+): RosterSlotStatus[] {
+  return Object.entries(slots).map(([position, limit]) => ({
+    position,
+    filled: positionCounts.get(position) ?? 0,
+    limit,
+  }))
+}
@@ -0,0 +1,41 @@
+import type { ConsecutiveTimeoutAction, LeaguePublic } from './types'
+
+type TimeoutPolicy = Pick<LeaguePublic, 'consecutive_timeout_limit' | 'consecutive_timeout_action'>
+
+export const CONSECUTIVE_TIMEOUT_ACTIONS: { value: ConsecutiveTimeoutAction; label: string }[] = [
+  { value: 'auto_pick', label: 'Turn on their auto-pick' },
+  { value: 'skip', label: 'Skip their turn' },
+  { value: 'pause', label: 'Pause the draft' },
+]
+
+/**
+ * Whether a captain who has let their timer run out `timeouts` times in a row
+ * has reached the league's limit. Never, when the limit is off.
+ */
+export function hasReachedTimeoutLimit(league: TimeoutPolicy, timeouts: number): boolean {
+  return league.consecutive_timeout_limit !== null && timeouts >= league.consecutive_timeout_limit
+}
+
+/**
+ * What to tell a captain whose consecutive timeouts went from `previous` to
+ * `timeouts`, or null when the league's policy wasn't applied to them.
+ * The policy itself runs on the server (apply_timeout_policy() and
+ * record_pick() in migration 042).
+ */
+export function getTimeoutPolicyNotice(
+  league: TimeoutPolicy,
+  previous: number,
+  timeouts: number
+): string | null {
+  if (timeouts <= previous || !hasReachedTimeoutLimit(league, timeouts)) return null
+
+  const missed = `You've missed ${timeouts} ${timeouts === 1 ? 'pick' : 'picks'} in a row`
+  switch (league.consecutive_timeout_action) {
+    case 'auto_pick':
+      return `${missed}, so auto-pick is now on. Turn it off when you're back.`
+    case 'skip':
+      return `${missed}, so your turn was skipped. Make a pick to stop your turns being skipped.`
+    case 'pause':
+      return `${missed}, so the draft is paused until the manager resumes it.`
+  }
+}
@@ -0,0 +1,51 @@
+import { getCurrentRound } from './draft'
+import type { LeagueStatus, TradeItem } from './types'
+
+/**
+ * Lowest pick number that can still be traded. Before the draft every pick is
+ * tradable; once it starts, the pick on the clock is locked.
+ * NOTE: Keep in sync with getFirstTradablePickNumber() in supabase/functions/manage-trade/index.ts.
+ */
+export function getFirstTradablePickNumber(status: LeagueStatus, currentPickIndex: number): number {
+  return status === 'not_started' ? currentPickIndex + 1 : currentPickIndex + 2
+}
+
+/**
+ * Pick numbers (1-based) a captain owns that can still be traded
+ * @param pickOrder - Captain IDs in pick order, with traded picks applied (see getPickOrder)
+ * @param filledPickNumbers - Picks that already have a player (e.g. keeper picks)
+ */
+export function getTradablePicks(
+  pickOrder: string[],
+  captainId: string,
+  firstTradablePick: number,
+  filledPickNumbers: ReadonlySet<number> = new Set()
+): number[] {
+  const picks: number[] = []
+  for (let pickNumber = firstTradablePick; pickNumber <= pickOrder.length; pickNumber++) {
+    if (pickOrder[pickNumber - 1] === captainId && !filledPickNumbers.has(pickNumber)) {
+      picks.push(pickNumber)
+    }
+  }
+  return picks
+}
+
+/**
+ * Label a pick for display, e.g. "Pick 7 (Round 3)"
+ */
+export function formatPickLabel(pickNumber: number, captainCount: number): string {
+  return `Pick ${pickNumber} (Round ${getCurrentRound(pickNumber - 1, captainCount)})`
+}
+
+/**
+ * Split a trade's items into what each side gives up
+ */
+export function splitTradeItems(
+  items: TradeItem[],
+  proposerCaptainId: string
+): { fromProposer: TradeItem[]; fromRecipient: TradeItem[] } {
+  return {
+    fromProposer: items.filter((i) => i.from_captain_id === proposerCaptainId),
+    fromRecipient: items.filter((i) => i.from_captain_id !== proposerCaptainId),
+  }
+}
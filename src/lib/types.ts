@@ -1,5 +1,41 @@
 export type LeagueStatus = 'not_started' | 'in_progress' | 'paused' | 'completed'
-export type DraftType = 'snake' | 'round_robin'
+export type DraftType = 'snake' | 'round_robin' | 'third_round_reversal' | 'custom' | 'auction'
+export type TimerMode = 'per_pick' | 'time_bank'
+export type AuctionNominationStatus = 'open' | 'sold'
+export type TradeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'vetoed'
+export type DraftEventType =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'complete'
+  | 'restart'
+  | 'pick'
+  | 'auto_pick'
+  | 'keeper'
+  | 'undo'
+  | 'correct'
+  | 'settings'
+  | 'skip'
+/** What happens when a captain reaches the league's consecutive-timeout limit. */
+export type ConsecutiveTimeoutAction = 'auto_pick' | 'skip' | 'pause'
+export type AuditActorType = 'manager' | 'captain' | 'player' | 'system'
+export type WebhookEvent =
+  | 'pick_made'
+  | 'auto_pick_made'
+  | 'draft_started'
+  | 'draft_paused'
+  | 'draft_resumed'
+  | 'draft_completed'
+  | 'draft_restarted'
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+/** How a webhook's deliveries are shaped: the event JSON or a chat message. */
+export type WebhookFormat = 'raw' | 'slack' | 'discord'
+
+/** How auto-pick chooses a player once the captain's queue is empty. */
+export type AutoPickStrategy =
+  | { type: 'random' }
+  | { type: 'best_field'; fieldId: string; order: 'highest' | 'lowest' }
+  | { type: 'balance'; fieldIds: string[] }
 
 export interface Database {
   public: {
@@ -12,6 +48,23 @@ export interface Database {
           spectator_token: string
           draft_type: DraftType
           time_limit_seconds: number
+          timer_mode: TimerMode
+          time_bank_seconds: number
+          time_bank_increment_seconds: number
+          timeouts_per_captain: number
+          timeout_seconds: number
+          current_pick_extension_seconds: number
+          auction_budget: number
+          pick_order_matrix: string[][] | null
+          roster_slot_schema_id: string | null
+          roster_slots: Record<string, number> | null
+          auto_pick_strategy: AutoPickStrategy | null
+          disconnect_auto_pick_seconds: number | null
+          consecutive_timeout_limit: number | null
+          consecutive_timeout_action: ConsecutiveTimeoutAction
+          consecutive_timeout_notify: boolean
+          require_ready_check: boolean
+          auto_start_when_ready: boolean
           status: LeagueStatus
           current_pick_index: number
           current_pick_started_at: string | null
@@ -27,6 +80,23 @@ export interface Database {
           spectator_token?: string
           draft_type?: DraftType
           time_limit_seconds?: number
+          timer_mode?: TimerMode
+          time_bank_seconds?: number
+          time_bank_increment_seconds?: number
+          timeouts_per_captain?: number
+          timeout_seconds?: number
+          current_pick_extension_seconds?: number
+          auction_budget?: number
+          pick_order_matrix?: string[][] | null
+          roster_slot_schema_id?: string | null
+          roster_slots?: Record<string, number> | null
+          auto_pick_strategy?: AutoPickStrategy | null
+          disconnect_auto_pick_seconds?: number | null
+          consecutive_timeout_limit?: number | null
+          consecutive_timeout_action?: ConsecutiveTimeoutAction
+          consecutive_timeout_notify?: boolean
+          require_ready_check?: boolean
+          auto_start_when_ready?: boolean
           status?: LeagueStatus
           current_pick_index?: number
           current_pick_started_at?: string | null
@@ -42,6 +112,23 @@ export interface Database {
           spectator_token?: string
           draft_type?: DraftType
           time_limit_seconds?: number
+          timer_mode?: TimerMode
+          time_bank_seconds?: number
+          time_bank_increment_seconds?: number
+          timeouts_per_captain?: number
+          timeout_seconds?: number
+          current_pick_extension_seconds?: number
+          auction_budget?: number
+          pick_order_matrix?: string[][] | null
+          roster_slot_schema_id?: string | null
+          roster_slots?: Record<string, number> | null
+          auto_pick_strategy?: AutoPickStrategy | null
+          disconnect_auto_pick_seconds?: number | null
+          consecutive_timeout_limit?: number | null
+          consecutive_timeout_action?: ConsecutiveTimeoutAction
+          consecutive_timeout_notify?: boolean
+          require_ready_check?: boolean
+          auto_start_when_ready?: boolean
           status?: LeagueStatus
           current_pick_index?: number
           current_pick_started_at?: string | null
@@ -57,11 +144,15 @@ export interface Database {
           league_id: string
           name: string
           is_participant: boolean
+          is_ready: boolean
           access_token: string
           draft_position: number
           player_id: string | null
           auto_pick_enabled: boolean
           consecutive_timeout_picks: number
+          time_bank_remaining_seconds: number | null
+          timeouts_used: number
+          auto_pick_strategy: AutoPickStrategy | null
           team_color: string | null
           team_name: string | null
           team_photo_url: string | null
@@ -72,11 +163,15 @@ export interface Database {
           league_id: string
           name: string
           is_participant?: boolean
+          is_ready?: boolean
           access_token?: string
           draft_position: number
           player_id?: string | null
           auto_pick_enabled?: boolean
           consecutive_timeout_picks?: number
+          time_bank_remaining_seconds?: number | null
+          timeouts_used?: number
+          auto_pick_strategy?: AutoPickStrategy | null
           team_color?: string | null
           team_name?: string | null
           team_photo_url?: string | null
@@ -87,11 +182,15 @@ export interface Database {
           league_id?: string
           name?: string
           is_participant?: boolean
+          is_ready?: boolean
           access_token?: string
           draft_position?: number
           player_id?: string | null
           auto_pick_enabled?: boolean
           consecutive_timeout_picks?: number
+          time_bank_remaining_seconds?: number | null
+          timeouts_used?: number
+          auto_pick_strategy?: AutoPickStrategy | null
           team_color?: string | null
           team_name?: string | null
           team_photo_url?: string | null
@@ -105,6 +204,9 @@ export interface Database {
           name: string
           drafted_by_captain_id: string | null
           draft_pick_number: number | null
+          keeper_captain_id: string | null
+          keeper_round: number | null
+          board_rank: number | null
           bio: string | null
           profile_picture_url: string | null
           edit_token: string
@@ -116,6 +218,9 @@ export interface Database {
           name: string
           drafted_by_captain_id?: string | null
           draft_pick_number?: number | null
+          keeper_captain_id?: string | null
+          keeper_round?: number | null
+          board_rank?: number | null
           bio?: string | null
           profile_picture_url?: string | null
           edit_token?: string
@@ -127,6 +232,9 @@ export interface Database {
           name?: string
           drafted_by_captain_id?: string | null
           draft_pick_number?: number | null
+          keeper_captain_id?: string | null
+          keeper_round?: number | null
+          board_rank?: number | null
           bio?: string | null
           profile_picture_url?: string | null
           edit_token?: string
@@ -170,6 +278,9 @@ export interface Database {
           player_id: string
           pick_number: number
           is_auto_pick: boolean
+          is_keeper: boolean
+          price: number | null
+          original_player_id: string | null
           picked_at: string
         }
         Insert: {
@@ -179,6 +290,9 @@ export interface Database {
           player_id: string
           pick_number: number
           is_auto_pick?: boolean
+          is_keeper?: boolean
+          price?: number | null
+          original_player_id?: string | null
           picked_at?: string
         }
         Update: {
@@ -188,9 +302,73 @@ export interface Database {
           player_id?: string
           pick_number?: number
           is_auto_pick?: boolean
+          is_keeper?: boolean
+          price?: number | null
+          original_player_id?: string | null
           picked_at?: string
         }
       }
+      auction_nominations: {
+        Row: {
+          id: string
+          league_id: string
+          player_id: string
+          nominated_by_captain_id: string
+          current_bid: number
+          current_bidder_id: string
+          status: AuctionNominationStatus
+          pick_number: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          league_id: string
+          player_id: string
+          nominated_by_captain_id: string
+          current_bid: number
+          current_bidder_id: string
+          status?: AuctionNominationStatus
+          pick_number?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          league_id?: string
+          player_id?: string
+          nominated_by_captain_id?: string
+          current_bid?: number
+          current_bidder_id?: string
+          status?: AuctionNominationStatus
+          pick_number?: number | null
+          created_at?: string
+        }
+      }
+      auction_bids: {
+        Row: {
+          id: string
+          nomination_id: string
+          league_id: string
+          captain_id: string
+          amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          nomination_id: string
+          league_id: string
+          captain_id: string
+          amount: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          nomination_id?: string
+          league_id?: string
+          captain_id?: string
+          amount?: number
+          created_at?: string
+        }
+      }
       captain_draft_queues: {
         Row: {
           id: string
@@ -214,6 +392,280 @@ export interface Database {
           created_at?: string
         }
       }
+      trades: {
+        Row: {
+          id: string
+          league_id: string
+          proposer_captain_id: string
+          recipient_captain_id: string
+          status: TradeStatus
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          league_id: string
+          proposer_captain_id: string
+          recipient_captain_id: string
+          status?: TradeStatus
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          league_id?: string
+          proposer_captain_id?: string
+          recipient_captain_id?: string
+          status?: TradeStatus
+          created_at?: string
+          resolved_at?: string | null
+        }
+      }
+      trade_items: {
+        Row: {
+          id: string
+          trade_id: string
+          from_captain_id: string
+          pick_number: number | null
+          player_id: string | null
+        }
+        Insert: {
+          id?: string
+          trade_id: string
+          from_captain_id: string
+          pick_number?: number | null
+          player_id?: string | null
+        }
+        Update: {
+          id?: string
+          trade_id?: string
+          from_captain_id?: string
+          pick_number?: number | null
+          player_id?: string | null
+        }
+      }
+      pick_ownership: {
+        Row: {
+          league_id: string
+          pick_number: number
+          captain_id: string
+          trade_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          league_id: string
+          pick_number: number
+          captain_id: string
+          trade_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          league_id?: string
+          pick_number?: number
+          captain_id?: string
+          trade_id?: string | null
+          updated_at?: string
+        }
+      }
+      draft_events: {
+        Row: {
+          seq: number
+          league_id: string
+          event_type: DraftEventType
+          pick_number: number | null
+          captain_id: string | null
+          player_id: string | null
+          data: Record<string, unknown>
+          created_at: string
+        }
+        Insert: {
+          seq?: number
+          league_id: string
+          event_type: DraftEventType
+          pick_number?: number | null
+          captain_id?: string | null
+          player_id?: string | null
+          data?: Record<string, unknown>
+          created_at?: string
+        }
+        Update: {
+          seq?: number
+          league_id?: string
+          event_type?: DraftEventType
+          pick_number?: number | null
+          captain_id?: string | null
+          player_id?: string | null
+          data?: Record<string, unknown>
+          created_at?: string
+        }
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          action: string
+          league_id: string | null
+          actor_type: AuditActorType
+          actor_id: string | null
+          metadata: Record<string, unknown>
+          ip_address: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          action: string
+          league_id?: string | null
+          actor_type: AuditActorType
+          actor_id?: string | null
+          metadata?: Record<string, unknown>
+          ip_address?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          action?: string
+          league_id?: string | null
+          actor_type?: AuditActorType
+          actor_id?: string | null
+          metadata?: Record<string, unknown>
+          ip_address?: string | null
+          created_at?: string
+        }
+      }
+      league_webhooks: {
+        Row: {
+          id: string
+          league_id: string
+          url: string
+          events: WebhookEvent[]
+          secret: string
+          enabled: boolean
+          format: WebhookFormat
+          include_custom_fields: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          league_id: string
+          url: string
+          events: WebhookEvent[]
+          secret?: string
+          enabled?: boolean
+          format?: WebhookFormat
+          include_custom_fields?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          league_id?: string
+          url?: string
+          events?: WebhookEvent[]
+          secret?: string
+          enabled?: boolean
+          format?: WebhookFormat
+          include_custom_fields?: boolean
+          created_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          webhook_id: string
+          league_id: string
+          event: WebhookEvent
+          payload: Record<string, unknown>
+          status: WebhookDeliveryStatus
+          attempts: number
+          next_attempt_at: string
+          created_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          webhook_id: string
+          league_id: string
+          event: WebhookEvent
+          payload: Record<string, unknown>
+          status?: WebhookDeliveryStatus
+          attempts?: number
+          next_attempt_at?: string
+          created_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          webhook_id?: string
+          league_id?: string
+          event?: WebhookEvent
+          payload?: Record<string, unknown>
+          status?: WebhookDeliveryStatus
+          attempts?: number
+          next_attempt_at?: string
+          created_at?: string
+          completed_at?: string | null
+        }
+      }
+      webhook_delivery_attempts: {
+        Row: {
+          id: string
+          delivery_id: string
+          league_id: string
+          attempt: number
+          status_code: number | null
+          error: string | null
+          duration_ms: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          delivery_id: string
+          league_id: string
+          attempt: number
+          status_code?: number | null
+          error?: string | null
+          duration_ms: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          delivery_id?: string
+          league_id?: string
+          attempt?: number
+          status_code?: number | null
+          error?: string | null
+          duration_ms?: number
+          created_at?: string
+        }
+      }
+      league_api_keys: {
+        // key_hash is left out: clients can't read it (migration 048)
+        Row: {
+          id: string
+          league_id: string
+          name: string
+          key_prefix: string
+          created_at: string
+          last_used_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          league_id: string
+          name: string
+          key_prefix: string
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          league_id?: string
+          name?: string
+          key_prefix?: string
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+      }
       league_field_schemas: {
         Row: {
           id: string
@@ -258,6 +710,18 @@ export type DraftPick = Database['public']['Tables']['draft_picks']['Row']
 export type PlayerCustomField = Database['public']['Tables']['player_custom_fields']['Row']
 export type CaptainDraftQueue = Database['public']['Tables']['captain_draft_queues']['Row']
 export type LeagueFieldSchema = Database['public']['Tables']['league_field_schemas']['Row']
+export type AuctionNomination = Database['public']['Tables']['auction_nominations']['Row']
+export type AuctionBid = Database['public']['Tables']['auction_bids']['Row']
+export type Trade = Database['public']['Tables']['trades']['Row']
+export type TradeItem = Database['public']['Tables']['trade_items']['Row']
+export type PickOwnership = Database['public']['Tables']['pick_ownership']['Row']
+export type DraftEvent = Database['public']['Tables']['draft_events']['Row']
+export type AuditLog = Database['public']['Tables']['audit_logs']['Row']
+export type LeagueWebhook = Database['public']['Tables']['league_webhooks']['Row']
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
+export type WebhookDeliveryAttempt =
+  Database['public']['Tables']['webhook_delivery_attempts']['Row']
+export type LeagueApiKey = Database['public']['Tables']['league_api_keys']['Row']
 
 // Public types without sensitive token columns (used by frontend queries)
 export type CaptainPublic = Omit<Captain, 'access_token'>
@@ -273,6 +737,15 @@ export interface LeagueFullPublic extends LeaguePublic {
   captains: CaptainPublic[]
   players: PlayerPublic[]
   draft_picks: DraftPick[]
+  pick_ownership: Pick<PickOwnership, 'pick_number' | 'captain_id' | 'trade_id'>[]
+}
+
+export interface TradeWithItems extends Trade {
+  trade_items: TradeItem[]
+}
+
+export interface WebhookDeliveryWithAttempts extends WebhookDelivery {
+  webhook_delivery_attempts: WebhookDeliveryAttempt[]
 }
 
 export interface PlayerPublicWithCustomFields extends PlayerPublic {
@@ -0,0 +1,36 @@
+/** Public half of the VAPID key pair the send-push edge function signs with. */
+export const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY
+
+export const PUSH_SERVICE_WORKER_URL = '/sw.js'
+
+/** Whether this browser can receive pushes and the app has a key to subscribe with. */
+export function isWebPushSupported(): boolean {
+  return (
+    !!VAPID_PUBLIC_KEY &&
+    typeof navigator !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    typeof window !== 'undefined' &&
+    'PushManager' in window &&
+    typeof Notification !== 'undefined'
+  )
+}
+
+/** The URL-safe base64 VAPID key as the bytes PushManager.subscribe() expects. */
+export function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+  const raw = atob(padded)
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length))
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * localStorage key remembering that this browser is subscribed for a captain.
+ * A browser has one push subscription shared by every captain it has opted in,
+ * so the subscription alone doesn't say which captains want pushes.
+ */
+export function getPushOptInKey(captainId: string): string {
+  return `push-opt-in-${captainId}`
+}
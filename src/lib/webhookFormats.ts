@@ -0,0 +1,196 @@
+/**
+ * Chat formats for webhook deliveries, used for the preview in WebhooksCard.
+ * NOTE: Keep in sync with supabase/functions/_shared/webhookFormats.ts, which
+ * formats what deliver-webhooks actually sends.
+ */
+
+import type { LeagueFullPublic, PlayerCustomField, WebhookEvent, WebhookFormat } from './types'
+
+/** The queued event (webhook_deliveries.payload, migration 047) plus the delivery id. */
+export interface WebhookEventPayload {
+  id?: string
+  event: WebhookEvent
+  occurredAt: string
+  league: { id: string; name: string }
+  pickNumber: number | null
+  captain: {
+    id: string
+    name: string
+    teamName: string | null
+    teamColor: string | null
+    teamPhotoUrl: string | null
+  } | null
+  player: {
+    id: string
+    name: string
+    photoUrl: string | null
+    customFields: { name: string; value: string | null }[]
+  } | null
+}
+
+export interface WebhookFormatOptions {
+  includeCustomFields: boolean
+}
+
+export const WEBHOOK_FORMATS: { value: WebhookFormat; label: string }[] = [
+  { value: 'raw', label: 'Raw event JSON' },
+  { value: 'slack', label: 'Slack (incoming webhook)' },
+  { value: 'discord', label: 'Discord (channel webhook)' },
+]
+
+/** Discord's limit on fields per embed. */
+const MAX_DISCORD_FIELDS = 25
+
+function getTeamColor(payload: WebhookEventPayload): string | null {
+  const color = payload.captain?.teamColor
+  return color && /^#[0-9a-f]{6}$/i.test(color) ? color : null
+}
+
+function getCustomFields(payload: WebhookEventPayload, options: WebhookFormatOptions) {
+  if (!options.includeCustomFields || !payload.player) return []
+  return payload.player.customFields.filter((f) => f.value !== null && f.value !== '')
+}
+
+/** One sentence about the event, with names wrapped by `bold` (markup differs per platform). */
+export function describeWebhookEvent(
+  payload: WebhookEventPayload,
+  bold: (text: string) => string = (text) => text
+): string {
+  const team = payload.captain ? bold(payload.captain.teamName || payload.captain.name) : 'A team'
+  const player = payload.player ? bold(payload.player.name) : 'a player'
+  const pick = payload.pickNumber !== null ? ` with pick ${payload.pickNumber}` : ''
+
+  switch (payload.event) {
+    case 'pick_made':
+      return `${team} drafted ${player}${pick}`
+    case 'auto_pick_made':
+      return `${team} auto-drafted ${player}${pick}`
+    case 'draft_started':
+      return 'The draft has started'
+    case 'draft_paused':
+      return 'The draft is paused'
+    case 'draft_resumed':
+      return 'The draft has resumed'
+    case 'draft_completed':
+      return 'The draft is complete'
+    case 'draft_restarted':
+      return 'The draft was restarted'
+  }
+}
+
+function formatSlack(payload: WebhookEventPayload, options: WebhookFormatOptions) {
+  const text = describeWebhookEvent(payload, (t) => `*${t}*`)
+  const fields = getCustomFields(payload, options)
+  const photoUrl = payload.player?.photoUrl
+  const color = getTeamColor(payload)
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text },
+      ...(photoUrl && {
+        accessory: { type: 'image', image_url: photoUrl, alt_text: payload.player!.name },
+      }),
+    },
+  ]
+  if (fields.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: fields.map((f) => `${f.name}: ${f.value}`).join(' · ') }],
+    })
+  }
+
+  // `text` is the notification fallback; the attachment carries the team color
+  return {
+    text: `${payload.league.name}: ${describeWebhookEvent(payload)}`,
+    attachments: [{ ...(color && { color }), blocks }],
+  }
+}
+
+function formatDiscord(payload: WebhookEventPayload, options: WebhookFormatOptions) {
+  const fields = getCustomFields(payload, options).slice(0, MAX_DISCORD_FIELDS)
+  const color = getTeamColor(payload)
+  const captain = payload.captain
+
+  return {
+    embeds: [
+      {
+        title: payload.league.name,
+        description: describeWebhookEvent(payload, (t) => `**${t}**`),
+        timestamp: payload.occurredAt,
+        ...(color && { color: parseInt(color.slice(1), 16) }),
+        ...(captain && {
+          author: {
+            name: captain.teamName || captain.name,
+            ...(captain.teamPhotoUrl && { icon_url: captain.teamPhotoUrl }),
+          },
+        }),
+        ...(payload.player?.photoUrl && { thumbnail: { url: payload.player.photoUrl } }),
+        ...(fields.length > 0 && {
+          fields: fields.map((f) => ({ name: f.name, value: f.value, inline: true })),
+        }),
+      },
+    ],
+  }
+}
+
+/** The request body for a delivery in the webhook's format. */
+export function formatWebhookBody(
+  format: WebhookFormat,
+  payload: WebhookEventPayload,
+  options: WebhookFormatOptions
+): Record<string, unknown> {
+  switch (format) {
+    case 'slack':
+      return formatSlack(payload, options)
+    case 'discord':
+      return formatDiscord(payload, options)
+    case 'raw': {
+      if (!payload.player || options.includeCustomFields) return { ...payload }
+      const { customFields: _customFields, ...player } = payload.player
+      return { ...payload, player }
+    }
+  }
+}
+
+/**
+ * A pick by the league's first captain of its first undrafted player, to
+ * preview a format with the league's own names, colors and photos.
+ */
+export function getWebhookPreviewPayload(
+  league: Pick<LeagueFullPublic, 'id' | 'name' | 'captains' | 'players'>,
+  customFieldsMap: Record<string, PlayerCustomField[]> = {}
+): WebhookEventPayload {
+  const captain = [...league.captains].sort((a, b) => a.draft_position - b.draft_position)[0]
+  const captainPlayerIds = new Set(league.captains.map((c) => c.player_id))
+  const player =
+    league.players.find((p) => !p.drafted_by_captain_id && !captainPlayerIds.has(p.id)) ??
+    league.players[0]
+
+  return {
+    event: 'pick_made',
+    occurredAt: new Date().toISOString(),
+    league: { id: league.id, name: league.name },
+    pickNumber: 1,
+    captain: captain
+      ? {
+          id: captain.id,
+          name: captain.name,
+          teamName: captain.team_name,
+          teamColor: captain.team_color,
+          teamPhotoUrl: captain.team_photo_url,
+        }
+      : null,
+    player: player
+      ? {
+          id: player.id,
+          name: player.name,
+          photoUrl: player.profile_picture_url,
+          customFields: (customFieldsMap[player.id] ?? []).map((f) => ({
+            name: f.field_name,
+            value: f.field_value,
+          })),
+        }
+      : null,
+  }
+}
@@ -0,0 +1,48 @@
+import type { WebhookDeliveryAttempt, WebhookDeliveryWithAttempts, WebhookEvent } from './types'
+
+/** Events a league webhook can subscribe to (league_webhooks.events, migration 046). */
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'pick_made', label: 'Pick made' },
+  { value: 'auto_pick_made', label: 'Auto-pick made' },
+  { value: 'draft_started', label: 'Draft started' },
+  { value: 'draft_paused', label: 'Draft paused' },
+  { value: 'draft_resumed', label: 'Draft resumed' },
+  { value: 'draft_completed', label: 'Draft completed' },
+  { value: 'draft_restarted', label: 'Draft restarted' },
+]
+
+/** Recent deliveries shown per webhook. */
+export const WEBHOOK_DELIVERY_LIMIT = 20
+
+/**
+ * Why a webhook URL can't be saved, or null when it can. deliver-webhooks
+ * also refuses private addresses (isPrivateWebhookHost()); this only catches
+ * the obvious ones before saving.
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return 'Enter a full URL, e.g. https://example.com/hooks/draft'
+  }
+  if (url.protocol !== 'https:') return 'Webhook URLs must use https://'
+  if (url.hostname === 'localhost' || url.hostname.endsWith('.localhost')) {
+    return 'Webhook URLs must be reachable from the internet'
+  }
+  if (url.username || url.password) return "Webhook URLs can't include a username or password"
+  return null
+}
+
+/** One line about the latest attempt: status code or error, e.g. "HTTP 500 · 3 attempts". */
+export function describeWebhookDelivery(delivery: WebhookDeliveryWithAttempts): string {
+  const latest = delivery.webhook_delivery_attempts.reduce<WebhookDeliveryAttempt | null>(
+    (best, a) => (best === null || a.attempt > best.attempt ? a : best),
+    null
+  )
+  const attempts = `${delivery.attempts} ${delivery.attempts === 1 ? 'attempt' : 'attempts'}`
+
+  if (!latest) return delivery.status === 'pending' ? 'Queued' : attempts
+  const outcome = latest.error ?? `HTTP ${latest.status_code}`
+  return `${outcome} · ${attempts}`
+}
@@ -1,15 +1,19 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
-import { Settings } from 'lucide-react'
+import { FlaskConical, Settings } from 'lucide-react'
 import { Header } from '@/components/layout/Header'
 import { DraftBoard } from '@/components/draft/DraftBoard'
+import { MockDraft } from '@/components/draft/MockDraft'
 import { Button } from '@/components/ui/Button'
 import { SpectatorLinkButton } from '@/components/draft/SpectatorLinkButton'
 import { TeamSettingsModal } from '@/components/captain/TeamSettingsModal'
+import { ReadyCheckCard } from '@/components/captain/ReadyCheckCard'
+import { PushNotificationsButton } from '@/components/captain/PushNotificationsButton'
 import { useDraft, useCaptainByToken } from '@/hooks/useDraft'
 import { useLeagueCustomFields } from '@/hooks/useCustomFields'
 import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
 import { useSecureToken } from '@/hooks/useSecureToken'
+import { useCaptainHeartbeat } from '@/hooks/useCaptainHeartbeat'
 import { Breadcrumb } from '@/components/ui/Breadcrumb'
 
 export function CaptainView() {
@@ -17,10 +21,12 @@ export function CaptainView() {
   const token = useSecureToken('captain', id)
   const navigate = useNavigate()
 
+  const { data: captain, isLoading: captainLoading } = useCaptainByToken(id, token)
   const {
     league,
     isLoading,
     error,
+    presence,
     dataUpdatedAt,
     currentCaptain,
     availablePlayers,
@@ -30,13 +36,24 @@ export function CaptainView() {
     resumeDraft,
     restartDraft,
     undoLastPick,
+    rewindToPick,
     makePick,
-  } = useDraft(id)
+  } = useDraft(id, { role: 'captain', captainId: captain?.id })
 
-  const { data: captain, isLoading: captainLoading } = useCaptainByToken(id, token)
   const { data: customFieldsMap } = useLeagueCustomFields(id)
   const { data: fieldSchemas = [] } = useLeagueFieldSchemas(id)
   const [showTeamSettings, setShowTeamSettings] = useState(false)
+  const [showMockDraft, setShowMockDraft] = useState(false)
+
+  // Only leagues with disconnect auto-pick read heartbeats, and only during the draft
+  useCaptainHeartbeat(
+    id,
+    token,
+    !!captain &&
+      !!league &&
+      league.disconnect_auto_pick_seconds !== null &&
+      (league.status === 'in_progress' || league.status === 'paused')
+  )
 
   // Auto-redirect to summary page when draft completes
   useEffect(() => {
@@ -87,6 +104,8 @@ export function CaptainView() {
 
   const isMyTurn = currentCaptain?.id === captain.id
   const canPick = isMyTurn && league.status === 'in_progress'
+  // Mock drafts are for rehearsing before the real draft, which ends them when it starts
+  const canMockDraft = league.status === 'not_started' && league.draft_type !== 'auction'
 
   return (
     <div className="min-h-screen bg-background">
@@ -116,6 +135,19 @@ export function CaptainView() {
               <Settings className="mr-1.5 h-4 w-4" />
               Team Settings
             </Button>
+            {canMockDraft && !showMockDraft && (
+              <Button variant="outline" size="sm" onClick={() => setShowMockDraft(true)}>
+                <FlaskConical className="mr-1.5 h-4 w-4" />
+                Mock Draft
+              </Button>
+            )}
+            {token && league.draft_type !== 'auction' && league.status !== 'completed' && (
+              <PushNotificationsButton
+                leagueId={league.id}
+                captainId={captain.id}
+                captainToken={token}
+              />
+            )}
             {captain.league_spectator_token && (
               <SpectatorLinkButton
                 leagueId={league.id}
@@ -125,25 +157,43 @@ export function CaptainView() {
           </div>
         </div>
 
-        <DraftBoard
-          league={league}
-          currentCaptain={currentCaptain}
-          availablePlayers={availablePlayers}
-          pickOrder={pickOrder}
-          dataUpdatedAt={dataUpdatedAt}
-          customFieldsMap={customFieldsMap}
-          fieldSchemas={fieldSchemas}
-          canPick={canPick}
-          isManager={false}
-          viewingAsCaptain={captain}
-          captainToken={token ?? undefined}
-          onStartDraft={startDraft}
-          onPauseDraft={pauseDraft}
-          onResumeDraft={resumeDraft}
-          onRestartDraft={restartDraft}
-          onUndoLastPick={undoLastPick}
-          onMakePick={makePick}
-        />
+        {league.status === 'not_started' && league.require_ready_check && token && (
+          <ReadyCheckCard league={league} captainId={captain.id} captainToken={token} />
+        )}
+
+        {canMockDraft && showMockDraft ? (
+          <MockDraft
+            league={league}
+            dataUpdatedAt={dataUpdatedAt}
+            customFieldsMap={customFieldsMap}
+            fieldSchemas={fieldSchemas}
+            captain={captain}
+            captainToken={token ?? undefined}
+            onExit={() => setShowMockDraft(false)}
+          />
+        ) : (
+          <DraftBoard
+            league={league}
+            presence={presence}
+            currentCaptain={currentCaptain}
+            availablePlayers={availablePlayers}
+            pickOrder={pickOrder}
+            dataUpdatedAt={dataUpdatedAt}
+            customFieldsMap={customFieldsMap}
+            fieldSchemas={fieldSchemas}
+            canPick={canPick}
+            isManager={false}
+            viewingAsCaptain={captain}
+            captainToken={token ?? undefined}
+            onStartDraft={startDraft}
+            onPauseDraft={pauseDraft}
+            onResumeDraft={resumeDraft}
+            onRestartDraft={restartDraft}
+            onUndoLastPick={undoLastPick}
+            onRewindToPick={rewindToPick}
+            onMakePick={makePick}
+          />
+        )}
 
         {showTeamSettings && (
           <TeamSettingsModal
@@ -1,8 +1,12 @@
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
+import { FlaskConical } from 'lucide-react'
 import { useParams, Navigate, useNavigate } from 'react-router-dom'
 import { Header } from '@/components/layout/Header'
 import { DraftBoard } from '@/components/draft/DraftBoard'
+import { MockDraft } from '@/components/draft/MockDraft'
+import { Button } from '@/components/ui/Button'
 import { SpectatorLinkButton } from '@/components/draft/SpectatorLinkButton'
+import { OverlayLinkButton } from '@/components/draft/OverlayLinkButton'
 import { useDraft } from '@/hooks/useDraft'
 import { useLeagueCustomFields } from '@/hooks/useCustomFields'
 import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
@@ -18,6 +22,7 @@ export function DraftView() {
     league,
     isLoading,
     error,
+    presence,
     dataUpdatedAt,
     currentCaptain,
     availablePlayers,
@@ -27,12 +32,14 @@ export function DraftView() {
     resumeDraft,
     restartDraft,
     undoLastPick,
+    rewindToPick,
     makePick,
-  } = useDraft(id)
+  } = useDraft(id, { role: 'manager' })
 
   const { data: customFieldsMap } = useLeagueCustomFields(id)
   const { data: fieldSchemas = [] } = useLeagueFieldSchemas(id)
   const { data: tokens } = useLeagueTokens(id)
+  const [showMockDraft, setShowMockDraft] = useState(false)
 
   // Auto-redirect to summary page when draft completes
   useEffect(() => {
@@ -72,6 +79,9 @@ export function DraftView() {
     return <Navigate to="/dashboard" replace />
   }
 
+  // Mock drafts are for rehearsing before the real draft, which ends them when it starts
+  const canMockDraft = league.status === 'not_started' && league.draft_type !== 'auction'
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -87,29 +97,50 @@ export function DraftView() {
           <div className="flex items-center gap-3">
             <h1 className="text-3xl font-bold">{league.name}</h1>
             {tokens?.spectator_token && (
-              <SpectatorLinkButton leagueId={league.id} spectatorToken={tokens.spectator_token} />
+              <>
+                <SpectatorLinkButton leagueId={league.id} spectatorToken={tokens.spectator_token} />
+                <OverlayLinkButton leagueId={league.id} spectatorToken={tokens.spectator_token} />
+              </>
+            )}
+            {canMockDraft && !showMockDraft && (
+              <Button variant="outline" size="sm" onClick={() => setShowMockDraft(true)}>
+                <FlaskConical className="mr-1.5 h-4 w-4" />
+                Mock Draft
+              </Button>
             )}
           </div>
           <p className="text-muted-foreground">Draft Control Panel</p>
         </div>
 
-        <DraftBoard
-          league={league}
-          currentCaptain={currentCaptain}
-          availablePlayers={availablePlayers}
-          pickOrder={pickOrder}
-          dataUpdatedAt={dataUpdatedAt}
-          customFieldsMap={customFieldsMap}
-          fieldSchemas={fieldSchemas}
-          canPick={true}
-          isManager={true}
-          onStartDraft={startDraft}
-          onPauseDraft={pauseDraft}
-          onResumeDraft={resumeDraft}
-          onRestartDraft={restartDraft}
-          onUndoLastPick={undoLastPick}
-          onMakePick={makePick}
-        />
+        {canMockDraft && showMockDraft ? (
+          <MockDraft
+            league={league}
+            dataUpdatedAt={dataUpdatedAt}
+            customFieldsMap={customFieldsMap}
+            fieldSchemas={fieldSchemas}
+            onExit={() => setShowMockDraft(false)}
+          />
+        ) : (
+          <DraftBoard
+            league={league}
+            presence={presence}
+            currentCaptain={currentCaptain}
+            availablePlayers={availablePlayers}
+            pickOrder={pickOrder}
+            dataUpdatedAt={dataUpdatedAt}
+            customFieldsMap={customFieldsMap}
+            fieldSchemas={fieldSchemas}
+            canPick={true}
+            isManager={true}
+            onStartDraft={startDraft}
+            onPauseDraft={pauseDraft}
+            onResumeDraft={resumeDraft}
+            onRestartDraft={restartDraft}
+            onUndoLastPick={undoLastPick}
+            onRewindToPick={rewindToPick}
+            onMakePick={makePick}
+          />
+        )}
       </main>
     </div>
   )
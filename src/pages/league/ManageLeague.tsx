@@ -1,19 +1,25 @@
 import { useState, Suspense } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
-import { Settings, Users, Play, Trash2, Copy } from 'lucide-react'
+import { Settings, Users, Play, Trash2, Copy, ScrollText } from 'lucide-react'
 import { Header } from '@/components/layout/Header'
 import { Button } from '@/components/ui/Button'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
 import { ManageLeagueSkeleton, Skeleton } from '@/components/ui/Skeleton'
 import { ErrorAlert } from '@/components/ui/ErrorAlert'
-import { useLeague, useDeleteLeague, useLeagueTokens } from '@/hooks/useLeagues'
+import { useDeleteLeague, useLeagueTokens } from '@/hooks/useLeagues'
+import { useDraft } from '@/hooks/useDraft'
 import { useLeagueCustomFields } from '@/hooks/useCustomFields'
 import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
 import { DraftReadinessChecklist } from '@/components/league/DraftReadinessChecklist'
 import { CopyLeagueModal } from '@/components/league/CopyLeagueModal'
 import { FieldSchemaModal } from '@/components/league/FieldSchemaModal'
 import { Breadcrumb } from '@/components/ui/Breadcrumb'
-import { getAvailablePlayers } from '@/lib/draft'
+import {
+  formatDraftType,
+  formatTimerSetting,
+  getAvailablePlayers,
+  getUnreadyCaptains,
+} from '@/lib/draft'
 import { lazyWithRetry } from '@/lib/lazyWithRetry'
 
 const RosterTab = lazyWithRetry(
@@ -24,13 +30,26 @@ const LeagueSettings = lazyWithRetry(
   () => import('@/components/league/LeagueSettings').then((m) => ({ default: m.LeagueSettings })),
   'LeagueSettings'
 )
+const RosterSlotsCard = lazyWithRetry(
+  () => import('@/components/league/RosterSlotsCard').then((m) => ({ default: m.RosterSlotsCard })),
+  'RosterSlotsCard'
+)
+const WebhooksCard = lazyWithRetry(
+  () => import('@/components/league/WebhooksCard').then((m) => ({ default: m.WebhooksCard })),
+  'WebhooksCard'
+)
+const ActivityTab = lazyWithRetry(
+  () => import('@/components/league/ActivityTab').then((m) => ({ default: m.ActivityTab })),
+  'ActivityTab'
+)
 
-type Tab = 'roster' | 'settings'
+type Tab = 'roster' | 'settings' | 'activity'
 
 export function ManageLeague() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
-  const { data: league, isLoading, error } = useLeague(id)
+  // Through useDraft so the readiness checklist can show which captains have their link open
+  const { league, isLoading, error, presence } = useDraft(id, { role: 'manager' })
   const { data: customFieldsMap } = useLeagueCustomFields(id)
   const { data: fieldSchemas = [] } = useLeagueFieldSchemas(id)
   const { data: tokens } = useLeagueTokens(id)
@@ -77,11 +96,13 @@ export function ManageLeague() {
   const canStartDraft =
     league.status === 'not_started' &&
     league.captains.length >= 2 &&
-    availablePlayers.length >= league.captains.length
+    availablePlayers.length >= league.captains.length &&
+    getUnreadyCaptains(league, league.captains).length === 0
 
   const tabs = [
     { id: 'roster' as const, label: 'Roster', icon: Users, count: league.players.length },
     { id: 'settings' as const, label: 'Settings', icon: Settings },
+    { id: 'activity' as const, label: 'Activity', icon: ScrollText },
   ]
 
   return (
@@ -97,11 +118,8 @@ export function ManageLeague() {
             <div>
               <h1 className="text-3xl font-bold">{league.name}</h1>
               <p className="mt-1 text-muted-foreground">
-                {league.draft_type === 'snake' ? 'Snake Draft' : 'Round Robin'} •{' '}
-                {league.time_limit_seconds >= 60 && league.time_limit_seconds % 60 === 0
-                  ? `${league.time_limit_seconds / 60}m`
-                  : `${league.time_limit_seconds}s`}{' '}
-                per pick
+                {league.draft_type === 'snake' ? 'Snake Draft' : formatDraftType(league.draft_type)}{' '}
+                • {formatTimerSetting(league)}
               </p>
             </div>
             <div className="flex gap-2">
@@ -125,6 +143,7 @@ export function ManageLeague() {
               league={league}
               fieldSchemas={fieldSchemas}
               customFieldsMap={customFieldsMap}
+              presence={presence}
             />
           )}
         </div>
@@ -175,6 +194,10 @@ export function ManageLeague() {
                   onOpenFieldSchemas={() => setShowFieldsModal(true)}
                   fieldSchemaCount={fieldSchemas.length}
                 />
+                {league.draft_type !== 'auction' && (
+                  <RosterSlotsCard league={league} fieldSchemas={fieldSchemas} />
+                )}
+                <WebhooksCard league={league} />
                 <Card className="mt-8">
                   <CardHeader>
                     <CardTitle>Copy League</CardTitle>
@@ -231,6 +254,7 @@ export function ManageLeague() {
                 )}
               </>
             )}
+            {activeTab === 'activity' && <ActivityTab league={league} />}
           </Suspense>
         </div>
 
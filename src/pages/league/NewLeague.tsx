@@ -10,10 +10,11 @@ import { Label } from '@/components/ui/Label'
 import { Select } from '@/components/ui/Select'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card'
 import { useCreateLeague } from '@/hooks/useLeagues'
+import type { DraftType } from '@/lib/types'
 
 const createLeagueSchema = z.object({
   name: z.string().trim().min(1, 'League name is required').max(100, 'Name is too long'),
-  draft_type: z.enum(['snake', 'round_robin']),
+  draft_type: z.enum(['snake', 'round_robin', 'third_round_reversal', 'custom', 'auction']),
   time_limit_seconds: z.coerce.number().min(15).max(1800),
 })
 
@@ -37,7 +38,7 @@ export function NewLeague() {
 
   async function onSubmit(data: {
     name: string
-    draft_type: 'snake' | 'round_robin'
+    draft_type: DraftType
     time_limit_seconds: number
   }) {
     setError(null)
@@ -92,11 +93,21 @@ export function NewLeague() {
                 <Select id="draft_type" {...register('draft_type')}>
                   <option value="snake">Snake Draft</option>
                   <option value="round_robin">Round Robin</option>
+                  <option value="third_round_reversal">Third-Round Reversal</option>
+                  <option value="custom">Custom Order</option>
+                  <option value="auction">Auction</option>
                 </Select>
                 <p className="text-sm text-muted-foreground">
                   Snake: Pick order reverses each round (1,2,3,4,4,3,2,1...)
                   <br />
                   Round Robin: Same order every round (1,2,3,4,1,2,3,4...)
+                  <br />
+                  Third-Round Reversal: Like snake, but round 3 repeats round 2
+                  (1,2,3,4,4,3,2,1,4,3,2,1,1,2,3,4...)
+                  <br />
+                  Custom Order: Set the pick order for each round by hand
+                  <br />
+                  Auction: Captains take turns nominating players and bid from a budget
                 </p>
               </div>
 
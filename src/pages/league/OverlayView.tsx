@@ -0,0 +1,48 @@
+import { useEffect, useMemo } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
+import { DraftOverlay } from '@/components/overlay/DraftOverlay'
+import { useDraft, useSpectatorAccess } from '@/hooks/useDraft'
+import { useSecureToken } from '@/hooks/useSecureToken'
+import { parseOverlayOptions } from '@/lib/overlay'
+
+/**
+ * The draft for an OBS browser source: transparent, with the layout set by
+ * query parameters (parseOverlayOptions). Uses the spectator token, and isn't
+ * shown in presence.
+ */
+export function OverlayView() {
+  const { id } = useParams<{ id: string }>()
+  const token = useSecureToken('spectator', id)
+  const [searchParams] = useSearchParams()
+  const options = useMemo(() => parseOverlayOptions(searchParams), [searchParams])
+
+  const { league, isLoading, error, currentCaptain } = useDraft(id)
+  const { data: hasAccess, isLoading: accessLoading } = useSpectatorAccess(id, token)
+
+  // The app's background would cover the stream behind the browser source
+  useEffect(() => {
+    const html = document.documentElement
+    const previous = [html.style.background, document.body.style.background]
+    html.style.background = 'transparent'
+    document.body.style.background = 'transparent'
+    return () => {
+      html.style.background = previous[0]
+      document.body.style.background = previous[1]
+    }
+  }, [])
+
+  if (isLoading || accessLoading) return null
+
+  // Shown in the OBS preview so the streamer can fix the link
+  if (error || !league || !hasAccess) {
+    return (
+      <div className="fixed left-4 top-4 rounded-md bg-black/75 px-3 py-2 text-sm text-white">
+        {!hasAccess
+          ? 'Invalid or missing spectator access token'
+          : error?.message || 'League not found'}
+      </div>
+    )
+  }
+
+  return <DraftOverlay league={league} currentCaptain={currentCaptain} options={options} />
+}
@@ -18,6 +18,7 @@ export function SpectatorView() {
     league,
     isLoading,
     error,
+    presence,
     dataUpdatedAt,
     currentCaptain,
     availablePlayers,
@@ -27,8 +28,9 @@ export function SpectatorView() {
     resumeDraft,
     restartDraft,
     undoLastPick,
+    rewindToPick,
     makePick,
-  } = useDraft(id)
+  } = useDraft(id, { role: 'spectator' })
 
   const { data: hasAccess, isLoading: accessLoading } = useSpectatorAccess(id, token)
   const { data: customFieldsMap } = useLeagueCustomFields(id)
@@ -96,6 +98,7 @@ export function SpectatorView() {
 
         <DraftBoard
           league={league}
+          presence={presence}
           currentCaptain={currentCaptain}
           availablePlayers={availablePlayers}
           pickOrder={pickOrder}
@@ -110,6 +113,7 @@ export function SpectatorView() {
           onResumeDraft={resumeDraft}
           onRestartDraft={restartDraft}
           onUndoLastPick={undoLastPick}
+          onRewindToPick={rewindToPick}
           onMakePick={makePick}
         />
       </main>
@@ -1,24 +1,49 @@
 import { Fragment, useEffect, useState } from 'react'
 import { useParams, Link } from 'react-router-dom'
-import { Trophy, Users, Zap, Clock, Share2, Check, BarChart3, Timer, Download } from 'lucide-react'
+import {
+  ArrowLeftRight,
+  Trophy,
+  Users,
+  Zap,
+  Clock,
+  Share2,
+  Check,
+  BarChart3,
+  Timer,
+  Download,
+  PencilLine,
+} from 'lucide-react'
 import { Header } from '@/components/layout/Header'
 import { Button } from '@/components/ui/Button'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card'
 import { ErrorAlert } from '@/components/ui/ErrorAlert'
 import { Confetti } from '@/components/ui/Confetti'
 import { PlayerProfileModal } from '@/components/player/PlayerProfileModal'
+import { CorrectPickModal } from '@/components/draft/CorrectPickModal'
+import { DraftReplay } from '@/components/draft/DraftReplay'
 import { useDraft, useSpectatorAccess, useCaptainByToken } from '@/hooks/useDraft'
 import { useLeagueTokens } from '@/hooks/useLeagues'
+import { useTrades } from '@/hooks/useTrades'
 import { useLeagueCustomFields } from '@/hooks/useCustomFields'
 import { useLeagueFieldSchemas } from '@/hooks/useFieldSchemas'
 import { useAnimatedNumber } from '@/hooks/useAnimatedNumber'
 import { useSecureToken } from '@/hooks/useSecureToken'
 import { useAuth } from '@/context/AuthContext'
 import { playSound, resumeAudioContext } from '@/lib/sounds'
-import { exportDraftResults } from '@/lib/exportDraftResults'
+import { describeCorrection, exportDraftResults } from '@/lib/exportDraftResults'
+import { getCaptainSpend } from '@/lib/auction'
+import { getPickOrder } from '@/lib/draft'
+import { formatPickLabel, splitTradeItems } from '@/lib/trades'
 import { getInitials } from '@/lib/utils'
 import { Breadcrumb } from '@/components/ui/Breadcrumb'
-import type { CaptainPublic, PlayerPublic, LeagueFullPublic } from '@/lib/types'
+import type {
+  CaptainPublic,
+  DraftPick,
+  PlayerPublic,
+  LeagueFullPublic,
+  TradeItem,
+  TradeWithItems,
+} from '@/lib/types'
 
 function formatPickTime(seconds: number): string {
   if (seconds >= 60) {
@@ -58,7 +83,9 @@ export function Summary() {
   const { data: captainData, isLoading: captainLoading } = useCaptainByToken(id, token)
   const { data: customFieldsMap = {} } = useLeagueCustomFields(id)
   const { data: fieldSchemas = [] } = useLeagueFieldSchemas(id)
+  const { data: trades = [] } = useTrades(id)
   const [viewingPlayer, setViewingPlayer] = useState<PlayerPublic | null>(null)
+  const [correctingPick, setCorrectingPick] = useState<DraftPick | null>(null)
 
   const isManager = league?.manager_id === user?.id
   const { data: managerTokens } = useLeagueTokens(isManager ? id : undefined)
@@ -146,13 +173,23 @@ export function Summary() {
     return {
       totalPlayers: players.length + (captain.is_participant ? 1 : 0),
       autoPicks,
+      spent: getCaptainSpend(league!.draft_picks, captain.id),
     }
   }
 
   // Calculate draft stats
+  const isAuction = league.draft_type === 'auction'
   const totalAutoPicks = league.draft_picks.filter((p) => p.is_auto_pick).length
   const totalRounds = Math.ceil(league.draft_picks.length / league.captains.length)
 
+  // Order before any trades, to show which picks were made with a traded slot
+  const originalPickOrder = isAuction
+    ? []
+    : getPickOrder(league.captains, league.draft_picks.length, league.draft_type, {
+        pickOrderMatrix: league.pick_order_matrix,
+      })
+  const acceptedTrades = trades.filter((t) => t.status === 'accepted')
+
   function getCaptainDisplayName(captainId: string): string {
     const c = league!.captains.find((c) => c.id === captainId)
     return c?.team_name || c?.name || 'Unknown'
@@ -456,6 +493,7 @@ export function Summary() {
                     <span className="text-sm font-normal text-muted-foreground">
                       {stats.totalPlayers} players
                       {stats.autoPicks > 0 && ` (${stats.autoPicks} auto)`}
+                      {isAuction && ` · $${stats.spent} of $${league.auction_budget}`}
                     </span>
                   </CardTitle>
                 </CardHeader>
@@ -493,6 +531,9 @@ export function Summary() {
                               </span>
                             )}
                             <span>{player.name}</span>
+                            {isAuction && pick?.price != null && (
+                              <span className="ml-auto text-sm font-medium">${pick.price}</span>
+                            )}
                             {pick?.is_auto_pick && (
                               <span className="ml-auto rounded bg-yellow-500/20 px-2 py-0.5 text-xs text-yellow-600 dark:text-yellow-400">
                                 Auto
@@ -514,13 +555,19 @@ export function Summary() {
           })}
         </div>
 
+        <DraftReplay league={league} />
+
         {league.draft_picks.length > 0 && (
           <PickHistory
             picks={league.draft_picks}
             captains={league.captains}
             players={league.players}
             timeLimitSeconds={league.time_limit_seconds}
+            isAuction={isAuction}
+            originalPickOrder={originalPickOrder}
+            trades={acceptedTrades}
             onPlayerClick={setViewingPlayer}
+            onCorrectPick={isManager ? setCorrectingPick : undefined}
           />
         )}
 
@@ -541,6 +588,14 @@ export function Summary() {
             onClose={() => setViewingPlayer(null)}
           />
         )}
+
+        {correctingPick && (
+          <CorrectPickModal
+            league={league}
+            pick={correctingPick}
+            onClose={() => setCorrectingPick(null)}
+          />
+        )}
       </main>
     </div>
   )
@@ -551,17 +606,76 @@ function PickHistory({
   captains,
   players,
   timeLimitSeconds,
+  isAuction,
+  originalPickOrder,
+  trades,
   onPlayerClick,
+  onCorrectPick,
 }: {
   picks: LeagueFullPublic['draft_picks']
   captains: CaptainPublic[]
   players: PlayerPublic[]
   timeLimitSeconds: number
+  isAuction: boolean
+  originalPickOrder: string[]
+  trades: TradeWithItems[]
   onPlayerClick: (player: PlayerPublic) => void
+  /** Set for managers; keeper picks can't be corrected */
+  onCorrectPick?: (pick: DraftPick) => void
 }) {
   const captainCount = captains.length
   const historyPicks = [...picks].sort((a, b) => a.pick_number - b.pick_number)
 
+  const teamName = (captainId: string) => {
+    const captain = captains.find((c) => c.id === captainId)
+    return captain?.team_name || captain?.name || 'Unknown'
+  }
+  const describeItems = (items: TradeItem[]) =>
+    items
+      .map((item) =>
+        item.pick_number !== null
+          ? formatPickLabel(item.pick_number, captainCount)
+          : (players.find((p) => p.id === item.player_id)?.name ?? 'Unknown player')
+      )
+      .join(', ') || 'nothing'
+
+  // Trades are listed in the history just before the first pick made after them
+  const resolvedTime = (trade: TradeWithItems) => new Date(trade.resolved_at ?? 0).getTime()
+  const sortedTrades = [...trades].sort((a, b) => resolvedTime(a) - resolvedTime(b))
+  const tradesBeforePick = new Map<string, TradeWithItems[]>()
+  let tradeIndex = 0
+  for (const pick of historyPicks) {
+    const pickedAt = new Date(pick.picked_at).getTime()
+    const group: TradeWithItems[] = []
+    while (tradeIndex < sortedTrades.length && resolvedTime(sortedTrades[tradeIndex]) <= pickedAt) {
+      group.push(sortedTrades[tradeIndex++])
+    }
+    tradesBeforePick.set(pick.id, group)
+  }
+  const latestTrades = sortedTrades.slice(tradeIndex)
+
+  function renderTradeRow(trade: TradeWithItems) {
+    const { fromProposer, fromRecipient } = splitTradeItems(
+      trade.trade_items,
+      trade.proposer_captain_id
+    )
+    return (
+      <tr key={trade.id} className="border-b last:border-0">
+        <td className="py-2 pr-4 text-muted-foreground">
+          <ArrowLeftRight className="h-4 w-4" aria-label="Trade" />
+        </td>
+        <td colSpan={4} className="py-2 text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{teamName(trade.proposer_captain_id)}</span>{' '}
+          trades {describeItems(fromProposer)} to{' '}
+          <span className="font-medium text-foreground">
+            {teamName(trade.recipient_captain_id)}
+          </span>{' '}
+          for {describeItems(fromRecipient)}
+        </td>
+      </tr>
+    )
+  }
+
   return (
     <>
       <h2 className="mb-4 mt-8 text-xl font-semibold">Pick History</h2>
@@ -575,7 +689,7 @@ function PickHistory({
                   <th className="pb-2 pr-4">Captain</th>
                   <th className="pb-2 pr-4">Player</th>
                   <th className="hidden pb-2 pr-4 sm:table-cell">Time</th>
-                  <th className="hidden pb-2 sm:table-cell">Type</th>
+                  <th className="hidden pb-2 sm:table-cell">{isAuction ? 'Price' : 'Type'}</th>
                 </tr>
               </thead>
               <tbody>
@@ -598,8 +712,12 @@ function PickHistory({
                     }
                   }
 
+                  const originalCaptainId = originalPickOrder[pick.pick_number - 1]
+                  const isTradedPick = !!originalCaptainId && originalCaptainId !== pick.captain_id
+
                   return (
                     <Fragment key={pick.id}>
+                      {tradesBeforePick.get(pick.id)?.map(renderTradeRow)}
                       {showRoundHeader && (
                         <tr>
                           <td
@@ -621,43 +739,75 @@ function PickHistory({
                               />
                             )}
                             {captain?.team_name || captain?.name || 'Unknown'}
+                            {isTradedPick && (
+                              <span className="text-xs text-muted-foreground">
+                                via {teamName(originalCaptainId)}
+                              </span>
+                            )}
                           </div>
                         </td>
                         <td className="py-2 pr-4">
-                          {player ? (
-                            <button
-                              onClick={() => onPlayerClick(player)}
-                              className="flex items-center gap-2 rounded transition-colors hover:text-primary"
-                            >
-                              {player.profile_picture_url ? (
-                                <img
-                                  src={player.profile_picture_url}
-                                  alt={player.name}
-                                  className="h-5 w-5 flex-shrink-0 rounded-full object-cover"
-                                />
-                              ) : (
-                                <span className="flex h-5 w-5 items-center justify-center rounded-full bg-muted text-[10px] font-medium flex-shrink-0">
-                                  {getInitials(player.name)}
-                                </span>
-                              )}
-                              <span>
-                                {player.name}
-                                {pick.is_auto_pick && (
-                                  <span className="ml-1.5 rounded bg-yellow-500/20 px-1.5 py-0.5 text-xs text-yellow-600 sm:hidden dark:text-yellow-400">
-                                    Auto
+                          <div className="flex items-center gap-1.5">
+                            {player ? (
+                              <button
+                                onClick={() => onPlayerClick(player)}
+                                className="flex items-center gap-2 rounded transition-colors hover:text-primary"
+                              >
+                                {player.profile_picture_url ? (
+                                  <img
+                                    src={player.profile_picture_url}
+                                    alt={player.name}
+                                    className="h-5 w-5 flex-shrink-0 rounded-full object-cover"
+                                  />
+                                ) : (
+                                  <span className="flex h-5 w-5 items-center justify-center rounded-full bg-muted text-[10px] font-medium flex-shrink-0">
+                                    {getInitials(player.name)}
                                   </span>
                                 )}
+                                <span>
+                                  {player.name}
+                                  {pick.is_auto_pick && (
+                                    <span className="ml-1.5 rounded bg-yellow-500/20 px-1.5 py-0.5 text-xs text-yellow-600 sm:hidden dark:text-yellow-400">
+                                      Auto
+                                    </span>
+                                  )}
+                                </span>
+                              </button>
+                            ) : (
+                              <span className="text-muted-foreground">Unknown</span>
+                            )}
+                            {pick.original_player_id && (
+                              <span
+                                className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground"
+                                title={describeCorrection(pick, players)}
+                              >
+                                Corrected
                               </span>
-                            </button>
-                          ) : (
-                            <span className="text-muted-foreground">Unknown</span>
-                          )}
+                            )}
+                            {onCorrectPick && !pick.is_keeper && (
+                              <button
+                                type="button"
+                                onClick={() => onCorrectPick(pick)}
+                                className="rounded p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+                                title="Correct pick"
+                                aria-label={`Correct pick ${pick.pick_number}`}
+                              >
+                                <PencilLine className="h-3.5 w-3.5" />
+                              </button>
+                            )}
+                          </div>
                         </td>
                         <td className="hidden py-2 pr-4 text-sm text-muted-foreground sm:table-cell">
                           {i === 0 ? '—' : timeDelta || '—'}
                         </td>
                         <td className="hidden py-2 sm:table-cell">
-                          {pick.is_auto_pick ? (
+                          {isAuction && pick.price != null ? (
+                            <span className="text-sm font-medium">${pick.price}</span>
+                          ) : pick.is_keeper ? (
+                            <span className="rounded bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                              Keeper
+                            </span>
+                          ) : pick.is_auto_pick ? (
                             <span className="rounded bg-yellow-500/20 px-2 py-0.5 text-xs text-yellow-600 dark:text-yellow-400">
                               Auto
                             </span>
@@ -669,6 +819,7 @@ function PickHistory({
                     </Fragment>
                   )
                 })}
+                {latestTrades.map(renderTradeRow)}
               </tbody>
             </table>
           </div>
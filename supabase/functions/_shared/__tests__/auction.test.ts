@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest'
+
+// Re-implement the logic under test (source uses Deno-style .ts imports).
+// These are the checks manage-auction enforces; src/lib/auction.ts has the
+// client copy.
+
+const AUCTION_MIN_BID = 1
+
+interface PricedPick {
+  captain_id: string
+  price: number | null
+}
+
+interface Captain {
+  id: string
+  draft_position: number
+}
+
+function getAuctionRosterSize(draftablePlayerCount: number, captainCount: number): number {
+  if (captainCount === 0) return 0
+  return Math.ceil(draftablePlayerCount / captainCount)
+}
+
+function getRosterCounts(picks: PricedPick[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const pick of picks) {
+    counts.set(pick.captain_id, (counts.get(pick.captain_id) ?? 0) + 1)
+  }
+  return counts
+}
+
+function getCaptainSpend(picks: PricedPick[], captainId: string): number {
+  return picks.filter((p) => p.captain_id === captainId).reduce((sum, p) => sum + (p.price ?? 0), 0)
+}
+
+function getMaxBid(budget: number, spent: number, rosterCount: number, rosterSize: number): number {
+  const openSlots = rosterSize - rosterCount
+  if (openSlots <= 0) return 0
+  return Math.max(0, budget - spent - (openSlots - 1) * AUCTION_MIN_BID)
+}
+
+function getNominatingCaptainId(
+  captains: Captain[],
+  pickIndex: number,
+  rosterCounts: Map<string, number>,
+  rosterSize: number
+): string | undefined {
+  if (captains.length === 0) return undefined
+
+  const sorted = [...captains].sort((a, b) => a.draft_position - b.draft_position)
+  const start = pickIndex % sorted.length
+
+  for (let offset = 0; offset < sorted.length; offset++) {
+    const captain = sorted[(start + offset) % sorted.length]
+    if ((rosterCounts.get(captain.id) ?? 0) < rosterSize) return captain.id
+  }
+  return undefined
+}
+
+function isBiddingClosed(
+  league: { current_pick_started_at: string | null; time_limit_seconds: number },
+  now: number = Date.now()
+): boolean {
+  if (!league.current_pick_started_at) return false
+  const elapsed = (now - new Date(league.current_pick_started_at).getTime()) / 1000
+  return elapsed >= league.time_limit_seconds
+}
+
+function validateBid(amount: number, currentBid: number | null, maxBid: number): string | null {
+  if (!Number.isInteger(amount)) return 'Bid must be a whole number'
+  if (amount < AUCTION_MIN_BID) return `Bid must be at least $${AUCTION_MIN_BID}`
+  if (currentBid !== null && amount <= currentBid) return `Bid must be more than $${currentBid}`
+  if (amount > maxBid) return `Bid exceeds your max bid of $${maxBid}`
+  return null
+}
+
+// --- getMaxBid ---
+
+describe('getMaxBid', () => {
+  it('reserves the minimum bid for every other open slot', () => {
+    expect(getMaxBid(100, 0, 0, 4)).toBe(97)
+  })
+
+  it('allows the whole remaining budget for the last slot', () => {
+    expect(getMaxBid(100, 60, 3, 4)).toBe(40)
+  })
+
+  it('returns 0 when the roster is full', () => {
+    expect(getMaxBid(100, 10, 4, 4)).toBe(0)
+    expect(getMaxBid(100, 10, 5, 4)).toBe(0)
+  })
+
+  it('never goes negative', () => {
+    expect(getMaxBid(2, 0, 0, 5)).toBe(0)
+  })
+})
+
+// --- validateBid ---
+
+describe('validateBid', () => {
+  it('accepts an opening bid within the max', () => {
+    expect(validateBid(AUCTION_MIN_BID, null, 50)).toBeNull()
+    expect(validateBid(50, null, 50)).toBeNull()
+  })
+
+  it('rejects fractional bids', () => {
+    expect(validateBid(10.5, null, 50)).toBe('Bid must be a whole number')
+  })
+
+  it('rejects bids under the minimum', () => {
+    expect(validateBid(0, null, 50)).toBe('Bid must be at least $1')
+    expect(validateBid(-5, null, 50)).toBe('Bid must be at least $1')
+  })
+
+  it('requires a raise over the current bid', () => {
+    expect(validateBid(10, 10, 50)).toBe('Bid must be more than $10')
+    expect(validateBid(9, 10, 50)).toBe('Bid must be more than $10')
+    expect(validateBid(11, 10, 50)).toBeNull()
+  })
+
+  it('rejects bids over the max bid', () => {
+    expect(validateBid(51, null, 50)).toBe('Bid exceeds your max bid of $50')
+  })
+
+  it('rejects every bid from a captain with no budget left', () => {
+    expect(validateBid(AUCTION_MIN_BID, null, 0)).toBe('Bid exceeds your max bid of $0')
+  })
+})
+
+// --- Budget check as manage-auction runs it ---
+
+describe('bid budget check', () => {
+  // 8 draftable players across 2 teams → 4 roster slots each, $20 budget
+  const budget = 20
+  const rosterSize = getAuctionRosterSize(8, 2)
+  const picks: PricedPick[] = [
+    { captain_id: 'c1', price: 12 },
+    { captain_id: 'c1', price: 3 },
+    { captain_id: 'c2', price: 1 },
+  ]
+
+  function maxBidFor(captainId: string): number {
+    return getMaxBid(
+      budget,
+      getCaptainSpend(picks, captainId),
+      getRosterCounts(picks).get(captainId) ?? 0,
+      rosterSize
+    )
+  }
+
+  it('keeps $1 back for each slot still to fill after this one', () => {
+    // c1: $5 left, 2 open slots → can bid $4
+    expect(maxBidFor('c1')).toBe(4)
+    expect(validateBid(4, 3, maxBidFor('c1'))).toBeNull()
+    expect(validateBid(5, 3, maxBidFor('c1'))).toBe('Bid exceeds your max bid of $4')
+  })
+
+  it('uses the whole budget for a captain with no purchases', () => {
+    // c3 hasn't bought anyone: $20 left, 4 open slots
+    expect(maxBidFor('c3')).toBe(17)
+  })
+
+  it('treats unpriced picks as free', () => {
+    expect(getCaptainSpend([{ captain_id: 'c1', price: null }], 'c1')).toBe(0)
+  })
+})
+
+// --- getNominatingCaptainId ---
+
+describe('getNominatingCaptainId', () => {
+  const captains: Captain[] = [
+    { id: 'c3', draft_position: 3 },
+    { id: 'c1', draft_position: 1 },
+    { id: 'c2', draft_position: 2 },
+  ]
+
+  it('rotates by draft position', () => {
+    const counts = new Map<string, number>()
+    expect(getNominatingCaptainId(captains, 0, counts, 4)).toBe('c1')
+    expect(getNominatingCaptainId(captains, 1, counts, 4)).toBe('c2')
+    expect(getNominatingCaptainId(captains, 3, counts, 4)).toBe('c1')
+  })
+
+  it('skips captains with full rosters', () => {
+    expect(getNominatingCaptainId(captains, 1, new Map([['c2', 4]]), 4)).toBe('c3')
+  })
+
+  it('returns undefined when every roster is full', () => {
+    const counts = new Map([
+      ['c1', 1],
+      ['c2', 1],
+      ['c3', 1],
+    ])
+    expect(getNominatingCaptainId(captains, 0, counts, 1)).toBeUndefined()
+  })
+})
+
+// --- isBiddingClosed ---
+
+describe('isBiddingClosed', () => {
+  const startedAt = '2025-01-01T00:00:00.000Z'
+  const start = new Date(startedAt).getTime()
+  const league = { current_pick_started_at: startedAt, time_limit_seconds: 30 }
+
+  it('is open before the time limit', () => {
+    expect(isBiddingClosed(league, start + 29_999)).toBe(false)
+  })
+
+  it('closes exactly at the time limit, with no grace period', () => {
+    expect(isBiddingClosed(league, start + 30_000)).toBe(true)
+    expect(isBiddingClosed(league, start + 45_000)).toBe(true)
+  })
+
+  it('stays open while the clock is stopped', () => {
+    expect(isBiddingClosed({ ...league, current_pick_started_at: null }, start + 60_000)).toBe(
+      false
+    )
+  })
+})
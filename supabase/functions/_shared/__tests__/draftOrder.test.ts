@@ -12,22 +12,51 @@ interface Captain {
 interface Player {
   id: string
   drafted_by_captain_id: string | null
+  keeper_captain_id?: string | null
+}
+
+type PickOrderType = 'snake' | 'round_robin' | 'third_round_reversal' | 'custom'
+
+function isReversedRound(round: number, draftType: PickOrderType): boolean {
+  if (draftType === 'snake') return round % 2 === 1
+  if (draftType === 'third_round_reversal') return round === 1 || (round >= 2 && round % 2 === 0)
+  return false
+}
+
+function isValidRoundOrder(row: unknown, captainIds: string[]): row is string[] {
+  if (!Array.isArray(row) || row.length !== captainIds.length) return false
+  const ids = new Set(captainIds)
+  return new Set(row).size === row.length && row.every((id) => ids.has(id))
+}
+
+interface PickOrderOptions {
+  pickOrderMatrix?: string[][] | null
+  pickOwnership?: { pick_number: number; captain_id: string }[]
 }
 
 function getCurrentCaptainId(
   captains: Captain[],
   pickIndex: number,
-  draftType: 'snake' | 'round_robin'
+  draftType: PickOrderType,
+  { pickOrderMatrix = null, pickOwnership = [] }: PickOrderOptions = {}
 ): string | undefined {
   if (captains.length === 0) return undefined
 
+  const owner = pickOwnership.find((o) => o.pick_number === pickIndex + 1)
+  if (owner && captains.some((c) => c.id === owner.captain_id)) return owner.captain_id
+
   const sorted = [...captains].sort((a, b) => a.draft_position - b.draft_position)
   const captainIds = sorted.map((c) => c.id)
   const count = captainIds.length
   const round = Math.floor(pickIndex / count)
   const positionInRound = pickIndex % count
 
-  if (draftType === 'snake' && round % 2 === 1) {
+  if (draftType === 'custom') {
+    const row = pickOrderMatrix?.[round]
+    if (isValidRoundOrder(row, captainIds)) return row[positionInRound]
+  }
+
+  if (isReversedRound(round, draftType)) {
     return captainIds[count - 1 - positionInRound]
   }
   return captainIds[positionInRound]
@@ -43,10 +72,20 @@ function getAvailablePlayersServer(
       .map((c) => c.player_id!)
   )
   return players.filter(
-    (p) => !p.drafted_by_captain_id && !captainPlayerIds.has(p.id)
+    (p) => !p.drafted_by_captain_id && !p.keeper_captain_id && !captainPlayerIds.has(p.id)
   )
 }
 
+function getNextOpenPickIndex(
+  pickIndex: number,
+  draftPicks: { pick_number: number }[]
+): number {
+  const filled = new Set(draftPicks.map((p) => p.pick_number - 1))
+  let next = pickIndex + 1
+  while (filled.has(next)) next++
+  return next
+}
+
 function makeCaptain(id: string, position: number, playerId: string | null = null): Captain {
   return { id, draft_position: position, player_id: playerId }
 }
@@ -97,6 +136,64 @@ describe('getCurrentCaptainId', () => {
     })
   })
 
+  describe('third-round reversal draft', () => {
+    it('reverses rounds 2 and 3', () => {
+      expect(getCurrentCaptainId(captains, 3, 'third_round_reversal')).toBe('c3')
+      expect(getCurrentCaptainId(captains, 6, 'third_round_reversal')).toBe('c3')
+      expect(getCurrentCaptainId(captains, 8, 'third_round_reversal')).toBe('c1')
+    })
+
+    it('alternates from round 4 onward', () => {
+      expect(getCurrentCaptainId(captains, 9, 'third_round_reversal')).toBe('c1')
+      expect(getCurrentCaptainId(captains, 12, 'third_round_reversal')).toBe('c3')
+    })
+  })
+
+  describe('custom draft', () => {
+    const matrix = [
+      ['c3', 'c1', 'c2'],
+      ['c2', 'c3', 'c1'],
+    ]
+
+    it('uses the matrix row for each round', () => {
+      expect(getCurrentCaptainId(captains, 0, 'custom', { pickOrderMatrix: matrix })).toBe('c3')
+      expect(getCurrentCaptainId(captains, 4, 'custom', { pickOrderMatrix: matrix })).toBe('c3')
+      expect(getCurrentCaptainId(captains, 5, 'custom', { pickOrderMatrix: matrix })).toBe('c1')
+    })
+
+    it('falls back to draft position order beyond the matrix', () => {
+      expect(getCurrentCaptainId(captains, 6, 'custom', { pickOrderMatrix: matrix })).toBe('c1')
+    })
+
+    it('falls back to draft position order for invalid rows', () => {
+      expect(getCurrentCaptainId(captains, 0, 'custom', { pickOrderMatrix: [['c3', 'c3', 'c1']] })).toBe('c1')
+    })
+  })
+
+  describe('traded picks', () => {
+    const pickOwnership = [{ pick_number: 4, captain_id: 'c1' }]
+
+    it('returns the current owner of a traded pick', () => {
+      expect(getCurrentCaptainId(captains, 3, 'snake', { pickOwnership })).toBe('c1')
+    })
+
+    it('leaves untraded picks alone', () => {
+      expect(getCurrentCaptainId(captains, 4, 'snake', { pickOwnership })).toBe('c2')
+    })
+
+    it('overrides a custom matrix', () => {
+      const matrix = [['c3', 'c1', 'c2'], ['c2', 'c3', 'c1']]
+      expect(
+        getCurrentCaptainId(captains, 3, 'custom', { pickOrderMatrix: matrix, pickOwnership })
+      ).toBe('c1')
+    })
+
+    it('ignores owners who are no longer captains', () => {
+      const stale = [{ pick_number: 1, captain_id: 'c-removed' }]
+      expect(getCurrentCaptainId(captains, 0, 'snake', { pickOwnership: stale })).toBe('c1')
+    })
+  })
+
   it('returns undefined for empty captains', () => {
     expect(getCurrentCaptainId([], 0, 'snake')).toBeUndefined()
   })
@@ -141,6 +238,14 @@ describe('getAvailablePlayersServer', () => {
     expect(available[0].id).toBe('p2')
   })
 
+  it('excludes keepers waiting to be placed', () => {
+    const players = [{ ...makePlayer('p1'), keeper_captain_id: 'c1' }, makePlayer('p2')]
+    const captains = [makeCaptain('c1', 1)]
+    const available = getAvailablePlayersServer(players, captains)
+    expect(available).toHaveLength(1)
+    expect(available[0].id).toBe('p2')
+  })
+
   it('excludes both drafted and captain-linked', () => {
     const players = [makePlayer('p1'), makePlayer('p2', 'c2'), makePlayer('p3')]
     const captains = [makeCaptain('c1', 1, 'p1'), makeCaptain('c2', 2)]
@@ -159,3 +264,26 @@ describe('getAvailablePlayersServer', () => {
     expect(getAvailablePlayersServer(players, captains)).toHaveLength(1)
   })
 })
+
+describe('getNextOpenPickIndex', () => {
+  it('is the following pick when nothing is filled', () => {
+    expect(getNextOpenPickIndex(0, [])).toBe(1)
+  })
+
+  it('skips picks filled by keepers', () => {
+    // Picks 2 and 3 (indexes 1 and 2) are keepers
+    expect(getNextOpenPickIndex(0, [{ pick_number: 2 }, { pick_number: 3 }])).toBe(3)
+  })
+
+  it('ignores filled picks before the current one', () => {
+    expect(getNextOpenPickIndex(2, [{ pick_number: 1 }, { pick_number: 2 }])).toBe(3)
+  })
+
+  it('finds who is up next when the next pick is a keeper', () => {
+    // Snake with 3 captains: c1, c2, c3, c3, c2, c1. c2's pick 2 is a keeper,
+    // so c3 follows c1, not c2
+    const captains = [makeCaptain('c1', 1), makeCaptain('c2', 2), makeCaptain('c3', 3)]
+    const next = getNextOpenPickIndex(0, [{ pick_number: 2 }])
+    expect(getCurrentCaptainId(captains, next, 'snake')).toBe('c3')
+  })
+})
@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest'
+
+// publicApi.ts only has type imports, so unlike the other shared modules it
+// can be imported directly.
+import { buildPublicLeagueResponse, type PublicApiLeagueRow } from '../publicApi.ts'
+
+type CaptainRow = PublicApiLeagueRow['captains'][number]
+type PlayerRow = PublicApiLeagueRow['players'][number]
+type PickRow = PublicApiLeagueRow['draft_picks'][number]
+
+function makeCaptain(id: string, draftPosition: number, overrides: Partial<CaptainRow> = {}) {
+  return {
+    id,
+    name: `Captain ${id}`,
+    draft_position: draftPosition,
+    player_id: null,
+    is_participant: false,
+    team_name: null,
+    team_color: null,
+    team_photo_url: null,
+    ...overrides,
+  }
+}
+
+function makePlayer(
+  id: string,
+  draftedBy: string | null,
+  overrides: Partial<PlayerRow> = {}
+): PlayerRow {
+  return {
+    id,
+    name: `Player ${id}`,
+    bio: null,
+    profile_picture_url: null,
+    drafted_by_captain_id: draftedBy,
+    player_custom_fields: [],
+    ...overrides,
+  }
+}
+
+function makePick(
+  pickNumber: number,
+  captainId: string,
+  playerId: string,
+  overrides: Partial<PickRow> = {}
+): PickRow {
+  return {
+    captain_id: captainId,
+    player_id: playerId,
+    pick_number: pickNumber,
+    is_auto_pick: false,
+    is_keeper: false,
+    price: null,
+    picked_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function makeRow(overrides: Partial<PublicApiLeagueRow> = {}): PublicApiLeagueRow {
+  return {
+    id: 'l1',
+    name: 'Friday League',
+    status: 'completed',
+    draft_type: 'snake',
+    auction_budget: 200,
+    scheduled_start_at: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-02T00:00:00Z',
+    league_field_schemas: [],
+    captains: [],
+    players: [],
+    draft_picks: [],
+    ...overrides,
+  }
+}
+
+const NOW = new Date('2026-02-01T00:00:00Z')
+
+describe('buildPublicLeagueResponse', () => {
+  it('lists teams in draft order', () => {
+    const response = buildPublicLeagueResponse(
+      makeRow({ captains: [makeCaptain('b', 1), makeCaptain('c', 2), makeCaptain('a', 0)] }),
+      NOW
+    )
+    expect(response.teams.map((t) => t.id)).toEqual(['a', 'b', 'c'])
+    expect(response.apiVersion).toBe('v1')
+    expect(response.generatedAt).toBe('2026-02-01T00:00:00.000Z')
+  })
+
+  it("puts a participating captain's own player first, then picks in order", () => {
+    const response = buildPublicLeagueResponse(
+      makeRow({
+        captains: [makeCaptain('a', 0, { is_participant: true, player_id: 'pa' })],
+        players: [makePlayer('pa', null), makePlayer('p1', 'a'), makePlayer('p2', 'a')],
+        draft_picks: [makePick(3, 'a', 'p2'), makePick(1, 'a', 'p1', { is_auto_pick: true })],
+      }),
+      NOW
+    )
+    const roster = response.teams[0].roster
+    expect(roster.map((p) => [p.id, p.pickNumber, p.isCaptain])).toEqual([
+      ['pa', null, true],
+      ['p1', 1, false],
+      ['p2', 3, false],
+    ])
+    expect(roster[1].isAutoPick).toBe(true)
+  })
+
+  it("leaves out a non-participating captain's player", () => {
+    const response = buildPublicLeagueResponse(
+      makeRow({
+        captains: [makeCaptain('a', 0, { player_id: 'pa' })],
+        players: [makePlayer('pa', null)],
+      }),
+      NOW
+    )
+    expect(response.teams[0].roster).toEqual([])
+  })
+
+  it("lists a traded player on their new team, keeping the pick's team", () => {
+    const response = buildPublicLeagueResponse(
+      makeRow({
+        draft_type: 'auction',
+        captains: [makeCaptain('a', 0), makeCaptain('b', 1)],
+        // p1 was bought by a, then traded to b
+        players: [makePlayer('p1', 'b'), makePlayer('p2', 'a')],
+        draft_picks: [makePick(1, 'a', 'p1', { price: 30 }), makePick(2, 'a', 'p2', { price: 5 })],
+      }),
+      NOW
+    )
+    const [teamA, teamB] = response.teams
+    expect(teamA.roster.map((p) => p.id)).toEqual(['p2'])
+    expect(teamB.roster.map((p) => p.id)).toEqual(['p1'])
+    expect(teamB.roster[0].pickNumber).toBe(1)
+    expect(teamA.spent).toBe(5)
+    expect(teamB.spent).toBe(30)
+    expect(response.picks[0].teamId).toBe('a')
+  })
+
+  it('marks keepers', () => {
+    const response = buildPublicLeagueResponse(
+      makeRow({
+        captains: [makeCaptain('a', 0)],
+        players: [makePlayer('p1', 'a')],
+        draft_picks: [makePick(1, 'a', 'p1', { is_keeper: true })],
+      }),
+      NOW
+    )
+    expect(response.teams[0].roster[0].isKeeper).toBe(true)
+    expect(response.picks[0].isKeeper).toBe(true)
+  })
+
+  it('fills auction fields only in auction leagues', () => {
+    const row = makeRow({
+      captains: [makeCaptain('a', 0)],
+      players: [makePlayer('p1', 'a')],
+      draft_picks: [makePick(1, 'a', 'p1', { price: 12 })],
+    })
+
+    const snake = buildPublicLeagueResponse(row, NOW)
+    expect(snake.league.auctionBudget).toBeNull()
+    expect(snake.teams[0].spent).toBeNull()
+
+    const auction = buildPublicLeagueResponse({ ...row, draft_type: 'auction' }, NOW)
+    expect(auction.league.auctionBudget).toBe(200)
+    expect(auction.teams[0].spent).toBe(12)
+    expect(auction.picks[0].price).toBe(12)
+    expect(auction.picks[0].round).toBeNull()
+  })
+
+  it('numbers rounds by team count', () => {
+    const captains = [makeCaptain('a', 0), makeCaptain('b', 1)]
+    const players = ['p1', 'p2', 'p3'].map((id) => makePlayer(id, 'a'))
+    const response = buildPublicLeagueResponse(
+      makeRow({
+        captains,
+        players,
+        draft_picks: [makePick(1, 'a', 'p1'), makePick(2, 'b', 'p2'), makePick(3, 'b', 'p3')],
+      }),
+      NOW
+    )
+    expect(response.picks.map((p) => [p.pickNumber, p.round])).toEqual([
+      [1, 1],
+      [2, 1],
+      [3, 2],
+    ])
+  })
+
+  it('orders custom fields by field order', () => {
+    const response = buildPublicLeagueResponse(
+      makeRow({
+        league_field_schemas: [
+          { field_name: 'Height', field_type: 'number', field_order: 1 },
+          { field_name: 'Position', field_type: 'text', field_order: 0 },
+        ],
+        captains: [makeCaptain('a', 0)],
+        players: [
+          makePlayer('p1', 'a', {
+            player_custom_fields: [
+              { field_name: 'Height', field_value: '180', field_order: 1 },
+              { field_name: 'Position', field_value: 'Guard', field_order: 0 },
+            ],
+          }),
+        ],
+        draft_picks: [makePick(1, 'a', 'p1')],
+      }),
+      NOW
+    )
+    expect(response.league.customFields).toEqual([
+      { name: 'Position', type: 'text' },
+      { name: 'Height', type: 'number' },
+    ])
+    expect(response.teams[0].roster[0].customFields).toEqual([
+      { name: 'Position', value: 'Guard' },
+      { name: 'Height', value: '180' },
+    ])
+  })
+})
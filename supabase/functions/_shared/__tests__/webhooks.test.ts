@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+
+// webhooks.ts has no imports, so unlike most shared modules it can be imported
+// directly.
+import { isIpLiteralHost, isPrivateWebhookHost } from '../webhooks.ts'
+
+describe('isPrivateWebhookHost', () => {
+  it('refuses IPv4 private ranges', () => {
+    expect(isPrivateWebhookHost('10.0.0.1')).toBe(true)
+    expect(isPrivateWebhookHost('10.255.255.255')).toBe(true)
+    expect(isPrivateWebhookHost('172.16.0.1')).toBe(true)
+    expect(isPrivateWebhookHost('172.31.255.255')).toBe(true)
+    expect(isPrivateWebhookHost('192.168.1.1')).toBe(true)
+  })
+
+  it('refuses IPv4 loopback, unspecified and link-local addresses', () => {
+    expect(isPrivateWebhookHost('127.0.0.1')).toBe(true)
+    expect(isPrivateWebhookHost('127.1.2.3')).toBe(true)
+    expect(isPrivateWebhookHost('0.0.0.0')).toBe(true)
+    expect(isPrivateWebhookHost('169.254.169.254')).toBe(true)
+  })
+
+  it('refuses the CGNAT range', () => {
+    expect(isPrivateWebhookHost('100.64.0.1')).toBe(true)
+    expect(isPrivateWebhookHost('100.127.255.255')).toBe(true)
+  })
+
+  it('allows public IPv4 addresses next to the private ranges', () => {
+    expect(isPrivateWebhookHost('8.8.8.8')).toBe(false)
+    expect(isPrivateWebhookHost('172.15.0.1')).toBe(false)
+    expect(isPrivateWebhookHost('172.32.0.1')).toBe(false)
+    expect(isPrivateWebhookHost('100.63.255.255')).toBe(false)
+    expect(isPrivateWebhookHost('100.128.0.1')).toBe(false)
+    expect(isPrivateWebhookHost('169.253.0.1')).toBe(false)
+    expect(isPrivateWebhookHost('192.169.0.1')).toBe(false)
+  })
+
+  it('refuses IPv6 loopback, unique local and link-local addresses', () => {
+    expect(isPrivateWebhookHost('::1')).toBe(true)
+    expect(isPrivateWebhookHost('::')).toBe(true)
+    expect(isPrivateWebhookHost('fc00::1')).toBe(true)
+    expect(isPrivateWebhookHost('fd12:3456:789a::1')).toBe(true)
+    expect(isPrivateWebhookHost('fe80::1')).toBe(true)
+    expect(isPrivateWebhookHost('febf::1')).toBe(true)
+  })
+
+  it('allows public IPv6 addresses', () => {
+    expect(isPrivateWebhookHost('2606:4700::6810:84e5')).toBe(false)
+    expect(isPrivateWebhookHost('fec0::1')).toBe(false)
+  })
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isPrivateWebhookHost('::ffff:10.0.0.1')).toBe(true)
+    expect(isPrivateWebhookHost('::ffff:127.0.0.1')).toBe(true)
+    expect(isPrivateWebhookHost('::ffff:a00:1')).toBe(true)
+    expect(isPrivateWebhookHost('::ffff:a9fe:a9fe')).toBe(true)
+    expect(isPrivateWebhookHost('::ffff:8.8.8.8')).toBe(false)
+    expect(isPrivateWebhookHost('::ffff:808:808')).toBe(false)
+  })
+
+  it('accepts bracketed literals as URLs write them', () => {
+    expect(isPrivateWebhookHost('[::1]')).toBe(true)
+    expect(isPrivateWebhookHost('[fe80::1]')).toBe(true)
+    expect(isPrivateWebhookHost('[::ffff:a00:1]')).toBe(true)
+    expect(isPrivateWebhookHost(new URL('https://[::ffff:10.0.0.1]/').hostname)).toBe(true)
+    expect(isPrivateWebhookHost('[2606:4700::6810:84e5]')).toBe(false)
+  })
+
+  it('refuses localhost and internal names', () => {
+    expect(isPrivateWebhookHost('localhost')).toBe(true)
+    expect(isPrivateWebhookHost('LOCALHOST')).toBe(true)
+    expect(isPrivateWebhookHost('app.localhost')).toBe(true)
+    expect(isPrivateWebhookHost('metadata.google.internal')).toBe(true)
+  })
+
+  it('allows public hostnames', () => {
+    expect(isPrivateWebhookHost('example.com')).toBe(false)
+    expect(isPrivateWebhookHost('hooks.slack.com')).toBe(false)
+    expect(isPrivateWebhookHost('localhost.example.com')).toBe(false)
+    expect(isPrivateWebhookHost('internal.example.com')).toBe(false)
+  })
+})
+
+describe('isIpLiteralHost', () => {
+  it('detects IPv4 and IPv6 literals', () => {
+    expect(isIpLiteralHost('10.0.0.1')).toBe(true)
+    expect(isIpLiteralHost('[::1]')).toBe(true)
+    expect(isIpLiteralHost('::ffff:a00:1')).toBe(true)
+  })
+
+  it('treats names as names', () => {
+    expect(isIpLiteralHost('example.com')).toBe(false)
+    expect(isIpLiteralHost('localhost')).toBe(false)
+    expect(isIpLiteralHost('1.2.3.example.com')).toBe(false)
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Shared auction draft logic used by manage-auction and auto-pick edge functions.
+ * NOTE: Keep pure helpers in sync with src/lib/auction.ts.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { recordPick } from './draftHelpers.ts'
+import type { AuctionNomination, Captain, League } from './types.ts'
+
+export const AUCTION_MIN_BID = 1
+
+interface PricedPick {
+  captain_id: string
+  price: number | null
+}
+
+/** Number of roster slots each team fills (rounded up so every player can be bought). */
+export function getAuctionRosterSize(draftablePlayerCount: number, captainCount: number): number {
+  if (captainCount === 0) return 0
+  return Math.ceil(draftablePlayerCount / captainCount)
+}
+
+/** Count auction purchases per captain. */
+export function getRosterCounts(picks: PricedPick[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const pick of picks) {
+    counts.set(pick.captain_id, (counts.get(pick.captain_id) ?? 0) + 1)
+  }
+  return counts
+}
+
+/** Total amount a captain has spent on won players. */
+export function getCaptainSpend(picks: PricedPick[], captainId: string): number {
+  return picks.filter((p) => p.captain_id === captainId).reduce((sum, p) => sum + (p.price ?? 0), 0)
+}
+
+/** Highest bid a captain can place, reserving the minimum bid for each other open slot. */
+export function getMaxBid(
+  budget: number,
+  spent: number,
+  rosterCount: number,
+  rosterSize: number
+): number {
+  const openSlots = rosterSize - rosterCount
+  if (openSlots <= 0) return 0
+  return Math.max(0, budget - spent - (openSlots - 1) * AUCTION_MIN_BID)
+}
+
+/** Determine which captain nominates at the given pick index, skipping full rosters. */
+export function getNominatingCaptainId(
+  captains: Captain[],
+  pickIndex: number,
+  rosterCounts: Map<string, number>,
+  rosterSize: number
+): string | undefined {
+  if (captains.length === 0) return undefined
+
+  const sorted = [...captains].sort((a, b) => a.draft_position - b.draft_position)
+  const start = pickIndex % sorted.length
+
+  for (let offset = 0; offset < sorted.length; offset++) {
+    const captain = sorted[(start + offset) % sorted.length]
+    if ((rosterCounts.get(captain.id) ?? 0) < rosterSize) return captain.id
+  }
+  return undefined
+}
+
+/**
+ * Whether the bidding countdown has run out. manage-auction stops taking bids
+ * and auto-pick sells at this same moment, so a bid accepted before the cutoff
+ * can't lose to the sale.
+ */
+export function isBiddingClosed(
+  league: Pick<League, 'current_pick_started_at' | 'time_limit_seconds'>,
+  now: number = Date.now()
+): boolean {
+  if (!league.current_pick_started_at) return false
+  const elapsed = (now - new Date(league.current_pick_started_at).getTime()) / 1000
+  return elapsed >= league.time_limit_seconds
+}
+
+/** Validate a bid amount. Pass null for currentBid when opening a nomination. */
+export function validateBid(
+  amount: number,
+  currentBid: number | null,
+  maxBid: number
+): string | null {
+  if (!Number.isInteger(amount)) return 'Bid must be a whole number'
+  if (amount < AUCTION_MIN_BID) return `Bid must be at least $${AUCTION_MIN_BID}`
+  if (currentBid !== null && amount <= currentBid) return `Bid must be more than $${currentBid}`
+  if (amount > maxBid) return `Bid exceeds your max bid of $${maxBid}`
+  return null
+}
+
+/** Load the league's picks with prices (for roster counts and budgets). */
+export async function loadAuctionPicks(
+  supabase: SupabaseClient,
+  leagueId: string
+): Promise<PricedPick[]> {
+  const { data } = await supabase
+    .from('draft_picks')
+    .select('captain_id, price')
+    .eq('league_id', leagueId)
+  return (data ?? []) as PricedPick[]
+}
+
+/** Fetch the league's open nomination, if any. */
+export async function getOpenNomination(
+  supabase: SupabaseClient,
+  leagueId: string
+): Promise<AuctionNomination | null> {
+  const { data } = await supabase
+    .from('auction_nominations')
+    .select('*')
+    .eq('league_id', leagueId)
+    .eq('status', 'open')
+    .maybeSingle()
+  return (data as AuctionNomination | null) ?? null
+}
+
+/**
+ * Put a player on the block with an opening bid from the nominating captain,
+ * then restart the league clock for the bidding countdown.
+ */
+export async function openNomination(
+  supabase: SupabaseClient,
+  params: {
+    leagueId: string
+    playerId: string
+    captainId: string
+    amount: number
+    pickIndex: number
+  }
+): Promise<{ nomination: AuctionNomination } | { error: string; status: number }> {
+  const { leagueId, playerId, captainId, amount, pickIndex } = params
+
+  const { data: nomination, error: insertError } = await supabase
+    .from('auction_nominations')
+    .insert({
+      league_id: leagueId,
+      player_id: playerId,
+      nominated_by_captain_id: captainId,
+      current_bid: amount,
+      current_bidder_id: captainId,
+    })
+    .select('*')
+    .single()
+
+  if (insertError || !nomination) {
+    if (insertError?.code === '23505') {
+      return { error: 'A player is already up for auction', status: 409 }
+    }
+    console.error('[auction] Failed to open nomination:', insertError)
+    return { error: 'Failed to nominate player', status: 500 }
+  }
+
+  const { error: bidError } = await supabase.from('auction_bids').insert({
+    nomination_id: nomination.id,
+    league_id: leagueId,
+    captain_id: captainId,
+    amount,
+  })
+  if (bidError) console.error('[auction] Failed to record opening bid:', bidError)
+
+  await resetAuctionClock(supabase, leagueId, pickIndex)
+  return { nomination: nomination as AuctionNomination }
+}
+
+/** Restart the bidding countdown. Guarded by current_pick_index so a stale call can't reset the next turn. */
+export async function resetAuctionClock(
+  supabase: SupabaseClient,
+  leagueId: string,
+  pickIndex: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('leagues')
+    .update({ current_pick_started_at: new Date().toISOString() })
+    .eq('id', leagueId)
+    .eq('status', 'in_progress')
+    .eq('current_pick_index', pickIndex)
+  if (error) console.error('[auction] Failed to reset clock:', error)
+}
+
+/**
+ * Award the nominated player to the high bidder at the current bid and advance
+ * to the next nomination, in one transaction.
+ */
+export async function sellNomination(
+  supabase: SupabaseClient,
+  params: {
+    leagueId: string
+    nomination: AuctionNomination
+    pickIndex: number
+  }
+): Promise<
+  | { success: true; pickNumber: number; isComplete: boolean }
+  | { success: false; raceCondition: boolean }
+> {
+  const { leagueId, nomination, pickIndex } = params
+
+  const result = await recordPick(supabase, {
+    leagueId,
+    pickIndex,
+    captainId: nomination.current_bidder_id,
+    playerId: nomination.player_id,
+    nominationId: nomination.id,
+    price: nomination.current_bid,
+  })
+
+  if ('error' in result) {
+    console.error('[auction] Failed to record sale:', result.error)
+    return { success: false, raceCondition: false }
+  }
+  if ('conflict' in result) return { success: false, raceCondition: true }
+
+  return { success: true, pickNumber: pickIndex + 1, isComplete: result.isComplete }
+}
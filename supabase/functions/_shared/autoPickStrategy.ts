@@ -0,0 +1,182 @@
+/**
+ * Shared auto-pick strategy logic used by the auto-pick edge function.
+ * NOTE: Keep pure helpers in sync with src/lib/autoPickStrategy.ts.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { UUID_RE } from './validation.ts'
+import type { AutoPickStrategy } from './types.ts'
+
+/** Numeric field values: field schema id → player id → value. */
+export type FieldValues = Map<string, Map<string, number>>
+
+const MAX_BALANCE_FIELDS = 10
+
+/** Check an auto-pick strategy sent by a client. */
+export function isValidAutoPickStrategy(value: unknown): value is AutoPickStrategy {
+  if (!value || typeof value !== 'object') return false
+  const strategy = value as Record<string, unknown>
+  switch (strategy.type) {
+    case 'random':
+      return Object.keys(strategy).length === 1
+    case 'best_field':
+      return (
+        typeof strategy.fieldId === 'string' &&
+        UUID_RE.test(strategy.fieldId) &&
+        (strategy.order === 'highest' || strategy.order === 'lowest') &&
+        Object.keys(strategy).length === 3
+      )
+    case 'balance':
+      return (
+        Array.isArray(strategy.fieldIds) &&
+        strategy.fieldIds.length > 0 &&
+        strategy.fieldIds.length <= MAX_BALANCE_FIELDS &&
+        strategy.fieldIds.every((id) => typeof id === 'string' && UUID_RE.test(id)) &&
+        Object.keys(strategy).length === 2
+      )
+    default:
+      return false
+  }
+}
+
+/** The strategy auto-pick uses for a captain: their own, else the league's, else random. */
+export function resolveAutoPickStrategy(
+  league: { auto_pick_strategy: AutoPickStrategy | null },
+  captain: { auto_pick_strategy: AutoPickStrategy | null } | undefined
+): AutoPickStrategy {
+  return captain?.auto_pick_strategy ?? league.auto_pick_strategy ?? { type: 'random' }
+}
+
+/** Field schema ids a strategy reads values from. */
+export function getStrategyFieldIds(strategy: AutoPickStrategy): string[] {
+  switch (strategy.type) {
+    case 'best_field':
+      return [strategy.fieldId]
+    case 'balance':
+      return strategy.fieldIds
+    default:
+      return []
+  }
+}
+
+/**
+ * Point a strategy at copied field schemas, or null when one of its fields
+ * wasn't copied.
+ */
+export function remapStrategyFields(
+  strategy: AutoPickStrategy,
+  schemaIdMap: Map<string, string>
+): AutoPickStrategy | null {
+  switch (strategy.type) {
+    case 'best_field': {
+      const fieldId = schemaIdMap.get(strategy.fieldId)
+      return fieldId ? { ...strategy, fieldId } : null
+    }
+    case 'balance': {
+      const fieldIds = strategy.fieldIds.map((id) => schemaIdMap.get(id))
+      return fieldIds.every((id) => id !== undefined)
+        ? { ...strategy, fieldIds: fieldIds as string[] }
+        : null
+    }
+    default:
+      return strategy
+  }
+}
+
+/** Parse a field value as a number, or null when it isn't one. */
+export function parseFieldNumber(value: string | null | undefined): number | null {
+  if (value == null || value.trim() === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Load the numeric values of the given fields for every player. */
+export async function loadFieldValues(
+  supabase: SupabaseClient,
+  fieldIds: string[]
+): Promise<FieldValues> {
+  const values: FieldValues = new Map(fieldIds.map((id) => [id, new Map()]))
+  if (fieldIds.length === 0) return values
+
+  const { data, error } = await supabase
+    .from('player_custom_fields')
+    .select('player_id, schema_id, field_value')
+    .in('schema_id', fieldIds)
+
+  if (error) throw error
+
+  for (const row of data ?? []) {
+    const n = parseFieldNumber(row.field_value)
+    if (n !== null) values.get(row.schema_id)?.set(row.player_id, n)
+  }
+  return values
+}
+
+/**
+ * Choose a player from candidates with the strategy, or null when it has
+ * nothing to go on (random, or no candidate has a value for its fields) and
+ * the caller should fall back to a random pick. Ties go to the earlier candidate.
+ *
+ * balance compares each field's team average (with the candidate added) to the
+ * average across every player in the league, scaled by the field's range, and
+ * picks the candidate whose team ends up closest overall.
+ */
+export function chooseByStrategy(
+  strategy: AutoPickStrategy,
+  candidateIds: string[],
+  values: FieldValues,
+  rosterPlayerIds: string[]
+): string | null {
+  if (strategy.type === 'best_field') {
+    const byPlayer = values.get(strategy.fieldId)
+    if (!byPlayer) return null
+    const sign = strategy.order === 'lowest' ? -1 : 1
+    let best: string | null = null
+    for (const id of candidateIds) {
+      const v = byPlayer.get(id)
+      if (v === undefined) continue
+      if (best === null || sign * v > sign * byPlayer.get(best)!) best = id
+    }
+    return best
+  }
+
+  if (strategy.type === 'balance') {
+    const fields = strategy.fieldIds
+      .map((id) => values.get(id))
+      .filter((byPlayer): byPlayer is Map<string, number> => !!byPlayer && byPlayer.size > 0)
+      .map((byPlayer) => {
+        const all = [...byPlayer.values()]
+        const rosterValues = rosterPlayerIds
+          .map((id) => byPlayer.get(id))
+          .filter((v): v is number => v !== undefined)
+        return {
+          byPlayer,
+          target: all.reduce((sum, v) => sum + v, 0) / all.length,
+          range: Math.max(...all) - Math.min(...all) || 1,
+          rosterSum: rosterValues.reduce((sum, v) => sum + v, 0),
+          rosterCount: rosterValues.length,
+        }
+      })
+
+    let best: string | null = null
+    let bestScore = Infinity
+    for (const id of candidateIds) {
+      if (!fields.some((f) => f.byPlayer.has(id))) continue
+      let score = 0
+      for (const f of fields) {
+        const v = f.byPlayer.get(id)
+        const count = f.rosterCount + (v === undefined ? 0 : 1)
+        if (count === 0) continue
+        const average = (f.rosterSum + (v ?? 0)) / count
+        score += Math.abs(average - f.target) / f.range
+      }
+      if (score < bestScore) {
+        best = id
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  return null
+}
@@ -0,0 +1,16 @@
+/**
+ * Big board fallback used by the auto-pick edge function.
+ * NOTE: Keep the ordering in sync with getBigBoard() in src/lib/bigBoard.ts.
+ */
+
+/** The highest-ranked candidate on the big board, or null when none are ranked. */
+export function chooseFromBoard<T extends { board_rank: number | null }>(
+  candidates: T[]
+): T | null {
+  let best: T | null = null
+  for (const player of candidates) {
+    if (player.board_rank === null) continue
+    if (best === null || player.board_rank < best.board_rank!) best = player
+  }
+  return best
+}
@@ -1,47 +1,114 @@
 import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { Captain, ConsecutiveTimeoutAction, League } from './types.ts'
 
-/** Roll back a recorded pick: delete the pick row and optionally reset the player. */
-export async function rollbackPick(
+/**
+ * Seconds the captain on the clock has for the current pick: what is left of
+ * their time bank in time bank leagues, otherwise the fixed per-pick limit,
+ * plus any time added by timeouts.
+ * Banks are charged when the clock stops, so this is measured from
+ * current_pick_started_at like the fixed limit.
+ * NOTE: Keep in sync with getPickTimeLimit() in src/lib/draft.ts.
+ */
+export function getPickTimeLimit(
+  league: Pick<
+    League,
+    | 'draft_type'
+    | 'timer_mode'
+    | 'time_limit_seconds'
+    | 'time_bank_seconds'
+    | 'current_pick_extension_seconds'
+  >,
+  captain: Pick<Captain, 'time_bank_remaining_seconds'> | undefined
+): number {
+  const limit =
+    league.timer_mode === 'time_bank' && league.draft_type !== 'auction'
+      ? (captain?.time_bank_remaining_seconds ?? league.time_bank_seconds)
+      : league.time_limit_seconds
+  return limit + league.current_pick_extension_seconds
+}
+
+/**
+ * Whether the captain on the clock has had no heartbeat for the league's
+ * disconnect delay (is_captain_disconnected() in migration 041). Always false
+ * when the setting is off.
+ */
+export async function isCaptainDisconnected(
   supabase: SupabaseClient,
-  leagueId: string,
-  pickNumber: number,
-  playerId: string,
-  resetPlayer: boolean
-): Promise<void> {
-  const { error: rb1 } = await supabase
-    .from('draft_picks')
-    .delete()
-    .eq('league_id', leagueId)
-    .eq('pick_number', pickNumber)
-  if (rb1) console.error('CRITICAL: Rollback failed (delete pick):', { leagueId, pickNumber, rb1 })
-  if (resetPlayer) {
-    const { error: rb2 } = await supabase
-      .from('players')
-      .update({ drafted_by_captain_id: null, draft_pick_number: null })
-      .eq('id', playerId)
-    if (rb2) console.error('CRITICAL: Rollback failed (reset player):', { leagueId, playerId, rb2 })
+  league: Pick<League, 'id' | 'disconnect_auto_pick_seconds'>,
+  captainId: string
+): Promise<boolean> {
+  if (league.disconnect_auto_pick_seconds === null) return false
+
+  const { data, error } = await supabase.rpc('is_captain_disconnected', {
+    p_league_id: league.id,
+    p_captain_id: captainId,
+  })
+  if (error) throw error
+  return data === true
+}
+
+/**
+ * Record a pick, assign the player, clear them from queues and advance the
+ * league in one transaction (record_pick() in migration 034).
+ * Conflicts with another pick come back as a message for the client.
+ */
+export async function recordPick(
+  supabase: SupabaseClient,
+  params: {
+    leagueId: string
+    pickIndex: number
+    captainId: string
+    playerId: string
+    isAutoPick?: boolean
+    timerExpiry?: boolean
+    nominationId?: string
+    price?: number
+  }
+): Promise<{ isComplete: boolean } | { conflict: string } | { error: unknown }> {
+  const { data, error } = await supabase.rpc('record_pick', {
+    p_league_id: params.leagueId,
+    p_pick_index: params.pickIndex,
+    p_captain_id: params.captainId,
+    p_player_id: params.playerId,
+    p_is_auto_pick: params.isAutoPick ?? false,
+    p_timer_expiry: params.timerExpiry ?? false,
+    p_nomination_id: params.nominationId ?? null,
+    p_price: params.price ?? null,
+  })
+
+  if (error) {
+    // P0001 = RAISE EXCEPTION from record_pick(); 23505 = pick number already taken
+    if (error.code === 'P0001') return { conflict: error.message }
+    if (error.code === '23505') return { conflict: 'Pick already made' }
+    return { error }
   }
+  return { isComplete: data as boolean }
 }
 
-/** Advance the league to the next pick, or mark complete. Uses optimistic locking. */
-export async function advanceLeague(
+/**
+ * Apply the league's consecutive-timeout policy before a timer-expiry pick
+ * (apply_timeout_policy() in migration 042). Returns the action taken when the
+ * captain's turn was skipped or the draft paused, or null when the pick should
+ * go ahead. Conflicts with another pick come back as a message for the client.
+ */
+export async function applyTimeoutPolicy(
   supabase: SupabaseClient,
-  leagueId: string,
-  currentPickIndex: number,
-  isComplete: boolean
-): Promise<{ success: boolean; error?: unknown }> {
-  const { data, error } = await supabase
-    .from('leagues')
-    .update({
-      status: isComplete ? 'completed' : 'in_progress',
-      current_pick_index: isComplete ? currentPickIndex : currentPickIndex + 1,
-      current_pick_started_at: isComplete ? null : new Date().toISOString(),
-    })
-    .eq('id', leagueId)
-    .eq('current_pick_index', currentPickIndex)
-    .select('id')
+  params: { leagueId: string; pickIndex: number; captainId: string }
+): Promise<
+  | { action: Exclude<ConsecutiveTimeoutAction, 'auto_pick'> | null }
+  | { conflict: string }
+  | { error: unknown }
+> {
+  const { data, error } = await supabase.rpc('apply_timeout_policy', {
+    p_league_id: params.leagueId,
+    p_pick_index: params.pickIndex,
+    p_captain_id: params.captainId,
+  })
 
-  if (error) return { success: false, error }
-  if (!data || data.length === 0) return { success: false }
-  return { success: true }
+  if (error) {
+    // P0001 = RAISE EXCEPTION from apply_timeout_policy()
+    if (error.code === 'P0001') return { conflict: error.message }
+    return { error }
+  }
+  return { action: data as 'skip' | 'pause' | null }
 }
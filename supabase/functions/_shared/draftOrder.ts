@@ -1,25 +1,68 @@
 /**
- * Shared draft order logic used by make-pick and auto-pick edge functions.
+ * Shared draft order logic used by make-pick, auto-pick and manage-trade edge functions.
  * NOTE: Keep in sync with getPickOrder/getCaptainAtPick in src/lib/draft.ts.
  */
 
 import type { Captain, Player } from './types.ts'
 
+export type PickOrderType = 'snake' | 'round_robin' | 'third_round_reversal' | 'custom'
+
+/** Current owner of a traded pick (pick_number is 1-based, like draft_picks). */
+export interface PickOwnershipEntry {
+  pick_number: number
+  captain_id: string
+}
+
+export interface PickOrderOptions {
+  /** Per-round captain ID order for 'custom' drafts */
+  pickOrderMatrix?: string[][] | null
+  /** Traded picks; these override the derived order */
+  pickOwnership?: PickOwnershipEntry[]
+}
+
+/** Whether the given round (0-indexed) runs in reverse draft position order. */
+export function isReversedRound(round: number, draftType: PickOrderType): boolean {
+  if (draftType === 'snake') return round % 2 === 1
+  // Third-round reversal: rounds 2 and 3 both run in reverse, then it snakes from there
+  if (draftType === 'third_round_reversal') return round === 1 || (round >= 2 && round % 2 === 0)
+  return false
+}
+
+/**
+ * Check that a custom matrix row contains every captain exactly once.
+ * Rows that don't (e.g. a captain was added or removed after the matrix was saved)
+ * fall back to draft position order.
+ */
+export function isValidRoundOrder(row: unknown, captainIds: string[]): row is string[] {
+  if (!Array.isArray(row) || row.length !== captainIds.length) return false
+  const ids = new Set(captainIds)
+  return new Set(row).size === row.length && row.every((id) => ids.has(id))
+}
+
 /** Determine which captain ID should pick at the given pick index. */
 export function getCurrentCaptainId(
   captains: Captain[],
   pickIndex: number,
-  draftType: 'snake' | 'round_robin'
+  draftType: PickOrderType,
+  { pickOrderMatrix = null, pickOwnership = [] }: PickOrderOptions = {}
 ): string | undefined {
   if (captains.length === 0) return undefined
 
+  const owner = pickOwnership.find((o) => o.pick_number === pickIndex + 1)
+  if (owner && captains.some((c) => c.id === owner.captain_id)) return owner.captain_id
+
   const sorted = [...captains].sort((a, b) => a.draft_position - b.draft_position)
   const captainIds = sorted.map((c) => c.id)
   const count = captainIds.length
   const round = Math.floor(pickIndex / count)
   const positionInRound = pickIndex % count
 
-  if (draftType === 'snake' && round % 2 === 1) {
+  if (draftType === 'custom') {
+    const row = pickOrderMatrix?.[round]
+    if (isValidRoundOrder(row, captainIds)) return row[positionInRound]
+  }
+
+  if (isReversedRound(round, draftType)) {
     return captainIds[count - 1 - positionInRound]
   }
   return captainIds[positionInRound]
@@ -27,7 +70,7 @@ export function getCurrentCaptainId(
 
 /**
  * Filter players to only those available for drafting.
- * Excludes drafted players and captain-linked players.
+ * Excludes drafted players, captain-linked players and keepers.
  * NOTE: Keep in sync with getAvailablePlayers() in src/lib/draft.ts.
  */
 export function getAvailablePlayersServer(
@@ -40,6 +83,21 @@ export function getAvailablePlayersServer(
       .map((c) => c.player_id!)
   )
   return players.filter(
-    (p) => !p.drafted_by_captain_id && !captainPlayerIds.has(p.id)
+    (p) => !p.drafted_by_captain_id && !p.keeper_captain_id && !captainPlayerIds.has(p.id)
   )
 }
+
+/**
+ * The first pick index after pickIndex with no draft_picks row. Keeper picks are
+ * filled when the draft starts, and the draft skips over them.
+ * NOTE: Keep in sync with next_open_pick_index() in supabase/migrations/030_keepers.sql.
+ */
+export function getNextOpenPickIndex(
+  pickIndex: number,
+  draftPicks: { pick_number: number }[]
+): number {
+  const filled = new Set(draftPicks.map((p) => p.pick_number - 1))
+  let next = pickIndex + 1
+  while (filled.has(next)) next++
+  return next
+}
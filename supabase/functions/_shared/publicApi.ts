@@ -0,0 +1,205 @@
+// Response schema for the public-api edge function (see docs/public-api.md).
+// Fields may be added within a version; renaming or removing one needs a new version.
+
+import type { DraftPick } from './types.ts'
+
+export const PUBLIC_API_VERSION = 'v1'
+
+export interface PublicApiCustomField {
+  name: string
+  value: string | null
+}
+
+export interface PublicApiRosterPlayer {
+  id: string
+  name: string
+  bio: string | null
+  photoUrl: string | null
+  /** null for a participating captain's own player, who isn't drafted */
+  pickNumber: number | null
+  isCaptain: boolean
+  isKeeper: boolean
+  isAutoPick: boolean
+  price: number | null
+  customFields: PublicApiCustomField[]
+}
+
+export interface PublicApiTeam {
+  id: string
+  captainName: string
+  teamName: string | null
+  teamColor: string | null
+  teamPhotoUrl: string | null
+  draftPosition: number
+  /** Auction leagues only: the total price of the players on the roster */
+  spent: number | null
+  roster: PublicApiRosterPlayer[]
+}
+
+export interface PublicApiPick {
+  pickNumber: number
+  /** null in auction leagues */
+  round: number | null
+  /** The team that made the pick; a traded player is on another team's roster */
+  teamId: string
+  playerId: string
+  playerName: string
+  isKeeper: boolean
+  isAutoPick: boolean
+  price: number | null
+  pickedAt: string
+}
+
+export interface PublicApiLeagueResponse {
+  apiVersion: typeof PUBLIC_API_VERSION
+  generatedAt: string
+  league: {
+    id: string
+    name: string
+    draftType: string
+    status: string
+    scheduledStartAt: string | null
+    /** Auction leagues only */
+    auctionBudget: number | null
+    customFields: { name: string; type: string }[]
+    createdAt: string
+    updatedAt: string
+  }
+  teams: PublicApiTeam[]
+  picks: PublicApiPick[]
+}
+
+/** The league as selected by public-api, without any tokens. */
+export interface PublicApiLeagueRow {
+  id: string
+  name: string
+  status: string
+  draft_type: string
+  auction_budget: number
+  scheduled_start_at: string | null
+  created_at: string
+  updated_at: string
+  league_field_schemas: { field_name: string; field_type: string; field_order: number }[]
+  captains: {
+    id: string
+    name: string
+    draft_position: number
+    player_id: string | null
+    is_participant: boolean
+    team_name: string | null
+    team_color: string | null
+    team_photo_url: string | null
+  }[]
+  players: {
+    id: string
+    name: string
+    bio: string | null
+    profile_picture_url: string | null
+    drafted_by_captain_id: string | null
+    player_custom_fields: { field_name: string; field_value: string | null; field_order: number }[]
+  }[]
+  draft_picks: Pick<
+    DraftPick,
+    | 'captain_id'
+    | 'player_id'
+    | 'pick_number'
+    | 'is_auto_pick'
+    | 'is_keeper'
+    | 'price'
+    | 'picked_at'
+  >[]
+}
+
+/**
+ * Builds the v1 response. Teams are in draft order, rosters and picks in pick
+ * order. Rosters follow players.drafted_by_captain_id, which trades move;
+ * draft_picks.captain_id stays with the team that made the pick.
+ */
+export function buildPublicLeagueResponse(
+  row: PublicApiLeagueRow,
+  now: Date = new Date()
+): PublicApiLeagueResponse {
+  const isAuction = row.draft_type === 'auction'
+  const captains = [...row.captains].sort((a, b) => a.draft_position - b.draft_position)
+  const picks = [...row.draft_picks].sort((a, b) => a.pick_number - b.pick_number)
+  const playersById = new Map(row.players.map((p) => [p.id, p]))
+  const picksByPlayerId = new Map(picks.map((p) => [p.player_id, p]))
+
+  function toRosterPlayer(
+    playerId: string,
+    pick: PublicApiLeagueRow['draft_picks'][number] | null,
+    isCaptain = false
+  ): PublicApiRosterPlayer | null {
+    const player = playersById.get(playerId)
+    if (!player) return null
+    return {
+      id: player.id,
+      name: player.name,
+      bio: player.bio,
+      photoUrl: player.profile_picture_url,
+      pickNumber: pick?.pick_number ?? null,
+      isCaptain,
+      isKeeper: pick?.is_keeper ?? false,
+      isAutoPick: pick?.is_auto_pick ?? false,
+      price: pick?.price ?? null,
+      customFields: [...player.player_custom_fields]
+        .sort((a, b) => a.field_order - b.field_order)
+        .map((f) => ({ name: f.field_name, value: f.field_value })),
+    }
+  }
+
+  const teams = captains.map((captain): PublicApiTeam => {
+    const drafted = row.players
+      .filter((p) => p.drafted_by_captain_id === captain.id)
+      .map((p) => toRosterPlayer(p.id, picksByPlayerId.get(p.id) ?? null))
+      .filter((p): p is PublicApiRosterPlayer => p !== null)
+      .sort((a, b) => (a.pickNumber ?? Infinity) - (b.pickNumber ?? Infinity))
+    const captainPlayer =
+      captain.is_participant && captain.player_id
+        ? toRosterPlayer(captain.player_id, null, true)
+        : null
+    const roster = captainPlayer ? [captainPlayer, ...drafted] : drafted
+
+    return {
+      id: captain.id,
+      captainName: captain.name,
+      teamName: captain.team_name,
+      teamColor: captain.team_color,
+      teamPhotoUrl: captain.team_photo_url,
+      draftPosition: captain.draft_position,
+      spent: isAuction ? drafted.reduce((sum, p) => sum + (p.price ?? 0), 0) : null,
+      roster,
+    }
+  })
+
+  return {
+    apiVersion: PUBLIC_API_VERSION,
+    generatedAt: now.toISOString(),
+    league: {
+      id: row.id,
+      name: row.name,
+      draftType: row.draft_type,
+      status: row.status,
+      scheduledStartAt: row.scheduled_start_at,
+      auctionBudget: isAuction ? row.auction_budget : null,
+      customFields: [...row.league_field_schemas]
+        .sort((a, b) => a.field_order - b.field_order)
+        .map((f) => ({ name: f.field_name, type: f.field_type })),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    },
+    teams,
+    picks: picks.map((pick) => ({
+      pickNumber: pick.pick_number,
+      round:
+        isAuction || captains.length === 0 ? null : Math.ceil(pick.pick_number / captains.length),
+      teamId: pick.captain_id,
+      playerId: pick.player_id,
+      playerName: playersById.get(pick.player_id)?.name ?? 'Unknown player',
+      isKeeper: pick.is_keeper,
+      isAutoPick: pick.is_auto_pick,
+      price: pick.price,
+      pickedAt: pick.picked_at,
+    })),
+  }
+}
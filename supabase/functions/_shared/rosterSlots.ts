@@ -0,0 +1,57 @@
+/**
+ * Shared roster slot logic used by make-pick and auto-pick edge functions.
+ * NOTE: Keep pure helpers in sync with src/lib/rosterSlots.ts.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/** Maximum players per position, keyed by dropdown option. */
+export type RosterSlots = Record<string, number>
+
+/** Count how many of a team's players are at each position. */
+export function getPositionCounts(
+  rosterPlayerIds: string[],
+  positions: Map<string, string>
+): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const playerId of rosterPlayerIds) {
+    const position = positions.get(playerId)
+    if (position) counts.set(position, (counts.get(position) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Whether a team can draft a player without going over its slots for the
+ * player's position. Unlisted positions and players without one always fit.
+ */
+export function fitsRosterSlots(
+  slots: RosterSlots | null,
+  positions: Map<string, string>,
+  rosterPlayerIds: string[],
+  playerId: string
+): boolean {
+  if (!slots) return true
+  const position = positions.get(playerId)
+  if (!position || slots[position] === undefined) return true
+  return (getPositionCounts(rosterPlayerIds, positions).get(position) ?? 0) < slots[position]
+}
+
+/** Load each player's value for the league's roster slot field. */
+export async function loadPlayerPositions(
+  supabase: SupabaseClient,
+  schemaId: string
+): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('player_custom_fields')
+    .select('player_id, field_value')
+    .eq('schema_id', schemaId)
+
+  if (error) throw error
+
+  const positions = new Map<string, string>()
+  for (const row of data ?? []) {
+    if (row.field_value) positions.set(row.player_id, row.field_value)
+  }
+  return positions
+}
@@ -1,6 +1,15 @@
 // Shared type definitions for edge functions.
 // These mirror database entities used across multiple functions.
 
+/** How auto-pick chooses a player once the captain's queue is empty. */
+export type AutoPickStrategy =
+  | { type: 'random' }
+  | { type: 'best_field'; fieldId: string; order: 'highest' | 'lowest' }
+  | { type: 'balance'; fieldIds: string[] }
+
+/** What happens when a captain reaches the league's consecutive-timeout limit. */
+export type ConsecutiveTimeoutAction = 'auto_pick' | 'skip' | 'pause'
+
 export interface Captain {
   id: string
   league_id: string
@@ -10,10 +19,14 @@ export interface Captain {
   access_token: string
   auto_pick_enabled: boolean
   consecutive_timeout_picks: number
+  time_bank_remaining_seconds: number | null
+  timeouts_used: number
+  auto_pick_strategy: AutoPickStrategy | null
   team_color: string | null
   team_name: string | null
   team_photo_url: string | null
   is_participant: boolean
+  is_ready: boolean
   created_at: string
 }
 
@@ -23,6 +36,9 @@ export interface Player {
   name: string
   drafted_by_captain_id: string | null
   draft_pick_number: number | null
+  keeper_captain_id: string | null
+  keeper_round: number | null
+  board_rank: number | null
   bio: string | null
   profile_picture_url: string | null
   edit_token: string
@@ -36,9 +52,45 @@ export interface DraftPick {
   player_id: string
   pick_number: number
   is_auto_pick: boolean
+  is_keeper: boolean
+  price: number | null
+  // Player picked before the first correction; null if never corrected
+  original_player_id: string | null
   picked_at: string
 }
 
+export interface AuctionNomination {
+  id: string
+  league_id: string
+  player_id: string
+  nominated_by_captain_id: string
+  current_bid: number
+  current_bidder_id: string
+  status: 'open' | 'sold'
+  pick_number: number | null
+  created_at: string
+}
+
+export type TradeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'vetoed'
+
+export interface Trade {
+  id: string
+  league_id: string
+  proposer_captain_id: string
+  recipient_captain_id: string
+  status: TradeStatus
+  created_at: string
+  resolved_at: string | null
+}
+
+export interface TradeItem {
+  id: string
+  trade_id: string
+  from_captain_id: string
+  pick_number: number | null
+  player_id: string | null
+}
+
 export interface League {
   id: string
   name: string
@@ -48,6 +100,24 @@ export interface League {
   current_pick_index: number
   current_pick_started_at: string | null
   time_limit_seconds: number
+  timer_mode: 'per_pick' | 'time_bank'
+  time_bank_seconds: number
+  time_bank_increment_seconds: number
+  timeouts_per_captain: number
+  timeout_seconds: number
+  current_pick_extension_seconds: number
+  auction_budget: number
+  pick_order_matrix: string[][] | null
+  roster_slot_schema_id: string | null
+  roster_slots: Record<string, number> | null
+  auto_pick_strategy: AutoPickStrategy | null
+  disconnect_auto_pick_seconds: number | null
+  consecutive_timeout_limit: number | null
+  consecutive_timeout_action: ConsecutiveTimeoutAction
+  consecutive_timeout_notify: boolean
+  require_ready_check: boolean
+  auto_start_when_ready: boolean
+  pick_ownership: { pick_number: number; captain_id: string }[]
   spectator_token: string
   captains: Captain[]
   players: Player[]
@@ -68,6 +138,11 @@ export interface AutoPickRequest {
   spectatorToken?: string
 }
 
+export interface SendPushRequest {
+  leagueId: string
+  pickIndex: number
+}
+
 export interface ToggleAutoPickRequest {
   captainId: string
   enabled: boolean
@@ -75,6 +150,25 @@ export interface ToggleAutoPickRequest {
   leagueId: string
 }
 
+export interface CallTimeoutRequest {
+  leagueId: string
+  captainId: string
+  captainToken?: string
+}
+
+export interface RewindDraftRequest {
+  leagueId: string
+  // Last pick to keep; 0 rewinds to the start of the draft
+  pickNumber: number
+  restoreQueues?: boolean
+}
+
+export interface CorrectPickRequest {
+  leagueId: string
+  pickId: string
+  playerId: string
+}
+
 export interface UpdateCaptainColorRequest {
   captainId: string
   captainToken?: string
@@ -83,6 +177,7 @@ export interface UpdateCaptainColorRequest {
   teamName?: string | null
   teamPhotoUrl?: string | null
   teamPhotoBlob?: string // base64-encoded JPEG for captain-side uploads
+  autoPickStrategy?: AutoPickStrategy | null // null uses the league's strategy
 }
 
 export interface UpdatePlayerProfileRequest {
@@ -118,3 +213,34 @@ export interface ManageDraftQueueRequest {
   // For 'reorder' — array of entry IDs in desired order
   entryIds?: string[]
 }
+
+export interface ManageAuctionRequest {
+  action: 'nominate' | 'bid'
+  leagueId: string
+  captainId: string
+  captainToken?: string
+  amount: number
+  // For 'nominate'
+  playerId?: string
+  // For 'bid' — guards against bidding on a player that was already sold
+  nominationId?: string
+}
+
+export interface TradeItemInput {
+  fromCaptainId: string
+  pickNumber?: number
+  playerId?: string
+}
+
+export interface ManageTradeRequest {
+  action: 'propose' | 'accept' | 'decline' | 'cancel' | 'veto'
+  leagueId: string
+  // Acting captain (not needed for 'veto', which is manager-only)
+  captainId?: string
+  captainToken?: string
+  // For 'propose'
+  recipientCaptainId?: string
+  items?: TradeItemInput[]
+  // For everything except 'propose'
+  tradeId?: string
+}
@@ -0,0 +1,156 @@
+/**
+ * Chat formats for webhook deliveries, used by deliver-webhooks.
+ * NOTE: Keep in sync with src/lib/webhookFormats.ts (the preview in WebhooksCard).
+ */
+
+export type WebhookEvent =
+  | 'pick_made'
+  | 'auto_pick_made'
+  | 'draft_started'
+  | 'draft_paused'
+  | 'draft_resumed'
+  | 'draft_completed'
+  | 'draft_restarted'
+
+export type WebhookFormat = 'raw' | 'slack' | 'discord'
+
+/** The queued event (webhook_deliveries.payload, migration 047) plus the delivery id. */
+export interface WebhookEventPayload {
+  id?: string
+  event: WebhookEvent
+  occurredAt: string
+  league: { id: string; name: string }
+  pickNumber: number | null
+  captain: {
+    id: string
+    name: string
+    teamName: string | null
+    teamColor: string | null
+    teamPhotoUrl: string | null
+  } | null
+  player: {
+    id: string
+    name: string
+    photoUrl: string | null
+    customFields: { name: string; value: string | null }[]
+  } | null
+}
+
+export interface WebhookFormatOptions {
+  includeCustomFields: boolean
+}
+
+/** Discord's limit on fields per embed. */
+const MAX_DISCORD_FIELDS = 25
+
+function getTeamColor(payload: WebhookEventPayload): string | null {
+  const color = payload.captain?.teamColor
+  return color && /^#[0-9a-f]{6}$/i.test(color) ? color : null
+}
+
+function getCustomFields(payload: WebhookEventPayload, options: WebhookFormatOptions) {
+  if (!options.includeCustomFields || !payload.player) return []
+  return payload.player.customFields.filter((f) => f.value !== null && f.value !== '')
+}
+
+/** One sentence about the event, with names wrapped by `bold` (markup differs per platform). */
+export function describeWebhookEvent(
+  payload: WebhookEventPayload,
+  bold: (text: string) => string = (text) => text
+): string {
+  const team = payload.captain ? bold(payload.captain.teamName || payload.captain.name) : 'A team'
+  const player = payload.player ? bold(payload.player.name) : 'a player'
+  const pick = payload.pickNumber !== null ? ` with pick ${payload.pickNumber}` : ''
+
+  switch (payload.event) {
+    case 'pick_made':
+      return `${team} drafted ${player}${pick}`
+    case 'auto_pick_made':
+      return `${team} auto-drafted ${player}${pick}`
+    case 'draft_started':
+      return 'The draft has started'
+    case 'draft_paused':
+      return 'The draft is paused'
+    case 'draft_resumed':
+      return 'The draft has resumed'
+    case 'draft_completed':
+      return 'The draft is complete'
+    case 'draft_restarted':
+      return 'The draft was restarted'
+  }
+}
+
+function formatSlack(payload: WebhookEventPayload, options: WebhookFormatOptions) {
+  const text = describeWebhookEvent(payload, (t) => `*${t}*`)
+  const fields = getCustomFields(payload, options)
+  const photoUrl = payload.player?.photoUrl
+  const color = getTeamColor(payload)
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text },
+      ...(photoUrl && {
+        accessory: { type: 'image', image_url: photoUrl, alt_text: payload.player!.name },
+      }),
+    },
+  ]
+  if (fields.length > 0) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: fields.map((f) => `${f.name}: ${f.value}`).join(' · ') }],
+    })
+  }
+
+  // `text` is the notification fallback; the attachment carries the team color
+  return {
+    text: `${payload.league.name}: ${describeWebhookEvent(payload)}`,
+    attachments: [{ ...(color && { color }), blocks }],
+  }
+}
+
+function formatDiscord(payload: WebhookEventPayload, options: WebhookFormatOptions) {
+  const fields = getCustomFields(payload, options).slice(0, MAX_DISCORD_FIELDS)
+  const color = getTeamColor(payload)
+  const captain = payload.captain
+
+  return {
+    embeds: [
+      {
+        title: payload.league.name,
+        description: describeWebhookEvent(payload, (t) => `**${t}**`),
+        timestamp: payload.occurredAt,
+        ...(color && { color: parseInt(color.slice(1), 16) }),
+        ...(captain && {
+          author: {
+            name: captain.teamName || captain.name,
+            ...(captain.teamPhotoUrl && { icon_url: captain.teamPhotoUrl }),
+          },
+        }),
+        ...(payload.player?.photoUrl && { thumbnail: { url: payload.player.photoUrl } }),
+        ...(fields.length > 0 && {
+          fields: fields.map((f) => ({ name: f.name, value: f.value, inline: true })),
+        }),
+      },
+    ],
+  }
+}
+
+/** The request body for a delivery in the webhook's format. */
+export function formatWebhookBody(
+  format: WebhookFormat,
+  payload: WebhookEventPayload,
+  options: WebhookFormatOptions
+): Record<string, unknown> {
+  switch (format) {
+    case 'slack':
+      return formatSlack(payload, options)
+    case 'discord':
+      return formatDiscord(payload, options)
+    case 'raw': {
+      if (!payload.player || options.includeCustomFields) return { ...payload }
+      const { customFields: _customFields, ...player } = payload.player
+      return { ...payload, player }
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Signing and retry policy for outbound league webhooks (deliver-webhooks).
+ * NOTE: The signature format is documented to managers in WebhooksCard
+ * (src/components/league/WebhooksCard.tsx); keep them in sync.
+ */
+
+/** Attempts per delivery before it's marked failed. */
+export const WEBHOOK_MAX_ATTEMPTS = 6
+
+/** Seconds to wait after a failed attempt: 1 min, 5 min, 30 min, 2 h, 6 h. */
+const RETRY_DELAYS_SECONDS = [60, 300, 1800, 7200, 21600]
+
+/** Delay before the next attempt, or null when `attempts` used the last one. */
+export function getWebhookRetryDelaySeconds(attempts: number): number | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) return null
+  return RETRY_DELAYS_SECONDS[Math.min(attempts, RETRY_DELAYS_SECONDS.length) - 1]
+}
+
+/**
+ * The X-Draft-Room-Signature header value: `t=<unix seconds>,v1=<hex>` where
+ * v1 is HMAC-SHA256 of `<t>.<body>` keyed with the webhook's secret. Signing
+ * the timestamp lets receivers reject replays.
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  const hex = Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, '0')).join('')
+  return `t=${timestamp},v1=${hex}`
+}
+
+/**
+ * Hosts a webhook must not point at: loopback, private and link-local
+ * addresses (including the cloud metadata endpoint) and internal names.
+ * Takes a URL hostname or a resolved address; deliver-webhooks also checks
+ * every address a name resolves to.
+ */
+export function isPrivateWebhookHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    return true
+  }
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1, or ::ffff:a00:1 as URLs write it)
+  const mapped = host.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/)
+  if (mapped) {
+    if (mapped[1]) return isPrivateWebhookHost(mapped[1])
+    const high = parseInt(mapped[2], 16)
+    const low = parseInt(mapped[3], 16)
+    return isPrivateWebhookHost(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+  }
+  // IPv6 loopback, unique local (fc00::/7) and link-local (fe80::/10)
+  if (host.includes(':')) {
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host)
+  }
+  const octets = host.split('.').map(Number)
+  if (octets.length !== 4 || octets.some((o) => !Number.isInteger(o))) return false
+  const [a, b] = octets
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127)
+  )
+}
+
+/** Whether a URL hostname is an IPv4 or IPv6 address rather than a name. */
+export function isIpLiteralHost(hostname: string): boolean {
+  return hostname.includes(':') || /^\d+\.\d+\.\d+\.\d+$/.test(hostname)
+}
@@ -1,6 +1,8 @@
 // Supabase Edge Function for auto-pick
 // - Called immediately when captain has auto_pick_enabled
 // - Called when timer expires for captains without auto_pick_enabled
+// - Accepted early for captains whose connection dropped (disconnect_auto_pick_seconds)
+// - Skips the turn or pauses the draft instead when the league's consecutive-timeout policy says so
 // Deploy with: supabase functions deploy auto-pick
 
 import { getCorsHeaders, handleCors } from '../_shared/cors.ts'
@@ -16,8 +18,41 @@ import { rateLimit } from '../_shared/rateLimit.ts'
 import { logAudit, getClientIp } from '../_shared/audit.ts'
 import { authenticateManager } from '../_shared/auth.ts'
 import { getCurrentCaptainId, getAvailablePlayersServer } from '../_shared/draftOrder.ts'
-import { rollbackPick, advanceLeague } from '../_shared/draftHelpers.ts'
-import type { AutoPickRequest, Captain, Player, League } from '../_shared/types.ts'
+import type { PickOrderType } from '../_shared/draftOrder.ts'
+import {
+  recordPick,
+  getPickTimeLimit,
+  isCaptainDisconnected,
+  applyTimeoutPolicy,
+} from '../_shared/draftHelpers.ts'
+import {
+  AUCTION_MIN_BID,
+  getAuctionRosterSize,
+  getRosterCounts,
+  getCaptainSpend,
+  getMaxBid,
+  getNominatingCaptainId,
+  isBiddingClosed,
+  loadAuctionPicks,
+  getOpenNomination,
+  openNomination,
+  sellNomination,
+} from '../_shared/auction.ts'
+import { fitsRosterSlots, loadPlayerPositions } from '../_shared/rosterSlots.ts'
+import {
+  chooseByStrategy,
+  getStrategyFieldIds,
+  loadFieldValues,
+  resolveAutoPickStrategy,
+} from '../_shared/autoPickStrategy.ts'
+import { chooseFromBoard } from '../_shared/bigBoard.ts'
+import type {
+  AutoPickRequest,
+  AutoPickStrategy,
+  Captain,
+  Player,
+  League,
+} from '../_shared/types.ts'
 import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
 /**
@@ -32,12 +67,17 @@ function raceConditionResponse(req: Request, body: Record<string, unknown>): Res
   })
 }
 
-/** Validate that the timer has expired (with grace period). Skips check for auto-pick captains. */
+/**
+ * Validate that the timer has expired (with grace period). Skips check for auto-pick
+ * captains and captains whose connection has dropped.
+ * In time bank leagues the captain's remaining bank is the limit.
+ */
 function validateTimer(
   league: League,
-  captain: Captain | undefined
+  captain: Captain | undefined,
+  disconnected = false
 ): { expired: true } | { error: Record<string, unknown> } {
-  if (captain?.auto_pick_enabled) {
+  if (captain?.auto_pick_enabled || disconnected) {
     return { expired: true }
   }
 
@@ -45,7 +85,7 @@ function validateTimer(
   if (league.current_pick_started_at) {
     const startTime = new Date(league.current_pick_started_at).getTime()
     const elapsed = (Date.now() - startTime) / 1000
-    const effectiveTimeLimit = league.time_limit_seconds - GRACE_PERIOD_SECONDS
+    const effectiveTimeLimit = getPickTimeLimit(league, captain) - GRACE_PERIOD_SECONDS
 
     if (elapsed < effectiveTimeLimit) {
       return {
@@ -60,12 +100,25 @@ function validateTimer(
   return { expired: true }
 }
 
-/** Select a player from the captain's queue, or pick randomly. */
+/**
+ * Select a player from the captain's queue, then with their auto-pick strategy,
+ * then from the manager's big board, then at random. Players that would go over a roster slot limit are skipped,
+ * unless none fit.
+ */
 async function selectPlayer(
   supabase: SupabaseClient,
   captainId: string,
-  availablePlayers: Player[]
-): Promise<{ player: Player; fromQueue: boolean }> {
+  availablePlayers: Player[],
+  {
+    strategy = { type: 'random' },
+    rosterPlayerIds = [],
+    fits = () => true,
+  }: {
+    strategy?: AutoPickStrategy
+    rosterPlayerIds?: string[]
+    fits?: (playerId: string) => boolean
+  } = {}
+): Promise<{ player: Player; fromQueue: boolean; fromStrategy: boolean; fromBoard: boolean }> {
   const availableIds = new Set(availablePlayers.map((p) => p.id))
 
   const { data: queue } = await supabase
@@ -76,16 +129,214 @@ async function selectPlayer(
 
   if (queue && queue.length > 0) {
     for (const entry of queue) {
-      if (availableIds.has(entry.player_id)) {
+      if (availableIds.has(entry.player_id) && fits(entry.player_id)) {
         const player = availablePlayers.find((p) => p.id === entry.player_id)!
-        return { player, fromQueue: true }
+        return { player, fromQueue: true, fromStrategy: false, fromBoard: false }
       }
     }
   }
 
-  const randomIndex = Math.floor(Math.random() * availablePlayers.length)
-  const player = availablePlayers[randomIndex]
-  return { player, fromQueue: false }
+  const fittingPlayers = availablePlayers.filter((p) => fits(p.id))
+  const candidates = fittingPlayers.length > 0 ? fittingPlayers : availablePlayers
+
+  const fieldIds = getStrategyFieldIds(strategy)
+  if (fieldIds.length > 0) {
+    const values = await loadFieldValues(supabase, fieldIds)
+    const chosenId = chooseByStrategy(
+      strategy,
+      candidates.map((p) => p.id),
+      values,
+      rosterPlayerIds
+    )
+    const player = candidates.find((p) => p.id === chosenId)
+    if (player) return { player, fromQueue: false, fromStrategy: true, fromBoard: false }
+  }
+
+  const boardPlayer = chooseFromBoard(candidates)
+  if (boardPlayer) {
+    return { player: boardPlayer, fromQueue: false, fromStrategy: false, fromBoard: true }
+  }
+
+  const randomIndex = Math.floor(Math.random() * candidates.length)
+  const player = candidates[randomIndex]
+  return { player, fromQueue: false, fromStrategy: false, fromBoard: false }
+}
+
+/** Players already on the captain's team. */
+function getRosterPlayerIds(league: League, captainId: string): string[] {
+  return league.players.filter((p) => p.drafted_by_captain_id === captainId).map((p) => p.id)
+}
+
+/** Build a roster slot check for the captain, or undefined when the league has no slots. */
+async function getRosterSlotCheck(
+  supabase: SupabaseClient,
+  league: League,
+  captainId: string
+): Promise<((playerId: string) => boolean) | undefined> {
+  if (!league.roster_slot_schema_id || !league.roster_slots) return undefined
+
+  const positions = await loadPlayerPositions(supabase, league.roster_slot_schema_id)
+  const rosterPlayerIds = getRosterPlayerIds(league, captainId)
+  return (playerId) => fitsRosterSlots(league.roster_slots, positions, rosterPlayerIds, playerId)
+}
+
+/**
+ * Resolve an expired auction clock: sell the player on the block to the high
+ * bidder, or nominate on behalf of the captain whose turn it is.
+ */
+async function resolveAuctionClock(
+  req: Request,
+  supabase: SupabaseClient,
+  league: League
+): Promise<Response> {
+  const picks = await loadAuctionPicks(supabase, league.id)
+  const availablePlayers = getAvailablePlayersServer(league.players, league.captains)
+  const rosterSize = getAuctionRosterSize(
+    availablePlayers.length + picks.length,
+    league.captains.length
+  )
+  const rosterCounts = getRosterCounts(picks)
+  const nomination = await getOpenNomination(supabase, league.id)
+  const headers = { ...getCorsHeaders(req), 'Content-Type': 'application/json' }
+
+  if (nomination) {
+    // Bidding always runs the full countdown, even for auto-pick captains. No
+    // grace period: the sale uses the same cutoff as manage-auction's bids.
+    if (!isBiddingClosed(league)) {
+      return raceConditionResponse(req, {
+        error: 'Timer has not expired yet',
+        required: league.time_limit_seconds,
+      })
+    }
+
+    const result = await sellNomination(supabase, {
+      leagueId: league.id,
+      nomination,
+      pickIndex: league.current_pick_index,
+    })
+    if (!result.success) {
+      if (result.raceCondition) {
+        return raceConditionResponse(req, { error: 'Pick already made' })
+      }
+      return errorResponse('Failed to record auction sale', 500, req)
+    }
+    const { isComplete } = result
+
+    const player = league.players.find((p: Player) => p.id === nomination.player_id)
+    const winner = league.captains.find((c: Captain) => c.id === nomination.current_bidder_id)
+
+    logAudit(supabase, {
+      action: 'auction_won',
+      leagueId: league.id,
+      actorType: 'system',
+      metadata: {
+        pickNumber: result.pickNumber,
+        nominationId: nomination.id,
+        playerId: nomination.player_id,
+        playerName: player?.name,
+        captainId: nomination.current_bidder_id,
+        captainName: winner?.name,
+        price: nomination.current_bid,
+        isComplete,
+      },
+      ipAddress: getClientIp(req),
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        auction: 'sold',
+        pick: {
+          player: player?.name,
+          captain: winner?.name,
+          pickNumber: result.pickNumber,
+          price: nomination.current_bid,
+          isComplete,
+        },
+      }),
+      { headers }
+    )
+  }
+
+  const nominatorId = getNominatingCaptainId(
+    league.captains,
+    league.current_pick_index,
+    rosterCounts,
+    rosterSize
+  )
+  const nominator = league.captains.find((c: Captain) => c.id === nominatorId)
+  if (!nominator) {
+    return errorResponse('No captain can nominate', 400, req)
+  }
+
+  const timerResult = validateTimer(league, nominator)
+  if ('error' in timerResult) {
+    return raceConditionResponse(req, timerResult.error)
+  }
+
+  if (availablePlayers.length === 0) {
+    return errorResponse('No available players', 400, req)
+  }
+
+  const maxBid = getMaxBid(
+    league.auction_budget,
+    getCaptainSpend(picks, nominator.id),
+    rosterCounts.get(nominator.id) ?? 0,
+    rosterSize
+  )
+  if (maxBid < AUCTION_MIN_BID) {
+    return errorResponse('Nominating captain has no budget left', 400, req)
+  }
+
+  const strategy = resolveAutoPickStrategy(league, nominator)
+  const { player, fromQueue, fromStrategy, fromBoard } = await selectPlayer(
+    supabase,
+    nominator.id,
+    availablePlayers,
+    { strategy, rosterPlayerIds: getRosterPlayerIds(league, nominator.id) }
+  )
+  const result = await openNomination(supabase, {
+    leagueId: league.id,
+    playerId: player.id,
+    captainId: nominator.id,
+    amount: AUCTION_MIN_BID,
+    pickIndex: league.current_pick_index,
+  })
+  if ('error' in result) {
+    if (result.status === 409) {
+      return raceConditionResponse(req, { error: 'Pick already made' })
+    }
+    return errorResponse(result.error, result.status, req)
+  }
+
+  logAudit(supabase, {
+    action: 'auction_nominated',
+    leagueId: league.id,
+    actorType: 'system',
+    metadata: {
+      nominationId: result.nomination.id,
+      playerId: player.id,
+      playerName: player.name,
+      captainId: nominator.id,
+      captainName: nominator.name,
+      amount: AUCTION_MIN_BID,
+      fromQueue,
+      strategy: strategy.type,
+      fromStrategy,
+      fromBoard,
+      timerExpiry: !nominator.auto_pick_enabled,
+    },
+    ipAddress: getClientIp(req),
+  })
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      auction: 'nominated',
+      pick: { player: player.name, captain: nominator.name, price: AUCTION_MIN_BID },
+    }),
+    { headers }
+  )
 }
 
 Deno.serve(async (req) => {
@@ -124,7 +375,7 @@ Deno.serve(async (req) => {
     const { data: league, error: leagueError } = await supabaseAdmin
       .from('leagues')
       .select(
-        'id, status, draft_type, current_pick_index, current_pick_started_at, time_limit_seconds, spectator_token, captains(id, name, draft_position, player_id, access_token, auto_pick_enabled, consecutive_timeout_picks), players(id, name, drafted_by_captain_id)'
+        'id, status, draft_type, pick_order_matrix, current_pick_index, current_pick_started_at, time_limit_seconds, timer_mode, time_bank_seconds, current_pick_extension_seconds, auction_budget, roster_slot_schema_id, roster_slots, auto_pick_strategy, disconnect_auto_pick_seconds, consecutive_timeout_limit, consecutive_timeout_action, spectator_token, captains(id, name, draft_position, player_id, access_token, auto_pick_enabled, consecutive_timeout_picks, auto_pick_strategy, time_bank_remaining_seconds), players(id, name, drafted_by_captain_id, keeper_captain_id, board_rank), pick_ownership(pick_number, captain_id)'
       )
       .eq('id', leagueId)
       .single()
@@ -154,12 +405,13 @@ Deno.serve(async (req) => {
     const currentCaptainId = getCurrentCaptainId(
       league.captains,
       league.current_pick_index,
-      league.draft_type as 'snake' | 'round_robin'
+      league.draft_type as PickOrderType,
+      { pickOrderMatrix: league.pick_order_matrix, pickOwnership: league.pick_ownership }
     )
     const currentCaptain = league.captains.find((c: Captain) => c.id === currentCaptainId)
 
     // Track whether auto-pick was already enabled before this call.
-    // Timer-expiry calls (captain didn't have auto-pick on) increment the timeout counter.
+    // Timer-expiry calls (captain didn't have auto-pick on) count towards the league's timeout policy.
     const captainHadAutoPickEnabled = currentCaptain?.auto_pick_enabled ?? false
 
     // Auth: server callback secret, any captain token, spectator token, OR manager JWT.
@@ -188,8 +440,20 @@ Deno.serve(async (req) => {
       if (authResult instanceof Response) return authResult
     }
 
+    // Auction drafts resolve the clock with a nomination or a sale instead of a pick
+    if (league.draft_type === 'auction') {
+      return await resolveAuctionClock(req, supabaseAdmin, league as League)
+    }
+
+    // A captain with no heartbeat for the league's disconnect delay is auto-picked
+    // for this turn without counting a timeout
+    const disconnected =
+      !captainHadAutoPickEnabled &&
+      !!currentCaptainId &&
+      (await isCaptainDisconnected(supabaseAdmin, league as League, currentCaptainId))
+
     // Timer validation
-    const timerResult = validateTimer(league as League, currentCaptain)
+    const timerResult = validateTimer(league as League, currentCaptain, disconnected)
     if ('error' in timerResult) {
       return raceConditionResponse(req, timerResult.error)
     }
@@ -201,91 +465,78 @@ Deno.serve(async (req) => {
       return errorResponse('No available players', 400, req)
     }
 
-    // Select player (from queue or random)
-    const { player: selectedPlayer, fromQueue: selectedFromQueue } = await selectPlayer(
-      supabaseAdmin,
-      currentCaptainId!,
-      availablePlayers
-    )
-
     const pickNumber = league.current_pick_index + 1
-
-    // Insert draft pick
-    const { error: pickError } = await supabaseAdmin.from('draft_picks').insert({
-      league_id: leagueId,
-      captain_id: currentCaptainId,
-      player_id: selectedPlayer.id,
-      pick_number: pickNumber,
-      is_auto_pick: true,
-    })
-
-    if (pickError) {
-      if (pickError.code === '23505') {
-        return raceConditionResponse(req, { error: 'Pick already made', pickNumber })
+    const timerExpiry = !captainHadAutoPickEnabled && !disconnected
+
+    // A captain at the league's consecutive-timeout limit may have their turn
+    // skipped or the draft paused instead of a pick
+    if (timerExpiry) {
+      const policy = await applyTimeoutPolicy(supabaseAdmin, {
+        leagueId,
+        pickIndex: league.current_pick_index,
+        captainId: currentCaptainId!,
+      })
+      if ('conflict' in policy) {
+        return raceConditionResponse(req, { error: policy.conflict, pickNumber })
+      }
+      if ('error' in policy) throw policy.error
+
+      if (policy.action) {
+        logAudit(supabaseAdmin, {
+          action: 'timeout_policy_applied',
+          leagueId,
+          actorType: 'system',
+          metadata: {
+            pickNumber,
+            captainId: currentCaptainId,
+            captainName: currentCaptain?.name,
+            policyAction: policy.action,
+            timeouts: (currentCaptain?.consecutive_timeout_picks ?? 0) + 1,
+          },
+          ipAddress: getClientIp(req),
+        })
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            timeoutPolicy: policy.action,
+            pick: { captain: currentCaptain?.name, pickNumber },
+          }),
+          { headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+        )
       }
-      throw pickError
-    }
-
-    // Update player
-    const { error: playerError } = await supabaseAdmin
-      .from('players')
-      .update({ drafted_by_captain_id: currentCaptainId, draft_pick_number: pickNumber })
-      .eq('id', selectedPlayer.id)
-
-    if (playerError) {
-      console.error('[auto-pick] Failed to update player, rolling back pick:', playerError)
-      await rollbackPick(supabaseAdmin, leagueId, pickNumber, selectedPlayer.id, false)
-      throw playerError
-    }
-
-    // Clean up: Remove picked player from ALL captain queues
-    const { error: cleanupError } = await supabaseAdmin
-      .from('captain_draft_queues')
-      .delete()
-      .eq('player_id', selectedPlayer.id)
-
-    if (cleanupError) {
-      console.error('[auto-pick] Queue cleanup error:', cleanupError)
     }
 
-    // Check completion and advance
-    const isComplete = availablePlayers.length === 1
+    // Select player (from queue, by strategy, from the big board or random), respecting roster slots
+    const strategy = resolveAutoPickStrategy(league, currentCaptain)
+    const {
+      player: selectedPlayer,
+      fromQueue: selectedFromQueue,
+      fromStrategy: selectedFromStrategy,
+      fromBoard: selectedFromBoard,
+    } = await selectPlayer(supabaseAdmin, currentCaptainId!, availablePlayers, {
+      strategy,
+      rosterPlayerIds: getRosterPlayerIds(league as League, currentCaptainId!),
+      fits: await getRosterSlotCheck(supabaseAdmin, league as League, currentCaptainId!),
+    })
 
-    const advanceResult = await advanceLeague(
-      supabaseAdmin,
+    // Record the pick and advance in one transaction. Timer-expiry picks (captain
+    // didn't have auto-pick on and is still connected) count towards the league's
+    // consecutive-timeout limit.
+    const result = await recordPick(supabaseAdmin, {
       leagueId,
-      league.current_pick_index,
-      isComplete
-    )
-
-    if (!advanceResult.success) {
-      if (advanceResult.error) {
-        console.error('[auto-pick] Failed to update league, rolling back:', advanceResult.error)
-      } else {
-        console.error(`[auto-pick] Optimistic lock failed: current_pick_index changed since read`)
-      }
-      await rollbackPick(supabaseAdmin, leagueId, pickNumber, selectedPlayer.id, true)
-      if (advanceResult.error) throw advanceResult.error
-      return raceConditionResponse(req, { error: 'Draft state changed concurrently' })
-    }
+      pickIndex: league.current_pick_index,
+      captainId: currentCaptainId!,
+      playerId: selectedPlayer.id,
+      isAutoPick: true,
+      timerExpiry,
+    })
 
-    // Track consecutive timeouts: if captain didn't have auto-pick enabled,
-    // this was a timer-expiry pick. Increment counter; at threshold, auto-enable auto-pick.
-    const CONSECUTIVE_TIMEOUT_THRESHOLD = 2
-    if (!captainHadAutoPickEnabled && currentCaptainId) {
-      const newCount = (currentCaptain?.consecutive_timeout_picks ?? 0) + 1
-      const updates: Record<string, unknown> = { consecutive_timeout_picks: newCount }
-      if (newCount >= CONSECUTIVE_TIMEOUT_THRESHOLD) {
-        updates.auto_pick_enabled = true
-      }
-      const { error: timeoutUpdateError } = await supabaseAdmin
-        .from('captains')
-        .update(updates)
-        .eq('id', currentCaptainId)
-      if (timeoutUpdateError) {
-        console.error('[auto-pick] Failed to update timeout counter:', timeoutUpdateError)
-      }
+    if ('conflict' in result) {
+      return raceConditionResponse(req, { error: result.conflict, pickNumber })
     }
+    if ('error' in result) throw result.error
+    const { isComplete } = result
 
     logAudit(supabaseAdmin, {
       action: 'auto_pick_made',
@@ -299,7 +550,11 @@ Deno.serve(async (req) => {
         captainName: currentCaptain?.name,
         isComplete,
         fromQueue: selectedFromQueue,
-        timerExpiry: !captainHadAutoPickEnabled,
+        strategy: strategy.type,
+        fromStrategy: selectedFromStrategy,
+        fromBoard: selectedFromBoard,
+        timerExpiry,
+        disconnected,
       },
       ipAddress: getClientIp(req),
     })
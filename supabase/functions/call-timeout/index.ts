@@ -0,0 +1,166 @@
+import { getCorsHeaders, handleCors } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabase.ts'
+import {
+  UUID_RE,
+  errorResponse,
+  requirePost,
+  requireJson,
+  timingSafeEqual,
+} from '../_shared/validation.ts'
+import { rateLimit } from '../_shared/rateLimit.ts'
+import { logAudit, getClientIp } from '../_shared/audit.ts'
+import { authenticateManager } from '../_shared/auth.ts'
+import { getCurrentCaptainId } from '../_shared/draftOrder.ts'
+import type { PickOrderType } from '../_shared/draftOrder.ts'
+import type { CallTimeoutRequest, Captain, League } from '../_shared/types.ts'
+
+Deno.serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  const jsonResponse = requireJson(req)
+  if (jsonResponse) return jsonResponse
+
+  const rateLimitResponse = rateLimit(req, { windowMs: 60_000, maxRequests: 10 })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { leagueId, captainId, captainToken }: CallTimeoutRequest = await req.json()
+
+    if (!leagueId || !captainId) {
+      return errorResponse('Missing required fields', 400, req)
+    }
+
+    if (!UUID_RE.test(leagueId) || !UUID_RE.test(captainId)) {
+      return errorResponse('Invalid field format', 400, req)
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const { data: league, error: leagueError } = await supabaseAdmin
+      .from('leagues')
+      .select(
+        'id, status, draft_type, pick_order_matrix, current_pick_index, current_pick_started_at, timeouts_per_captain, timeout_seconds, current_pick_extension_seconds, captains(id, name, draft_position, player_id, access_token, timeouts_used), pick_ownership(pick_number, captain_id)'
+      )
+      .eq('id', leagueId)
+      .single()
+
+    if (leagueError || !league) {
+      return errorResponse('League not found', 404, req)
+    }
+
+    if (league.status !== 'in_progress' || !league.current_pick_started_at) {
+      return errorResponse('Draft is not in progress', 400, req)
+    }
+
+    if (league.draft_type === 'auction') {
+      return errorResponse('Timeouts are not available in auction drafts', 400, req)
+    }
+
+    if (league.timeouts_per_captain <= 0) {
+      return errorResponse('Timeouts are disabled for this league', 400, req)
+    }
+
+    const captain = (league as League).captains.find((c: Captain) => c.id === captainId)
+    if (!captain) {
+      return errorResponse('Captain not found in this league', 404, req)
+    }
+
+    // Auth: captain token OR manager JWT required
+    if (captainToken) {
+      if (!timingSafeEqual(captain.access_token, captainToken)) {
+        return errorResponse('Invalid captain token', 403, req)
+      }
+    } else {
+      const authResult = await authenticateManager(req, leagueId, supabaseAdmin)
+      if (authResult instanceof Response) return authResult
+    }
+
+    // Only the captain on the clock can call a timeout
+    const currentCaptainId = getCurrentCaptainId(
+      league.captains,
+      league.current_pick_index,
+      league.draft_type as PickOrderType,
+      { pickOrderMatrix: league.pick_order_matrix, pickOwnership: league.pick_ownership }
+    )
+    if (currentCaptainId !== captainId) {
+      return errorResponse('You can only call a timeout on your own pick', 400, req)
+    }
+
+    if (captain.timeouts_used >= league.timeouts_per_captain) {
+      return errorResponse('No timeouts left', 400, req)
+    }
+
+    // Use up a timeout, with optimistic locking on the count so two
+    // simultaneous requests can't both spend the last one
+    const { data: usedRows, error: captainError } = await supabaseAdmin
+      .from('captains')
+      .update({ timeouts_used: captain.timeouts_used + 1 })
+      .eq('id', captainId)
+      .eq('timeouts_used', captain.timeouts_used)
+      .select('id')
+
+    if (captainError) {
+      console.error('Failed to use timeout:', captainError)
+      return errorResponse('Failed to call timeout', 500, req)
+    }
+
+    if (!usedRows || usedRows.length === 0) {
+      return errorResponse('Timeout already called', 409, req)
+    }
+
+    // Extend the current pick. Locking on the pick index and start time means
+    // a pick made in the meantime wins and the timeout is handed back. The
+    // schedule_auto_pick_timer trigger re-schedules the auto-pick callback.
+    const extensionSeconds = league.current_pick_extension_seconds + league.timeout_seconds
+    const { data: extendedRows, error: extendError } = await supabaseAdmin
+      .from('leagues')
+      .update({ current_pick_extension_seconds: extensionSeconds })
+      .eq('id', leagueId)
+      .eq('current_pick_index', league.current_pick_index)
+      .eq('current_pick_started_at', league.current_pick_started_at)
+      .select('id')
+
+    if (extendError || !extendedRows || extendedRows.length === 0) {
+      await supabaseAdmin
+        .from('captains')
+        .update({ timeouts_used: captain.timeouts_used })
+        .eq('id', captainId)
+
+      if (extendError) {
+        console.error('Failed to extend pick:', extendError)
+        return errorResponse('Failed to call timeout', 500, req)
+      }
+      return errorResponse('The pick has already moved on', 409, req)
+    }
+
+    logAudit(supabaseAdmin, {
+      action: 'timeout_called',
+      leagueId,
+      actorType: captainToken ? 'captain' : 'manager',
+      actorId: captainId,
+      metadata: {
+        captainName: captain.name,
+        pickNumber: league.current_pick_index + 1,
+        seconds: league.timeout_seconds,
+        timeoutsLeft: league.timeouts_per_captain - captain.timeouts_used - 1,
+      },
+      ipAddress: getClientIp(req),
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        extensionSeconds,
+        timeoutsUsed: captain.timeouts_used + 1,
+      }),
+      { status: 200, headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Call timeout error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
@@ -10,6 +10,7 @@ import {
 import { authenticateManager } from '../_shared/auth.ts'
 import { rateLimit } from '../_shared/rateLimit.ts'
 import { logAudit, getClientIp } from '../_shared/audit.ts'
+import { remapStrategyFields } from '../_shared/autoPickStrategy.ts'
 import type { CopyLeagueRequest } from '../_shared/types.ts'
 
 Deno.serve(async (req) => {
@@ -58,9 +59,9 @@ Deno.serve(async (req) => {
       .from('leagues')
       .select(
         `
-        id, draft_type, time_limit_seconds, allow_player_custom_fields, scheduled_start_at,
+        id, draft_type, time_limit_seconds, timer_mode, time_bank_seconds, time_bank_increment_seconds, timeouts_per_captain, timeout_seconds, auction_budget, pick_order_matrix, roster_slot_schema_id, roster_slots, auto_pick_strategy, disconnect_auto_pick_seconds, consecutive_timeout_limit, consecutive_timeout_action, consecutive_timeout_notify, require_ready_check, auto_start_when_ready, allow_player_custom_fields, scheduled_start_at,
         captains (id, name, is_participant, draft_position, player_id, team_color, team_name, team_photo_url),
-        players (id, name, bio, profile_picture_url)
+        players (id, name, bio, profile_picture_url, board_rank)
       `
       )
       .eq('id', sourceLeagueId)
@@ -130,6 +131,18 @@ Deno.serve(async (req) => {
         status: 'not_started',
         draft_type: sourceLeague.draft_type,
         time_limit_seconds: sourceLeague.time_limit_seconds,
+        timer_mode: sourceLeague.timer_mode,
+        time_bank_seconds: sourceLeague.time_bank_seconds,
+        time_bank_increment_seconds: sourceLeague.time_bank_increment_seconds,
+        timeouts_per_captain: sourceLeague.timeouts_per_captain,
+        timeout_seconds: sourceLeague.timeout_seconds,
+        disconnect_auto_pick_seconds: sourceLeague.disconnect_auto_pick_seconds,
+        consecutive_timeout_limit: sourceLeague.consecutive_timeout_limit,
+        consecutive_timeout_action: sourceLeague.consecutive_timeout_action,
+        consecutive_timeout_notify: sourceLeague.consecutive_timeout_notify,
+        require_ready_check: sourceLeague.require_ready_check,
+        auto_start_when_ready: sourceLeague.auto_start_when_ready,
+        auction_budget: sourceLeague.auction_budget,
         allow_player_custom_fields: sourceLeague.allow_player_custom_fields,
         current_pick_index: 0,
       })
@@ -189,6 +202,24 @@ Deno.serve(async (req) => {
             oldCaptainIdMap.set(oldCaptain.id, newCaptain.id)
           }
         }
+
+        // Custom pick order references captain IDs, so remap it to the new captains
+        const sourceMatrix = sourceLeague.pick_order_matrix as string[][] | null
+        if (sourceMatrix) {
+          const { error: matrixError } = await supabaseAdmin
+            .from('leagues')
+            .update({
+              pick_order_matrix: sourceMatrix.map((row) =>
+                row.map((captainId) => oldCaptainIdMap.get(captainId) ?? captainId)
+              ),
+            })
+            .eq('id', newLeagueId)
+
+          if (matrixError) {
+            console.error('Failed to copy pick order:', matrixError)
+            // Non-critical: rounds fall back to draft position order
+          }
+        }
       }
 
       // Step C: Copy players (new IDs generated by DB, fresh edit_token via default)
@@ -197,11 +228,17 @@ Deno.serve(async (req) => {
 
       if (sourcePlayers.length > 0) {
         const playerInserts = sourcePlayers.map(
-          (p: { name: string; bio: string | null; profile_picture_url: string | null }) => ({
+          (p: {
+            name: string
+            bio: string | null
+            profile_picture_url: string | null
+            board_rank: number | null
+          }) => ({
             league_id: newLeagueId,
             name: p.name,
             bio: p.bio,
             profile_picture_url: p.profile_picture_url,
+            board_rank: p.board_rank,
             drafted_by_captain_id: null,
             draft_pick_number: null,
           })
@@ -290,6 +327,41 @@ Deno.serve(async (req) => {
         }
       }
 
+      // Roster slots are keyed off a field schema, so point them at the copied field
+      const newSlotSchemaId = sourceLeague.roster_slot_schema_id
+        ? oldSchemaIdMap.get(sourceLeague.roster_slot_schema_id)
+        : undefined
+      if (newSlotSchemaId) {
+        const { error: slotsError } = await supabaseAdmin
+          .from('leagues')
+          .update({
+            roster_slot_schema_id: newSlotSchemaId,
+            roster_slots: sourceLeague.roster_slots,
+          })
+          .eq('id', newLeagueId)
+
+        if (slotsError) {
+          console.error('Failed to copy roster slots:', slotsError)
+          // Non-critical: the new league has no position limits
+        }
+      }
+
+      // Auto-pick strategies rank by field schemas too
+      const newStrategy = sourceLeague.auto_pick_strategy
+        ? remapStrategyFields(sourceLeague.auto_pick_strategy, oldSchemaIdMap)
+        : null
+      if (newStrategy) {
+        const { error: strategyError } = await supabaseAdmin
+          .from('leagues')
+          .update({ auto_pick_strategy: newStrategy })
+          .eq('id', newLeagueId)
+
+        if (strategyError) {
+          console.error('Failed to copy auto-pick strategy:', strategyError)
+          // Non-critical: the new league auto-picks at random
+        }
+      }
+
       // Step F: Copy player custom fields with remapped IDs
       if (sourceCustomFields.length > 0) {
         const customFieldInserts = sourceCustomFields
@@ -0,0 +1,88 @@
+import { getCorsHeaders, handleCors } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabase.ts'
+import { UUID_RE, errorResponse, requirePost, requireJson } from '../_shared/validation.ts'
+import { authenticateManager } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rateLimit.ts'
+import { logAudit, getClientIp } from '../_shared/audit.ts'
+import type { CorrectPickRequest } from '../_shared/types.ts'
+
+Deno.serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  const jsonResponse = requireJson(req)
+  if (jsonResponse) return jsonResponse
+
+  const rateLimitResponse = rateLimit(req, { windowMs: 60_000, maxRequests: 10 })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { leagueId, pickId, playerId }: CorrectPickRequest = await req.json()
+
+    if (!leagueId || !pickId || !playerId) {
+      return errorResponse('Missing required fields', 400, req)
+    }
+
+    if (!UUID_RE.test(leagueId) || !UUID_RE.test(pickId) || !UUID_RE.test(playerId)) {
+      return errorResponse('Invalid field format', 400, req)
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const authResult = await authenticateManager(req, leagueId, supabaseAdmin)
+    if (authResult instanceof Response) return authResult
+    const { user, league } = authResult
+
+    if (league.status === 'not_started') {
+      return errorResponse('Draft has not started', 400, req)
+    }
+
+    // Swap the players on the pick and clear the new player from queues in one
+    // transaction. The pick number, captain and price are left as they are.
+    const { data: previousPlayerId, error: correctError } = await supabaseAdmin.rpc(
+      'correct_pick',
+      { p_league_id: leagueId, p_pick_id: pickId, p_player_id: playerId }
+    )
+
+    if (correctError) {
+      // P0001 = RAISE EXCEPTION from correct_pick() (pick gone, player taken)
+      if (correctError.code === 'P0001') {
+        return errorResponse(correctError.message, 409, req)
+      }
+      console.error('Failed to correct pick:', correctError)
+      return errorResponse('Failed to correct pick', 500, req)
+    }
+
+    const { data: pick } = await supabaseAdmin
+      .from('draft_picks')
+      .select('pick_number, captain_id')
+      .eq('id', pickId)
+      .single()
+
+    logAudit(supabaseAdmin, {
+      action: 'pick_corrected',
+      leagueId,
+      actorType: 'manager',
+      actorId: user.id,
+      metadata: {
+        pickId,
+        pickNumber: pick?.pick_number,
+        captainId: pick?.captain_id,
+        previousPlayerId,
+        playerId,
+      },
+      ipAddress: getClientIp(req),
+    })
+
+    return new Response(JSON.stringify({ success: true, previousPlayerId }), {
+      status: 200,
+      headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Correct pick error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
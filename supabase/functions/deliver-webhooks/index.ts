@@ -0,0 +1,222 @@
+// Supabase Edge Function for outbound league webhooks
+// - Called by dispatch_webhook_deliveries() (migration 046) when deliveries are queued or due for a retry
+// - Shapes each payload in the webhook's format (raw JSON, Slack or Discord message)
+// - Refuses URLs whose host is or resolves to a private address
+// - Signs it with the webhook's secret and POSTs it to the manager's URL
+// - Logs every attempt and retries failures with backoff until WEBHOOK_MAX_ATTEMPTS
+// Deploy with: supabase functions deploy deliver-webhooks
+
+import { createAdminClient } from '../_shared/supabase.ts'
+import { errorResponse, requirePost, timingSafeEqual } from '../_shared/validation.ts'
+import {
+  getWebhookRetryDelaySeconds,
+  isIpLiteralHost,
+  isPrivateWebhookHost,
+  signWebhookPayload,
+} from '../_shared/webhooks.ts'
+import { formatWebhookBody } from '../_shared/webhookFormats.ts'
+import type { WebhookEventPayload, WebhookFormat } from '../_shared/webhookFormats.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+interface ClaimedDelivery {
+  id: string
+  league_id: string
+  event: string
+  payload: WebhookEventPayload
+  attempts: number
+  url: string
+  secret: string
+  format: WebhookFormat
+  include_custom_fields: boolean
+}
+
+interface AttemptResult {
+  statusCode: number | null
+  error: string | null
+  durationMs: number
+}
+
+/** Deliveries claimed per round trip to the database. */
+const BATCH_SIZE = 20
+
+/** A receiver gets this long to answer before the attempt counts as failed. */
+const REQUEST_TIMEOUT_MS = 10_000
+
+/** Stop claiming new work before the edge runtime's wall clock limit. */
+const RUN_BUDGET_MS = 45_000
+
+/**
+ * Every A and AAAA address a hostname resolves to, so a public name pointing
+ * at an internal address is refused like the address itself would be.
+ */
+async function resolveWebhookHost(hostname: string): Promise<string[]> {
+  const addresses: string[] = []
+  for (const recordType of ['A', 'AAAA'] as const) {
+    try {
+      addresses.push(...(await Deno.resolveDns(hostname, recordType)))
+    } catch (err) {
+      // A name may have only IPv4 or only IPv6 records
+      if (!(err instanceof Deno.errors.NotFound)) throw err
+    }
+  }
+  return addresses
+}
+
+async function sendDelivery(delivery: ClaimedDelivery): Promise<AttemptResult> {
+  const started = Date.now()
+
+  let url: URL
+  try {
+    url = new URL(delivery.url)
+  } catch {
+    return { statusCode: null, error: 'Invalid URL', durationMs: 0 }
+  }
+  if (url.protocol !== 'https:' || isPrivateWebhookHost(url.hostname)) {
+    return { statusCode: null, error: 'URL is not allowed', durationMs: 0 }
+  }
+  if (!isIpLiteralHost(url.hostname)) {
+    let addresses: string[]
+    try {
+      addresses = await resolveWebhookHost(url.hostname)
+    } catch {
+      return { statusCode: null, error: 'DNS lookup failed', durationMs: Date.now() - started }
+    }
+    if (addresses.length === 0) {
+      return {
+        statusCode: null,
+        error: 'Host does not resolve',
+        durationMs: Date.now() - started,
+      }
+    }
+    if (addresses.some(isPrivateWebhookHost)) {
+      return {
+        statusCode: null,
+        error: 'Host resolves to a private address',
+        durationMs: Date.now() - started,
+      }
+    }
+  }
+
+  const body = JSON.stringify(
+    formatWebhookBody(
+      delivery.format,
+      { id: delivery.id, ...delivery.payload },
+      { includeCustomFields: delivery.include_custom_fields }
+    )
+  )
+  const signature = await signWebhookPayload(delivery.secret, Math.floor(started / 1000), body)
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DraftRoom-Webhooks/1.0',
+        'X-Draft-Room-Event': delivery.event,
+        'X-Draft-Room-Delivery': delivery.id,
+        'X-Draft-Room-Signature': signature,
+      },
+      body,
+      // Don't follow redirects: they could lead to an address we'd refuse
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    // Drain the body so the connection can be reused
+    await response.body?.cancel()
+    return {
+      statusCode: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      durationMs: Date.now() - started,
+    }
+  } catch (err) {
+    const error =
+      err instanceof DOMException && err.name === 'TimeoutError'
+        ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+        : err instanceof Error
+          ? err.message.slice(0, 500)
+          : 'Request failed'
+    return { statusCode: null, error, durationMs: Date.now() - started }
+  }
+}
+
+async function recordAttempt(
+  supabaseAdmin: SupabaseClient,
+  delivery: ClaimedDelivery,
+  result: AttemptResult
+): Promise<void> {
+  const { error: attemptError } = await supabaseAdmin.from('webhook_delivery_attempts').insert({
+    delivery_id: delivery.id,
+    league_id: delivery.league_id,
+    attempt: delivery.attempts,
+    status_code: result.statusCode,
+    error: result.error,
+    duration_ms: result.durationMs,
+  })
+  if (attemptError) console.error('Failed to log webhook attempt:', attemptError)
+
+  const now = new Date()
+  const delaySeconds = result.error ? getWebhookRetryDelaySeconds(delivery.attempts) : null
+  const update =
+    result.error === null
+      ? { status: 'delivered', completed_at: now.toISOString() }
+      : delaySeconds === null
+        ? { status: 'failed', completed_at: now.toISOString() }
+        : { next_attempt_at: new Date(now.getTime() + delaySeconds * 1000).toISOString() }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id)
+  if (updateError) console.error('Failed to update webhook delivery:', updateError)
+}
+
+Deno.serve(async (req) => {
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  // Server-only: dispatch_webhook_deliveries() authenticates with the auto-pick callback secret
+  const cronSecret = req.headers.get('x-cron-secret')
+  const expectedSecret = Deno.env.get('AUTO_PICK_CRON_SECRET')
+  if (!cronSecret || !expectedSecret || !timingSafeEqual(cronSecret, expectedSecret)) {
+    return errorResponse('Invalid callback secret', 403, req)
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const started = Date.now()
+    let delivered = 0
+    let failed = 0
+
+    while (Date.now() - started < RUN_BUDGET_MS) {
+      const { data, error } = await supabaseAdmin.rpc('claim_webhook_deliveries', {
+        p_limit: BATCH_SIZE,
+      })
+      if (error) {
+        console.error('Failed to claim webhook deliveries:', error)
+        return errorResponse('Failed to claim deliveries', 500, req)
+      }
+
+      const deliveries = (data ?? []) as ClaimedDelivery[]
+      if (deliveries.length === 0) break
+
+      await Promise.all(
+        deliveries.map(async (delivery) => {
+          const result = await sendDelivery(delivery)
+          if (result.error) failed++
+          else delivered++
+          await recordAttempt(supabaseAdmin, delivery, result)
+        })
+      )
+
+      if (deliveries.length < BATCH_SIZE) break
+    }
+
+    return new Response(JSON.stringify({ success: true, delivered, failed }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Deliver webhooks error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
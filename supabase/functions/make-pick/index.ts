@@ -10,8 +10,10 @@ import {
 import { rateLimit } from '../_shared/rateLimit.ts'
 import { logAudit, getClientIp } from '../_shared/audit.ts'
 import { authenticateManager } from '../_shared/auth.ts'
-import { getCurrentCaptainId } from '../_shared/draftOrder.ts'
-import { rollbackPick, advanceLeague } from '../_shared/draftHelpers.ts'
+import { getCurrentCaptainId, getAvailablePlayersServer } from '../_shared/draftOrder.ts'
+import type { PickOrderType } from '../_shared/draftOrder.ts'
+import { recordPick } from '../_shared/draftHelpers.ts'
+import { fitsRosterSlots, loadPlayerPositions } from '../_shared/rosterSlots.ts'
 import type { MakePickRequest, Captain, League } from '../_shared/types.ts'
 import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
@@ -23,7 +25,8 @@ function verifyTurn(
   const expectedId = getCurrentCaptainId(
     league.captains,
     league.current_pick_index,
-    league.draft_type as 'snake' | 'round_robin'
+    league.draft_type as PickOrderType,
+    { pickOrderMatrix: league.pick_order_matrix, pickOwnership: league.pick_ownership }
   )
   const sorted = [...league.captains].sort(
     (a: Captain, b: Captain) => a.draft_position - b.draft_position
@@ -36,29 +39,31 @@ function verifyTurn(
   return { expectedCaptain }
 }
 
-/** Count remaining available players (excluding drafted and captain-linked). */
-async function countRemainingPlayers(
+/**
+ * Check the pick against the league's roster slots. A full position is only
+ * rejected while another available player would still fit.
+ */
+async function verifyRosterSlots(
   supabase: SupabaseClient,
-  leagueId: string,
-  captains: Captain[]
-): Promise<number> {
-  // NOTE: Keep in sync with getAvailablePlayers() in src/lib/draft.ts
-  const captainPlayerIds = captains
-    .filter((c: Captain) => c.player_id && UUID_RE.test(c.player_id))
-    .map((c: Captain) => c.player_id!)
-
-  let query = supabase
-    .from('players')
-    .select('*', { count: 'exact', head: true })
-    .eq('league_id', leagueId)
-    .is('drafted_by_captain_id', null)
-
-  if (captainPlayerIds.length > 0) {
-    query = query.not('id', 'in', `(${captainPlayerIds.join(',')})`)
+  league: League,
+  captainId: string,
+  playerId: string
+): Promise<{ error: string } | null> {
+  if (!league.roster_slot_schema_id || !league.roster_slots) return null
+
+  const positions = await loadPlayerPositions(supabase, league.roster_slot_schema_id)
+  const rosterPlayerIds = league.players
+    .filter((p) => p.drafted_by_captain_id === captainId)
+    .map((p) => p.id)
+  const fits = (id: string) => fitsRosterSlots(league.roster_slots, positions, rosterPlayerIds, id)
+
+  if (fits(playerId)) return null
+  if (!getAvailablePlayersServer(league.players, league.captains).some((p) => fits(p.id))) {
+    return null
   }
 
-  const { count } = await query
-  return count ?? 0
+  const position = positions.get(playerId)!
+  return { error: `All ${league.roster_slots[position]} ${position} slots are already filled` }
 }
 
 Deno.serve(async (req) => {
@@ -91,7 +96,7 @@ Deno.serve(async (req) => {
     const { data: league, error: leagueError } = await supabaseAdmin
       .from('leagues')
       .select(
-        'id, status, draft_type, current_pick_index, current_pick_started_at, time_limit_seconds, captains(id, name, draft_position, player_id, access_token, auto_pick_enabled)'
+        'id, status, draft_type, pick_order_matrix, current_pick_index, current_pick_started_at, time_limit_seconds, roster_slot_schema_id, roster_slots, captains(id, name, draft_position, player_id, access_token, auto_pick_enabled), players(id, drafted_by_captain_id, keeper_captain_id), pick_ownership(pick_number, captain_id)'
       )
       .eq('id', leagueId)
       .single()
@@ -104,6 +109,10 @@ Deno.serve(async (req) => {
       return errorResponse('Draft is not in progress', 400, req)
     }
 
+    if (league.draft_type === 'auction') {
+      return errorResponse('Players in an auction draft are won by bidding', 400, req)
+    }
+
     // Auth: captain token OR manager JWT required
     if (captainToken) {
       const captain = (league as League).captains.find(
@@ -144,83 +153,32 @@ Deno.serve(async (req) => {
       return errorResponse('Cannot draft a captain', 400, req)
     }
 
-    const pickNumber = league.current_pick_index + 1
-
-    // Insert draft pick
-    const { error: pickError } = await supabaseAdmin.from('draft_picks').insert({
-      league_id: leagueId,
-      captain_id: captainId,
-      player_id: playerId,
-      pick_number: pickNumber,
-      is_auto_pick: false,
-    })
-
-    if (pickError) {
-      if (pickError.code === '23505') {
-        console.warn(`[make-pick] Duplicate pick detected for pick_number ${pickNumber}`)
-        return new Response(JSON.stringify({ error: 'Pick already made by another player' }), {
-          status: 409,
-          headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
-        })
-      }
-      console.error('Failed to insert pick:', pickError)
-      return errorResponse('Failed to record pick', 500, req)
-    }
-
-    // Update player
-    const { error: updatePlayerError } = await supabaseAdmin
-      .from('players')
-      .update({ drafted_by_captain_id: captainId, draft_pick_number: pickNumber })
-      .eq('id', playerId)
-
-    if (updatePlayerError) {
-      console.error('Failed to update player, rolling back pick:', updatePlayerError)
-      await rollbackPick(supabaseAdmin, leagueId, pickNumber, playerId, false)
-      return errorResponse('Failed to update player', 500, req)
-    }
-
-    // Clean up: Remove picked player from ALL captain queues
-    const { error: cleanupError } = await supabaseAdmin
-      .from('captain_draft_queues')
-      .delete()
-      .eq('player_id', playerId)
-
-    if (cleanupError) {
-      console.error('Queue cleanup error:', cleanupError)
-    }
-
-    // Reset consecutive timeout counter on manual pick
-    const { error: resetError } = await supabaseAdmin
-      .from('captains')
-      .update({ consecutive_timeout_picks: 0 })
-      .eq('id', captainId)
-
-    if (resetError) {
-      console.error('[make-pick] Failed to reset timeout counter:', resetError)
+    // Enforce the league's per-position roster limits
+    const slotResult = await verifyRosterSlots(supabaseAdmin, league as League, captainId, playerId)
+    if (slotResult) {
+      return errorResponse(slotResult.error, 400, req)
     }
 
-    // Check completion and advance
-    const remainingCount = await countRemainingPlayers(supabaseAdmin, leagueId, league.captains)
-    const isComplete = remainingCount <= 0
+    const pickNumber = league.current_pick_index + 1
 
-    const advanceResult = await advanceLeague(
-      supabaseAdmin,
+    // Record the pick, clear queues, reset the captain's timeout counter and
+    // advance the league in one transaction
+    const result = await recordPick(supabaseAdmin, {
       leagueId,
-      league.current_pick_index,
-      isComplete
-    )
+      pickIndex: league.current_pick_index,
+      captainId,
+      playerId,
+    })
 
-    if (!advanceResult.success) {
-      if (advanceResult.error) {
-        console.error('Failed to update league, rolling back:', advanceResult.error)
-      } else {
-        console.error(`[make-pick] Optimistic lock failed: current_pick_index changed since read`)
-      }
-      await rollbackPick(supabaseAdmin, leagueId, pickNumber, playerId, true)
-      return advanceResult.error
-        ? errorResponse('Failed to update league', 500, req)
-        : errorResponse('Draft state changed concurrently. Please try again.', 409, req)
+    if ('conflict' in result) {
+      console.warn(`[make-pick] Pick ${pickNumber} conflicted: ${result.conflict}`)
+      return errorResponse(result.conflict, 409, req)
+    }
+    if ('error' in result) {
+      console.error('Failed to record pick:', result.error)
+      return errorResponse('Failed to record pick', 500, req)
     }
+    const { isComplete } = result
 
     logAudit(supabaseAdmin, {
       action: 'pick_made',
@@ -0,0 +1,251 @@
+// Supabase Edge Function for auction drafts
+// - 'nominate': the nominating captain puts a player on the block with an opening bid
+// - 'bid': any captain with open roster slots raises the high bid (resets the countdown)
+// Sales are resolved by the auto-pick function when the countdown expires.
+// Deploy with: supabase functions deploy manage-auction
+
+import { getCorsHeaders, handleCors } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabase.ts'
+import {
+  UUID_RE,
+  errorResponse,
+  requirePost,
+  requireJson,
+  timingSafeEqual,
+} from '../_shared/validation.ts'
+import { rateLimit } from '../_shared/rateLimit.ts'
+import { logAudit, getClientIp } from '../_shared/audit.ts'
+import { authenticateManager } from '../_shared/auth.ts'
+import { getAvailablePlayersServer } from '../_shared/draftOrder.ts'
+import {
+  getAuctionRosterSize,
+  getRosterCounts,
+  getCaptainSpend,
+  getMaxBid,
+  getNominatingCaptainId,
+  isBiddingClosed,
+  validateBid,
+  loadAuctionPicks,
+  getOpenNomination,
+  openNomination,
+  resetAuctionClock,
+} from '../_shared/auction.ts'
+import type { ManageAuctionRequest, Captain, League } from '../_shared/types.ts'
+
+Deno.serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  const jsonResponse = requireJson(req)
+  if (jsonResponse) return jsonResponse
+
+  const rateLimitResponse = rateLimit(req, { windowMs: 60_000, maxRequests: 60 })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const body: ManageAuctionRequest = await req.json()
+    const { action, leagueId, captainId, captainToken, amount } = body
+
+    if (!action || !leagueId || !captainId || amount === undefined) {
+      return errorResponse('Missing required fields: action, leagueId, captainId, amount', 400, req)
+    }
+
+    if (!['nominate', 'bid'].includes(action)) {
+      return errorResponse('Invalid action. Must be nominate or bid', 400, req)
+    }
+
+    if (!UUID_RE.test(leagueId) || !UUID_RE.test(captainId)) {
+      return errorResponse('Invalid field format', 400, req)
+    }
+
+    if (typeof amount !== 'number') {
+      return errorResponse('amount must be a number', 400, req)
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const { data: league, error: leagueError } = await supabaseAdmin
+      .from('leagues')
+      .select(
+        'id, status, draft_type, current_pick_index, current_pick_started_at, time_limit_seconds, auction_budget, captains(id, name, draft_position, player_id, access_token), players(id, name, drafted_by_captain_id, keeper_captain_id)'
+      )
+      .eq('id', leagueId)
+      .single()
+
+    if (leagueError || !league) {
+      return errorResponse('League not found', 404, req)
+    }
+
+    if (league.draft_type !== 'auction') {
+      return errorResponse('League is not an auction draft', 400, req)
+    }
+
+    if (league.status !== 'in_progress') {
+      return errorResponse('Draft is not in progress', 400, req)
+    }
+
+    const captain = (league as League).captains.find((c: Captain) => c.id === captainId)
+    if (!captain) {
+      return errorResponse('Captain not found in this league', 404, req)
+    }
+
+    // Auth: captain token OR manager JWT (manager can act on behalf of a captain)
+    if (captainToken) {
+      if (!timingSafeEqual(captain.access_token, captainToken)) {
+        return errorResponse('Invalid captain token', 403, req)
+      }
+    } else {
+      const authResult = await authenticateManager(req, leagueId, supabaseAdmin)
+      if (authResult instanceof Response) return authResult
+    }
+
+    const picks = await loadAuctionPicks(supabaseAdmin, leagueId)
+    const availablePlayers = getAvailablePlayersServer(league.players, league.captains)
+    const rosterSize = getAuctionRosterSize(
+      availablePlayers.length + picks.length,
+      league.captains.length
+    )
+    const rosterCounts = getRosterCounts(picks)
+    const maxBid = getMaxBid(
+      league.auction_budget,
+      getCaptainSpend(picks, captainId),
+      rosterCounts.get(captainId) ?? 0,
+      rosterSize
+    )
+
+    const headers = { ...getCorsHeaders(req), 'Content-Type': 'application/json' }
+
+    // --- NOMINATE ---
+    if (action === 'nominate') {
+      const { playerId } = body
+      if (!playerId || !UUID_RE.test(playerId)) {
+        return errorResponse('Missing or invalid playerId', 400, req)
+      }
+
+      const nominatorId = getNominatingCaptainId(
+        league.captains,
+        league.current_pick_index,
+        rosterCounts,
+        rosterSize
+      )
+      if (nominatorId !== captainId) {
+        return errorResponse('Not your turn to nominate', 400, req)
+      }
+
+      const player = availablePlayers.find((p) => p.id === playerId)
+      if (!player) {
+        return errorResponse('Player not available', 400, req)
+      }
+
+      const bidError = validateBid(amount, null, maxBid)
+      if (bidError) {
+        return errorResponse(bidError, 400, req)
+      }
+
+      const result = await openNomination(supabaseAdmin, {
+        leagueId,
+        playerId,
+        captainId,
+        amount,
+        pickIndex: league.current_pick_index,
+      })
+      if ('error' in result) {
+        return errorResponse(result.error, result.status, req)
+      }
+
+      logAudit(supabaseAdmin, {
+        action: 'auction_nominated',
+        leagueId,
+        actorType: captainToken ? 'captain' : 'manager',
+        actorId: captainToken ? captainId : undefined,
+        metadata: {
+          nominationId: result.nomination.id,
+          playerId,
+          playerName: player.name,
+          captainId,
+          captainName: captain.name,
+          amount,
+        },
+        ipAddress: getClientIp(req),
+      })
+
+      return new Response(JSON.stringify({ success: true, nomination: result.nomination }), {
+        status: 200,
+        headers,
+      })
+    }
+
+    // --- BID ---
+    const nomination = await getOpenNomination(supabaseAdmin, leagueId)
+    if (!nomination || (body.nominationId && nomination.id !== body.nominationId)) {
+      return errorResponse('This player is no longer up for auction', 400, req)
+    }
+
+    if (isBiddingClosed(league)) {
+      return errorResponse('Bidding has closed', 400, req)
+    }
+
+    if (nomination.current_bidder_id === captainId) {
+      return errorResponse('You already have the high bid', 400, req)
+    }
+
+    const bidError = validateBid(amount, nomination.current_bid, maxBid)
+    if (bidError) {
+      return errorResponse(bidError, 400, req)
+    }
+
+    // Optimistic lock on current_bid: concurrent bids at the same level lose
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('auction_nominations')
+      .update({ current_bid: amount, current_bidder_id: captainId })
+      .eq('id', nomination.id)
+      .eq('status', 'open')
+      .eq('current_bid', nomination.current_bid)
+      .select('id')
+
+    if (updateError) {
+      console.error('Failed to record bid:', updateError)
+      return errorResponse('Failed to record bid', 500, req)
+    }
+
+    if (!updated || updated.length === 0) {
+      return errorResponse('You were outbid. Please try again.', 409, req)
+    }
+
+    const { error: bidInsertError } = await supabaseAdmin.from('auction_bids').insert({
+      nomination_id: nomination.id,
+      league_id: leagueId,
+      captain_id: captainId,
+      amount,
+    })
+    if (bidInsertError) {
+      console.error('[manage-auction] Failed to record bid history:', bidInsertError)
+    }
+
+    await resetAuctionClock(supabaseAdmin, leagueId, league.current_pick_index)
+
+    logAudit(supabaseAdmin, {
+      action: 'auction_bid',
+      leagueId,
+      actorType: captainToken ? 'captain' : 'manager',
+      actorId: captainToken ? captainId : undefined,
+      metadata: {
+        nominationId: nomination.id,
+        playerId: nomination.player_id,
+        captainId,
+        captainName: captain.name,
+        amount,
+        previousBid: nomination.current_bid,
+      },
+      ipAddress: getClientIp(req),
+    })
+
+    return new Response(JSON.stringify({ success: true, amount }), { status: 200, headers })
+  } catch (error) {
+    console.error('Manage auction error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
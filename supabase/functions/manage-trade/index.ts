@@ -0,0 +1,402 @@
+// Supabase Edge Function for trading picks and drafted players between captains
+// - 'propose': a captain offers future picks and/or drafted players to another captain
+// - 'accept' / 'decline': the receiving captain responds (accept executes the trade)
+// - 'cancel': the proposing captain withdraws a pending trade
+// - 'veto': the manager rejects a pending trade
+// Deploy with: supabase functions deploy manage-trade
+
+import { getCorsHeaders, handleCors } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabase.ts'
+import {
+  UUID_RE,
+  errorResponse,
+  requirePost,
+  requireJson,
+  timingSafeEqual,
+} from '../_shared/validation.ts'
+import { rateLimit } from '../_shared/rateLimit.ts'
+import { logAudit, getClientIp } from '../_shared/audit.ts'
+import { authenticateManager } from '../_shared/auth.ts'
+import { getCurrentCaptainId, getAvailablePlayersServer } from '../_shared/draftOrder.ts'
+import type { PickOrderType } from '../_shared/draftOrder.ts'
+import type {
+  ManageTradeRequest,
+  Captain,
+  League,
+  Trade,
+  TradeItem,
+  TradeItemInput,
+} from '../_shared/types.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const MAX_TRADE_ITEMS = 20
+
+/**
+ * Lowest pick number that can still be traded. The pick on the clock is locked.
+ * NOTE: Keep in sync with getFirstTradablePickNumber() in src/lib/trades.ts.
+ */
+function getFirstTradablePickNumber(status: string, currentPickIndex: number): number {
+  return status === 'not_started' ? currentPickIndex + 1 : currentPickIndex + 2
+}
+
+/** Validate proposed trade items against current pick ownership and rosters. */
+function validateItems(
+  league: League,
+  items: TradeItemInput[],
+  captainIds: [string, string]
+): string | null {
+  if (items.length === 0) return 'A trade needs at least one pick or player'
+  if (items.length > MAX_TRADE_ITEMS) return `A trade can include at most ${MAX_TRADE_ITEMS} items`
+
+  // Drafted players and keepers (placed or not) each fill one pick
+  const filledCount = league.players.filter(
+    (p) => p.drafted_by_captain_id || p.keeper_captain_id
+  ).length
+  const totalPicks = getAvailablePlayersServer(league.players, league.captains).length + filledCount
+  const filledPicks = new Set(league.players.map((p) => p.draft_pick_number))
+  const firstTradable = getFirstTradablePickNumber(league.status, league.current_pick_index)
+  const seenPicks = new Set<number>()
+  const seenPlayers = new Set<string>()
+
+  for (const item of items) {
+    if (!item || !captainIds.includes(item.fromCaptainId)) {
+      return 'Each item must come from one of the two captains in the trade'
+    }
+    const hasPick = item.pickNumber !== undefined
+    const hasPlayer = item.playerId !== undefined
+    if (hasPick === hasPlayer) return 'Each item must be either a pick or a player'
+
+    if (hasPick) {
+      const pickNumber = item.pickNumber!
+      if (!Number.isInteger(pickNumber) || pickNumber < firstTradable || pickNumber > totalPicks) {
+        return `Pick ${pickNumber} cannot be traded`
+      }
+      if (filledPicks.has(pickNumber)) return `Pick ${pickNumber} has already been used`
+      if (seenPicks.has(pickNumber)) return `Pick ${pickNumber} is listed more than once`
+      seenPicks.add(pickNumber)
+
+      const ownerId = getCurrentCaptainId(
+        league.captains,
+        pickNumber - 1,
+        league.draft_type as PickOrderType,
+        { pickOrderMatrix: league.pick_order_matrix, pickOwnership: league.pick_ownership }
+      )
+      if (ownerId !== item.fromCaptainId) {
+        return `Pick ${pickNumber} does not belong to that captain`
+      }
+    } else {
+      const playerId = item.playerId!
+      if (!UUID_RE.test(playerId)) return 'Invalid field format'
+      if (seenPlayers.has(playerId)) return 'A player is listed more than once'
+      seenPlayers.add(playerId)
+
+      const player = league.players.find((p) => p.id === playerId)
+      if (!player || player.drafted_by_captain_id !== item.fromCaptainId) {
+        return 'Players can only be traded by the team that has them'
+      }
+    }
+  }
+  return null
+}
+
+/** Describe trade items with names for audit log metadata. */
+function describeItems(
+  league: League,
+  items: Array<{ from_captain_id: string; pick_number: number | null; player_id: string | null }>
+) {
+  return items.map((item) => ({
+    fromCaptainId: item.from_captain_id,
+    fromCaptainName: league.captains.find((c) => c.id === item.from_captain_id)?.name,
+    pickNumber: item.pick_number,
+    playerId: item.player_id,
+    playerName: item.player_id
+      ? league.players.find((p) => p.id === item.player_id)?.name
+      : undefined,
+  }))
+}
+
+/** Set a pending trade's final status. Returns false if it was no longer pending. */
+async function resolveTrade(
+  supabase: SupabaseClient,
+  tradeId: string,
+  status: 'declined' | 'cancelled' | 'vetoed'
+): Promise<{ updated: boolean; error?: unknown }> {
+  const { data, error } = await supabase
+    .from('trades')
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq('id', tradeId)
+    .eq('status', 'pending')
+    .select('id')
+  if (error) return { updated: false, error }
+  return { updated: !!data && data.length > 0 }
+}
+
+Deno.serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  const jsonResponse = requireJson(req)
+  if (jsonResponse) return jsonResponse
+
+  const rateLimitResponse = rateLimit(req, { windowMs: 60_000, maxRequests: 30 })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const body: ManageTradeRequest = await req.json()
+    const { action, leagueId, captainId, captainToken, tradeId } = body
+
+    if (!action || !leagueId) {
+      return errorResponse('Missing required fields: action, leagueId', 400, req)
+    }
+
+    if (!['propose', 'accept', 'decline', 'cancel', 'veto'].includes(action)) {
+      return errorResponse(
+        'Invalid action. Must be propose, accept, decline, cancel, or veto',
+        400,
+        req
+      )
+    }
+
+    if (!UUID_RE.test(leagueId)) {
+      return errorResponse('Invalid field format', 400, req)
+    }
+
+    if (action !== 'veto' && (!captainId || !UUID_RE.test(captainId))) {
+      return errorResponse('Missing or invalid captainId', 400, req)
+    }
+
+    if (action !== 'propose' && (!tradeId || !UUID_RE.test(tradeId))) {
+      return errorResponse('Missing or invalid tradeId', 400, req)
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const { data: leagueData, error: leagueError } = await supabaseAdmin
+      .from('leagues')
+      .select(
+        'id, status, draft_type, pick_order_matrix, current_pick_index, captains(id, name, draft_position, player_id, access_token), players(id, name, drafted_by_captain_id, draft_pick_number, keeper_captain_id), pick_ownership(pick_number, captain_id)'
+      )
+      .eq('id', leagueId)
+      .single()
+
+    if (leagueError || !leagueData) {
+      return errorResponse('League not found', 404, req)
+    }
+    const league = leagueData as League
+
+    if (league.draft_type === 'auction') {
+      return errorResponse('Trades are not available in auction drafts', 400, req)
+    }
+
+    if (league.status === 'completed') {
+      return errorResponse('Draft is already complete', 400, req)
+    }
+
+    const headers = { ...getCorsHeaders(req), 'Content-Type': 'application/json' }
+    const ipAddress = getClientIp(req)
+
+    // --- VETO (manager only) ---
+    if (action === 'veto') {
+      const authResult = await authenticateManager(req, leagueId, supabaseAdmin)
+      if (authResult instanceof Response) return authResult
+
+      const result = await resolveTrade(supabaseAdmin, tradeId!, 'vetoed')
+      if (result.error) {
+        console.error('Failed to veto trade:', result.error)
+        return errorResponse('Failed to veto trade', 500, req)
+      }
+      if (!result.updated) {
+        return errorResponse('Trade is no longer pending', 409, req)
+      }
+
+      logAudit(supabaseAdmin, {
+        action: 'trade_vetoed',
+        leagueId,
+        actorType: 'manager',
+        actorId: authResult.user.id,
+        metadata: { tradeId },
+        ipAddress,
+      })
+
+      return new Response(JSON.stringify({ success: true }), { status: 200, headers })
+    }
+
+    const captain = league.captains.find((c: Captain) => c.id === captainId)
+    if (!captain) {
+      return errorResponse('Captain not found in this league', 404, req)
+    }
+
+    // Auth: captain token OR manager JWT (manager can act on behalf of a captain)
+    let managerId: string | undefined
+    if (captainToken) {
+      if (!timingSafeEqual(captain.access_token, captainToken)) {
+        return errorResponse('Invalid captain token', 403, req)
+      }
+    } else {
+      const authResult = await authenticateManager(req, leagueId, supabaseAdmin)
+      if (authResult instanceof Response) return authResult
+      managerId = authResult.user.id
+    }
+    const actor = {
+      actorType: captainToken ? ('captain' as const) : ('manager' as const),
+      actorId: captainToken ? captain.id : managerId,
+    }
+
+    // --- PROPOSE ---
+    if (action === 'propose') {
+      const { recipientCaptainId, items } = body
+      if (!recipientCaptainId || !UUID_RE.test(recipientCaptainId)) {
+        return errorResponse('Missing or invalid recipientCaptainId', 400, req)
+      }
+      if (recipientCaptainId === captain.id) {
+        return errorResponse('Cannot trade with yourself', 400, req)
+      }
+      const recipient = league.captains.find((c: Captain) => c.id === recipientCaptainId)
+      if (!recipient) {
+        return errorResponse('Captain not found in this league', 404, req)
+      }
+      if (!Array.isArray(items)) {
+        return errorResponse('items must be an array', 400, req)
+      }
+
+      const itemError = validateItems(league, items, [captain.id, recipient.id])
+      if (itemError) {
+        return errorResponse(itemError, 400, req)
+      }
+
+      const { data: trade, error: tradeError } = await supabaseAdmin
+        .from('trades')
+        .insert({
+          league_id: leagueId,
+          proposer_captain_id: captain.id,
+          recipient_captain_id: recipient.id,
+        })
+        .select('*')
+        .single()
+
+      if (tradeError || !trade) {
+        console.error('Failed to create trade:', tradeError)
+        return errorResponse('Failed to propose trade', 500, req)
+      }
+
+      const itemRows = items.map((item) => ({
+        trade_id: trade.id,
+        from_captain_id: item.fromCaptainId,
+        pick_number: item.pickNumber ?? null,
+        player_id: item.playerId ?? null,
+      }))
+      const { error: itemsError } = await supabaseAdmin.from('trade_items').insert(itemRows)
+
+      if (itemsError) {
+        console.error('Failed to save trade items, rolling back:', itemsError)
+        const { error: rbErr } = await supabaseAdmin.from('trades').delete().eq('id', trade.id)
+        if (rbErr) console.error('CRITICAL: Rollback failed (delete trade):', { leagueId, rbErr })
+        return errorResponse('Failed to propose trade', 500, req)
+      }
+
+      logAudit(supabaseAdmin, {
+        action: 'trade_proposed',
+        leagueId,
+        ...actor,
+        metadata: {
+          tradeId: trade.id,
+          proposerCaptainId: captain.id,
+          proposerCaptainName: captain.name,
+          recipientCaptainId: recipient.id,
+          recipientCaptainName: recipient.name,
+          items: describeItems(league, itemRows),
+        },
+        ipAddress,
+      })
+
+      return new Response(JSON.stringify({ success: true, trade: trade as Trade }), {
+        status: 200,
+        headers,
+      })
+    }
+
+    // --- ACCEPT / DECLINE / CANCEL ---
+    const { data: tradeData, error: tradeFetchError } = await supabaseAdmin
+      .from('trades')
+      .select('*, trade_items(*)')
+      .eq('id', tradeId!)
+      .eq('league_id', leagueId)
+      .maybeSingle()
+
+    if (tradeFetchError || !tradeData) {
+      return errorResponse('Trade not found', 404, req)
+    }
+    const trade = tradeData as Trade & { trade_items: TradeItem[] }
+
+    if (trade.status !== 'pending') {
+      return errorResponse('Trade is no longer pending', 409, req)
+    }
+
+    if (action === 'cancel' && trade.proposer_captain_id !== captain.id) {
+      return errorResponse('Only the proposing captain can cancel this trade', 403, req)
+    }
+    if (action !== 'cancel' && trade.recipient_captain_id !== captain.id) {
+      return errorResponse('Only the receiving captain can respond to this trade', 403, req)
+    }
+
+    if (action === 'decline' || action === 'cancel') {
+      const status = action === 'decline' ? 'declined' : 'cancelled'
+      const result = await resolveTrade(supabaseAdmin, trade.id, status)
+      if (result.error) {
+        console.error(`Failed to ${action} trade:`, result.error)
+        return errorResponse(`Failed to ${action} trade`, 500, req)
+      }
+      if (!result.updated) {
+        return errorResponse('Trade is no longer pending', 409, req)
+      }
+
+      logAudit(supabaseAdmin, {
+        action: action === 'decline' ? 'trade_declined' : 'trade_cancelled',
+        leagueId,
+        ...actor,
+        metadata: { tradeId: trade.id, captainId: captain.id, captainName: captain.name },
+        ipAddress,
+      })
+
+      return new Response(JSON.stringify({ success: true }), { status: 200, headers })
+    }
+
+    // Accept: execute_trade re-validates ownership and applies everything in one transaction
+    const { error: executeError } = await supabaseAdmin.rpc('execute_trade', {
+      p_trade_id: trade.id,
+    })
+
+    if (executeError) {
+      // P0001 = RAISE EXCEPTION from execute_trade (trade no longer valid)
+      if (executeError.code === 'P0001') {
+        return errorResponse(executeError.message, 409, req)
+      }
+      console.error('Failed to execute trade:', executeError)
+      return errorResponse('Failed to accept trade', 500, req)
+    }
+
+    const proposer = league.captains.find((c: Captain) => c.id === trade.proposer_captain_id)
+    logAudit(supabaseAdmin, {
+      action: 'trade_accepted',
+      leagueId,
+      ...actor,
+      metadata: {
+        tradeId: trade.id,
+        proposerCaptainId: trade.proposer_captain_id,
+        proposerCaptainName: proposer?.name,
+        recipientCaptainId: captain.id,
+        recipientCaptainName: captain.name,
+        items: describeItems(league, trade.trade_items),
+      },
+      ipAddress,
+    })
+
+    return new Response(JSON.stringify({ success: true }), { status: 200, headers })
+  } catch (error) {
+    console.error('Manage trade error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
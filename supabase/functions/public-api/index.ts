@@ -0,0 +1,88 @@
+// Supabase Edge Function for the read-only public API
+// - GET /public-api/v1/league with "Authorization: Bearer <API key>"
+// - Returns the key's league: metadata, teams, rosters with custom fields and pick history
+// - Keys are created and revoked in League Settings (migration 048); the schema is in docs/public-api.md
+// Deploy with: supabase functions deploy public-api
+
+import { createAdminClient } from '../_shared/supabase.ts'
+import { rateLimit } from '../_shared/rateLimit.ts'
+import { buildPublicLeagueResponse } from '../_shared/publicApi.ts'
+import type { PublicApiLeagueRow } from '../_shared/publicApi.ts'
+
+// Keys are sent in a header, never a cookie, so any site may call the API
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: CORS_HEADERS })
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const rateLimitResponse = rateLimit(req, { windowMs: 60_000, maxRequests: 60 })
+  if (rateLimitResponse) return rateLimitResponse
+
+  if (!/\/v1\/league\/?$/.test(new URL(req.url).pathname)) {
+    return jsonResponse({ error: 'Not found' }, 404)
+  }
+
+  const match = req.headers.get('Authorization')?.match(/^Bearer\s+(drk_[0-9a-f]{64})$/)
+  if (!match) {
+    return jsonResponse({ error: 'Missing or malformed API key' }, 401)
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+
+    const { data: leagueId, error: keyError } = await supabaseAdmin.rpc(
+      'authenticate_league_api_key',
+      { p_key_hash: await sha256Hex(match[1]) }
+    )
+
+    if (keyError) {
+      console.error('API key lookup failed:', keyError)
+      return jsonResponse({ error: 'Internal server error' }, 500)
+    }
+
+    if (!leagueId) {
+      return jsonResponse({ error: 'Invalid or revoked API key' }, 401)
+    }
+
+    const { data: league, error: leagueError } = await supabaseAdmin
+      .from('leagues')
+      .select(
+        'id, name, status, draft_type, auction_budget, scheduled_start_at, created_at, updated_at, league_field_schemas(field_name, field_type, field_order), captains(id, name, draft_position, player_id, is_participant, team_name, team_color, team_photo_url), players(id, name, bio, profile_picture_url, drafted_by_captain_id, player_custom_fields(field_name, field_value, field_order)), draft_picks(captain_id, player_id, pick_number, is_auto_pick, is_keeper, price, picked_at)'
+      )
+      .eq('id', leagueId)
+      .single()
+
+    if (leagueError || !league) {
+      return jsonResponse({ error: 'League not found' }, 404)
+    }
+
+    return jsonResponse(buildPublicLeagueResponse(league as PublicApiLeagueRow), 200, {
+      'Cache-Control': 'private, max-age=15',
+    })
+  } catch (error) {
+    console.error('Public API error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
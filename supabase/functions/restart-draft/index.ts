@@ -39,117 +39,19 @@ Deno.serve(async (req) => {
       return errorResponse('Draft must be paused to restart', 400, req)
     }
 
-    // Snapshot draft picks before deleting (for rollback)
-    const { data: existingPicks } = await supabaseAdmin
-      .from('draft_picks')
-      .select('*')
-      .eq('league_id', leagueId)
-
-    // Snapshot drafted players (for rollback)
-    const { data: draftedPlayers } = await supabaseAdmin
-      .from('players')
-      .select('id, drafted_by_captain_id, draft_pick_number')
-      .eq('league_id', leagueId)
-      .not('drafted_by_captain_id', 'is', null)
-
-    // Step 1: Delete all draft picks
-    const { error: deletePicksError } = await supabaseAdmin
-      .from('draft_picks')
-      .delete()
-      .eq('league_id', leagueId)
-
-    if (deletePicksError) {
-      console.error('Failed to delete draft picks:', deletePicksError)
-      return errorResponse('Failed to restart draft', 500, req)
-    }
-
-    // Step 2: Reset all players' draft status
-    const { error: resetPlayersError } = await supabaseAdmin
-      .from('players')
-      .update({ drafted_by_captain_id: null, draft_pick_number: null })
-      .eq('league_id', leagueId)
-
-    if (resetPlayersError) {
-      console.error('Failed to reset players, rolling back picks:', resetPlayersError)
-      // Rollback: re-insert deleted picks
-      if (existingPicks && existingPicks.length > 0) {
-        const { error: rbErr } = await supabaseAdmin.from('draft_picks').insert(existingPicks)
-        if (rbErr)
-          console.error('CRITICAL: Rollback failed (re-insert picks):', { leagueId, rbErr })
-      }
-      return errorResponse('Failed to reset players', 500, req)
-    }
-
-    // Step 2.5: Clear all captain draft queues and reset timeout counters
-    const { data: captainsForCleanup } = await supabaseAdmin
-      .from('captains')
-      .select('id')
-      .eq('league_id', leagueId)
-    if (captainsForCleanup && captainsForCleanup.length > 0) {
-      const captainIds = captainsForCleanup.map((c: { id: string }) => c.id)
-      const { error: queueCleanupError } = await supabaseAdmin
-        .from('captain_draft_queues')
-        .delete()
-        .in('captain_id', captainIds)
-      if (queueCleanupError) {
-        console.error('Failed to clear draft queues during restart:', queueCleanupError)
-      }
-    }
-
-    // Reset consecutive timeout counters and auto-pick for all captains
-    const { error: resetCaptainsError } = await supabaseAdmin
-      .from('captains')
-      .update({ consecutive_timeout_picks: 0, auto_pick_enabled: false })
-      .eq('league_id', leagueId)
-    if (resetCaptainsError) {
-      console.error('Failed to reset captain timeout counters during restart:', resetCaptainsError)
-    }
-
-    // Step 3: Reset league status
-    const { error: updateLeagueError } = await supabaseAdmin
-      .from('leagues')
-      .update({
-        status: 'not_started',
-        current_pick_index: 0,
-        current_pick_started_at: null,
-      })
-      .eq('id', leagueId)
+    // Picks, players, queues, nominations, in-draft trades, captains and the
+    // league are reset in one transaction (restart_draft() in migration 051)
+    const { error: restartError } = await supabaseAdmin.rpc('restart_draft', {
+      p_league_id: leagueId,
+    })
 
-    if (updateLeagueError) {
-      console.error('Failed to update league, rolling back:', updateLeagueError)
-      // Rollback: restore drafted players and picks
-      if (draftedPlayers && draftedPlayers.length > 0) {
-        const results = await Promise.allSettled(
-          draftedPlayers.map((p) =>
-            supabaseAdmin
-              .from('players')
-              .update({
-                drafted_by_captain_id: p.drafted_by_captain_id,
-                draft_pick_number: p.draft_pick_number,
-              })
-              .eq('id', p.id)
-          )
-        )
-        results.forEach((result, i) => {
-          if (result.status === 'rejected') {
-            console.error('CRITICAL: Rollback failed (restore player):', {
-              playerId: draftedPlayers[i].id,
-              error: result.reason,
-            })
-          } else if (result.value.error) {
-            console.error('CRITICAL: Rollback failed (restore player):', {
-              playerId: draftedPlayers[i].id,
-              error: result.value.error,
-            })
-          }
-        })
+    if (restartError) {
+      // P0001 = RAISE EXCEPTION from restart_draft() (draft no longer paused)
+      if (restartError.code === 'P0001') {
+        return errorResponse(restartError.message, 409, req)
       }
-      if (existingPicks && existingPicks.length > 0) {
-        const { error: rbErr } = await supabaseAdmin.from('draft_picks').insert(existingPicks)
-        if (rbErr)
-          console.error('CRITICAL: Rollback failed (re-insert picks):', { leagueId, rbErr })
-      }
-      return errorResponse('Failed to update league', 500, req)
+      console.error('Failed to restart draft:', restartError)
+      return errorResponse('Failed to restart draft', 500, req)
     }
 
     logAudit(supabaseAdmin, {
@@ -0,0 +1,102 @@
+import { getCorsHeaders, handleCors } from '../_shared/cors.ts'
+import { createAdminClient } from '../_shared/supabase.ts'
+import { UUID_RE, errorResponse, requirePost, requireJson } from '../_shared/validation.ts'
+import { authenticateManager } from '../_shared/auth.ts'
+import { rateLimit } from '../_shared/rateLimit.ts'
+import { logAudit, getClientIp } from '../_shared/audit.ts'
+import type { DraftPick, RewindDraftRequest } from '../_shared/types.ts'
+
+Deno.serve(async (req) => {
+  const corsResponse = handleCors(req)
+  if (corsResponse) return corsResponse
+
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  const jsonResponse = requireJson(req)
+  if (jsonResponse) return jsonResponse
+
+  const rateLimitResponse = rateLimit(req, { windowMs: 60_000, maxRequests: 10 })
+  if (rateLimitResponse) return rateLimitResponse
+
+  try {
+    const { leagueId, pickNumber, restoreQueues }: RewindDraftRequest = await req.json()
+
+    if (!leagueId || pickNumber === undefined) {
+      return errorResponse('Missing required fields', 400, req)
+    }
+
+    if (!UUID_RE.test(leagueId)) {
+      return errorResponse('Invalid field format', 400, req)
+    }
+
+    if (!Number.isInteger(pickNumber) || pickNumber < 0) {
+      return errorResponse('pickNumber must be a non-negative integer', 400, req)
+    }
+
+    if (restoreQueues !== undefined && typeof restoreQueues !== 'boolean') {
+      return errorResponse('restoreQueues must be a boolean', 400, req)
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const authResult = await authenticateManager(req, leagueId, supabaseAdmin)
+    if (authResult instanceof Response) return authResult
+    const { user, league } = authResult
+
+    if (league.status !== 'in_progress' && league.status !== 'paused') {
+      return errorResponse('Draft must be in progress or paused to rewind', 400, req)
+    }
+
+    if (pickNumber >= league.current_pick_index) {
+      return errorResponse('Can only rewind to a pick that has already been made', 400, req)
+    }
+
+    // Remove every pick after pickNumber, return the players to the pool, put
+    // back queue entries and step the league back, in one transaction
+    const { data: removed, error: rewindError } = await supabaseAdmin.rpc('rewind_to_pick', {
+      p_league_id: leagueId,
+      p_pick_index: league.current_pick_index,
+      p_pick_number: pickNumber,
+      p_restore_queues: restoreQueues ?? false,
+    })
+
+    if (rewindError) {
+      // P0001 = RAISE EXCEPTION from rewind_to_pick() (draft state changed since read)
+      if (rewindError.code === 'P0001') {
+        return errorResponse(rewindError.message, 409, req)
+      }
+      console.error('Failed to rewind draft:', rewindError)
+      return errorResponse('Failed to rewind draft', 500, req)
+    }
+
+    const removedPicks = ((removed ?? []) as DraftPick[]).sort(
+      (a, b) => a.pick_number - b.pick_number
+    )
+
+    logAudit(supabaseAdmin, {
+      action: 'draft_rewound',
+      leagueId,
+      actorType: 'manager',
+      actorId: user.id,
+      metadata: {
+        toPickNumber: pickNumber,
+        restoreQueues: restoreQueues ?? false,
+        removedPicks: removedPicks.map((p) => ({
+          pickNumber: p.pick_number,
+          playerId: p.player_id,
+          captainId: p.captain_id,
+        })),
+      },
+      ipAddress: getClientIp(req),
+    })
+
+    return new Response(JSON.stringify({ success: true, removedCount: removedPicks.length }), {
+      status: 200,
+      headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Rewind draft error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
@@ -0,0 +1,194 @@
+// Supabase Edge Function for Web Push
+// - Called by the send_pick_push_notifications trigger (migration 045) whenever a pick clock starts
+// - Pushes "on the clock" to the captain picking and "up next" to the captain after them
+// - Drops subscriptions the push service reports as gone
+// Deploy with: supabase functions deploy send-push
+// Requires VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (e.g. mailto:you@example.com)
+
+import webpush from 'npm:web-push@3.6.7'
+import { createAdminClient } from '../_shared/supabase.ts'
+import {
+  UUID_RE,
+  errorResponse,
+  requirePost,
+  requireJson,
+  timingSafeEqual,
+} from '../_shared/validation.ts'
+import {
+  getCurrentCaptainId,
+  getAvailablePlayersServer,
+  getNextOpenPickIndex,
+} from '../_shared/draftOrder.ts'
+import type { PickOrderType } from '../_shared/draftOrder.ts'
+import type { Captain, League, SendPushRequest } from '../_shared/types.ts'
+
+interface PushSubscriptionRow {
+  id: string
+  captain_id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+Deno.serve(async (req) => {
+  const methodResponse = requirePost(req)
+  if (methodResponse) return methodResponse
+
+  const jsonResponse = requireJson(req)
+  if (jsonResponse) return jsonResponse
+
+  // Server-only: the trigger authenticates with the same secret as the auto-pick callbacks
+  const cronSecret = req.headers.get('x-cron-secret')
+  const expectedSecret = Deno.env.get('AUTO_PICK_CRON_SECRET')
+  if (!cronSecret || !expectedSecret || !timingSafeEqual(cronSecret, expectedSecret)) {
+    return errorResponse('Invalid callback secret', 403, req)
+  }
+
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY')
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY')
+  const subject = Deno.env.get('VAPID_SUBJECT')
+  if (!publicKey || !privateKey || !subject) {
+    console.error('Missing VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY or VAPID_SUBJECT')
+    return errorResponse('Web Push is not configured', 500, req)
+  }
+  webpush.setVapidDetails(subject, publicKey, privateKey)
+
+  try {
+    const { leagueId, pickIndex }: SendPushRequest = await req.json()
+
+    if (!leagueId || typeof pickIndex !== 'number') {
+      return errorResponse('Missing required fields', 400, req)
+    }
+
+    if (!UUID_RE.test(leagueId)) {
+      return errorResponse('Invalid field format', 400, req)
+    }
+
+    const supabaseAdmin = createAdminClient()
+
+    const { data: league, error: leagueError } = await supabaseAdmin
+      .from('leagues')
+      .select(
+        'id, name, status, draft_type, pick_order_matrix, current_pick_index, captains(id, name, draft_position, player_id, access_token), players(id, drafted_by_captain_id, keeper_captain_id), pick_ownership(pick_number, captain_id), draft_picks(pick_number)'
+      )
+      .eq('id', leagueId)
+      .single()
+
+    if (leagueError || !league) {
+      return errorResponse('League not found', 404, req)
+    }
+
+    // The draft moved on (or stopped) before this call arrived: the next call covers it
+    if (league.status !== 'in_progress' || league.current_pick_index !== pickIndex) {
+      return new Response(JSON.stringify({ success: true, sent: 0 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const typedLeague = league as League
+    const orderOptions = {
+      pickOrderMatrix: typedLeague.pick_order_matrix,
+      pickOwnership: typedLeague.pick_ownership,
+    }
+    const onClockId = getCurrentCaptainId(
+      typedLeague.captains,
+      pickIndex,
+      league.draft_type as PickOrderType,
+      orderOptions
+    )
+    // Nobody is up next on the last pick. Picks filled by keepers are skipped,
+    // like the draft does when it advances.
+    const available = getAvailablePlayersServer(typedLeague.players, typedLeague.captains)
+    const upNextId =
+      available.length > 1
+        ? getCurrentCaptainId(
+            typedLeague.captains,
+            getNextOpenPickIndex(pickIndex, typedLeague.draft_picks),
+            league.draft_type as PickOrderType,
+            orderOptions
+          )
+        : undefined
+
+    const messages = new Map<string, string>()
+    if (upNextId && upNextId !== onClockId) {
+      messages.set(upNextId, "You're up next. Get your pick ready!")
+    }
+    if (onClockId) {
+      messages.set(onClockId, "You're on the clock. It's your turn to pick!")
+    }
+    if (messages.size === 0) {
+      return new Response(JSON.stringify({ success: true, sent: 0 }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { data: subscriptions, error: subscriptionsError } = await supabaseAdmin
+      .from('push_subscriptions')
+      .select('id, captain_id, endpoint, p256dh, auth')
+      .eq('league_id', leagueId)
+      .in('captain_id', [...messages.keys()])
+
+    if (subscriptionsError) {
+      console.error('Failed to load push subscriptions:', subscriptionsError)
+      return errorResponse('Failed to load subscriptions', 500, req)
+    }
+
+    const gone: string[] = []
+    const results = await Promise.allSettled(
+      (subscriptions as PushSubscriptionRow[]).map(async (subscription) => {
+        const captain = typedLeague.captains.find((c: Captain) => c.id === subscription.captain_id)
+        if (!captain) return
+        const payload = JSON.stringify({
+          title: league.name,
+          body: messages.get(subscription.captain_id),
+          // The captain page's token only lives in session storage, so the link carries it
+          url: `/league/${leagueId}/captain?token=${captain.access_token}`,
+          tag: `draft-${leagueId}`,
+        })
+        try {
+          await webpush.sendNotification(
+            {
+              endpoint: subscription.endpoint,
+              keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+            },
+            payload,
+            { TTL: 300, urgency: 'high' }
+          )
+        } catch (err) {
+          // 404/410: the browser unsubscribed or the subscription expired
+          const statusCode = (err as { statusCode?: number }).statusCode
+          if (statusCode === 404 || statusCode === 410) {
+            gone.push(subscription.id)
+            return
+          }
+          throw err
+        }
+      })
+    )
+
+    for (const result of results) {
+      if (result.status === 'rejected') console.error('Push failed:', result.reason)
+    }
+
+    if (gone.length > 0) {
+      const { error: deleteError } = await supabaseAdmin
+        .from('push_subscriptions')
+        .delete()
+        .in('id', gone)
+      if (deleteError) console.error('Failed to delete expired subscriptions:', deleteError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sent: results.filter((r) => r.status === 'fulfilled').length - gone.length,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Send push error:', error)
+    return errorResponse('Internal server error', 500, req)
+  }
+})
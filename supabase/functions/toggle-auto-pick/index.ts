@@ -65,10 +65,24 @@ Deno.serve(async (req) => {
     }
 
     // Update the captain's auto_pick_enabled setting.
-    // When disabling, also reset the timeout counter so the captain gets a fresh start.
+    // When the league's timeout policy turns auto-pick on, disabling it also resets
+    // the timeout counter so the captain gets a fresh start. Leagues that skip or
+    // pause keep counting until the captain makes a pick (record_pick()).
     const updateData: Record<string, unknown> = { auto_pick_enabled: enabled }
     if (!enabled) {
-      updateData.consecutive_timeout_picks = 0
+      const { data: league, error: leagueError } = await supabaseAdmin
+        .from('leagues')
+        .select('consecutive_timeout_action')
+        .eq('id', leagueId)
+        .single()
+
+      if (leagueError || !league) {
+        return errorResponse('League not found', 404, req)
+      }
+
+      if (league.consecutive_timeout_action === 'auto_pick') {
+        updateData.consecutive_timeout_picks = 0
+      }
     }
     const { error: updateError } = await supabaseAdmin
       .from('captains')
@@ -15,6 +15,7 @@ import {
 import { rateLimit } from '../_shared/rateLimit.ts'
 import { logAudit, getClientIp } from '../_shared/audit.ts'
 import { authenticateManager } from '../_shared/auth.ts'
+import { getStrategyFieldIds, isValidAutoPickStrategy } from '../_shared/autoPickStrategy.ts'
 import type { UpdateCaptainColorRequest } from '../_shared/types.ts'
 
 const MAX_TEAM_NAME_LENGTH = 50
@@ -41,6 +42,7 @@ Deno.serve(async (req) => {
       teamName,
       teamPhotoUrl,
       teamPhotoBlob,
+      autoPickStrategy,
     }: UpdateCaptainColorRequest = await req.json()
 
     if (!captainId || !leagueId) {
@@ -56,7 +58,8 @@ Deno.serve(async (req) => {
       color === undefined &&
       teamName === undefined &&
       teamPhotoUrl === undefined &&
-      !teamPhotoBlob
+      !teamPhotoBlob &&
+      autoPickStrategy === undefined
     ) {
       return errorResponse('No fields to update', 400, req)
     }
@@ -93,6 +96,15 @@ Deno.serve(async (req) => {
       return errorResponse('Team photo exceeds maximum size', 400, req)
     }
 
+    // null goes back to the league's strategy
+    if (
+      autoPickStrategy !== undefined &&
+      autoPickStrategy !== null &&
+      !isValidAutoPickStrategy(autoPickStrategy)
+    ) {
+      return errorResponse('Invalid auto-pick strategy', 400, req)
+    }
+
     const supabaseAdmin = createAdminClient()
 
     // Get the captain and verify it belongs to the specified league
@@ -117,6 +129,25 @@ Deno.serve(async (req) => {
       if (authResult instanceof Response) return authResult
     }
 
+    // Strategy fields must be this league's number fields
+    const strategyFieldIds = autoPickStrategy ? getStrategyFieldIds(autoPickStrategy) : []
+    if (strategyFieldIds.length > 0) {
+      const { data: fields, error: fieldsError } = await supabaseAdmin
+        .from('league_field_schemas')
+        .select('id')
+        .eq('league_id', leagueId)
+        .eq('field_type', 'number')
+        .in('id', strategyFieldIds)
+
+      if (fieldsError) {
+        console.error('Failed to load field schemas:', fieldsError)
+        return errorResponse('Failed to update captain', 500, req)
+      }
+      if ((fields ?? []).length !== new Set(strategyFieldIds).size) {
+        return errorResponse('Auto-pick strategy must use number fields from this league', 400, req)
+      }
+    }
+
     // Handle base64 photo blob upload (used by captains who can't upload to storage directly)
     let resolvedPhotoUrl = teamPhotoUrl
     if (teamPhotoBlob) {
@@ -151,6 +182,7 @@ Deno.serve(async (req) => {
     if (color !== undefined) updateFields.team_color = color
     if (teamName !== undefined) updateFields.team_name = teamName ? teamName.trim() : null
     if (resolvedPhotoUrl !== undefined) updateFields.team_photo_url = resolvedPhotoUrl || null
+    if (autoPickStrategy !== undefined) updateFields.auto_pick_strategy = autoPickStrategy
 
     const { error: updateError } = await supabaseAdmin
       .from('captains')
@@ -0,0 +1,302 @@
+-- Migration 027: Auction draft mode
+--
+-- Adds 'auction' as a draft type. Each captain gets a budget of
+-- leagues.auction_budget; captains take turns nominating a player, then every
+-- captain with open roster slots can bid until the countdown expires and the
+-- high bidder wins the player at the bid price.
+--
+-- The existing pick timer is reused for both phases: current_pick_started_at
+-- marks when the nominator went on the clock, and is reset on every bid so the
+-- QStash trigger from migration 020 schedules a fresh auto-pick callback. The
+-- auto-pick edge function resolves the expired clock (auto-nominate or sell).
+--
+-- process_expired_timers() from migration 019 is redefined to skip auction
+-- leagues — its direct SQL picks would bypass nominations and budgets.
+
+-- ============================================
+-- 1. Draft type + league budget
+-- ============================================
+
+ALTER TABLE leagues DROP CONSTRAINT IF EXISTS leagues_draft_type_check;
+ALTER TABLE leagues
+  ADD CONSTRAINT leagues_draft_type_check
+  CHECK (draft_type IN ('snake', 'round_robin', 'auction'));
+
+ALTER TABLE leagues
+  ADD COLUMN auction_budget integer NOT NULL DEFAULT 200
+  CHECK (auction_budget > 0);
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (auction_budget) ON leagues TO anon, authenticated;
+
+-- Winning bid for auction picks (NULL for snake/round_robin picks)
+ALTER TABLE draft_picks
+  ADD COLUMN price integer CHECK (price IS NULL OR price >= 0);
+
+-- ============================================
+-- 2. Nominations and bids
+-- ============================================
+
+CREATE TABLE auction_nominations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  nominated_by_captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  current_bid integer NOT NULL CHECK (current_bid > 0),
+  current_bidder_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  status text CHECK (status IN ('open', 'sold')) DEFAULT 'open' NOT NULL,
+  pick_number integer,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Only one player can be on the block per league at a time
+CREATE UNIQUE INDEX idx_auction_nominations_one_open
+  ON auction_nominations(league_id) WHERE status = 'open';
+CREATE INDEX idx_auction_nominations_league ON auction_nominations(league_id);
+
+CREATE TABLE auction_bids (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  nomination_id uuid REFERENCES auction_nominations(id) ON DELETE CASCADE NOT NULL,
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_auction_bids_nomination ON auction_bids(nomination_id);
+CREATE INDEX idx_auction_bids_league ON auction_bids(league_id);
+
+-- Bidding state is public (like draft_picks). Writes go through the
+-- manage-auction and auto-pick edge functions via service_role only.
+ALTER TABLE auction_nominations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auction_bids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view auction nominations"
+  ON auction_nominations FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view auction bids"
+  ON auction_bids FOR SELECT
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON auction_nominations FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON auction_bids FROM anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE auction_nominations;
+ALTER PUBLICATION supabase_realtime ADD TABLE auction_bids;
+
+-- ============================================
+-- 3. Skip auction leagues in the pg_cron fallback
+-- ============================================
+
+-- Same as migration 019, plus the draft_type filter on the league loop.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  captain_count INT;
+  pick_position INT;
+  captain_index INT;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, draft_type, time_limit_seconds,
+           current_pick_started_at
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Get captain count for this league
+    SELECT count(*) INTO captain_count
+    FROM captains WHERE league_id = league_rec.id;
+
+    IF captain_count = 0 THEN CONTINUE; END IF;
+
+    -- Calculate current captain's draft position using same logic as
+    -- getCurrentCaptainId() in src/lib/draft.ts
+    IF league_rec.draft_type = 'snake' THEN
+      pick_position := league_rec.current_pick_index % (2 * captain_count);
+      IF pick_position < captain_count THEN
+        captain_index := pick_position;
+      ELSE
+        captain_index := 2 * captain_count - 1 - pick_position;
+      END IF;
+    ELSE -- round_robin
+      captain_index := league_rec.current_pick_index % captain_count;
+    END IF;
+
+    -- Find the captain at this draft position
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE league_id = league_rec.id
+      AND draft_position = captain_index
+    LIMIT 1;
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSE
+      IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+      IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Random pick from available players (same as edge function fallback)
+      SELECT p.* INTO selected_player
+      FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+      ORDER BY random()
+      LIMIT 1;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for non-auto-pick captains
+    IF NOT had_auto_pick THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'timerExpiry', NOT had_auto_pick,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
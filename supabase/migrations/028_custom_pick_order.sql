@@ -0,0 +1,285 @@
+-- Migration 028: Third-round reversal and custom pick order
+--
+-- Adds two draft types:
+-- - 'third_round_reversal': like snake, but round 3 runs in the same order as
+--   round 2, then the order alternates from there.
+-- - 'custom': the manager sets each round's order by hand. The order is stored
+--   in leagues.pick_order_matrix as a JSON array of rounds, each an array of
+--   captain IDs. Rounds that are missing, or that don't list every captain
+--   exactly once (e.g. a captain was added after the matrix was saved), fall
+--   back to draft position order.
+--
+-- get_pick_captain_id() mirrors getCurrentCaptainId() in
+-- supabase/functions/_shared/draftOrder.ts, and process_expired_timers() is
+-- redefined to use it. Captains are looked up by their rank in draft_position
+-- order rather than by the raw draft_position value (which is 1-based).
+
+-- ============================================
+-- 1. Draft types + custom matrix
+-- ============================================
+
+ALTER TABLE leagues DROP CONSTRAINT IF EXISTS leagues_draft_type_check;
+ALTER TABLE leagues
+  ADD CONSTRAINT leagues_draft_type_check
+  CHECK (draft_type IN ('snake', 'round_robin', 'third_round_reversal', 'custom', 'auction'));
+
+ALTER TABLE leagues
+  ADD COLUMN pick_order_matrix jsonb
+  CHECK (pick_order_matrix IS NULL OR jsonb_typeof(pick_order_matrix) = 'array');
+
+-- Column-level grants from migration 014 don't cover new columns
+GRANT SELECT (pick_order_matrix) ON leagues TO anon, authenticated;
+
+-- ============================================
+-- 2. Server-side pick order
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_pick_captain_id(p_league_id uuid, p_pick_index int)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_draft_type TEXT;
+  matrix JSONB;
+  captain_ids UUID[];
+  captain_count INT;
+  round_num INT;
+  position_in_round INT;
+  round_row JSONB;
+BEGIN
+  SELECT draft_type, pick_order_matrix INTO league_draft_type, matrix
+  FROM leagues WHERE id = p_league_id;
+
+  SELECT array_agg(id ORDER BY draft_position) INTO captain_ids
+  FROM captains WHERE league_id = p_league_id;
+
+  captain_count := coalesce(array_length(captain_ids, 1), 0);
+  IF captain_count = 0 THEN RETURN NULL; END IF;
+
+  round_num := p_pick_index / captain_count;
+  position_in_round := p_pick_index % captain_count;
+
+  -- Custom rows are only used when they list every captain exactly once
+  IF league_draft_type = 'custom' AND matrix IS NOT NULL THEN
+    round_row := matrix -> round_num;
+    IF jsonb_typeof(round_row) = 'array'
+       AND jsonb_array_length(round_row) = captain_count
+       AND (
+         SELECT count(DISTINCT value)
+         FROM jsonb_array_elements_text(round_row)
+         WHERE value = ANY (captain_ids::text[])
+       ) = captain_count
+    THEN
+      RETURN (round_row ->> position_in_round)::uuid;
+    END IF;
+  END IF;
+
+  IF (league_draft_type = 'snake' AND round_num % 2 = 1)
+     OR (league_draft_type = 'third_round_reversal'
+         AND (round_num = 1 OR (round_num >= 2 AND round_num % 2 = 0)))
+  THEN
+    RETURN captain_ids[captain_count - position_in_round];
+  END IF;
+
+  RETURN captain_ids[position_in_round + 1];
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_pick_captain_id(uuid, int) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. pg_cron fallback uses the shared pick order
+-- ============================================
+
+-- Same as migration 027, with the inline snake/round robin calculation
+-- replaced by get_pick_captain_id().
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSE
+      IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+      IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Random pick from available players (same as edge function fallback)
+      SELECT p.* INTO selected_player
+      FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+      ORDER BY random()
+      LIMIT 1;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for non-auto-pick captains
+    IF NOT had_auto_pick THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'timerExpiry', NOT had_auto_pick,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
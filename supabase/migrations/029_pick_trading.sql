@@ -0,0 +1,231 @@
+-- Migration 029: Pick trading
+--
+-- Captains can propose trades of future pick slots and already-drafted
+-- players to another captain. The recipient accepts or declines, the proposer
+-- can cancel, and the manager can veto while a trade is pending. All writes go
+-- through the manage-trade edge function.
+--
+-- pick_ownership records the current owner of every traded pick. Picks with no
+-- row keep the owner derived from the draft type and draft_position, so the
+-- table stays empty for leagues that never trade. get_pick_captain_id() is
+-- redefined to check it first, which also covers the pg_cron fallback.
+--
+-- execute_trade() applies an accepted trade atomically, re-checking that every
+-- pick and player still belongs to the captain giving it up.
+
+-- ============================================
+-- 1. Trades
+-- ============================================
+
+CREATE TABLE trades (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  proposer_captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  recipient_captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  status text CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'vetoed'))
+    DEFAULT 'pending' NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  resolved_at timestamptz,
+  CHECK (proposer_captain_id <> recipient_captain_id)
+);
+
+CREATE INDEX idx_trades_league ON trades(league_id);
+
+-- Each item is either a future pick slot or a drafted player
+CREATE TABLE trade_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id uuid REFERENCES trades(id) ON DELETE CASCADE NOT NULL,
+  from_captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  pick_number integer CHECK (pick_number > 0),
+  player_id uuid REFERENCES players(id) ON DELETE CASCADE,
+  CHECK ((pick_number IS NULL) <> (player_id IS NULL))
+);
+
+CREATE INDEX idx_trade_items_trade ON trade_items(trade_id);
+CREATE UNIQUE INDEX idx_trade_items_unique_pick
+  ON trade_items(trade_id, pick_number) WHERE pick_number IS NOT NULL;
+CREATE UNIQUE INDEX idx_trade_items_unique_player
+  ON trade_items(trade_id, player_id) WHERE player_id IS NOT NULL;
+
+-- ============================================
+-- 2. Pick ownership
+-- ============================================
+
+CREATE TABLE pick_ownership (
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  pick_number integer NOT NULL CHECK (pick_number > 0),
+  captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  trade_id uuid REFERENCES trades(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (league_id, pick_number)
+);
+
+-- Trades and ownership are public (like draft_picks). Writes go through the
+-- manage-trade edge function via service_role only.
+ALTER TABLE trades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trade_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pick_ownership ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view trades"
+  ON trades FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view trade items"
+  ON trade_items FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view pick ownership"
+  ON pick_ownership FOR SELECT
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON trades FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON trade_items FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON pick_ownership FROM anon, authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE trades;
+ALTER PUBLICATION supabase_realtime ADD TABLE pick_ownership;
+
+-- ============================================
+-- 3. Pick order reads ownership
+-- ============================================
+
+-- Same as migration 028, plus the pick_ownership lookup.
+CREATE OR REPLACE FUNCTION get_pick_captain_id(p_league_id uuid, p_pick_index int)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  league_draft_type TEXT;
+  matrix JSONB;
+  captain_ids UUID[];
+  captain_count INT;
+  round_num INT;
+  position_in_round INT;
+  round_row JSONB;
+BEGIN
+  -- Traded picks belong to whoever owns them now
+  SELECT captain_id INTO owner_id
+  FROM pick_ownership
+  WHERE league_id = p_league_id AND pick_number = p_pick_index + 1;
+
+  IF owner_id IS NOT NULL THEN RETURN owner_id; END IF;
+
+  SELECT draft_type, pick_order_matrix INTO league_draft_type, matrix
+  FROM leagues WHERE id = p_league_id;
+
+  SELECT array_agg(id ORDER BY draft_position) INTO captain_ids
+  FROM captains WHERE league_id = p_league_id;
+
+  captain_count := coalesce(array_length(captain_ids, 1), 0);
+  IF captain_count = 0 THEN RETURN NULL; END IF;
+
+  round_num := p_pick_index / captain_count;
+  position_in_round := p_pick_index % captain_count;
+
+  -- Custom rows are only used when they list every captain exactly once
+  IF league_draft_type = 'custom' AND matrix IS NOT NULL THEN
+    round_row := matrix -> round_num;
+    IF jsonb_typeof(round_row) = 'array'
+       AND jsonb_array_length(round_row) = captain_count
+       AND (
+         SELECT count(DISTINCT value)
+         FROM jsonb_array_elements_text(round_row)
+         WHERE value = ANY (captain_ids::text[])
+       ) = captain_count
+    THEN
+      RETURN (round_row ->> position_in_round)::uuid;
+    END IF;
+  END IF;
+
+  IF (league_draft_type = 'snake' AND round_num % 2 = 1)
+     OR (league_draft_type = 'third_round_reversal'
+         AND (round_num = 1 OR (round_num >= 2 AND round_num % 2 = 0)))
+  THEN
+    RETURN captain_ids[captain_count - position_in_round];
+  END IF;
+
+  RETURN captain_ids[position_in_round + 1];
+END;
+$$;
+
+-- ============================================
+-- 4. Atomic trade execution
+-- ============================================
+
+CREATE OR REPLACE FUNCTION execute_trade(p_trade_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trade_rec RECORD;
+  league_rec RECORD;
+  item RECORD;
+  to_captain_id UUID;
+  last_used_pick INT;
+BEGIN
+  SELECT * INTO trade_rec FROM trades WHERE id = p_trade_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found';
+  END IF;
+  IF trade_rec.status <> 'pending' THEN
+    RAISE EXCEPTION 'Trade is no longer pending';
+  END IF;
+
+  -- Lock the league so no pick is made while ownership changes
+  SELECT status, current_pick_index INTO league_rec
+  FROM leagues WHERE id = trade_rec.league_id FOR UPDATE;
+  IF league_rec.status = 'completed' THEN
+    RAISE EXCEPTION 'Draft is already complete';
+  END IF;
+
+  -- Picks up to and including the one on the clock can't be traded
+  last_used_pick := league_rec.current_pick_index
+    + CASE WHEN league_rec.status = 'not_started' THEN 0 ELSE 1 END;
+
+  FOR item IN SELECT * FROM trade_items WHERE trade_id = p_trade_id LOOP
+    to_captain_id := CASE
+      WHEN item.from_captain_id = trade_rec.proposer_captain_id
+        THEN trade_rec.recipient_captain_id
+      ELSE trade_rec.proposer_captain_id
+    END;
+
+    IF item.pick_number IS NOT NULL THEN
+      IF item.pick_number <= last_used_pick THEN
+        RAISE EXCEPTION 'Pick % has already been used', item.pick_number;
+      END IF;
+      IF get_pick_captain_id(trade_rec.league_id, item.pick_number - 1)
+         IS DISTINCT FROM item.from_captain_id THEN
+        RAISE EXCEPTION 'Pick % has changed hands since this trade was proposed', item.pick_number;
+      END IF;
+
+      INSERT INTO pick_ownership (league_id, pick_number, captain_id, trade_id)
+      VALUES (trade_rec.league_id, item.pick_number, to_captain_id, p_trade_id)
+      ON CONFLICT (league_id, pick_number) DO UPDATE
+      SET captain_id = EXCLUDED.captain_id,
+          trade_id = EXCLUDED.trade_id,
+          updated_at = now();
+    ELSE
+      UPDATE players
+      SET drafted_by_captain_id = to_captain_id
+      WHERE id = item.player_id
+        AND drafted_by_captain_id = item.from_captain_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'A traded player is no longer on the team giving them up';
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE trades
+  SET status = 'accepted', resolved_at = now()
+  WHERE id = p_trade_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION execute_trade(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,255 @@
+-- Migration 030: Keepers
+--
+-- Managers can assign players to a team before the draft starts (e.g. players
+-- a captain keeps from last season). Each keeper uses up that team's pick in a
+-- chosen round.
+--
+-- When the draft starts, place_keeper_picks() writes a draft_picks row for each
+-- keeper (is_keeper = true) and marks the player as drafted. From then on a
+-- BEFORE UPDATE trigger on leagues moves current_pick_index past any pick that
+-- is already filled, so make-pick, auto-pick and process_expired_timers() step
+-- over keeper picks without knowing about them.
+--
+-- A keeper pick is the team's first pick in the keeper round, using
+-- get_pick_captain_id() so custom orders and traded picks are respected.
+-- Mirrors getKeeperPickIndex() in src/lib/draft.ts.
+
+-- ============================================
+-- 1. Keeper designation
+-- ============================================
+
+ALTER TABLE players
+  ADD COLUMN keeper_captain_id uuid REFERENCES captains(id) ON DELETE SET NULL,
+  ADD COLUMN keeper_round integer CHECK (keeper_round IS NULL OR keeper_round > 0),
+  ADD CONSTRAINT players_keeper_round_required
+    CHECK (keeper_captain_id IS NULL OR keeper_round IS NOT NULL);
+
+-- A team can only keep one player per round
+CREATE UNIQUE INDEX players_keeper_slot_idx
+  ON players(keeper_captain_id, keeper_round) WHERE keeper_captain_id IS NOT NULL;
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (keeper_captain_id, keeper_round) ON players TO anon, authenticated;
+
+ALTER TABLE draft_picks
+  ADD COLUMN is_keeper boolean NOT NULL DEFAULT false;
+
+-- ============================================
+-- 2. Keeper placement
+-- ============================================
+
+-- First pick index at or after p_pick_index that has no draft_picks row
+CREATE OR REPLACE FUNCTION next_open_pick_index(p_league_id uuid, p_pick_index int)
+RETURNS int
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT min(i)
+  FROM generate_series(
+    p_pick_index,
+    p_pick_index + (SELECT count(*)::int FROM draft_picks WHERE league_id = p_league_id)
+  ) AS i
+  WHERE NOT EXISTS (
+    SELECT 1 FROM draft_picks d
+    WHERE d.league_id = p_league_id AND d.pick_number = i + 1
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION place_keeper_picks(p_league_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  keeper RECORD;
+  captain_count INT;
+  total_picks INT;
+  pick_idx INT;
+  keeper_pick_idx INT;
+BEGIN
+  SELECT count(*) INTO captain_count FROM captains WHERE league_id = p_league_id;
+  IF captain_count = 0 THEN RETURN; END IF;
+
+  -- Every player not linked to a captain fills one pick
+  SELECT count(*) INTO total_picks
+  FROM players p
+  WHERE p.league_id = p_league_id
+    AND p.id NOT IN (
+      SELECT c.player_id FROM captains c
+      WHERE c.league_id = p_league_id AND c.player_id IS NOT NULL
+    );
+
+  FOR keeper IN
+    SELECT p.id, p.name, p.keeper_captain_id, p.keeper_round
+    FROM players p
+    WHERE p.league_id = p_league_id
+      AND p.keeper_captain_id IS NOT NULL
+      AND p.drafted_by_captain_id IS NULL
+    ORDER BY p.keeper_round
+  LOOP
+    keeper_pick_idx := NULL;
+    FOR pick_idx IN
+      (keeper.keeper_round - 1) * captain_count
+      .. LEAST(keeper.keeper_round * captain_count, total_picks) - 1
+    LOOP
+      IF get_pick_captain_id(p_league_id, pick_idx) = keeper.keeper_captain_id THEN
+        keeper_pick_idx := pick_idx;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF keeper_pick_idx IS NULL THEN
+      RAISE EXCEPTION 'Keeper % has no round % pick to use', keeper.name, keeper.keeper_round;
+    END IF;
+
+    INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick, is_keeper)
+    VALUES (p_league_id, keeper.keeper_captain_id, keeper.id, keeper_pick_idx + 1, false, true);
+
+    UPDATE players
+    SET drafted_by_captain_id = keeper.keeper_captain_id,
+        draft_pick_number = keeper_pick_idx + 1
+    WHERE id = keeper.id;
+
+    DELETE FROM captain_draft_queues WHERE player_id = keeper.id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_open_pick_index(uuid, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION place_keeper_picks(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. Pick loop skips filled picks
+-- ============================================
+
+-- Runs for every league update, whichever path starts the draft or advances it
+-- (manager client, edge functions, pg_cron). Auction drafts don't use keepers.
+CREATE OR REPLACE FUNCTION apply_keeper_picks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.draft_type = 'auction' OR NEW.status <> 'in_progress' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'not_started' THEN
+    PERFORM place_keeper_picks(NEW.id);
+
+    -- Nothing left to draft if every remaining player was a keeper
+    IF NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = NEW.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = NEW.id AND c.player_id IS NOT NULL
+        )
+    ) THEN
+      NEW.status := 'completed';
+      NEW.current_pick_started_at := NULL;
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.current_pick_index <= OLD.current_pick_index THEN
+    -- Resume, undo, timer resets: leave the index alone
+    RETURN NEW;
+  END IF;
+
+  NEW.current_pick_index := next_open_pick_index(NEW.id, NEW.current_pick_index);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_keeper_picks_on_advance
+  BEFORE UPDATE OF status, current_pick_index ON leagues
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_keeper_picks();
+
+-- ============================================
+-- 4. Keeper picks can't be traded
+-- ============================================
+
+-- Same as migration 029, plus a check that the pick hasn't been filled.
+CREATE OR REPLACE FUNCTION execute_trade(p_trade_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trade_rec RECORD;
+  league_rec RECORD;
+  item RECORD;
+  to_captain_id UUID;
+  last_used_pick INT;
+BEGIN
+  SELECT * INTO trade_rec FROM trades WHERE id = p_trade_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found';
+  END IF;
+  IF trade_rec.status <> 'pending' THEN
+    RAISE EXCEPTION 'Trade is no longer pending';
+  END IF;
+
+  -- Lock the league so no pick is made while ownership changes
+  SELECT status, current_pick_index INTO league_rec
+  FROM leagues WHERE id = trade_rec.league_id FOR UPDATE;
+  IF league_rec.status = 'completed' THEN
+    RAISE EXCEPTION 'Draft is already complete';
+  END IF;
+
+  -- Picks up to and including the one on the clock can't be traded
+  last_used_pick := league_rec.current_pick_index
+    + CASE WHEN league_rec.status = 'not_started' THEN 0 ELSE 1 END;
+
+  FOR item IN SELECT * FROM trade_items WHERE trade_id = p_trade_id LOOP
+    to_captain_id := CASE
+      WHEN item.from_captain_id = trade_rec.proposer_captain_id
+        THEN trade_rec.recipient_captain_id
+      ELSE trade_rec.proposer_captain_id
+    END;
+
+    IF item.pick_number IS NOT NULL THEN
+      IF item.pick_number <= last_used_pick
+         OR EXISTS (
+           SELECT 1 FROM draft_picks
+           WHERE league_id = trade_rec.league_id AND pick_number = item.pick_number
+         )
+      THEN
+        RAISE EXCEPTION 'Pick % has already been used', item.pick_number;
+      END IF;
+      IF get_pick_captain_id(trade_rec.league_id, item.pick_number - 1)
+         IS DISTINCT FROM item.from_captain_id THEN
+        RAISE EXCEPTION 'Pick % has changed hands since this trade was proposed', item.pick_number;
+      END IF;
+
+      INSERT INTO pick_ownership (league_id, pick_number, captain_id, trade_id)
+      VALUES (trade_rec.league_id, item.pick_number, to_captain_id, p_trade_id)
+      ON CONFLICT (league_id, pick_number) DO UPDATE
+      SET captain_id = EXCLUDED.captain_id,
+          trade_id = EXCLUDED.trade_id,
+          updated_at = now();
+    ELSE
+      UPDATE players
+      SET drafted_by_captain_id = to_captain_id
+      WHERE id = item.player_id
+        AND drafted_by_captain_id = item.from_captain_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'A traded player is no longer on the team giving them up';
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE trades
+  SET status = 'accepted', resolved_at = now()
+  WHERE id = p_trade_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION execute_trade(uuid) FROM PUBLIC, anon, authenticated;
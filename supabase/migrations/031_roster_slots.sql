@@ -0,0 +1,275 @@
+-- Migration 031: Roster slot requirements
+--
+-- Managers can key roster limits off a dropdown field (e.g. "Position"):
+-- leagues.roster_slots maps each dropdown option to the number of players a
+-- team may draft at that position, e.g. {"Goalie": 1, "Defender": 4}.
+-- Options left out of the map, and players with no value for the field, are
+-- unrestricted.
+--
+-- Once a team's slots for a position are full it can't draft another player
+-- at that position — unless no remaining player fits, so a draft with fewer
+-- slots than rounds still finishes.
+--
+-- fits_roster_slots() mirrors fitsRosterSlots() in src/lib/rosterSlots.ts and
+-- supabase/functions/_shared/rosterSlots.ts. process_expired_timers() is
+-- redefined so the pg_cron fallback honours the limits like the auto-pick
+-- edge function does.
+
+-- ============================================
+-- 1. League settings
+-- ============================================
+
+ALTER TABLE leagues
+  ADD COLUMN roster_slot_schema_id uuid REFERENCES league_field_schemas(id) ON DELETE SET NULL,
+  ADD COLUMN roster_slots jsonb
+    CHECK (roster_slots IS NULL OR jsonb_typeof(roster_slots) = 'object');
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (roster_slot_schema_id, roster_slots) ON leagues TO anon, authenticated;
+
+-- ============================================
+-- 2. Slot check
+-- ============================================
+
+-- Whether p_captain_id can draft p_player_id without going over a position limit
+CREATE OR REPLACE FUNCTION fits_roster_slots(
+  p_league_id uuid,
+  p_captain_id uuid,
+  p_player_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  slot_schema_id UUID;
+  slots JSONB;
+  player_position TEXT;
+  filled INT;
+BEGIN
+  SELECT roster_slot_schema_id, roster_slots INTO slot_schema_id, slots
+  FROM leagues WHERE id = p_league_id;
+
+  IF slot_schema_id IS NULL OR slots IS NULL THEN
+    RETURN true;
+  END IF;
+
+  SELECT field_value INTO player_position
+  FROM player_custom_fields
+  WHERE player_id = p_player_id AND schema_id = slot_schema_id
+  LIMIT 1;
+
+  IF player_position IS NULL OR player_position = '' OR NOT slots ? player_position THEN
+    RETURN true;
+  END IF;
+
+  SELECT count(*) INTO filled
+  FROM players p
+  JOIN player_custom_fields f ON f.player_id = p.id AND f.schema_id = slot_schema_id
+  WHERE p.league_id = p_league_id
+    AND p.drafted_by_captain_id = p_captain_id
+    AND f.field_value = player_position;
+
+  RETURN filled < (slots ->> player_position)::int;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION fits_roster_slots(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. pg_cron fallback respects roster slots
+-- ============================================
+
+-- Same as migration 028, plus the fits_roster_slots() checks when choosing a
+-- player (same as selectPlayer() in the auto-pick edge function).
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSE
+      IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+      IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Random pick from available players (same as edge function fallback).
+      -- Players that fit an open slot come first; anyone goes once none do.
+      SELECT p.* INTO selected_player
+      FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+      ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC, random()
+      LIMIT 1;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for non-auto-pick captains
+    IF NOT had_auto_pick THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'timerExpiry', NOT had_auto_pick,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
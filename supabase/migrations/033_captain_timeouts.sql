@@ -0,0 +1,408 @@
+-- Migration 033: Captain timeouts
+--
+-- Each captain can call up to leagues.timeouts_per_captain timeouts per draft.
+-- A timeout adds leagues.timeout_seconds to the pick they are on the clock for,
+-- so they can think without asking the manager to pause.
+--
+-- The extra time lives in leagues.current_pick_extension_seconds rather than in
+-- current_pick_started_at: the clock still counts from the moment the pick
+-- started, and the limit for the pick is the usual limit (or time bank) plus
+-- the extension. A BEFORE UPDATE trigger resets the extension to 0 whenever
+-- current_pick_started_at changes (next pick, pause, undo), so a timeout only
+-- ever covers the clock it was called on.
+--
+-- The call-timeout edge function records the timeout. This migration
+-- redefines schedule_auto_pick_timer() (migration 032) to schedule a fresh
+-- QStash callback when the extension grows, apply_time_banks() (migration 032)
+-- so extension time isn't taken out of the bank, and process_expired_timers()
+-- (migration 032) to wait for the extension.
+
+-- ============================================
+-- 1. Settings and usage
+-- ============================================
+
+ALTER TABLE leagues
+  ADD COLUMN timeouts_per_captain integer NOT NULL DEFAULT 0
+    CHECK (timeouts_per_captain BETWEEN 0 AND 5),
+  ADD COLUMN timeout_seconds integer NOT NULL DEFAULT 60
+    CHECK (timeout_seconds BETWEEN 15 AND 600),
+  ADD COLUMN current_pick_extension_seconds integer NOT NULL DEFAULT 0
+    CHECK (current_pick_extension_seconds >= 0);
+
+ALTER TABLE captains
+  ADD COLUMN timeouts_used integer NOT NULL DEFAULT 0 CHECK (timeouts_used >= 0);
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (timeouts_per_captain, timeout_seconds, current_pick_extension_seconds)
+  ON leagues TO anon, authenticated;
+GRANT SELECT (timeouts_used) ON captains TO anon, authenticated;
+
+-- ============================================
+-- 2. Extensions end with the clock they were called on
+-- ============================================
+
+CREATE OR REPLACE FUNCTION reset_pick_extension()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_pick_started_at IS DISTINCT FROM OLD.current_pick_started_at THEN
+    NEW.current_pick_extension_seconds := 0;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_pick_extension_on_clock_change
+  BEFORE UPDATE OF current_pick_started_at ON leagues
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_pick_extension();
+
+-- ============================================
+-- 3. Time banks aren't charged for timeout time
+-- ============================================
+
+-- Same as migration 032, minus the extension when charging the bank.
+CREATE OR REPLACE FUNCTION apply_time_banks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timer_mode <> 'time_bank' OR NEW.draft_type = 'auction' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Fill every bank when the draft starts
+  IF OLD.status = 'not_started' AND NEW.status = 'in_progress' THEN
+    UPDATE captains
+    SET time_bank_remaining_seconds = NEW.time_bank_seconds
+    WHERE league_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  -- The clock was running and has stopped or restarted: charge the captain who
+  -- was on it, plus the increment if they made their pick
+  IF OLD.status = 'in_progress'
+     AND OLD.current_pick_started_at IS NOT NULL
+     AND NEW.current_pick_started_at IS DISTINCT FROM OLD.current_pick_started_at
+  THEN
+    UPDATE captains
+    SET time_bank_remaining_seconds = GREATEST(
+          0,
+          COALESCE(time_bank_remaining_seconds, NEW.time_bank_seconds)
+            - GREATEST(
+                0,
+                EXTRACT(EPOCH FROM (now() - OLD.current_pick_started_at))
+                  - OLD.current_pick_extension_seconds
+              )
+        )
+        + CASE
+            WHEN NEW.current_pick_index > OLD.current_pick_index
+              THEN NEW.time_bank_increment_seconds
+            ELSE 0
+          END
+    WHERE id = get_pick_captain_id(NEW.id, OLD.current_pick_index);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 4. QStash callback covers the extension
+-- ============================================
+
+-- Same as migration 032, plus a fresh callback when the extension grows. The
+-- delay is measured from now, so it is whatever is left of the extended clock.
+CREATE OR REPLACE FUNCTION schedule_auto_pick_timer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  qstash_token TEXT;
+  qstash_url TEXT;
+  auto_pick_url TEXT;
+  callback_secret TEXT;
+  delay_seconds INT;
+  publish_url TEXT;
+BEGIN
+  -- Only schedule when draft is in progress and timer actually started
+  IF NEW.status != 'in_progress' THEN RETURN NEW; END IF;
+  IF NEW.current_pick_started_at IS NULL THEN RETURN NEW; END IF;
+  IF NEW.time_limit_seconds <= 0 THEN RETURN NEW; END IF;
+
+  -- Skip unless the clock restarted or a timeout extended it (NULL-safe)
+  IF NEW.current_pick_started_at IS NOT DISTINCT FROM OLD.current_pick_started_at
+     AND NEW.current_pick_extension_seconds <= OLD.current_pick_extension_seconds
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get config from vault
+  SELECT decrypted_secret INTO qstash_token
+  FROM vault.decrypted_secrets WHERE name = 'qstash_token';
+
+  SELECT decrypted_secret INTO qstash_url
+  FROM vault.decrypted_secrets WHERE name = 'qstash_url';
+
+  SELECT decrypted_secret INTO auto_pick_url
+  FROM vault.decrypted_secrets WHERE name = 'auto_pick_function_url';
+
+  SELECT decrypted_secret INTO callback_secret
+  FROM vault.decrypted_secrets WHERE name = 'auto_pick_cron_secret';
+
+  -- If vault secrets aren't configured yet, skip silently
+  IF qstash_token IS NULL OR qstash_url IS NULL OR auto_pick_url IS NULL OR callback_secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Time bank leagues: wait out the remaining bank of the captain on the clock
+  IF NEW.timer_mode = 'time_bank' AND NEW.draft_type <> 'auction' THEN
+    SELECT ceil(COALESCE(time_bank_remaining_seconds, NEW.time_bank_seconds))::int
+    INTO delay_seconds
+    FROM captains
+    WHERE id = get_pick_captain_id(NEW.id, NEW.current_pick_index);
+    delay_seconds := COALESCE(delay_seconds, NEW.time_bank_seconds);
+  ELSE
+    delay_seconds := NEW.time_limit_seconds;
+  END IF;
+  delay_seconds := GREATEST(
+    0,
+    ceil(
+      delay_seconds + NEW.current_pick_extension_seconds
+        - EXTRACT(EPOCH FROM (now() - NEW.current_pick_started_at))
+    )::int
+  ) + 2;
+  publish_url := qstash_url || '/v2/publish/' || auto_pick_url;
+
+  -- Schedule the QStash callback.
+  -- QStash will POST to auto_pick_url after delay_seconds with the JSON body.
+  -- Headers: Authorization is consumed by QStash (not forwarded).
+  -- Content-Type and x-cron-secret are forwarded to the destination.
+  PERFORM net.http_post(
+    url := publish_url,
+    body := jsonb_build_object(
+      'leagueId', NEW.id::text,
+      'expectedPickIndex', NEW.current_pick_index
+    ),
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || qstash_token,
+      'Content-Type', 'application/json',
+      'Upstash-Delay', delay_seconds || 's',
+      'x-cron-secret', callback_secret
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- 5. pg_cron fallback waits for the extension
+-- ============================================
+
+-- Same as migration 032, plus the extension on the deadline for captains without auto-pick.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSE
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Random pick from available players (same as edge function fallback).
+      -- Players that fit an open slot come first; anyone goes once none do.
+      SELECT p.* INTO selected_player
+      FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+      ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC, random()
+      LIMIT 1;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for non-auto-pick captains
+    IF NOT had_auto_pick THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'timerExpiry', NOT had_auto_pick,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
@@ -0,0 +1,197 @@
+-- Migration 034: Atomic pick recording
+--
+-- make-pick, auto-pick and auction sales used to record a pick as several
+-- separate writes (insert the pick, assign the player, clear queues, advance
+-- the league) and undo them one by one when a later step failed. If the undo
+-- failed too, a half-applied pick was left behind. undo-pick had the same
+-- problem in reverse.
+--
+-- record_pick() and undo_last_pick() do all of it in one transaction. They
+-- lock the league row, so concurrent callers wait for each other instead of
+-- racing the optimistic lock on current_pick_index, and then re-check that
+-- the draft is still on the pick the caller read.
+--
+-- Conflicts (the pick moved on, the player is gone, the bid changed) are
+-- raised with RAISE EXCEPTION (SQLSTATE P0001). The message is returned to
+-- the client as is.
+
+-- ============================================
+-- 1. Record a pick
+-- ============================================
+
+-- Returns whether the pick completed the draft. Auction sales pass the
+-- nomination and winning bid, and the nomination is marked sold.
+CREATE OR REPLACE FUNCTION record_pick(
+  p_league_id uuid,
+  p_pick_index int,
+  p_captain_id uuid,
+  p_player_id uuid,
+  p_is_auto_pick boolean DEFAULT false,
+  p_timer_expiry boolean DEFAULT false,
+  p_nomination_id uuid DEFAULT NULL,
+  p_price int DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  pick_num INT := p_pick_index + 1;
+  is_complete BOOLEAN;
+BEGIN
+  SELECT status, current_pick_index INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_rec.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Draft is not in progress';
+  END IF;
+  IF league_rec.current_pick_index <> p_pick_index THEN
+    RAISE EXCEPTION 'Draft state changed concurrently';
+  END IF;
+
+  -- Auction sales: the nomination must still be open at the bid being sold
+  IF p_nomination_id IS NOT NULL THEN
+    UPDATE auction_nominations
+    SET status = 'sold', pick_number = pick_num
+    WHERE id = p_nomination_id
+      AND league_id = p_league_id
+      AND status = 'open'
+      AND player_id = p_player_id
+      AND current_bidder_id = p_captain_id
+      AND current_bid = p_price;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Pick already made';
+    END IF;
+  END IF;
+
+  PERFORM 1 FROM players
+  WHERE id = p_player_id
+    AND league_id = p_league_id
+    AND drafted_by_captain_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player not available';
+  END IF;
+
+  INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick, price)
+  VALUES (p_league_id, p_captain_id, p_player_id, pick_num, p_is_auto_pick, p_price);
+
+  UPDATE players
+  SET drafted_by_captain_id = p_captain_id,
+      draft_pick_number = pick_num
+  WHERE id = p_player_id;
+
+  -- Remove picked player from ALL captain queues
+  DELETE FROM captain_draft_queues
+  WHERE player_id = p_player_id;
+
+  -- Consecutive timeouts (same threshold as process_expired_timers()): a pick
+  -- made when the timer ran out counts towards turning on auto-pick, and a
+  -- pick the captain made themselves starts the count over
+  IF p_timer_expiry THEN
+    UPDATE captains
+    SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+        auto_pick_enabled = auto_pick_enabled OR consecutive_timeout_picks + 1 >= 2
+    WHERE id = p_captain_id;
+  ELSIF NOT p_is_auto_pick AND p_nomination_id IS NULL THEN
+    UPDATE captains
+    SET consecutive_timeout_picks = 0
+    WHERE id = p_captain_id;
+  END IF;
+
+  -- Draft is complete when no available players are left (same rules as
+  -- getAvailablePlayers() in src/lib/draft.ts)
+  SELECT NOT EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.league_id = p_league_id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = p_league_id
+          AND c.player_id IS NOT NULL
+      )
+  ) INTO is_complete;
+
+  -- A completed draft stays on its last pick index
+  UPDATE leagues
+  SET status = CASE WHEN is_complete THEN 'completed' ELSE 'in_progress' END,
+      current_pick_index = CASE WHEN is_complete THEN p_pick_index ELSE p_pick_index + 1 END,
+      current_pick_started_at = CASE WHEN is_complete THEN NULL ELSE now() END
+  WHERE id = p_league_id;
+
+  RETURN is_complete;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_pick(uuid, int, uuid, uuid, boolean, boolean, uuid, int)
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 2. Undo the last pick
+-- ============================================
+
+-- Returns the pick that was removed. Keeper picks were placed when the draft
+-- started and can't be undone, so they are skipped over.
+CREATE OR REPLACE FUNCTION undo_last_pick(p_league_id uuid, p_pick_index int)
+RETURNS draft_picks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  last_pick draft_picks;
+BEGIN
+  SELECT status, current_pick_index INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_rec.status NOT IN ('in_progress', 'paused') THEN
+    RAISE EXCEPTION 'Draft must be in progress or paused to undo';
+  END IF;
+  IF league_rec.current_pick_index <> p_pick_index THEN
+    RAISE EXCEPTION 'Draft state changed concurrently. Please try again.';
+  END IF;
+
+  SELECT * INTO last_pick
+  FROM draft_picks
+  WHERE league_id = p_league_id
+    AND NOT is_keeper
+    AND pick_number <= p_pick_index
+  ORDER BY pick_number DESC
+  LIMIT 1;
+
+  IF last_pick.id IS NULL THEN
+    RAISE EXCEPTION 'No picks to undo (pick may have already been undone)';
+  END IF;
+
+  DELETE FROM draft_picks WHERE id = last_pick.id;
+
+  UPDATE players
+  SET drafted_by_captain_id = NULL,
+      draft_pick_number = NULL
+  WHERE id = last_pick.player_id;
+
+  -- Back to the undone pick, restarting the clock unless the draft is paused
+  UPDATE leagues
+  SET current_pick_index = last_pick.pick_number - 1,
+      current_pick_started_at = CASE WHEN league_rec.status = 'in_progress' THEN now() END
+  WHERE id = p_league_id;
+
+  -- Auction drafts: drop the undone sale's nomination and anything still on the block
+  DELETE FROM auction_nominations
+  WHERE league_id = p_league_id
+    AND (status = 'open' OR pick_number = last_pick.pick_number);
+
+  RETURN last_pick;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION undo_last_pick(uuid, int) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,171 @@
+-- Migration 035: Rewind the draft to an earlier pick
+--
+-- undo_last_pick() only removes the most recent pick. rewind_to_pick() removes
+-- every pick after a chosen pick in one transaction: the players go back to
+-- the pool, the league goes back to the first removed pick and the clock
+-- restarts. Keeper picks stay where they are.
+--
+-- Picking a player removes them from every captain's queue. To be able to put
+-- those entries back, a trigger on draft_picks saves them in
+-- pick_queue_entries when the pick is recorded, whichever path records it
+-- (record_pick(), process_expired_timers(), place_keeper_picks()). Queues are
+-- private, so the table is only readable by the service role.
+
+-- ============================================
+-- 1. Queue entries cleared by each pick
+-- ============================================
+
+CREATE TABLE pick_queue_entries (
+  pick_id uuid REFERENCES draft_picks(id) ON DELETE CASCADE NOT NULL,
+  captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  PRIMARY KEY (pick_id, captain_id)
+);
+
+-- RLS with no policies: only the service role (edge functions) can read it
+ALTER TABLE pick_queue_entries ENABLE ROW LEVEL SECURITY;
+
+-- AFTER INSERT runs before the picked player is removed from queues in every
+-- path that records a pick
+CREATE OR REPLACE FUNCTION save_pick_queue_entries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO pick_queue_entries (pick_id, captain_id, position)
+  SELECT NEW.id, q.captain_id, q.position
+  FROM captain_draft_queues q
+  WHERE q.player_id = NEW.player_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER save_pick_queue_entries_on_pick
+  AFTER INSERT ON draft_picks
+  FOR EACH ROW
+  EXECUTE FUNCTION save_pick_queue_entries();
+
+-- ============================================
+-- 2. Rewind
+-- ============================================
+
+-- Removes every non-keeper pick after p_pick_number (0 rewinds to the start of
+-- the draft) and returns the removed picks. With p_restore_queues, removed
+-- players go back into the queues they were in, at their old place.
+CREATE OR REPLACE FUNCTION rewind_to_pick(
+  p_league_id uuid,
+  p_pick_index int,
+  p_pick_number int,
+  p_restore_queues boolean DEFAULT false
+)
+RETURNS SETOF draft_picks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  removed draft_picks;
+  first_removed INT;
+  restored JSONB;
+  affected_captain UUID;
+BEGIN
+  SELECT status, current_pick_index INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_rec.status NOT IN ('in_progress', 'paused') THEN
+    RAISE EXCEPTION 'Draft must be in progress or paused to rewind';
+  END IF;
+  IF league_rec.current_pick_index <> p_pick_index THEN
+    RAISE EXCEPTION 'Draft state changed concurrently. Please try again.';
+  END IF;
+
+  SELECT min(pick_number) INTO first_removed
+  FROM draft_picks
+  WHERE league_id = p_league_id
+    AND NOT is_keeper
+    AND pick_number > p_pick_number
+    AND pick_number <= p_pick_index;
+
+  IF first_removed IS NULL THEN
+    RAISE EXCEPTION 'No picks after pick % to rewind', p_pick_number;
+  END IF;
+
+  -- Queue entries to put back, read before the picks (and their saved
+  -- entries) are deleted
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'captain_id', e.captain_id,
+    'player_id', d.player_id,
+    'position', e.position
+  )), '[]'::jsonb) INTO restored
+  FROM pick_queue_entries e
+  JOIN draft_picks d ON d.id = e.pick_id
+  WHERE p_restore_queues
+    AND d.league_id = p_league_id
+    AND NOT d.is_keeper
+    AND d.pick_number >= first_removed
+    AND d.pick_number <= p_pick_index;
+
+  FOR removed IN
+    DELETE FROM draft_picks
+    WHERE league_id = p_league_id
+      AND NOT is_keeper
+      AND pick_number >= first_removed
+      AND pick_number <= p_pick_index
+    RETURNING *
+  LOOP
+    UPDATE players
+    SET drafted_by_captain_id = NULL,
+        draft_pick_number = NULL
+    WHERE id = removed.player_id;
+
+    RETURN NEXT removed;
+  END LOOP;
+
+  -- Merge restored entries back in by their old position. Existing entries
+  -- move to even negative positions and restored ones to odd, so a restored
+  -- entry sorts ahead of whatever took its place, then the queue is
+  -- renumbered from 0.
+  FOR affected_captain IN
+    SELECT DISTINCT captain_id FROM jsonb_to_recordset(restored) AS r(captain_id uuid)
+  LOOP
+    UPDATE captain_draft_queues
+    SET position = -(2 * position + 2)
+    WHERE captain_id = affected_captain;
+
+    INSERT INTO captain_draft_queues (captain_id, player_id, position)
+    SELECT captain_id, player_id, -(2 * position + 1)
+    FROM jsonb_to_recordset(restored) AS r(captain_id uuid, player_id uuid, position int)
+    WHERE captain_id = affected_captain
+    ON CONFLICT (captain_id, player_id) DO NOTHING;
+
+    UPDATE captain_draft_queues q
+    SET position = r.new_position
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY position DESC) - 1 AS new_position
+      FROM captain_draft_queues
+      WHERE captain_id = affected_captain
+    ) r
+    WHERE q.id = r.id;
+  END LOOP;
+
+  -- Back to the first removed pick, restarting the clock unless the draft is paused
+  UPDATE leagues
+  SET current_pick_index = first_removed - 1,
+      current_pick_started_at = CASE WHEN league_rec.status = 'in_progress' THEN now() END
+  WHERE id = p_league_id;
+
+  -- Auction drafts: drop the removed sales' nominations and anything still on the block
+  DELETE FROM auction_nominations
+  WHERE league_id = p_league_id
+    AND (status = 'open' OR pick_number >= first_removed);
+
+  RETURN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rewind_to_pick(uuid, int, int, boolean) FROM PUBLIC, anon, authenticated;
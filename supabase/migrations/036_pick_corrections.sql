@@ -0,0 +1,120 @@
+-- Migration 036: Pick corrections
+--
+-- Lets a manager swap the player on a pick that has already been recorded
+-- ("I clicked the wrong Alex") without undoing the picks after it. The pick
+-- keeps its number, captain, price and time; only the player changes.
+--
+-- draft_picks.original_player_id remembers who was picked before the first
+-- correction, so the summary and export can mark corrected picks. Correcting
+-- a pick back to its original player clears it again.
+
+-- ============================================
+-- 1. Corrected pick marker
+-- ============================================
+
+ALTER TABLE draft_picks
+  ADD COLUMN original_player_id uuid REFERENCES players(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 2. Correct a pick
+-- ============================================
+
+-- Returns the player that was on the pick before. Conflicts are raised with
+-- RAISE EXCEPTION (SQLSTATE P0001), like record_pick().
+CREATE OR REPLACE FUNCTION correct_pick(
+  p_league_id uuid,
+  p_pick_id uuid,
+  p_player_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  pick_rec draft_picks;
+BEGIN
+  -- Lock the league so the correction can't interleave with a pick, undo or rewind
+  SELECT status INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_rec.status NOT IN ('in_progress', 'paused', 'completed') THEN
+    RAISE EXCEPTION 'Draft has not started';
+  END IF;
+
+  SELECT * INTO pick_rec
+  FROM draft_picks
+  WHERE id = p_pick_id
+    AND league_id = p_league_id;
+
+  IF pick_rec.id IS NULL THEN
+    RAISE EXCEPTION 'Pick not found (it may have been undone)';
+  END IF;
+  IF pick_rec.is_keeper THEN
+    RAISE EXCEPTION 'Keeper picks can''t be corrected';
+  END IF;
+  IF pick_rec.player_id = p_player_id THEN
+    RAISE EXCEPTION 'That player is already on this pick';
+  END IF;
+
+  -- Same availability rules as record_pick(), plus not on the auction block
+  PERFORM 1 FROM players p
+  WHERE p.id = p_player_id
+    AND p.league_id = p_league_id
+    AND p.drafted_by_captain_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM captains c
+      WHERE c.league_id = p_league_id
+        AND c.player_id = p.id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM auction_nominations n
+      WHERE n.league_id = p_league_id
+        AND n.player_id = p.id
+        AND n.status = 'open'
+    )
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player not available';
+  END IF;
+
+  UPDATE players
+  SET drafted_by_captain_id = NULL,
+      draft_pick_number = NULL
+  WHERE id = pick_rec.player_id;
+
+  UPDATE players
+  SET drafted_by_captain_id = pick_rec.captain_id,
+      draft_pick_number = pick_rec.pick_number
+  WHERE id = p_player_id;
+
+  UPDATE draft_picks
+  SET player_id = p_player_id,
+      original_player_id = CASE
+        WHEN coalesce(pick_rec.original_player_id, pick_rec.player_id) = p_player_id THEN NULL
+        ELSE coalesce(pick_rec.original_player_id, pick_rec.player_id)
+      END
+  WHERE id = p_pick_id;
+
+  -- The saved queue entries (migration 035) now belong to the new player, so
+  -- a later rewind puts back the right ones. The old player's entries were
+  -- already cleared when they were picked and stay gone.
+  DELETE FROM pick_queue_entries WHERE pick_id = p_pick_id;
+
+  INSERT INTO pick_queue_entries (pick_id, captain_id, position)
+  SELECT p_pick_id, q.captain_id, q.position
+  FROM captain_draft_queues q
+  WHERE q.player_id = p_player_id;
+
+  DELETE FROM captain_draft_queues
+  WHERE player_id = p_player_id;
+
+  RETURN pick_rec.player_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION correct_pick(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
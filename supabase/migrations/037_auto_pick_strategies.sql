@@ -0,0 +1,434 @@
+-- Migration 037: Auto-pick strategies
+--
+-- When a captain's queue is empty, auto-pick used to choose a random player.
+-- leagues.auto_pick_strategy sets how it chooses instead, and
+-- captains.auto_pick_strategy overrides it for one team (NULL = the league's;
+-- a NULL league strategy is random). Strategies are JSON objects:
+--
+--   {"type": "random"}
+--   {"type": "best_field", "fieldId": <number field>, "order": "highest" | "lowest"}
+--   {"type": "balance", "fieldIds": [<number fields>]}
+--
+-- balance picks the player that brings the team's averages for the fields
+-- closest to the averages across the whole league.
+--
+-- auto_pick_strategy_player() mirrors chooseByStrategy() in
+-- src/lib/autoPickStrategy.ts and supabase/functions/_shared/autoPickStrategy.ts.
+-- process_expired_timers() is redefined so the pg_cron fallback uses it like
+-- the auto-pick edge function does.
+
+-- ============================================
+-- 1. Settings
+-- ============================================
+
+-- Shape check for both columns. Managers write the league's strategy directly.
+CREATE OR REPLACE FUNCTION is_valid_auto_pick_strategy(s jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  uuid_re CONSTANT TEXT := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+BEGIN
+  IF jsonb_typeof(s) IS DISTINCT FROM 'object' THEN
+    RETURN false;
+  END IF;
+
+  CASE s ->> 'type'
+    WHEN 'random' THEN
+      RETURN true;
+    WHEN 'best_field' THEN
+      RETURN coalesce(
+        jsonb_typeof(s -> 'fieldId') = 'string'
+          AND (s ->> 'fieldId') ~* uuid_re
+          AND s ->> 'order' IN ('highest', 'lowest'),
+        false
+      );
+    WHEN 'balance' THEN
+      IF jsonb_typeof(s -> 'fieldIds') IS DISTINCT FROM 'array'
+        OR jsonb_array_length(s -> 'fieldIds') NOT BETWEEN 1 AND 10 THEN
+        RETURN false;
+      END IF;
+      RETURN NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(s -> 'fieldIds') AS e
+        WHERE jsonb_typeof(e) <> 'string' OR (e #>> '{}') !~* uuid_re
+      );
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$;
+
+ALTER TABLE leagues
+  ADD COLUMN auto_pick_strategy jsonb
+    CHECK (auto_pick_strategy IS NULL OR is_valid_auto_pick_strategy(auto_pick_strategy));
+
+ALTER TABLE captains
+  ADD COLUMN auto_pick_strategy jsonb
+    CHECK (auto_pick_strategy IS NULL OR is_valid_auto_pick_strategy(auto_pick_strategy));
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (auto_pick_strategy) ON leagues TO anon, authenticated;
+GRANT SELECT (auto_pick_strategy) ON captains TO anon, authenticated;
+
+-- ============================================
+-- 2. Strategy choice
+-- ============================================
+
+-- The player p_captain_id's strategy picks from the available players, or NULL
+-- when it's random or no available player has a value for its fields. Only
+-- players that fit an open roster slot are considered, unless none do. Ties
+-- are broken at random.
+CREATE OR REPLACE FUNCTION auto_pick_strategy_player(
+  p_league_id uuid,
+  p_captain_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Same numbers as parseFieldNumber() accepts, so the ::numeric casts can't fail
+  number_re CONSTANT TEXT := '^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$';
+  strategy JSONB;
+  field_ids UUID[];
+  any_fit BOOLEAN;
+  chosen UUID;
+BEGIN
+  SELECT coalesce(c.auto_pick_strategy, l.auto_pick_strategy) INTO strategy
+  FROM captains c
+  JOIN leagues l ON l.id = c.league_id
+  WHERE c.id = p_captain_id
+    AND l.id = p_league_id;
+
+  IF strategy IS NULL OR strategy ->> 'type' NOT IN ('best_field', 'balance') THEN
+    RETURN NULL;
+  END IF;
+
+  field_ids := ARRAY(
+    SELECT jsonb_array_elements_text(
+      CASE strategy ->> 'type'
+        WHEN 'best_field' THEN jsonb_build_array(strategy -> 'fieldId')
+        ELSE strategy -> 'fieldIds'
+      END
+    )::uuid
+  );
+
+  SELECT EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.league_id = p_league_id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = p_league_id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(p_league_id, p_captain_id, p.id)
+  ) INTO any_fit;
+
+  IF strategy ->> 'type' = 'best_field' THEN
+    SELECT p.id INTO chosen
+    FROM players p
+    JOIN player_custom_fields f ON f.player_id = p.id AND f.schema_id = field_ids[1]
+    WHERE p.league_id = p_league_id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = p_league_id
+          AND c.player_id IS NOT NULL
+      )
+      AND (NOT any_fit OR fits_roster_slots(p_league_id, p_captain_id, p.id))
+      AND f.field_value ~ number_re
+    ORDER BY
+      CASE WHEN strategy ->> 'order' = 'lowest'
+        THEN -f.field_value::numeric
+        ELSE f.field_value::numeric
+      END DESC,
+      random()
+    LIMIT 1;
+
+    RETURN chosen;
+  END IF;
+
+  -- balance: for each field, how far the team's average (with the candidate)
+  -- is from the league-wide average, scaled by the field's range
+  WITH vals AS (
+    SELECT f.player_id, f.schema_id, f.field_value::numeric AS v
+    FROM player_custom_fields f
+    JOIN players p ON p.id = f.player_id
+    WHERE p.league_id = p_league_id
+      AND f.schema_id = ANY(field_ids)
+      AND f.field_value ~ number_re
+  ),
+  targets AS (
+    SELECT schema_id, avg(v) AS target, coalesce(nullif(max(v) - min(v), 0), 1) AS spread
+    FROM vals
+    GROUP BY schema_id
+  ),
+  roster AS (
+    SELECT vals.schema_id, sum(vals.v) AS total, count(*) AS n
+    FROM vals
+    JOIN players p ON p.id = vals.player_id
+    WHERE p.drafted_by_captain_id = p_captain_id
+    GROUP BY vals.schema_id
+  ),
+  candidates AS (
+    SELECT p.id
+    FROM players p
+    WHERE p.league_id = p_league_id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = p_league_id
+          AND c.player_id IS NOT NULL
+      )
+      AND (NOT any_fit OR fits_roster_slots(p_league_id, p_captain_id, p.id))
+      AND EXISTS (SELECT 1 FROM vals WHERE vals.player_id = p.id)
+  )
+  SELECT c.id INTO chosen
+  FROM candidates c
+  CROSS JOIN targets t
+  LEFT JOIN roster r ON r.schema_id = t.schema_id
+  LEFT JOIN vals cv ON cv.player_id = c.id AND cv.schema_id = t.schema_id
+  GROUP BY c.id
+  ORDER BY
+    sum(
+      CASE WHEN coalesce(r.n, 0) + (cv.v IS NOT NULL)::int = 0 THEN 0
+      ELSE abs(
+        (coalesce(r.total, 0) + coalesce(cv.v, 0)) / (coalesce(r.n, 0) + (cv.v IS NOT NULL)::int)
+          - t.target
+      ) / t.spread
+      END
+    ),
+    random()
+  LIMIT 1;
+
+  RETURN chosen;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION auto_pick_strategy_player(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. pg_cron fallback uses the strategy
+-- ============================================
+
+-- Same as migration 033, plus the captain's strategy between the queue and the
+-- random pick, and the strategy in the audit log.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  from_strategy BOOLEAN;
+  strategy_player_id UUID;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds, auto_pick_strategy
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSE
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+    from_strategy := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Then the captain's auto-pick strategy (same as chooseByStrategy() in
+      -- the auto-pick edge function)
+      strategy_player_id := auto_pick_strategy_player(league_rec.id, current_cap.id);
+
+      IF strategy_player_id IS NOT NULL THEN
+        SELECT p.* INTO selected_player FROM players p WHERE p.id = strategy_player_id;
+        from_strategy := true;
+      ELSE
+        -- Random pick from available players (same as edge function fallback).
+        -- Players that fit an open slot come first; anyone goes once none do.
+        SELECT p.* INTO selected_player
+        FROM players p
+        WHERE p.league_id = league_rec.id
+          AND p.drafted_by_captain_id IS NULL
+          AND p.id NOT IN (
+            SELECT c.player_id FROM captains c
+            WHERE c.league_id = league_rec.id
+              AND c.player_id IS NOT NULL
+          )
+        ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC, random()
+        LIMIT 1;
+      END IF;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for non-auto-pick captains
+    IF NOT had_auto_pick THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'strategy', coalesce(
+          current_cap.auto_pick_strategy ->> 'type',
+          league_rec.auto_pick_strategy ->> 'type',
+          'random'
+        ),
+        'fromStrategy', from_strategy,
+        'timerExpiry', NOT had_auto_pick,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
@@ -0,0 +1,291 @@
+-- Migration 038: Big board
+--
+-- A manager-maintained ranking of the whole player pool, usually kept in a
+-- spreadsheet before the draft. players.board_rank is the player's place on
+-- the board (1 = best); unranked players are NULL.
+--
+-- set_big_board() replaces the whole board in one statement, so reordering
+-- never leaves duplicate or missing ranks. Auto-pick uses the board once the
+-- captain's queue and strategy have nothing to offer, before picking at random.
+
+-- ============================================
+-- 1. Board rank
+-- ============================================
+
+ALTER TABLE players
+  ADD COLUMN board_rank integer CHECK (board_rank IS NULL OR board_rank > 0);
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (board_rank) ON players TO anon, authenticated;
+
+-- ============================================
+-- 2. Set the board
+-- ============================================
+
+-- Ranks p_player_ids in order and clears every other player in the league.
+-- Called by the league manager from the Roster tab.
+CREATE OR REPLACE FUNCTION set_big_board(p_league_id uuid, p_player_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_matched int;
+BEGIN
+  -- Verify the caller is the league manager
+  IF NOT EXISTS (
+    SELECT 1 FROM leagues WHERE id = p_league_id AND manager_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: not the league manager';
+  END IF;
+
+  SELECT count(*) INTO v_matched
+  FROM players
+  WHERE league_id = p_league_id
+    AND id = ANY(p_player_ids);
+
+  IF v_matched <> coalesce(cardinality(p_player_ids), 0) THEN
+    RAISE EXCEPTION 'Big board has duplicate players or players from another league';
+  END IF;
+
+  UPDATE players
+  SET board_rank = array_position(p_player_ids, id)
+  WHERE league_id = p_league_id
+    AND board_rank IS DISTINCT FROM array_position(p_player_ids, id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_big_board(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_big_board(uuid, uuid[]) TO authenticated;
+
+-- ============================================
+-- 3. pg_cron fallback uses the board
+-- ============================================
+
+-- Same as migration 037, plus the big board ahead of the random pick, and
+-- whether it was used in the audit log.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  from_strategy BOOLEAN;
+  from_board BOOLEAN;
+  strategy_player_id UUID;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds, auto_pick_strategy
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSE
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+    from_strategy := false;
+    from_board := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Then the captain's auto-pick strategy (same as chooseByStrategy() in
+      -- the auto-pick edge function)
+      strategy_player_id := auto_pick_strategy_player(league_rec.id, current_cap.id);
+
+      IF strategy_player_id IS NOT NULL THEN
+        SELECT p.* INTO selected_player FROM players p WHERE p.id = strategy_player_id;
+        from_strategy := true;
+      ELSE
+        -- Then the big board, then a random pick (same as the edge function
+        -- fallback). Players that fit an open slot come first; anyone goes once
+        -- none do.
+        SELECT p.* INTO selected_player
+        FROM players p
+        WHERE p.league_id = league_rec.id
+          AND p.drafted_by_captain_id IS NULL
+          AND p.id NOT IN (
+            SELECT c.player_id FROM captains c
+            WHERE c.league_id = league_rec.id
+              AND c.player_id IS NOT NULL
+          )
+        ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC,
+                 p.board_rank ASC NULLS LAST,
+                 random()
+        LIMIT 1;
+
+        from_board := selected_player.board_rank IS NOT NULL;
+      END IF;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for non-auto-pick captains
+    IF NOT had_auto_pick THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'strategy', coalesce(
+          current_cap.auto_pick_strategy ->> 'type',
+          league_rec.auto_pick_strategy ->> 'type',
+          'random'
+        ),
+        'fromStrategy', from_strategy,
+        'fromBoard', from_board,
+        'timerExpiry', NOT had_auto_pick,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
@@ -0,0 +1,202 @@
+-- Migration 039: Draft event log
+--
+-- draft_picks only holds the current state of the draft: undo and rewind
+-- delete picks, corrections overwrite them and restart-draft wipes them all.
+-- draft_events is an append-only record of everything that changed the draft,
+-- in order, so the Summary page can replay the board as it was at any point.
+--
+-- Events are written by triggers on leagues and draft_picks rather than by
+-- each edge function and RPC, so every path is covered: the client's
+-- start/pause/resume, record_pick(), process_expired_timers(), keeper
+-- placement, undo, rewind, corrections, restarts and settings changes.
+--
+-- seq orders events; it is unique across leagues, so only its order matters.
+
+-- ============================================
+-- 1. Event table
+-- ============================================
+
+CREATE TABLE draft_events (
+  seq bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN (
+    'start', 'pause', 'resume', 'complete', 'restart',
+    'pick', 'auto_pick', 'keeper', 'undo', 'correct', 'settings'
+  )),
+  -- The pick the event is about, or the pick on the clock for status changes
+  pick_number integer,
+  -- No foreign keys: the log outlives the captains and players it mentions
+  captain_id uuid,
+  player_id uuid,
+  data jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_draft_events_league_id_seq ON draft_events(league_id, seq);
+
+ALTER TABLE draft_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view draft events"
+  ON draft_events FOR SELECT
+  USING (true);
+
+-- Append-only: only the triggers below write to it
+REVOKE INSERT, UPDATE, DELETE ON draft_events FROM anon, authenticated;
+
+-- ============================================
+-- 2. League events: status changes and settings
+-- ============================================
+
+-- Columns that change as the draft runs (or are secret) aren't settings.
+-- Any other column added to leagues is logged as a setting automatically.
+CREATE OR REPLACE FUNCTION log_league_draft_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  runtime_columns text[] := ARRAY[
+    'id', 'manager_id', 'spectator_token', 'status', 'current_pick_index',
+    'current_pick_started_at', 'current_pick_extension_seconds', 'created_at', 'updated_at'
+  ];
+  old_settings jsonb := to_jsonb(OLD) - runtime_columns;
+  new_settings jsonb := to_jsonb(NEW) - runtime_columns;
+  changes jsonb := '{}';
+  setting text;
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO draft_events (league_id, event_type, pick_number, data)
+    VALUES (
+      NEW.id,
+      CASE
+        WHEN NEW.status = 'not_started' THEN 'restart'
+        WHEN NEW.status = 'paused' THEN 'pause'
+        WHEN NEW.status = 'completed' THEN 'complete'
+        WHEN OLD.status = 'not_started' THEN 'start'
+        ELSE 'resume'
+      END,
+      NEW.current_pick_index + 1,
+      jsonb_build_object('from', OLD.status, 'to', NEW.status)
+    );
+  END IF;
+
+  FOR setting IN SELECT jsonb_object_keys(new_settings) LOOP
+    IF new_settings -> setting IS DISTINCT FROM old_settings -> setting THEN
+      changes := changes || jsonb_build_object(
+        setting,
+        jsonb_build_object('from', old_settings -> setting, 'to', new_settings -> setting)
+      );
+    END IF;
+  END LOOP;
+
+  IF changes <> '{}' THEN
+    INSERT INTO draft_events (league_id, event_type, pick_number, data)
+    VALUES (NEW.id, 'settings', NEW.current_pick_index + 1, changes);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_draft_events_on_league_update
+  AFTER UPDATE ON leagues
+  FOR EACH ROW
+  EXECUTE FUNCTION log_league_draft_events();
+
+-- ============================================
+-- 3. Pick events
+-- ============================================
+
+CREATE OR REPLACE FUNCTION log_pick_draft_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO draft_events (league_id, event_type, pick_number, captain_id, player_id, data)
+    VALUES (
+      NEW.league_id,
+      CASE
+        WHEN NEW.is_keeper THEN 'keeper'
+        WHEN NEW.is_auto_pick THEN 'auto_pick'
+        ELSE 'pick'
+      END,
+      NEW.pick_number,
+      NEW.captain_id,
+      NEW.player_id,
+      CASE WHEN NEW.price IS NULL THEN '{}' ELSE jsonb_build_object('price', NEW.price) END
+    );
+  ELSE
+    INSERT INTO draft_events (league_id, event_type, pick_number, captain_id, player_id, data)
+    VALUES (
+      NEW.league_id,
+      'correct',
+      NEW.pick_number,
+      NEW.captain_id,
+      NEW.player_id,
+      jsonb_build_object('from_player_id', OLD.player_id)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_draft_event_on_pick
+  AFTER INSERT ON draft_picks
+  FOR EACH ROW
+  EXECUTE FUNCTION log_pick_draft_event();
+
+CREATE TRIGGER log_draft_event_on_pick_correction
+  AFTER UPDATE OF player_id ON draft_picks
+  FOR EACH ROW
+  WHEN (OLD.player_id IS DISTINCT FROM NEW.player_id)
+  EXECUTE FUNCTION log_pick_draft_event();
+
+-- One undo event per statement: undo_last_pick() removes one pick,
+-- rewind_to_pick() several and restart-draft all of them (followed by a
+-- restart event). Picks removed because their league is being deleted
+-- aren't logged; the league's events go with it.
+CREATE OR REPLACE FUNCTION log_undo_draft_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO draft_events (league_id, event_type, pick_number, data)
+  SELECT
+    r.league_id,
+    'undo',
+    MIN(r.pick_number),
+    jsonb_build_object(
+      'picks',
+      jsonb_agg(
+        jsonb_build_object(
+          'pick_number', r.pick_number,
+          'captain_id', r.captain_id,
+          'player_id', r.player_id
+        )
+        ORDER BY r.pick_number
+      )
+    )
+  FROM removed_picks r
+  WHERE EXISTS (SELECT 1 FROM leagues l WHERE l.id = r.league_id)
+  GROUP BY r.league_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_draft_events_on_undo
+  AFTER DELETE ON draft_picks
+  REFERENCING OLD TABLE AS removed_picks
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION log_undo_draft_events();
+
+-- ============================================
+-- 4. Realtime
+-- ============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE draft_events;
@@ -0,0 +1,50 @@
+-- Migration 040: Audit log viewer
+--
+-- The Activity tab in Manage League reads audit_logs directly, filtered by
+-- action, actor type and time range and paged newest first. The existing
+-- "Managers can view audit logs for their leagues" policy (migration 022)
+-- already limits reads to the league's manager; this migration adds the
+-- index the paged query needs and the list of actions for the filter.
+
+-- ============================================
+-- 1. Index for paging a league's log
+-- ============================================
+
+-- Covers league_id lookups too, so the single-column index is redundant.
+CREATE INDEX idx_audit_logs_league_id_created_at ON audit_logs(league_id, created_at DESC);
+DROP INDEX idx_audit_logs_league_id;
+
+-- The policy only applies to authenticated users; make anon's lack of access explicit.
+REVOKE SELECT ON audit_logs FROM anon;
+
+-- ============================================
+-- 2. Actions for the filter
+-- ============================================
+
+-- Distinct actions logged for a league, so the filter only offers actions
+-- that can match. Called by the league manager from the Activity tab.
+CREATE OR REPLACE FUNCTION get_audit_log_actions(p_league_id uuid)
+RETURNS SETOF text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Verify the caller is the league manager
+  IF NOT EXISTS (
+    SELECT 1 FROM leagues WHERE id = p_league_id AND manager_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: not the league manager';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT a.action
+  FROM audit_logs a
+  WHERE a.league_id = p_league_id
+  ORDER BY a.action;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_audit_log_actions(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_audit_log_actions(uuid) TO authenticated;
@@ -0,0 +1,332 @@
+-- Migration 041: Auto-pick for disconnected captains
+--
+-- A captain who closed their link used to cost everyone two full pick timers
+-- before record_pick() turned auto-pick on for them. With
+-- leagues.disconnect_auto_pick_seconds set, a captain on the clock who has had
+-- no live connection for that many seconds is auto-picked for that turn.
+--
+-- Connection is measured on the server: captain pages call
+-- record_captain_heartbeat() with their token every 15 seconds, and
+-- captain_heartbeats keeps the last time each captain checked in. Presence
+-- (which other browsers report) is not used. process_expired_timers() (pg_cron,
+-- every minute) makes the pick; the auto-pick edge function accepts the same
+-- condition through is_captain_disconnected().
+--
+-- Disconnect picks don't count as timeouts and don't turn auto-pick on, so a
+-- captain who reconnects is back in control on their next turn.
+
+-- ============================================
+-- 1. Setting
+-- ============================================
+
+-- NULL = off
+ALTER TABLE leagues
+  ADD COLUMN disconnect_auto_pick_seconds integer
+    CHECK (disconnect_auto_pick_seconds IS NULL OR disconnect_auto_pick_seconds BETWEEN 60 AND 600);
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (disconnect_auto_pick_seconds) ON leagues TO anon, authenticated;
+
+-- ============================================
+-- 2. Heartbeats
+-- ============================================
+
+CREATE TABLE captain_heartbeats (
+  captain_id uuid PRIMARY KEY REFERENCES captains(id) ON DELETE CASCADE,
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  last_seen_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_captain_heartbeats_league_id ON captain_heartbeats(league_id);
+
+-- Server-only: written by record_captain_heartbeat(), read by the functions below
+ALTER TABLE captain_heartbeats ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON captain_heartbeats FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_captain_heartbeat(p_league_id uuid, p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_captain_id uuid;
+BEGIN
+  SELECT id INTO v_captain_id
+  FROM captains
+  WHERE league_id = p_league_id AND access_token = p_token;
+
+  IF v_captain_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid captain token';
+  END IF;
+
+  INSERT INTO captain_heartbeats (captain_id, league_id, last_seen_at)
+  VALUES (v_captain_id, p_league_id, now())
+  ON CONFLICT (captain_id) DO UPDATE SET last_seen_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_captain_heartbeat(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_captain_heartbeat(uuid, uuid) TO anon, authenticated;
+
+-- True when the league has the setting on and the captain hasn't checked in
+-- for that many seconds since the pick started. A captain who never opened
+-- their link has been gone since the pick started.
+CREATE OR REPLACE FUNCTION is_captain_disconnected(p_league_id uuid, p_captain_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    EXTRACT(EPOCH FROM (
+      now() - GREATEST(l.current_pick_started_at, h.last_seen_at)
+    )) >= l.disconnect_auto_pick_seconds,
+    false
+  )
+  FROM leagues l
+  LEFT JOIN captain_heartbeats h ON h.captain_id = p_captain_id
+  WHERE l.id = p_league_id
+    AND l.status = 'in_progress'
+    AND l.current_pick_started_at IS NOT NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_captain_disconnected(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. pg_cron fallback picks for disconnected captains
+-- ============================================
+
+-- Same as migration 038, plus disconnected captains are picked for like
+-- auto-pick captains, without counting a timeout.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  from_strategy BOOLEAN;
+  from_board BOOLEAN;
+  strategy_player_id UUID;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  disconnected BOOLEAN;
+  rows_updated INT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds, auto_pick_strategy
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    disconnected := NOT current_cap.auto_pick_enabled
+      AND coalesce(is_captain_disconnected(league_rec.id, current_cap.id), false);
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Disconnected captains: trigger now (the disconnect delay has passed)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSIF NOT disconnected THEN
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+    from_queue := false;
+    from_strategy := false;
+    from_board := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Then the captain's auto-pick strategy (same as chooseByStrategy() in
+      -- the auto-pick edge function)
+      strategy_player_id := auto_pick_strategy_player(league_rec.id, current_cap.id);
+
+      IF strategy_player_id IS NOT NULL THEN
+        SELECT p.* INTO selected_player FROM players p WHERE p.id = strategy_player_id;
+        from_strategy := true;
+      ELSE
+        -- Then the big board, then a random pick (same as the edge function
+        -- fallback). Players that fit an open slot come first; anyone goes once
+        -- none do.
+        SELECT p.* INTO selected_player
+        FROM players p
+        WHERE p.league_id = league_rec.id
+          AND p.drafted_by_captain_id IS NULL
+          AND p.id NOT IN (
+            SELECT c.player_id FROM captains c
+            WHERE c.league_id = league_rec.id
+              AND c.player_id IS NOT NULL
+          )
+        ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC,
+                 p.board_rank ASC NULLS LAST,
+                 random()
+        LIMIT 1;
+
+        from_board := selected_player.board_rank IS NOT NULL;
+      END IF;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for captains who let their timer run out
+    IF NOT had_auto_pick AND NOT disconnected THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = CASE
+            WHEN consecutive_timeout_picks + 1 >= 2 THEN true
+            ELSE auto_pick_enabled
+          END
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'strategy', coalesce(
+          current_cap.auto_pick_strategy ->> 'type',
+          league_rec.auto_pick_strategy ->> 'type',
+          'random'
+        ),
+        'fromStrategy', from_strategy,
+        'fromBoard', from_board,
+        'timerExpiry', NOT had_auto_pick AND NOT disconnected,
+        'disconnected', disconnected,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
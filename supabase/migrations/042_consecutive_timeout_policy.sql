@@ -0,0 +1,514 @@
+-- Migration 042: Consecutive-timeout policy per league
+--
+-- record_pick() and process_expired_timers() turned auto-pick on for any
+-- captain whose timer ran out twice in a row. Leagues now choose:
+--
+-- - consecutive_timeout_limit: how many timeouts in a row trigger the policy
+--   (NULL = never)
+-- - consecutive_timeout_action: what happens at the limit. 'auto_pick' turns
+--   the captain's auto-pick on (the old behavior); 'skip' advances the draft
+--   without a pick for each turn they miss at or over the limit; 'pause'
+--   pauses the draft with them on the clock so the manager can step in
+-- - consecutive_timeout_notify: whether the captain's page tells them (the
+--   client compares captains.consecutive_timeout_picks with the limit)
+--
+-- Skipping and pausing happen instead of a pick, so callers ask
+-- apply_timeout_policy() first and only pick when it returns NULL. The count
+-- still starts over when the captain makes a pick (record_pick(), used by
+-- make-pick) and when auto-pick is turned off while the league's action is
+-- 'auto_pick' (toggle-auto-pick).
+
+-- ============================================
+-- 1. Settings
+-- ============================================
+
+ALTER TABLE leagues
+  ADD COLUMN consecutive_timeout_limit integer DEFAULT 2
+    CHECK (consecutive_timeout_limit IS NULL OR consecutive_timeout_limit BETWEEN 1 AND 5),
+  ADD COLUMN consecutive_timeout_action text NOT NULL DEFAULT 'auto_pick'
+    CHECK (consecutive_timeout_action IN ('auto_pick', 'skip', 'pause')),
+  ADD COLUMN consecutive_timeout_notify boolean NOT NULL DEFAULT true;
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (consecutive_timeout_limit, consecutive_timeout_action, consecutive_timeout_notify)
+  ON leagues TO anon, authenticated;
+
+-- Skipped turns are logged so the replay timeline shows them
+ALTER TABLE draft_events DROP CONSTRAINT IF EXISTS draft_events_event_type_check;
+ALTER TABLE draft_events
+  ADD CONSTRAINT draft_events_event_type_check
+  CHECK (event_type IN (
+    'start', 'pause', 'resume', 'complete', 'restart',
+    'pick', 'auto_pick', 'keeper', 'undo', 'correct', 'settings', 'skip'
+  ));
+
+-- ============================================
+-- 2. Applying the policy
+-- ============================================
+
+-- Called when a captain's timer runs out, before a player is chosen. Returns
+-- NULL when the pick should go ahead: the limit isn't reached, or the action
+-- is 'auto_pick' (record_pick() counts the timeout and turns auto-pick on).
+-- Otherwise counts the timeout, skips the turn or pauses the draft, and
+-- returns the action taken.
+CREATE OR REPLACE FUNCTION apply_timeout_policy(
+  p_league_id uuid,
+  p_pick_index int,
+  p_captain_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  timeouts INT;
+BEGIN
+  SELECT status, current_pick_index, consecutive_timeout_limit, consecutive_timeout_action
+  INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_rec.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Draft is not in progress';
+  END IF;
+  IF league_rec.current_pick_index <> p_pick_index THEN
+    RAISE EXCEPTION 'Draft state changed concurrently';
+  END IF;
+
+  IF league_rec.consecutive_timeout_limit IS NULL
+     OR league_rec.consecutive_timeout_action = 'auto_pick' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT consecutive_timeout_picks + 1 INTO timeouts
+  FROM captains
+  WHERE id = p_captain_id AND league_id = p_league_id;
+
+  IF timeouts IS NULL OR timeouts < league_rec.consecutive_timeout_limit THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE captains
+  SET consecutive_timeout_picks = timeouts
+  WHERE id = p_captain_id;
+
+  IF league_rec.consecutive_timeout_action = 'pause' THEN
+    -- Same as pausing from the draft page
+    UPDATE leagues
+    SET status = 'paused',
+        current_pick_started_at = NULL
+    WHERE id = p_league_id;
+  ELSE
+    UPDATE leagues
+    SET current_pick_index = p_pick_index + 1,
+        current_pick_started_at = now()
+    WHERE id = p_league_id;
+
+    INSERT INTO draft_events (league_id, event_type, pick_number, captain_id, data)
+    VALUES (
+      p_league_id, 'skip', p_pick_index + 1, p_captain_id,
+      jsonb_build_object('timeouts', timeouts)
+    );
+  END IF;
+
+  RETURN league_rec.consecutive_timeout_action;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_timeout_policy(uuid, int, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. Recording picks
+-- ============================================
+
+-- Same as migration 034, with the league's policy instead of a fixed limit of 2
+CREATE OR REPLACE FUNCTION record_pick(
+  p_league_id uuid,
+  p_pick_index int,
+  p_captain_id uuid,
+  p_player_id uuid,
+  p_is_auto_pick boolean DEFAULT false,
+  p_timer_expiry boolean DEFAULT false,
+  p_nomination_id uuid DEFAULT NULL,
+  p_price int DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  pick_num INT := p_pick_index + 1;
+  is_complete BOOLEAN;
+BEGIN
+  SELECT status, current_pick_index, consecutive_timeout_limit, consecutive_timeout_action
+  INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_rec.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Draft is not in progress';
+  END IF;
+  IF league_rec.current_pick_index <> p_pick_index THEN
+    RAISE EXCEPTION 'Draft state changed concurrently';
+  END IF;
+
+  -- Auction sales: the nomination must still be open at the bid being sold
+  IF p_nomination_id IS NOT NULL THEN
+    UPDATE auction_nominations
+    SET status = 'sold', pick_number = pick_num
+    WHERE id = p_nomination_id
+      AND league_id = p_league_id
+      AND status = 'open'
+      AND player_id = p_player_id
+      AND current_bidder_id = p_captain_id
+      AND current_bid = p_price;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Pick already made';
+    END IF;
+  END IF;
+
+  PERFORM 1 FROM players
+  WHERE id = p_player_id
+    AND league_id = p_league_id
+    AND drafted_by_captain_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Player not available';
+  END IF;
+
+  INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick, price)
+  VALUES (p_league_id, p_captain_id, p_player_id, pick_num, p_is_auto_pick, p_price);
+
+  UPDATE players
+  SET drafted_by_captain_id = p_captain_id,
+      draft_pick_number = pick_num
+  WHERE id = p_player_id;
+
+  -- Remove picked player from ALL captain queues
+  DELETE FROM captain_draft_queues
+  WHERE player_id = p_player_id;
+
+  -- Consecutive timeouts (same policy as process_expired_timers()): a pick
+  -- made when the timer ran out counts towards the league's limit, and a
+  -- pick the captain made themselves starts the count over. Skipping and
+  -- pausing are handled by apply_timeout_policy() before the pick.
+  IF p_timer_expiry THEN
+    UPDATE captains
+    SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+        auto_pick_enabled = auto_pick_enabled OR coalesce(
+          league_rec.consecutive_timeout_action = 'auto_pick'
+            AND consecutive_timeout_picks + 1 >= league_rec.consecutive_timeout_limit,
+          false
+        )
+    WHERE id = p_captain_id;
+  ELSIF NOT p_is_auto_pick AND p_nomination_id IS NULL THEN
+    UPDATE captains
+    SET consecutive_timeout_picks = 0
+    WHERE id = p_captain_id;
+  END IF;
+
+  -- Draft is complete when no available players are left (same rules as
+  -- getAvailablePlayers() in src/lib/draft.ts)
+  SELECT NOT EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.league_id = p_league_id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = p_league_id
+          AND c.player_id IS NOT NULL
+      )
+  ) INTO is_complete;
+
+  -- A completed draft stays on its last pick index
+  UPDATE leagues
+  SET status = CASE WHEN is_complete THEN 'completed' ELSE 'in_progress' END,
+      current_pick_index = CASE WHEN is_complete THEN p_pick_index ELSE p_pick_index + 1 END,
+      current_pick_started_at = CASE WHEN is_complete THEN NULL ELSE now() END
+  WHERE id = p_league_id;
+
+  RETURN is_complete;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_pick(uuid, int, uuid, uuid, boolean, boolean, uuid, int)
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. pg_cron fallback picks
+-- ============================================
+
+-- Same as migration 041, plus the league's consecutive-timeout policy instead
+-- of a fixed limit of 2.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  from_strategy BOOLEAN;
+  from_board BOOLEAN;
+  strategy_player_id UUID;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  disconnected BOOLEAN;
+  rows_updated INT;
+  policy_action TEXT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds, auto_pick_strategy,
+           consecutive_timeout_limit, consecutive_timeout_action
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    disconnected := NOT current_cap.auto_pick_enabled
+      AND coalesce(is_captain_disconnected(league_rec.id, current_cap.id), false);
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Disconnected captains: trigger now (the disconnect delay has passed)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSIF NOT disconnected THEN
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+
+    -- A captain at the league's consecutive-timeout limit may have their turn
+    -- skipped or the draft paused instead of a pick
+    IF NOT had_auto_pick AND NOT disconnected THEN
+      BEGIN
+        policy_action := apply_timeout_policy(
+          league_rec.id, league_rec.current_pick_index, current_cap.id
+        );
+      EXCEPTION WHEN raise_exception THEN
+        -- Another client moved the draft on
+        CONTINUE;
+      END;
+
+      IF policy_action IS NOT NULL THEN
+        INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+        VALUES (
+          'timeout_policy_applied',
+          league_rec.id,
+          'system',
+          jsonb_build_object(
+            'pickNumber', league_rec.current_pick_index + 1,
+            'captainId', current_cap.id,
+            'captainName', current_cap.name,
+            'policyAction', policy_action,
+            'timeouts', current_cap.consecutive_timeout_picks + 1,
+            'source', 'pg_cron'
+          )
+        );
+        CONTINUE;
+      END IF;
+    END IF;
+    from_queue := false;
+    from_strategy := false;
+    from_board := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Then the captain's auto-pick strategy (same as chooseByStrategy() in
+      -- the auto-pick edge function)
+      strategy_player_id := auto_pick_strategy_player(league_rec.id, current_cap.id);
+
+      IF strategy_player_id IS NOT NULL THEN
+        SELECT p.* INTO selected_player FROM players p WHERE p.id = strategy_player_id;
+        from_strategy := true;
+      ELSE
+        -- Then the big board, then a random pick (same as the edge function
+        -- fallback). Players that fit an open slot come first; anyone goes once
+        -- none do.
+        SELECT p.* INTO selected_player
+        FROM players p
+        WHERE p.league_id = league_rec.id
+          AND p.drafted_by_captain_id IS NULL
+          AND p.id NOT IN (
+            SELECT c.player_id FROM captains c
+            WHERE c.league_id = league_rec.id
+              AND c.player_id IS NOT NULL
+          )
+        ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC,
+                 p.board_rank ASC NULLS LAST,
+                 random()
+        LIMIT 1;
+
+        from_board := selected_player.board_rank IS NOT NULL;
+      END IF;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for captains who let their timer run out
+    IF NOT had_auto_pick AND NOT disconnected THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = auto_pick_enabled OR coalesce(
+            league_rec.consecutive_timeout_action = 'auto_pick'
+              AND consecutive_timeout_picks + 1 >= league_rec.consecutive_timeout_limit,
+            false
+          )
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'strategy', coalesce(
+          current_cap.auto_pick_strategy ->> 'type',
+          league_rec.auto_pick_strategy ->> 'type',
+          'random'
+        ),
+        'fromStrategy', from_strategy,
+        'fromBoard', from_board,
+        'timerExpiry', NOT had_auto_pick AND NOT disconnected,
+        'disconnected', disconnected,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
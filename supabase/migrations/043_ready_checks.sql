@@ -0,0 +1,139 @@
+-- Migration 043: Pre-draft ready checks
+--
+-- With leagues.require_ready_check on, every captain has to open their link
+-- and press Ready (captains.is_ready) before the draft can start. The manager
+-- sees who is ready in the draft readiness checklist; captains.is_ready
+-- changes arrive over the existing captains realtime subscription.
+--
+-- Captains set their state through set_captain_ready() with their token. With
+-- leagues.auto_start_when_ready on as well, the captain who readies up last
+-- starts the draft. A trigger keeps the manager from starting it any other way
+-- while captains are missing, and restart-draft clears every ready state.
+
+-- ============================================
+-- 1. Settings and ready state
+-- ============================================
+
+ALTER TABLE leagues
+  ADD COLUMN require_ready_check boolean NOT NULL DEFAULT false,
+  ADD COLUMN auto_start_when_ready boolean NOT NULL DEFAULT false;
+
+ALTER TABLE captains
+  ADD COLUMN is_ready boolean NOT NULL DEFAULT false;
+
+-- Column-level grants (migration 014) require explicit grants for every new column.
+GRANT SELECT (require_ready_check, auto_start_when_ready) ON leagues TO anon, authenticated;
+GRANT SELECT (is_ready) ON captains TO anon, authenticated;
+
+-- ============================================
+-- 2. Readying up
+-- ============================================
+
+-- Returns whether this made the draft start. Only allowed before the draft
+-- starts; the draft starts when the league auto-starts, every captain is
+-- ready, and there are enough captains and players (same as canStartDraft and
+-- getAvailablePlayers() on the client).
+CREATE OR REPLACE FUNCTION set_captain_ready(p_league_id uuid, p_token uuid, p_ready boolean)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  v_captain_id uuid;
+  captain_count INT;
+  available_count INT;
+BEGIN
+  SELECT status, require_ready_check, auto_start_when_ready INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  SELECT id INTO v_captain_id
+  FROM captains
+  WHERE league_id = p_league_id AND access_token = p_token;
+
+  IF v_captain_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid captain token';
+  END IF;
+  IF league_rec.status <> 'not_started' THEN
+    RAISE EXCEPTION 'Draft has already started';
+  END IF;
+
+  UPDATE captains SET is_ready = p_ready WHERE id = v_captain_id;
+
+  IF NOT (p_ready AND league_rec.require_ready_check AND league_rec.auto_start_when_ready) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM captains WHERE league_id = p_league_id AND NOT is_ready) THEN
+    RETURN false;
+  END IF;
+
+  SELECT count(*) INTO captain_count FROM captains WHERE league_id = p_league_id;
+  SELECT count(*) INTO available_count
+  FROM players p
+  WHERE p.league_id = p_league_id
+    AND p.drafted_by_captain_id IS NULL
+    AND p.keeper_captain_id IS NULL
+    AND p.id NOT IN (
+      SELECT c.player_id FROM captains c
+      WHERE c.league_id = p_league_id
+        AND c.player_id IS NOT NULL
+    );
+
+  IF captain_count < 2 OR available_count < captain_count THEN
+    RETURN false;
+  END IF;
+
+  -- Same as starting from the draft page
+  UPDATE leagues
+  SET status = 'in_progress',
+      current_pick_index = 0,
+      current_pick_started_at = now()
+  WHERE id = p_league_id;
+
+  INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+  VALUES (
+    'draft_auto_started',
+    p_league_id,
+    'captain',
+    v_captain_id::text,
+    jsonb_build_object('reason', 'all_ready', 'captainCount', captain_count)
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_captain_ready(uuid, uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION set_captain_ready(uuid, uuid, boolean) TO anon, authenticated;
+
+-- ============================================
+-- 3. No starting without everyone ready
+-- ============================================
+
+CREATE OR REPLACE FUNCTION check_captains_ready()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'not_started'
+     AND NEW.status = 'in_progress'
+     AND NEW.require_ready_check
+     AND EXISTS (SELECT 1 FROM captains WHERE league_id = NEW.id AND NOT is_ready)
+  THEN
+    RAISE EXCEPTION 'Every captain must be ready before the draft starts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_captains_ready_on_start
+  BEFORE UPDATE OF status ON leagues
+  FOR EACH ROW
+  EXECUTE FUNCTION check_captains_ready();
@@ -0,0 +1,477 @@
+-- Migration 044: Start drafts at their scheduled time
+--
+-- leagues.scheduled_start_at used to drive nothing but the countdown; the
+-- manager still had to press Start. process_expired_timers() (pg_cron, every
+-- minute) now also runs start_scheduled_drafts(), which starts every
+-- not_started league whose scheduled time has arrived, so a scheduled draft
+-- begins within a minute of its time even with nobody on the draft page.
+--
+-- A league is only started when the checks the Start button uses pass
+-- (get_draft_start_blockers()): at least 2 captains, a player available for
+-- every captain, and every captain ready when the league requires it.
+-- Otherwise the league is left as it is for the manager to start, and the
+-- audit log says what was missing. Each scheduled time is tried once, and only
+-- within 15 minutes of it, so a league whose time passed long ago doesn't
+-- start out of nowhere; rescheduling the league tries again.
+
+-- ============================================
+-- 1. Start checks
+-- ============================================
+
+-- What keeps the league from starting right now: 'captains' (fewer than 2),
+-- 'players' (fewer available than captains, same as getAvailablePlayers() on
+-- the client) and 'ready' (ready check on and a captain isn't ready). Empty
+-- when the draft can start.
+CREATE OR REPLACE FUNCTION get_draft_start_blockers(p_league_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  blockers text[] := '{}';
+  captain_count INT;
+  available_count INT;
+BEGIN
+  SELECT count(*) INTO captain_count FROM captains WHERE league_id = p_league_id;
+  SELECT count(*) INTO available_count
+  FROM players p
+  WHERE p.league_id = p_league_id
+    AND p.drafted_by_captain_id IS NULL
+    AND p.keeper_captain_id IS NULL
+    AND p.id NOT IN (
+      SELECT c.player_id FROM captains c
+      WHERE c.league_id = p_league_id
+        AND c.player_id IS NOT NULL
+    );
+
+  IF captain_count < 2 THEN
+    blockers := blockers || 'captains';
+  END IF;
+  IF available_count < captain_count THEN
+    blockers := blockers || 'players';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM leagues l
+    WHERE l.id = p_league_id
+      AND l.require_ready_check
+      AND EXISTS (SELECT 1 FROM captains c WHERE c.league_id = l.id AND NOT c.is_ready)
+  ) THEN
+    blockers := blockers || 'ready';
+  END IF;
+
+  RETURN blockers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_draft_start_blockers(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same as migration 043, with the start checks from get_draft_start_blockers().
+CREATE OR REPLACE FUNCTION set_captain_ready(p_league_id uuid, p_token uuid, p_ready boolean)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  v_captain_id uuid;
+BEGIN
+  SELECT status, require_ready_check, auto_start_when_ready INTO league_rec
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  SELECT id INTO v_captain_id
+  FROM captains
+  WHERE league_id = p_league_id AND access_token = p_token;
+
+  IF v_captain_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid captain token';
+  END IF;
+  IF league_rec.status <> 'not_started' THEN
+    RAISE EXCEPTION 'Draft has already started';
+  END IF;
+
+  UPDATE captains SET is_ready = p_ready WHERE id = v_captain_id;
+
+  IF NOT (p_ready AND league_rec.require_ready_check AND league_rec.auto_start_when_ready) THEN
+    RETURN false;
+  END IF;
+
+  IF cardinality(get_draft_start_blockers(p_league_id)) > 0 THEN
+    RETURN false;
+  END IF;
+
+  -- Same as starting from the draft page
+  UPDATE leagues
+  SET status = 'in_progress',
+      current_pick_index = 0,
+      current_pick_started_at = now()
+  WHERE id = p_league_id;
+
+  INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+  VALUES (
+    'draft_auto_started',
+    p_league_id,
+    'captain',
+    v_captain_id::text,
+    jsonb_build_object(
+      'reason', 'all_ready',
+      'captainCount', (SELECT count(*) FROM captains WHERE league_id = p_league_id)
+    )
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- ============================================
+-- 2. Scheduled starts
+-- ============================================
+
+-- Starts (or logs why it couldn't start) every league whose scheduled time
+-- arrived in the last 15 minutes and hasn't been tried yet. The audit row
+-- records the scheduled time it was for, which is how a time counts as tried.
+CREATE OR REPLACE FUNCTION start_scheduled_drafts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  blockers text[];
+BEGIN
+  FOR league_rec IN
+    SELECT l.id, l.scheduled_start_at
+    FROM leagues l
+    WHERE l.status = 'not_started'
+      AND l.scheduled_start_at <= now()
+      AND l.scheduled_start_at > now() - interval '15 minutes'
+      AND NOT EXISTS (
+        SELECT 1 FROM audit_logs a
+        WHERE a.league_id = l.id
+          AND a.action IN ('draft_auto_started', 'scheduled_start_skipped')
+          AND a.metadata->'scheduledStartAt' = to_jsonb(l.scheduled_start_at)
+      )
+    FOR UPDATE OF l SKIP LOCKED
+  LOOP
+    blockers := get_draft_start_blockers(league_rec.id);
+
+    IF cardinality(blockers) > 0 THEN
+      INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+      VALUES (
+        'scheduled_start_skipped',
+        league_rec.id,
+        'system',
+        NULL,
+        jsonb_build_object(
+          'scheduledStartAt', league_rec.scheduled_start_at,
+          'blockers', to_jsonb(blockers)
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    -- Same as starting from the draft page
+    UPDATE leagues
+    SET status = 'in_progress',
+        current_pick_index = 0,
+        current_pick_started_at = now()
+    WHERE id = league_rec.id;
+
+    INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+    VALUES (
+      'draft_auto_started',
+      league_rec.id,
+      'system',
+      NULL,
+      jsonb_build_object(
+        'reason', 'scheduled',
+        'scheduledStartAt', league_rec.scheduled_start_at,
+        'captainCount', (SELECT count(*) FROM captains WHERE league_id = league_rec.id)
+      )
+    );
+
+    RAISE LOG 'start_scheduled_drafts: started league % (scheduled for %)',
+      league_rec.id, league_rec.scheduled_start_at;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_scheduled_drafts() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. pg_cron
+-- ============================================
+
+-- Same as migration 042, plus starting scheduled drafts before looking for
+-- expired timers.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  from_strategy BOOLEAN;
+  from_board BOOLEAN;
+  strategy_player_id UUID;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  disconnected BOOLEAN;
+  rows_updated INT;
+  policy_action TEXT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  PERFORM start_scheduled_drafts();
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds, auto_pick_strategy,
+           consecutive_timeout_limit, consecutive_timeout_action
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    disconnected := NOT current_cap.auto_pick_enabled
+      AND coalesce(is_captain_disconnected(league_rec.id, current_cap.id), false);
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Disconnected captains: trigger now (the disconnect delay has passed)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSIF NOT disconnected THEN
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+
+    -- A captain at the league's consecutive-timeout limit may have their turn
+    -- skipped or the draft paused instead of a pick
+    IF NOT had_auto_pick AND NOT disconnected THEN
+      BEGIN
+        policy_action := apply_timeout_policy(
+          league_rec.id, league_rec.current_pick_index, current_cap.id
+        );
+      EXCEPTION WHEN raise_exception THEN
+        -- Another client moved the draft on
+        CONTINUE;
+      END;
+
+      IF policy_action IS NOT NULL THEN
+        INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+        VALUES (
+          'timeout_policy_applied',
+          league_rec.id,
+          'system',
+          jsonb_build_object(
+            'pickNumber', league_rec.current_pick_index + 1,
+            'captainId', current_cap.id,
+            'captainName', current_cap.name,
+            'policyAction', policy_action,
+            'timeouts', current_cap.consecutive_timeout_picks + 1,
+            'source', 'pg_cron'
+          )
+        );
+        CONTINUE;
+      END IF;
+    END IF;
+    from_queue := false;
+    from_strategy := false;
+    from_board := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Then the captain's auto-pick strategy (same as chooseByStrategy() in
+      -- the auto-pick edge function)
+      strategy_player_id := auto_pick_strategy_player(league_rec.id, current_cap.id);
+
+      IF strategy_player_id IS NOT NULL THEN
+        SELECT p.* INTO selected_player FROM players p WHERE p.id = strategy_player_id;
+        from_strategy := true;
+      ELSE
+        -- Then the big board, then a random pick (same as the edge function
+        -- fallback). Players that fit an open slot come first; anyone goes once
+        -- none do.
+        SELECT p.* INTO selected_player
+        FROM players p
+        WHERE p.league_id = league_rec.id
+          AND p.drafted_by_captain_id IS NULL
+          AND p.id NOT IN (
+            SELECT c.player_id FROM captains c
+            WHERE c.league_id = league_rec.id
+              AND c.player_id IS NOT NULL
+          )
+        ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC,
+                 p.board_rank ASC NULLS LAST,
+                 random()
+        LIMIT 1;
+
+        from_board := selected_player.board_rank IS NOT NULL;
+      END IF;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Insert draft pick. Unique constraint on (league_id, pick_number)
+    -- prevents duplicate picks if a client also triggers simultaneously.
+    BEGIN
+      INSERT INTO draft_picks (league_id, captain_id, player_id, pick_number, is_auto_pick)
+      VALUES (league_rec.id, current_cap.id, selected_player.id, new_pick_num, true);
+    EXCEPTION WHEN unique_violation THEN
+      CONTINUE;
+    END;
+
+    -- Update player
+    UPDATE players
+    SET drafted_by_captain_id = current_cap.id,
+        draft_pick_number = new_pick_num
+    WHERE id = selected_player.id;
+
+    -- Remove picked player from ALL captain queues
+    DELETE FROM captain_draft_queues
+    WHERE player_id = selected_player.id;
+
+    -- Check if draft is complete (no more available players)
+    SELECT NOT EXISTS (
+      SELECT 1 FROM players p
+      WHERE p.league_id = league_rec.id
+        AND p.drafted_by_captain_id IS NULL
+        AND p.id NOT IN (
+          SELECT c.player_id FROM captains c
+          WHERE c.league_id = league_rec.id
+            AND c.player_id IS NOT NULL
+        )
+    ) INTO is_complete;
+
+    -- Advance league with optimistic locking on current_pick_index.
+    -- If another client already advanced, this UPDATE matches 0 rows
+    -- and we skip (the pick insert already succeeded, which is fine).
+    IF is_complete THEN
+      UPDATE leagues
+      SET status = 'completed',
+          current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = NULL
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    ELSE
+      UPDATE leagues
+      SET current_pick_index = league_rec.current_pick_index + 1,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id
+        AND current_pick_index = league_rec.current_pick_index;
+    END IF;
+
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    -- If optimistic lock failed (another client advanced), roll back the pick
+    IF rows_updated = 0 THEN
+      DELETE FROM draft_picks
+      WHERE league_id = league_rec.id AND pick_number = new_pick_num;
+      UPDATE players
+      SET drafted_by_captain_id = NULL, draft_pick_number = NULL
+      WHERE id = selected_player.id;
+      CONTINUE;
+    END IF;
+
+    -- Track consecutive timeouts for captains who let their timer run out
+    IF NOT had_auto_pick AND NOT disconnected THEN
+      UPDATE captains
+      SET consecutive_timeout_picks = consecutive_timeout_picks + 1,
+          auto_pick_enabled = auto_pick_enabled OR coalesce(
+            league_rec.consecutive_timeout_action = 'auto_pick'
+              AND consecutive_timeout_picks + 1 >= league_rec.consecutive_timeout_limit,
+            false
+          )
+      WHERE id = current_cap.id;
+    END IF;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'strategy', coalesce(
+          current_cap.auto_pick_strategy ->> 'type',
+          league_rec.auto_pick_strategy ->> 'type',
+          'random'
+        ),
+        'fromStrategy', from_strategy,
+        'fromBoard', from_board,
+        'timerExpiry', NOT had_auto_pick AND NOT disconnected,
+        'disconnected', disconnected,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
@@ -0,0 +1,159 @@
+-- Migration 045: Web Push for captains
+--
+-- The draft page's "your turn" notification only works while the captain's tab
+-- is open. Captains can now subscribe their browser to Web Push from their
+-- captain page, and get a push when they're up next and when they're on the
+-- clock, with the tab closed.
+--
+-- Subscriptions are stored per captain through save_push_subscription() and
+-- delete_push_subscription() with the captain's token. One browser can be
+-- subscribed for several captains (e.g. in different leagues).
+--
+-- Pushes go out from the same place the QStash timer is scheduled: an AFTER
+-- UPDATE trigger on leagues that fires whenever current_pick_started_at
+-- restarts while the draft is in progress. It posts to the send-push edge
+-- function with pg_net, which signs the pushes with the VAPID keys. Requires
+-- the vault secret send_push_function_url; auto_pick_cron_secret (migration
+-- 020) authenticates the call.
+
+-- ============================================
+-- 1. Subscriptions
+-- ============================================
+
+CREATE TABLE push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  captain_id uuid REFERENCES captains(id) ON DELETE CASCADE NOT NULL,
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  endpoint text NOT NULL,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (captain_id, endpoint)
+);
+
+CREATE INDEX idx_push_subscriptions_league_id ON push_subscriptions(league_id);
+
+-- Server-only: written by the functions below, read by send-push
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON push_subscriptions FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION save_push_subscription(
+  p_league_id uuid,
+  p_token uuid,
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_captain_id uuid;
+BEGIN
+  SELECT id INTO v_captain_id
+  FROM captains
+  WHERE league_id = p_league_id AND access_token = p_token;
+
+  IF v_captain_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid captain token';
+  END IF;
+  IF p_endpoint NOT LIKE 'https://%' OR length(p_endpoint) > 2048 THEN
+    RAISE EXCEPTION 'Invalid push endpoint';
+  END IF;
+
+  INSERT INTO push_subscriptions (captain_id, league_id, endpoint, p256dh, auth)
+  VALUES (v_captain_id, p_league_id, p_endpoint, p_p256dh, p_auth)
+  ON CONFLICT (captain_id, endpoint)
+  DO UPDATE SET p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_push_subscription(uuid, uuid, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_push_subscription(uuid, uuid, text, text, text)
+  TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION delete_push_subscription(p_league_id uuid, p_token uuid, p_endpoint text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_captain_id uuid;
+BEGIN
+  SELECT id INTO v_captain_id
+  FROM captains
+  WHERE league_id = p_league_id AND access_token = p_token;
+
+  IF v_captain_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid captain token';
+  END IF;
+
+  DELETE FROM push_subscriptions
+  WHERE captain_id = v_captain_id AND endpoint = p_endpoint;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_push_subscription(uuid, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION delete_push_subscription(uuid, uuid, text) TO anon, authenticated;
+
+-- ============================================
+-- 2. Pushes when the clock restarts
+-- ============================================
+
+-- Same conditions as schedule_auto_pick_timer() for a new clock. Skipped when
+-- nobody in the league is subscribed, so most leagues never call out.
+CREATE OR REPLACE FUNCTION send_pick_push_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  push_url TEXT;
+  callback_secret TEXT;
+BEGIN
+  IF NEW.status != 'in_progress' THEN RETURN NEW; END IF;
+  IF NEW.current_pick_started_at IS NULL THEN RETURN NEW; END IF;
+  IF NEW.draft_type = 'auction' THEN RETURN NEW; END IF;
+  IF NEW.current_pick_started_at IS NOT DISTINCT FROM OLD.current_pick_started_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM push_subscriptions WHERE league_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT decrypted_secret INTO push_url
+  FROM vault.decrypted_secrets WHERE name = 'send_push_function_url';
+
+  SELECT decrypted_secret INTO callback_secret
+  FROM vault.decrypted_secrets WHERE name = 'auto_pick_cron_secret';
+
+  -- If vault secrets aren't configured yet, skip silently
+  IF push_url IS NULL OR callback_secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := push_url,
+    body := jsonb_build_object(
+      'leagueId', NEW.id::text,
+      'pickIndex', NEW.current_pick_index
+    ),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', callback_secret
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER send_pick_push_notifications_on_clock_start
+  AFTER UPDATE OF current_pick_started_at ON leagues
+  FOR EACH ROW
+  EXECUTE FUNCTION send_pick_push_notifications();
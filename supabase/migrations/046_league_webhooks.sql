@@ -0,0 +1,331 @@
+-- Migration 046: Outbound league webhooks
+--
+-- Managers register HTTPS URLs per league (league_webhooks) and choose which
+-- events each one receives. Events come from draft_events (migration 039), so
+-- every path that changes the draft is covered, including the client's
+-- start/pause/resume:
+--
+--   pick_made, auto_pick_made, draft_started, draft_paused, draft_resumed,
+--   draft_completed, draft_restarted
+--
+-- Delivery is queued: a trigger on draft_events only inserts a
+-- webhook_deliveries row per subscribed webhook and asks the deliver-webhooks
+-- edge function (through pg_net, after commit) to work the queue. Nothing is
+-- sent inside make-pick or record_pick(), so a slow receiver can't slow a pick
+-- down. The edge function signs each payload with the webhook's secret (HMAC
+-- SHA-256), retries failures with backoff, and logs every attempt in
+-- webhook_delivery_attempts. A pg_cron job picks up retries as they come due.
+--
+-- Requires the vault secret deliver_webhooks_function_url;
+-- auto_pick_cron_secret (migration 020) authenticates the call.
+
+-- ============================================
+-- 1. Webhooks
+-- ============================================
+
+CREATE TABLE league_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  url text NOT NULL CHECK (url ~ '^https://' AND length(url) <= 2048),
+  events text[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY[
+      'pick_made', 'auto_pick_made', 'draft_started', 'draft_paused',
+      'draft_resumed', 'draft_completed', 'draft_restarted'
+    ]
+  ),
+  -- Shared with the receiver to verify signatures
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_league_webhooks_league_id ON league_webhooks(league_id);
+
+ALTER TABLE league_webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view webhooks"
+  ON league_webhooks FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = league_webhooks.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Managers can insert webhooks"
+  ON league_webhooks FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = league_webhooks.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Managers can update webhooks"
+  ON league_webhooks FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = league_webhooks.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = league_webhooks.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Managers can delete webhooks"
+  ON league_webhooks FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = league_webhooks.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+REVOKE ALL ON league_webhooks FROM anon;
+
+-- ============================================
+-- 2. Delivery queue and attempt log
+-- ============================================
+
+CREATE TABLE webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid REFERENCES league_webhooks(id) ON DELETE CASCADE NOT NULL,
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  -- While pending: when the next attempt is due (pushed out while one is in flight)
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX idx_webhook_deliveries_webhook_id_created_at
+  ON webhook_deliveries(webhook_id, created_at DESC);
+
+CREATE TABLE webhook_delivery_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid REFERENCES webhook_deliveries(id) ON DELETE CASCADE NOT NULL,
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  attempt integer NOT NULL,
+  -- NULL when the request failed before a response (timeout, DNS, refused)
+  status_code integer,
+  error text,
+  duration_ms integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_delivery_attempts_delivery_id
+  ON webhook_delivery_attempts(delivery_id);
+
+-- Managers can read their league's deliveries; only deliver-webhooks writes them
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = webhook_deliveries.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Managers can view webhook delivery attempts"
+  ON webhook_delivery_attempts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = webhook_delivery_attempts.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+REVOKE ALL ON webhook_deliveries, webhook_delivery_attempts FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON webhook_deliveries, webhook_delivery_attempts FROM authenticated;
+
+-- ============================================
+-- 3. Waking the edge function
+-- ============================================
+
+-- Asks deliver-webhooks to work the queue if anything is due. Called by the
+-- enqueue trigger and by pg_cron for retries. pg_net sends after commit, so
+-- the function sees the new rows.
+CREATE OR REPLACE FUNCTION dispatch_webhook_deliveries()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deliver_url TEXT;
+  callback_secret TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO deliver_url
+  FROM vault.decrypted_secrets WHERE name = 'deliver_webhooks_function_url';
+
+  SELECT decrypted_secret INTO callback_secret
+  FROM vault.decrypted_secrets WHERE name = 'auto_pick_cron_secret';
+
+  -- If vault secrets aren't configured yet, skip silently
+  IF deliver_url IS NULL OR callback_secret IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := deliver_url,
+    body := '{}'::jsonb,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', callback_secret
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION dispatch_webhook_deliveries() FROM PUBLIC, anon, authenticated;
+
+-- Hands deliver-webhooks up to p_limit due deliveries with their webhook's URL
+-- and secret. Claimed rows are pushed 2 minutes out (longer than a request can
+-- take), so overlapping runs don't send the same delivery twice.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit integer)
+RETURNS TABLE (
+  id uuid,
+  league_id uuid,
+  event text,
+  payload jsonb,
+  attempts integer,
+  url text,
+  secret text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    WHERE d.status = 'pending' AND d.next_attempt_at <= now()
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE webhook_deliveries d
+    SET attempts = d.attempts + 1,
+        next_attempt_at = now() + interval '2 minutes'
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.webhook_id, d.league_id, d.event, d.payload, d.attempts
+  )
+  SELECT c.id, c.league_id, c.event, c.payload, c.attempts, w.url, w.secret
+  FROM claimed c
+  JOIN league_webhooks w ON w.id = c.webhook_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. Queueing draft events
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enqueue_webhook_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event text;
+  v_payload jsonb;
+BEGIN
+  v_event := CASE NEW.event_type
+    WHEN 'pick' THEN 'pick_made'
+    WHEN 'auto_pick' THEN 'auto_pick_made'
+    WHEN 'start' THEN 'draft_started'
+    WHEN 'pause' THEN 'draft_paused'
+    WHEN 'resume' THEN 'draft_resumed'
+    WHEN 'complete' THEN 'draft_completed'
+    WHEN 'restart' THEN 'draft_restarted'
+  END;
+
+  IF v_event IS NULL OR NOT EXISTS (
+    SELECT 1 FROM league_webhooks
+    WHERE league_id = NEW.league_id AND enabled AND v_event = ANY(events)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Names are captured now: the receiver gets the draft as it was at the event
+  SELECT jsonb_build_object(
+    'event', v_event,
+    'occurredAt', NEW.created_at,
+    'league', jsonb_build_object('id', l.id, 'name', l.name),
+    'pickNumber', NEW.pick_number,
+    'captain', (
+      SELECT jsonb_build_object('id', c.id, 'name', c.name, 'teamName', c.team_name)
+      FROM captains c WHERE c.id = NEW.captain_id
+    ),
+    'player', (
+      SELECT jsonb_build_object('id', p.id, 'name', p.name)
+      FROM players p WHERE p.id = NEW.player_id
+    )
+  )
+  INTO v_payload
+  FROM leagues l
+  WHERE l.id = NEW.league_id;
+
+  INSERT INTO webhook_deliveries (webhook_id, league_id, event, payload)
+  SELECT w.id, NEW.league_id, v_event, v_payload
+  FROM league_webhooks w
+  WHERE w.league_id = NEW.league_id AND w.enabled AND v_event = ANY(w.events);
+
+  PERFORM dispatch_webhook_deliveries();
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER enqueue_webhook_deliveries_on_draft_event
+  AFTER INSERT ON draft_events
+  FOR EACH ROW
+  EXECUTE FUNCTION enqueue_webhook_deliveries();
+
+-- ============================================
+-- 5. pg_cron picks up retries
+-- ============================================
+
+SELECT cron.schedule(
+  'dispatch-webhook-deliveries',
+  '* * * * *',
+  $$SELECT dispatch_webhook_deliveries()$$
+);
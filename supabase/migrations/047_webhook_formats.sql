@@ -0,0 +1,151 @@
+-- Migration 047: Chat formats for webhook deliveries
+--
+-- Raw event JSON (migration 046) is only useful to people who write their own
+-- receiver. Each webhook can now pick a format: 'raw' keeps the event JSON,
+-- while 'slack' and 'discord' send a message their incoming webhooks accept
+-- (Slack blocks in a colored attachment, a Discord embed). Messages use the
+-- captain's team color and photo and the player's photo, and can list the
+-- player's custom field values (include_custom_fields).
+--
+-- Deliveries are formatted when they are sent, by formatWebhookBody() in
+-- supabase/functions/_shared/webhookFormats.ts, so the queued payload gains
+-- the colors, photos and custom fields the formats need.
+
+-- ============================================
+-- 1. Settings
+-- ============================================
+
+ALTER TABLE league_webhooks
+  ADD COLUMN format text NOT NULL DEFAULT 'raw' CHECK (format IN ('raw', 'slack', 'discord')),
+  ADD COLUMN include_custom_fields boolean NOT NULL DEFAULT false;
+
+-- ============================================
+-- 2. Richer queued payloads
+-- ============================================
+
+-- Same as migration 046, plus team color and photo, player photo and custom
+-- fields in the payload.
+CREATE OR REPLACE FUNCTION enqueue_webhook_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event text;
+  v_payload jsonb;
+BEGIN
+  v_event := CASE NEW.event_type
+    WHEN 'pick' THEN 'pick_made'
+    WHEN 'auto_pick' THEN 'auto_pick_made'
+    WHEN 'start' THEN 'draft_started'
+    WHEN 'pause' THEN 'draft_paused'
+    WHEN 'resume' THEN 'draft_resumed'
+    WHEN 'complete' THEN 'draft_completed'
+    WHEN 'restart' THEN 'draft_restarted'
+  END;
+
+  IF v_event IS NULL OR NOT EXISTS (
+    SELECT 1 FROM league_webhooks
+    WHERE league_id = NEW.league_id AND enabled AND v_event = ANY(events)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Names are captured now: the receiver gets the draft as it was at the event
+  SELECT jsonb_build_object(
+    'event', v_event,
+    'occurredAt', NEW.created_at,
+    'league', jsonb_build_object('id', l.id, 'name', l.name),
+    'pickNumber', NEW.pick_number,
+    'captain', (
+      SELECT jsonb_build_object(
+        'id', c.id,
+        'name', c.name,
+        'teamName', c.team_name,
+        'teamColor', c.team_color,
+        'teamPhotoUrl', c.team_photo_url
+      )
+      FROM captains c WHERE c.id = NEW.captain_id
+    ),
+    'player', (
+      SELECT jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'photoUrl', p.profile_picture_url,
+        -- Sent only to webhooks with include_custom_fields (deliver-webhooks strips them)
+        'customFields', coalesce((
+          SELECT jsonb_agg(
+            jsonb_build_object('name', f.field_name, 'value', f.field_value)
+            ORDER BY f.field_order
+          )
+          FROM player_custom_fields f WHERE f.player_id = p.id
+        ), '[]'::jsonb)
+      )
+      FROM players p WHERE p.id = NEW.player_id
+    )
+  )
+  INTO v_payload
+  FROM leagues l
+  WHERE l.id = NEW.league_id;
+
+  INSERT INTO webhook_deliveries (webhook_id, league_id, event, payload)
+  SELECT w.id, NEW.league_id, v_event, v_payload
+  FROM league_webhooks w
+  WHERE w.league_id = NEW.league_id AND w.enabled AND v_event = ANY(w.events);
+
+  PERFORM dispatch_webhook_deliveries();
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================
+-- 3. Claiming returns the format
+-- ============================================
+
+-- Same as migration 046, plus the webhook's format settings. The result
+-- columns changed, so the function has to be dropped first.
+DROP FUNCTION claim_webhook_deliveries(integer);
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit integer)
+RETURNS TABLE (
+  id uuid,
+  league_id uuid,
+  event text,
+  payload jsonb,
+  attempts integer,
+  url text,
+  secret text,
+  format text,
+  include_custom_fields boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    WHERE d.status = 'pending' AND d.next_attempt_at <= now()
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE webhook_deliveries d
+    SET attempts = d.attempts + 1,
+        next_attempt_at = now() + interval '2 minutes'
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.webhook_id, d.league_id, d.event, d.payload, d.attempts
+  )
+  SELECT c.id, c.league_id, c.event, c.payload, c.attempts, w.url, w.secret,
+         w.format, w.include_custom_fields
+  FROM claimed c
+  JOIN league_webhooks w ON w.id = c.webhook_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer) FROM PUBLIC, anon, authenticated;
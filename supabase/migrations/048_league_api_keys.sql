@@ -0,0 +1,156 @@
+-- Migration 048: Read-only public API keys
+--
+-- Managers create API keys per league (league_api_keys) so their own sites
+-- and stats sheets can read the league's results from the public-api edge
+-- function instead of scraping the Summary page:
+--
+--   GET /functions/v1/public-api/v1/league
+--   Authorization: Bearer drk_...
+--
+-- A key only ever reads the one league it was created for. The key itself is
+-- shown once, when it's created; only its SHA-256 hash is stored, plus a short
+-- prefix so managers can tell keys apart. Revoking a key keeps the row (with
+-- revoked_at set) so the manager can still see when it was last used.
+
+-- ============================================
+-- 1. Keys
+-- ============================================
+
+CREATE TABLE league_api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  league_id uuid REFERENCES leagues(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 50),
+  -- First characters of the key, shown in the key list
+  key_prefix text NOT NULL,
+  -- Hex SHA-256 of the full key
+  key_hash text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX idx_league_api_keys_league_id ON league_api_keys(league_id);
+
+ALTER TABLE league_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view API keys"
+  ON league_api_keys FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM leagues
+      WHERE leagues.id = league_api_keys.league_id
+      AND leagues.manager_id = (select auth.uid())
+    )
+  );
+
+-- Keys are created and revoked through the RPCs below; the hash never leaves
+-- the database
+REVOKE ALL ON league_api_keys FROM anon, authenticated;
+GRANT SELECT (id, league_id, name, key_prefix, created_at, last_used_at, revoked_at)
+  ON league_api_keys TO authenticated;
+
+-- ============================================
+-- 2. Creating and revoking keys
+-- ============================================
+
+-- Returns the new key. This is the only time it's available in full.
+CREATE OR REPLACE FUNCTION create_league_api_key(p_league_id uuid, p_name text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM leagues WHERE id = p_league_id AND manager_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: not the league manager';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM league_api_keys
+    WHERE league_id = p_league_id AND revoked_at IS NULL
+  ) >= 10 THEN
+    RAISE EXCEPTION 'A league can have at most 10 active API keys';
+  END IF;
+
+  v_key := 'drk_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO league_api_keys (league_id, name, key_prefix, key_hash)
+  VALUES (
+    p_league_id,
+    trim(p_name),
+    left(v_key, 12),
+    encode(sha256(convert_to(v_key, 'UTF8')), 'hex')
+  );
+
+  RETURN v_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_league_api_key(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_league_api_key(uuid, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_league_api_key(p_key_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE league_api_keys k
+  SET revoked_at = now()
+  FROM leagues l
+  WHERE k.id = p_key_id
+    AND k.revoked_at IS NULL
+    AND l.id = k.league_id
+    AND l.manager_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API key not found';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revoke_league_api_key(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_league_api_key(uuid) TO authenticated;
+
+-- ============================================
+-- 3. Authenticating requests
+-- ============================================
+
+-- Called by public-api with the hash of the presented key. Returns the key's
+-- league, or NULL for an unknown or revoked key. last_used_at is only written
+-- once a minute so a busy key doesn't update its row on every request.
+CREATE OR REPLACE FUNCTION authenticate_league_api_key(p_key_hash text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key_id uuid;
+  v_league_id uuid;
+  v_last_used_at timestamptz;
+BEGIN
+  SELECT id, league_id, last_used_at INTO v_key_id, v_league_id, v_last_used_at
+  FROM league_api_keys
+  WHERE key_hash = p_key_hash AND revoked_at IS NULL;
+
+  IF v_key_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_last_used_at IS NULL OR v_last_used_at < now() - interval '1 minute' THEN
+    UPDATE league_api_keys SET last_used_at = now() WHERE id = v_key_id;
+  END IF;
+
+  RETURN v_league_id;
+END;
+$$;
+
+-- Internal: only the edge function (service role) authenticates keys
+REVOKE EXECUTE ON FUNCTION authenticate_league_api_key(text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,224 @@
+-- Migration 049: pg_cron fallback picks go through record_pick()
+--
+-- process_expired_timers() still wrote its picks itself: it inserted the pick,
+-- assigned the player, cleared queues, checked for completion, advanced the
+-- league and counted the timeout, a copy of record_pick() (migration 034)
+-- that each change to the pick rules had to repeat. It now only decides
+-- whether the captain on the clock is due a pick and which player they get,
+-- then calls record_pick() like the edge functions do. record_pick() locks the
+-- league row and raises if the draft moved on, so a client picking at the same
+-- time makes the cron pick fail cleanly instead of being rolled back by hand.
+
+-- ============================================
+-- 1. pg_cron fallback picks
+-- ============================================
+
+-- Same as migration 044, but the pick is recorded by record_pick(), which also
+-- counts the timeout when the captain let their timer run out.
+CREATE OR REPLACE FUNCTION process_expired_timers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  current_cap RECORD;
+  selected_player RECORD;
+  from_queue BOOLEAN;
+  from_strategy BOOLEAN;
+  from_board BOOLEAN;
+  strategy_player_id UUID;
+  is_complete BOOLEAN;
+  new_pick_num INT;
+  elapsed_seconds NUMERIC;
+  had_auto_pick BOOLEAN;
+  disconnected BOOLEAN;
+  policy_action TEXT;
+BEGIN
+  -- Advisory lock prevents concurrent cron runs from overlapping
+  IF NOT pg_try_advisory_lock(hashtext('process_expired_timers')) THEN
+    RETURN;
+  END IF;
+
+  PERFORM start_scheduled_drafts();
+
+  FOR league_rec IN
+    SELECT id, current_pick_index, time_limit_seconds,
+           current_pick_started_at, timer_mode, time_bank_seconds,
+           current_pick_extension_seconds, auto_pick_strategy
+    FROM leagues
+    WHERE status = 'in_progress'
+      AND current_pick_started_at IS NOT NULL
+      AND draft_type <> 'auction'
+  LOOP
+    elapsed_seconds := EXTRACT(EPOCH FROM (now() - league_rec.current_pick_started_at));
+
+    -- Find the captain on the clock (same logic as getCurrentCaptainId()
+    -- in supabase/functions/_shared/draftOrder.ts)
+    SELECT * INTO current_cap
+    FROM captains
+    WHERE id = get_pick_captain_id(league_rec.id, league_rec.current_pick_index);
+
+    IF current_cap IS NULL THEN CONTINUE; END IF;
+
+    disconnected := NOT current_cap.auto_pick_enabled
+      AND coalesce(is_captain_disconnected(league_rec.id, current_cap.id), false);
+
+    -- Determine if we should trigger auto-pick:
+    -- - Auto-pick captains: trigger after 10s (gives clients time to handle it)
+    -- - Disconnected captains: trigger now (the disconnect delay has passed)
+    -- - Normal captains: trigger after timer expires + 5s grace period
+    IF current_cap.auto_pick_enabled THEN
+      IF elapsed_seconds < 10 THEN CONTINUE; END IF;
+    ELSIF NOT disconnected THEN
+      -- Time added by timeouts doesn't count against the limit
+      elapsed_seconds := elapsed_seconds - league_rec.current_pick_extension_seconds;
+      IF league_rec.timer_mode = 'time_bank' THEN
+        IF elapsed_seconds < (
+          COALESCE(current_cap.time_bank_remaining_seconds, league_rec.time_bank_seconds) + 5
+        ) THEN CONTINUE; END IF;
+      ELSE
+        IF league_rec.time_limit_seconds <= 0 THEN CONTINUE; END IF;
+        IF elapsed_seconds < (league_rec.time_limit_seconds + 5) THEN CONTINUE; END IF;
+      END IF;
+    END IF;
+
+    had_auto_pick := current_cap.auto_pick_enabled;
+
+    -- A captain at the league's consecutive-timeout limit may have their turn
+    -- skipped or the draft paused instead of a pick
+    IF NOT had_auto_pick AND NOT disconnected THEN
+      BEGIN
+        policy_action := apply_timeout_policy(
+          league_rec.id, league_rec.current_pick_index, current_cap.id
+        );
+      EXCEPTION WHEN raise_exception THEN
+        -- Another client moved the draft on
+        CONTINUE;
+      END;
+
+      IF policy_action IS NOT NULL THEN
+        INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+        VALUES (
+          'timeout_policy_applied',
+          league_rec.id,
+          'system',
+          jsonb_build_object(
+            'pickNumber', league_rec.current_pick_index + 1,
+            'captainId', current_cap.id,
+            'captainName', current_cap.name,
+            'policyAction', policy_action,
+            'timeouts', current_cap.consecutive_timeout_picks + 1,
+            'source', 'pg_cron'
+          )
+        );
+        CONTINUE;
+      END IF;
+    END IF;
+    from_queue := false;
+    from_strategy := false;
+    from_board := false;
+
+    -- Try captain's draft queue first (same as selectPlayer() in auto-pick edge fn)
+    SELECT p.* INTO selected_player
+    FROM captain_draft_queues q
+    JOIN players p ON p.id = q.player_id
+    WHERE q.captain_id = current_cap.id
+      AND p.league_id = league_rec.id
+      AND p.drafted_by_captain_id IS NULL
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = league_rec.id
+          AND c.player_id IS NOT NULL
+      )
+      AND fits_roster_slots(league_rec.id, current_cap.id, p.id)
+    ORDER BY q.position ASC
+    LIMIT 1;
+
+    IF selected_player IS NOT NULL THEN
+      from_queue := true;
+    ELSE
+      -- Then the captain's auto-pick strategy (same as chooseByStrategy() in
+      -- the auto-pick edge function)
+      strategy_player_id := auto_pick_strategy_player(league_rec.id, current_cap.id);
+
+      IF strategy_player_id IS NOT NULL THEN
+        SELECT p.* INTO selected_player FROM players p WHERE p.id = strategy_player_id;
+        from_strategy := true;
+      ELSE
+        -- Then the big board, then a random pick (same as the edge function
+        -- fallback). Players that fit an open slot come first; anyone goes once
+        -- none do.
+        SELECT p.* INTO selected_player
+        FROM players p
+        WHERE p.league_id = league_rec.id
+          AND p.drafted_by_captain_id IS NULL
+          AND p.id NOT IN (
+            SELECT c.player_id FROM captains c
+            WHERE c.league_id = league_rec.id
+              AND c.player_id IS NOT NULL
+          )
+        ORDER BY fits_roster_slots(league_rec.id, current_cap.id, p.id) DESC,
+                 p.board_rank ASC NULLS LAST,
+                 random()
+        LIMIT 1;
+
+        from_board := selected_player.board_rank IS NOT NULL;
+      END IF;
+    END IF;
+
+    IF selected_player IS NULL THEN CONTINUE; END IF;
+
+    new_pick_num := league_rec.current_pick_index + 1;
+
+    -- Record the pick, assign the player, clear queues, count the timeout and
+    -- advance (or complete) the league in one step
+    BEGIN
+      is_complete := record_pick(
+        p_league_id => league_rec.id,
+        p_pick_index => league_rec.current_pick_index,
+        p_captain_id => current_cap.id,
+        p_player_id => selected_player.id,
+        p_is_auto_pick => true,
+        p_timer_expiry => NOT had_auto_pick AND NOT disconnected
+      );
+    EXCEPTION WHEN raise_exception OR unique_violation THEN
+      -- Another client picked or moved the draft on first
+      CONTINUE;
+    END;
+
+    -- Audit log
+    INSERT INTO audit_logs (action, league_id, actor_type, metadata)
+    VALUES (
+      'auto_pick_made',
+      league_rec.id,
+      'system',
+      jsonb_build_object(
+        'pickNumber', new_pick_num,
+        'playerId', selected_player.id,
+        'playerName', selected_player.name,
+        'captainId', current_cap.id,
+        'captainName', current_cap.name,
+        'isComplete', is_complete,
+        'fromQueue', from_queue,
+        'strategy', coalesce(
+          current_cap.auto_pick_strategy ->> 'type',
+          league_rec.auto_pick_strategy ->> 'type',
+          'random'
+        ),
+        'fromStrategy', from_strategy,
+        'fromBoard', from_board,
+        'timerExpiry', NOT had_auto_pick AND NOT disconnected,
+        'disconnected', disconnected,
+        'source', 'pg_cron'
+      )
+    );
+
+    RAISE LOG 'process_expired_timers: auto-picked % for % in league % (pick %)',
+      selected_player.name, current_cap.name, league_rec.id, new_pick_num;
+  END LOOP;
+
+  PERFORM pg_advisory_unlock(hashtext('process_expired_timers'));
+END;
+$$;
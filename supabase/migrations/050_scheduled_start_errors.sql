@@ -0,0 +1,202 @@
+-- Migration 050: Scheduled starts can't break the pg_cron run
+--
+-- start_scheduled_drafts() runs first in process_expired_timers(). A league
+-- whose start raised (e.g. place_keeper_picks() finding no pick for a keeper)
+-- aborted the whole run, so every other league lost its fallback auto-picks
+-- each minute until the 15-minute scheduling window passed. Each league now
+-- starts in its own subtransaction; a failure is logged as
+-- scheduled_start_skipped with the error and the other leagues carry on.
+--
+-- get_draft_start_blockers() also gets the keeper check the draft page's
+-- readiness checklist blocks on, so neither the scheduled start nor the
+-- all-ready start in set_captain_ready() tries a league its keepers would
+-- keep from starting.
+
+-- ============================================
+-- 1. Start checks
+-- ============================================
+
+-- Same as migration 044, plus 'keepers': a keeper in an auction league, or a
+-- keeper whose captain has no pick in the keeper's round (same as the Keepers
+-- check in DraftReadinessChecklist and place_keeper_picks()).
+CREATE OR REPLACE FUNCTION get_draft_start_blockers(p_league_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  blockers text[] := '{}';
+  captain_count INT;
+  available_count INT;
+  total_picks INT;
+  keeper RECORD;
+  has_pick BOOLEAN;
+  pick_idx INT;
+BEGIN
+  SELECT count(*) INTO captain_count FROM captains WHERE league_id = p_league_id;
+  SELECT count(*) INTO available_count
+  FROM players p
+  WHERE p.league_id = p_league_id
+    AND p.drafted_by_captain_id IS NULL
+    AND p.keeper_captain_id IS NULL
+    AND p.id NOT IN (
+      SELECT c.player_id FROM captains c
+      WHERE c.league_id = p_league_id
+        AND c.player_id IS NOT NULL
+    );
+
+  IF captain_count < 2 THEN
+    blockers := blockers || 'captains';
+  END IF;
+  IF available_count < captain_count THEN
+    blockers := blockers || 'players';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM leagues l
+    WHERE l.id = p_league_id
+      AND l.require_ready_check
+      AND EXISTS (SELECT 1 FROM captains c WHERE c.league_id = l.id AND NOT c.is_ready)
+  ) THEN
+    blockers := blockers || 'ready';
+  END IF;
+
+  IF captain_count >= 2 THEN
+    -- Every player not linked to a captain fills one pick
+    SELECT count(*) INTO total_picks
+    FROM players p
+    WHERE p.league_id = p_league_id
+      AND p.id NOT IN (
+        SELECT c.player_id FROM captains c
+        WHERE c.league_id = p_league_id AND c.player_id IS NOT NULL
+      );
+
+    FOR keeper IN
+      SELECT p.keeper_captain_id, p.keeper_round, l.draft_type
+      FROM players p
+      JOIN leagues l ON l.id = p.league_id
+      WHERE p.league_id = p_league_id
+        AND p.keeper_captain_id IS NOT NULL
+        AND p.drafted_by_captain_id IS NULL
+    LOOP
+      IF keeper.draft_type = 'auction' THEN
+        blockers := blockers || 'keepers';
+        EXIT;
+      END IF;
+
+      has_pick := false;
+      FOR pick_idx IN
+        (keeper.keeper_round - 1) * captain_count
+        .. LEAST(keeper.keeper_round * captain_count, total_picks) - 1
+      LOOP
+        IF get_pick_captain_id(p_league_id, pick_idx) = keeper.keeper_captain_id THEN
+          has_pick := true;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      IF NOT has_pick THEN
+        blockers := blockers || 'keepers';
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN blockers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_draft_start_blockers(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 2. Scheduled starts
+-- ============================================
+
+-- Same as migration 044, but a league that fails to start is rolled back and
+-- logged as skipped with the error instead of aborting the run.
+CREATE OR REPLACE FUNCTION start_scheduled_drafts()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_rec RECORD;
+  blockers text[];
+BEGIN
+  FOR league_rec IN
+    SELECT l.id, l.scheduled_start_at
+    FROM leagues l
+    WHERE l.status = 'not_started'
+      AND l.scheduled_start_at <= now()
+      AND l.scheduled_start_at > now() - interval '15 minutes'
+      AND NOT EXISTS (
+        SELECT 1 FROM audit_logs a
+        WHERE a.league_id = l.id
+          AND a.action IN ('draft_auto_started', 'scheduled_start_skipped')
+          AND a.metadata->'scheduledStartAt' = to_jsonb(l.scheduled_start_at)
+      )
+    FOR UPDATE OF l SKIP LOCKED
+  LOOP
+    blockers := get_draft_start_blockers(league_rec.id);
+
+    IF cardinality(blockers) > 0 THEN
+      INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+      VALUES (
+        'scheduled_start_skipped',
+        league_rec.id,
+        'system',
+        NULL,
+        jsonb_build_object(
+          'scheduledStartAt', league_rec.scheduled_start_at,
+          'blockers', to_jsonb(blockers)
+        )
+      );
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      -- Same as starting from the draft page
+      UPDATE leagues
+      SET status = 'in_progress',
+          current_pick_index = 0,
+          current_pick_started_at = now()
+      WHERE id = league_rec.id;
+    EXCEPTION WHEN OTHERS THEN
+      INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+      VALUES (
+        'scheduled_start_skipped',
+        league_rec.id,
+        'system',
+        NULL,
+        jsonb_build_object(
+          'scheduledStartAt', league_rec.scheduled_start_at,
+          'blockers', '[]'::jsonb,
+          'error', SQLERRM
+        )
+      );
+      RAISE LOG 'start_scheduled_drafts: failed to start league %: %', league_rec.id, SQLERRM;
+      CONTINUE;
+    END;
+
+    INSERT INTO audit_logs (action, league_id, actor_type, actor_id, metadata)
+    VALUES (
+      'draft_auto_started',
+      league_rec.id,
+      'system',
+      NULL,
+      jsonb_build_object(
+        'reason', 'scheduled',
+        'scheduledStartAt', league_rec.scheduled_start_at,
+        'captainCount', (SELECT count(*) FROM captains WHERE league_id = league_rec.id)
+      )
+    );
+
+    RAISE LOG 'start_scheduled_drafts: started league % (scheduled for %)',
+      league_rec.id, league_rec.scheduled_start_at;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_scheduled_drafts() FROM PUBLIC, anon, authenticated;
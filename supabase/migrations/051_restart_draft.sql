@@ -0,0 +1,113 @@
+-- Migration 051: Restart the draft in one transaction
+--
+-- restart-draft reset the league with a dozen separate writes from the edge
+-- function and only tried to undo the first two by hand, so a failure part
+-- way left the league half reset with its trade history gone. It also wiped
+-- every trade, including pick trades the captains agreed before the draft
+-- started. restart_draft() does the whole reset in one transaction and keeps
+-- what was settled before the draft started:
+--
+-- - Trades resolved (or proposed and still pending) before the latest start
+--   are kept; trades from during the draft are deleted.
+-- - pick_ownership is rebuilt from the kept accepted trades, in the order
+--   they were accepted, so a pick traded before the draft and again during it
+--   goes back to its pre-draft owner.
+
+-- ============================================
+-- 1. Restart
+-- ============================================
+
+-- Returns the paused league to not_started: picks removed, players back in
+-- the pool, queues, auction nominations and in-draft trades cleared, and every
+-- captain's timeout counter, auto-pick, time bank, timeouts and ready state
+-- reset. Raises if the draft isn't paused.
+CREATE OR REPLACE FUNCTION restart_draft(p_league_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  league_status TEXT;
+  draft_started_at TIMESTAMPTZ;
+  trade_rec RECORD;
+BEGIN
+  SELECT status INTO league_status
+  FROM leagues
+  WHERE id = p_league_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR league_status <> 'paused' THEN
+    RAISE EXCEPTION 'Draft must be paused to restart';
+  END IF;
+
+  -- The draft being restarted began at its latest start event
+  SELECT max(created_at) INTO draft_started_at
+  FROM draft_events
+  WHERE league_id = p_league_id AND event_type = 'start';
+
+  DELETE FROM draft_picks WHERE league_id = p_league_id;
+
+  UPDATE players
+  SET drafted_by_captain_id = NULL,
+      draft_pick_number = NULL
+  WHERE league_id = p_league_id;
+
+  DELETE FROM captain_draft_queues
+  WHERE captain_id IN (SELECT id FROM captains WHERE league_id = p_league_id);
+
+  -- Bids cascade
+  DELETE FROM auction_nominations WHERE league_id = p_league_id;
+
+  -- Items cascade; ownership from these trades is rebuilt below
+  DELETE FROM trades
+  WHERE league_id = p_league_id
+    AND (
+      draft_started_at IS NULL
+      OR coalesce(resolved_at, created_at) >= draft_started_at
+    );
+
+  DELETE FROM pick_ownership WHERE league_id = p_league_id;
+
+  -- Same ownership moves as execute_trade(), replayed for the kept trades
+  FOR trade_rec IN
+    SELECT id, proposer_captain_id, recipient_captain_id
+    FROM trades
+    WHERE league_id = p_league_id AND status = 'accepted'
+    ORDER BY resolved_at, created_at
+  LOOP
+    INSERT INTO pick_ownership (league_id, pick_number, captain_id, trade_id)
+    SELECT
+      p_league_id,
+      i.pick_number,
+      CASE
+        WHEN i.from_captain_id = trade_rec.proposer_captain_id
+          THEN trade_rec.recipient_captain_id
+        ELSE trade_rec.proposer_captain_id
+      END,
+      trade_rec.id
+    FROM trade_items i
+    WHERE i.trade_id = trade_rec.id AND i.pick_number IS NOT NULL
+    ON CONFLICT (league_id, pick_number) DO UPDATE
+    SET captain_id = EXCLUDED.captain_id,
+        trade_id = EXCLUDED.trade_id,
+        updated_at = now();
+  END LOOP;
+
+  UPDATE captains
+  SET consecutive_timeout_picks = 0,
+      auto_pick_enabled = false,
+      time_bank_remaining_seconds = NULL,
+      timeouts_used = 0,
+      is_ready = false
+  WHERE league_id = p_league_id;
+
+  UPDATE leagues
+  SET status = 'not_started',
+      current_pick_index = 0,
+      current_pick_started_at = NULL
+  WHERE id = p_league_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION restart_draft(uuid) FROM PUBLIC, anon, authenticated;